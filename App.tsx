@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { ViewState, UserPreferences, Summary, Note, RoutineTask, UserStats, Flashcard, NoteElement, UserRole } from './types';
-import { ViewState, UserPreferences, Summary, Note, RoutineTask, UserStats, Flashcard, NoteElement, Folder, UserRole } from './types';
+import { ViewState, UserPreferences, Summary, Note, RoutineTask, UserStats, Flashcard, NoteElement, Folder, UserRole, Block } from './types';
 import { StorageService } from './services/storageService';
 import { auth, isFirebaseConfigured } from './firebaseConfig';
 import { onAuthStateChanged, signInWithEmailAndPassword, createUserWithEmailAndPassword, signOut } from 'firebase/auth';
@@ -10,6 +10,11 @@ import { initializeSecureKeys } from './services/secureKeyManager';
 import logger from './services/securityLogger';
 import { ThemeProvider } from './contexts/ThemeContext';
 import Sidebar from './components/Sidebar';
+import AIStatusBanner from './components/AIStatusBanner';
+import AskNotes from './pages/AskNotes';
+import AIUsage from './pages/AIUsage';
+import Review from './pages/Review';
+import Decks from './pages/Decks';
 import Landing from './pages/Landing';
 import Dashboard from './pages/Dashboard';
 import Summarizer from './pages/Summarizer';
@@ -22,6 +27,10 @@ import NotesStore from './pages/NotesStore';
 import Classrooms from './pages/Classrooms';
 import RoleSelection from './components/RoleSelection';
 import { AlertCircle, LogIn, X, Loader2 } from 'lucide-react';
+import { markdownToBlocks } from './utils/markdownBlocks';
+import { createFlashcardDeck } from './components/canvas/utils';
+import { FlashcardDeckShape, Shape } from './components/canvas/types';
+import { subscribeToBatchResults } from './services/batchSummaryService';
 
 const App: React.FC = () => {
     const [view, setView] = useState<ViewState>('landing');
@@ -152,6 +161,9 @@ const App: React.FC = () => {
     string | null | undefined
   >(undefined);
 
+  // Note and block to open when jumping in from an Ask My Notes citation
+  const [noteFocus, setNoteFocus] = useState<{ noteId: string; blockId?: string } | null>(null);
+
   const deriveName = (email?: string | null) => {
     if (!email) return "User";
     return email.split("@")[0];
@@ -328,6 +340,14 @@ const App: React.FC = () => {
     return () => unsubscribe();
   }, []);
 
+  // Batch summaries are saved in the background; add them to state as they finish
+  useEffect(() => {
+    return subscribeToBatchResults(({ summary, note }) => {
+      setSummaries((prev) => [summary, ...prev]);
+      if (note) setNotes((prev) => [note, ...prev]);
+    });
+  }, []);
+
   const loadUserData = async () => {
     try {
       await StorageService.checkLoginStreak();
@@ -415,50 +435,41 @@ const App: React.FC = () => {
 
     const timestamp = Date.now();
 
-    // --- Generate Blocks for Document Section ---
-    const newBlocks: any[] = [];
-
-    // 1. Summary Header
-    newBlocks.push({
-      id: `${timestamp}-h1`,
-      type: "h1",
-      content: `Summary: ${new Date().toLocaleDateString()}`,
-    });
-
-    // 2. Summary Text
-    const formattedSummary = summary.summaryText.replace(/\n/g, "<br />");
-    newBlocks.push({
-      id: `${timestamp}-text`,
-      type: "text",
-      content: formattedSummary,
+    // --- Document: the summary markdown as editable blocks ---
+    const newBlocks: Block[] = [
+      {
+        id: `${timestamp}-h1`,
+        type: "h1",
+        content: `Summary: ${new Date().toLocaleDateString()}`,
+      },
+      ...markdownToBlocks(summary.summaryText),
+    ];
+
+    // --- Canvas: flashcards become a deck element ---
+    const cards = flashcards.length > 0 ? flashcards : summary.flashcards || [];
+    const deckFor = (existing: Shape[]) =>
+      createFlashcardDeck(
+        "Flashcards (Key Learning Concepts)",
+        cards.map(({ id, front, back }) => ({ id, front, back })),
+        existing,
+      );
+    // The note's own record of the deck; the canvas board stores the deck with its cards
+    const deckElement = (deck: FlashcardDeckShape): NoteElement => ({
+      id: deck.id,
+      type: "flashcard_deck",
+      x: deck.x,
+      y: deck.y,
+      width: deck.width,
+      height: deck.height,
+      content: deck.title,
+      zIndex: 0,
     });
-
-    // 3. Flashcards Section
-    if (flashcards.length > 0) {
-      newBlocks.push({
-        id: `${timestamp}-fc-h2`,
-        type: "h2",
-        content: "Flashcards (Key Learning Concepts)",
-      });
-
-      flashcards.forEach((fc, i) => {
-        newBlocks.push({
-          id: `${timestamp}-fc-${i}-q`,
-          type: "h3",
-          content: fc.front,
-        });
-        newBlocks.push({
-          id: `${timestamp}-fc-${i}-a`,
-          type: "text",
-          content: fc.back,
-        });
-        newBlocks.push({
-          id: `${timestamp}-fc-${i}-d`,
-          type: "text",
-          content: "",
-        });
-      });
-    }
+    // The deck is placed clear of whatever the note's canvas already holds
+    const existingShapes =
+      noteId !== null && cards.length > 0
+        ? ((await StorageService.getCanvasElements(noteId)) as Shape[])
+        : [];
+    const newDeck = cards.length > 0 ? deckFor(existingShapes) : null;
 
     let updatedNotes = [...notes];
     let noteWasCreated = false;
@@ -471,7 +482,7 @@ const App: React.FC = () => {
         userId: user.id,
         title: `Summary: ${new Date().toLocaleDateString()}`,
         document: { blocks: newBlocks },
-        canvas: { elements: [] },
+        canvas: { elements: newDeck ? [deckElement(newDeck)] : [] },
         elements: [],
         tags: [],
         folder: "Summaries",
@@ -503,6 +514,9 @@ const App: React.FC = () => {
           const updated = {
             ...n,
             document: { blocks: updatedBlocks },
+            canvas: newDeck
+              ? { ...n.canvas, elements: [...(n.canvas?.elements || []), deckElement(newDeck)] }
+              : n.canvas,
             lastModified: timestamp,
           };
           noteToSave = updated;
@@ -516,6 +530,11 @@ const App: React.FC = () => {
 
     if (noteToSave) {
       await StorageService.saveNote(noteToSave);
+
+      // The canvas board loads and saves its elements on its own, so the deck is stored there too
+      if (newDeck) {
+        await StorageService.saveCanvasElements(noteToSave.id, [...existingShapes, newDeck]);
+      }
     }
 
     if (!user || view === 'landing') {
@@ -638,14 +657,15 @@ const App: React.FC = () => {
 
                 {view === 'summarizer' && (
                     <Summarizer
-                        onSave={async (s) => {
+                        onSave={(s) => {
                             const sWithUser = { ...s, userId: user.id };
-                            const newSums = [sWithUser, ...summaries];
-                            setSummaries(newSums);
-                            await StorageService.saveSummaries(newSums);
+                            setSummaries(prev => prev.some(p => p.id === sWithUser.id)
+                                ? prev.map(p => p.id === sWithUser.id ? sWithUser : p)
+                                : [sWithUser, ...prev]);
                         }}
                         notes={notes}
                         onAddToNote={handleAddToNote}
+                        folders={folders}
                     />
                 )}
 
@@ -810,6 +830,7 @@ const App: React.FC = () => {
             </button>
           </div>
         )}
+        <AIStatusBanner />
 
         {view === "dashboard" && stats && (
           <>
@@ -835,14 +856,17 @@ const App: React.FC = () => {
 
         {view === "summarizer" && (
           <Summarizer
-            onSave={async (s) => {
+            onSave={(s) => {
+              // Summarizer has already saved the entry; this only keeps the history list current
               const sWithUser = { ...s, userId: user.id };
-              const newSums = [sWithUser, ...summaries];
-              setSummaries(newSums);
-              await StorageService.saveSummaries(newSums);
+              setSummaries((prev) => prev.some((p) => p.id === sWithUser.id)
+                ? prev.map((p) => (p.id === sWithUser.id ? sWithUser : p))
+                : [sWithUser, ...prev]);
             }}
             notes={notes}
             onAddToNote={handleAddToNote}
+            user={user}
+            folders={folders}
           />
         )}
 
@@ -863,6 +887,31 @@ const App: React.FC = () => {
             onNavigate={handleNavigate}
             activeFolderId={activeFolderId}
             folders={folders}
+            focusTarget={noteFocus}
+            onFocusHandled={() => setNoteFocus(null)}
+          />
+        )}
+
+        {view === "usage" && <AIUsage user={user} />}
+
+        {view === "review" && (
+          <Review user={user} summaries={summaries} notes={notes} />
+        )}
+
+        {view === "decks" && (
+          <Decks user={user} summaries={summaries} notes={notes} folders={folders} />
+        )}
+
+        {view === "askNotes" && (
+          <AskNotes
+            user={user}
+            notes={notes}
+            summaries={summaries}
+            onOpenCitation={(citation) => {
+              setNoteFocus({ noteId: citation.sourceId, blockId: citation.blockId });
+              setActiveFolderId(undefined);
+              setView("notes");
+            }}
           />
         )}
 
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Trash2 } from 'lucide-react';
+import { AICacheService, AICacheOverview } from '../services/aiCacheService';
+
+interface AICacheStatsProps {
+  userId: string;
+}
+
+const FUNCTION_LABELS: Record<string, string> = {
+  summarizeContent: 'Summaries',
+  generateFlashcards: 'Flashcards',
+  generateClozeCards: 'Cloze cards',
+  generateQuizFromNotes: 'Quizzes',
+  generateReels: 'Learning Feed',
+  analyzeNoteWorkload: 'Note analysis',
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const AICacheStats: React.FC<AICacheStatsProps> = ({ userId }) => {
+  const [overview, setOverview] = useState<AICacheOverview | null>(null);
+  const [clearing, setClearing] = useState(false);
+
+  const loadOverview = async () => {
+    setOverview(await AICacheService.getOverview(userId));
+  };
+
+  useEffect(() => {
+    loadOverview();
+  }, [userId]);
+
+  const handleClear = async () => {
+    if (!window.confirm('Clear saved AI results? Future generations will call the AI again.')) return;
+    setClearing(true);
+    await AICacheService.clear(userId);
+    await loadOverview();
+    setClearing(false);
+  };
+
+  if (!overview) return null;
+
+  const rows = Object.entries(overview.stats.byFunction);
+  const totalHits = rows.reduce((sum, [, s]) => sum + s.hits, 0);
+  const totalLookups = rows.reduce((sum, [, s]) => sum + s.hits + s.misses, 0);
+  const hitRate = totalLookups > 0 ? Math.round((totalHits / totalLookups) * 100) : 0;
+
+  return (
+    <div className="bg-discord-panel p-6 rounded-2xl border border-white/5 shadow-sm">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+          <Database size={18} className="text-discord-accent" /> Saved AI Results
+        </h3>
+        <button
+          onClick={handleClear}
+          disabled={clearing || overview.entryCount === 0}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg text-discord-textMuted hover:text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Trash2 size={14} /> Clear
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        <div>
+          <p className="text-2xl font-bold text-white">{totalHits}</p>
+          <p className="text-xs text-discord-textMuted">AI calls saved</p>
+        </div>
+        <div>
+          <p className="text-2xl font-bold text-white">{hitRate}%</p>
+          <p className="text-xs text-discord-textMuted">Hit rate</p>
+        </div>
+        <div>
+          <p className="text-2xl font-bold text-white">{overview.entryCount}</p>
+          <p className="text-xs text-discord-textMuted">Entries · {formatBytes(overview.totalBytes)}</p>
+        </div>
+      </div>
+
+      {rows.length > 0 ? (
+        <div className="space-y-2">
+          {rows.map(([fn, s]) => (
+            <div key={fn} className="flex items-center justify-between text-sm p-2 bg-discord-bg rounded-lg border border-white/5">
+              <span className="text-white">{FUNCTION_LABELS[fn] || fn}</span>
+              <span className="text-discord-textMuted text-xs">
+                {s.hits} hits · {s.misses} misses{s.regenerations > 0 ? ` · ${s.regenerations} regenerated` : ''}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-discord-textMuted">
+          Summaries, flashcards and quizzes you generate are saved here, so repeating them on unchanged content costs no AI quota.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AICacheStats;
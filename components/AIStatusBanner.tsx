@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { CloudOff, RefreshCw, Gauge } from 'lucide-react';
+import {
+  AIServiceStatus,
+  getAIServiceStatus,
+  subscribeToAIServiceStatus,
+  resetAIServiceStatus
+} from '../services/aiResilience';
+import { AIUsageService } from '../services/aiUsageService';
+import { AIUsageDay } from '../types';
+
+/**
+ * Today's AI usage for the signed-in user, kept up to date as calls are metered
+ */
+export const useAIUsageToday = (): AIUsageDay | null => {
+  const [usage, setUsage] = useState<AIUsageDay | null>(null);
+
+  useEffect(() => {
+    AIUsageService.getToday().then(setUsage);
+    return AIUsageService.subscribe(setUsage);
+  }, []);
+
+  return usage;
+};
+
+/**
+ * Current circuit breaker and quota state. `degraded` is true while AI calls are failing
+ * fast or today's quota is used up, so pages can disable generation instead of letting
+ * every click error out.
+ */
+export const useAIServiceStatus = (): AIServiceStatus & { degraded: boolean; quotaExhausted: boolean } => {
+  const [status, setStatus] = useState<AIServiceStatus>(getAIServiceStatus());
+  const usage = useAIUsageToday();
+
+  useEffect(() => subscribeToAIServiceStatus(setStatus), []);
+
+  const quotaExhausted = AIUsageService.isExhausted(usage);
+  return { ...status, quotaExhausted, degraded: status.state === 'open' || quotaExhausted };
+};
+
+const AIStatusBanner: React.FC = () => {
+  const { state, quotaExhausted, retryAt } = useAIServiceStatus();
+  const degraded = state === 'open';
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!degraded) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [degraded]);
+
+  if (!degraded && quotaExhausted) {
+    return (
+      <div className="bg-amber-900/30 border-b border-amber-500/20 px-4 py-2 text-xs text-amber-200 flex items-center gap-2 sticky top-0 z-50 backdrop-blur-md">
+        <Gauge size={14} />
+        You've used today's AI allowance. AI features come back at midnight; your notes and saved results still work.
+      </div>
+    );
+  }
+
+  if (!degraded) return null;
+
+  const secondsLeft = Math.max(0, Math.ceil(((retryAt || now) - now) / 1000));
+
+  return (
+    <div className="bg-amber-900/30 border-b border-amber-500/20 px-4 py-2 text-xs text-amber-200 flex justify-between items-center sticky top-0 z-50 backdrop-blur-md">
+      <span className="flex items-center gap-2">
+        <CloudOff size={14} />
+        AI features are paused after repeated failures.
+        {secondsLeft > 0 ? ` Retrying automatically in ${secondsLeft}s.` : ' The next request will try again.'}
+        {' '}Your notes and saved results still work, and summaries are made offline from your content.
+      </span>
+      <button
+        onClick={resetAIServiceStatus}
+        className="flex items-center gap-1 hover:text-white underline"
+      >
+        <RefreshCw size={12} /> Try now
+      </button>
+    </div>
+  );
+};
+
+export default AIStatusBanner;
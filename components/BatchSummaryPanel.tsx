@@ -0,0 +1,289 @@
+import React, { useState, useEffect } from 'react';
+import { Attachment, Folder, PromptVariables } from '../types';
+import { getAttachmentType } from '../utils/summaryUtils';
+import {
+  BatchItem,
+  enqueueBatch,
+  cancelBatchItem,
+  retryBatchItem,
+  clearFinishedBatchItems,
+  getBatchItems,
+  subscribeToBatchQueue
+} from '../services/batchSummaryService';
+import { X, FileUp, Play, RotateCcw, Square, CheckCircle, AlertCircle, Clock, Loader2, Trash2 } from 'lucide-react';
+
+interface BatchSummaryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  mode: string;
+  customPrompt?: string;
+  variables: PromptVariables;
+  folders: Folder[];
+  /** Set when the current mode cannot summarize files one by one */
+  disabledReason?: string;
+}
+
+const readAttachment = (file: File, type: Attachment['type']): Promise<Attachment> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({
+      id: `${Date.now()}-${file.name}`,
+      type,
+      content: (reader.result as string).split(',')[1],
+      mimeType: file.type,
+      name: file.name
+    });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const describeStatus = (item: BatchItem): string => {
+  switch (item.status) {
+    case 'queued': return 'Queued';
+    case 'waiting': {
+      const seconds = Math.max(0, Math.ceil(((item.retryAt || Date.now()) - Date.now()) / 1000));
+      return item.error ? `Retrying in ${seconds}s (attempt ${item.attempts + 1})` : `Waiting for rate limit (${seconds}s)`;
+    }
+    case 'running':
+      if (item.progress?.stage === 'sections') return `Section ${item.progress.completed} of ${item.progress.total}`;
+      if (item.progress?.stage === 'merging') return 'Merging sections';
+      return item.receivedChars > 0 ? `Writing... ${item.receivedChars.toLocaleString()} chars` : 'Reading file...';
+    case 'done': return 'Saved';
+    case 'failed': return item.error || 'Failed';
+    case 'cancelled': return 'Cancelled';
+  }
+};
+
+const StatusIcon: React.FC<{ item: BatchItem }> = ({ item }) => {
+  switch (item.status) {
+    case 'running': return <Loader2 size={16} className="animate-spin text-discord-accent" />;
+    case 'done': return <CheckCircle size={16} className="text-green-400" />;
+    case 'failed': return <AlertCircle size={16} className="text-red-400" />;
+    case 'cancelled': return <Square size={16} className="text-discord-textMuted" />;
+    default: return <Clock size={16} className="text-yellow-400" />;
+  }
+};
+
+/**
+ * Picks many files, queues them for summarizing with the current mode and shows the queue
+ */
+const BatchSummaryPanel: React.FC<BatchSummaryPanelProps> = ({
+  isOpen,
+  onClose,
+  mode,
+  customPrompt,
+  variables,
+  folders,
+  disabledReason
+}) => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [rejected, setRejected] = useState<string[]>([]);
+  const [saveAsNotes, setSaveAsNotes] = useState(true);
+  const [folderId, setFolderId] = useState<string>('');
+  const [starting, setStarting] = useState(false);
+  const [items, setItems] = useState<BatchItem[]>(getBatchItems);
+  const [, setTick] = useState(0);
+
+  useEffect(() => subscribeToBatchQueue(setItems), []);
+
+  // Re-render every second so countdowns stay current
+  const hasWaiting = items.some(item => item.status === 'waiting');
+  useEffect(() => {
+    if (!isOpen || !hasWaiting) return;
+    const timer = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(timer);
+  }, [isOpen, hasWaiting]);
+
+  if (!isOpen) return null;
+
+  const handlePickFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files || []);
+    setFiles(prev => [...prev, ...picked.filter(file => getAttachmentType(file))]);
+    setRejected(picked.filter(file => !getAttachmentType(file)).map(file => file.name));
+    e.target.value = '';
+  };
+
+  const handleStart = async () => {
+    if (files.length === 0 || disabledReason) return;
+    setStarting(true);
+    try {
+      const attachments = await Promise.all(files.map(file => readAttachment(file, getAttachmentType(file)!)));
+      enqueueBatch(attachments, {
+        mode,
+        customPrompt,
+        variables,
+        saveAsNotes,
+        folder: folders.find(f => f.id === folderId) || null
+      });
+      setFiles([]);
+      setRejected([]);
+    } catch (error) {
+      console.error('Failed to read files for batch', error);
+      alert('Could not read one of the files. Please try again.');
+    }
+    setStarting(false);
+  };
+
+  const counts = {
+    done: items.filter(i => i.status === 'done').length,
+    failed: items.filter(i => i.status === 'failed').length,
+    active: items.filter(i => i.status === 'queued' || i.status === 'waiting' || i.status === 'running').length
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4 animate-in fade-in">
+      <div className="bg-discord-panel w-full max-w-3xl max-h-[90vh] rounded-2xl border border-white/10 shadow-2xl flex flex-col animate-in zoom-in-95">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Batch Summarize</h2>
+            <p className="text-sm text-discord-textMuted mt-1">
+              Each file is summarized on its own in the background, so you can keep working.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-lg text-discord-textMuted hover:text-white transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* New batch */}
+          <div className="space-y-3">
+            <button
+              onClick={() => document.getElementById('batch-file-upload')?.click()}
+              className="w-full border-2 border-dashed border-white/10 hover:border-discord-accent/60 rounded-xl p-6 flex flex-col items-center gap-2 text-discord-textMuted hover:text-white transition-colors"
+            >
+              <FileUp size={28} />
+              <span className="font-medium">Choose files</span>
+              <span className="text-xs">PDF, Word, PowerPoint, images or audio</span>
+            </button>
+            <input
+              type="file"
+              id="batch-file-upload"
+              className="hidden"
+              multiple
+              accept=".pdf,.docx,.pptx,image/*,audio/*"
+              onChange={handlePickFiles}
+            />
+
+            {rejected.length > 0 && (
+              <p className="text-xs text-yellow-400">Skipped unsupported files: {rejected.join(', ')}</p>
+            )}
+
+            {files.length > 0 && (
+              <div className="space-y-1 max-h-40 overflow-y-auto">
+                {files.map((file, i) => (
+                  <div key={`${file.name}-${i}`} className="flex items-center justify-between bg-discord-bg px-3 py-2 rounded-lg border border-white/5">
+                    <span className="text-sm text-white truncate">{file.name}</span>
+                    <button
+                      onClick={() => setFiles(prev => prev.filter((_, j) => j !== i))}
+                      className="p-1 hover:bg-white/10 rounded-full text-discord-textMuted hover:text-white"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <span className="text-discord-textMuted">
+                Mode: <span className="text-white font-bold capitalize">{mode === 'eli5' ? 'ELI5' : mode}</span>
+              </span>
+              <label className="flex items-center gap-2 text-discord-text cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={saveAsNotes}
+                  onChange={(e) => setSaveAsNotes(e.target.checked)}
+                  className="accent-discord-accent"
+                />
+                Save each as a note in
+              </label>
+              <select
+                value={folderId}
+                onChange={(e) => setFolderId(e.target.value)}
+                disabled={!saveAsNotes}
+                className="bg-discord-bg border border-white/10 rounded-lg px-3 py-1.5 text-white focus:outline-none disabled:opacity-40"
+              >
+                <option value="">No folder</option>
+                {folders.map(folder => <option key={folder.id} value={folder.id}>{folder.name}</option>)}
+              </select>
+            </div>
+
+            {disabledReason && <p className="text-xs text-yellow-400">{disabledReason}</p>}
+
+            <button
+              onClick={handleStart}
+              disabled={files.length === 0 || starting || !!disabledReason}
+              className="w-full bg-discord-accent hover:bg-discord-accentHover text-white px-6 py-3 rounded-lg font-bold transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {starting ? <Loader2 size={18} className="animate-spin" /> : <Play size={18} />}
+              Summarize {files.length > 0 ? `${files.length} file${files.length === 1 ? '' : 's'}` : 'files'}
+            </button>
+          </div>
+
+          {/* Queue */}
+          {items.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-bold text-discord-textMuted uppercase">
+                  Queue · {counts.done} saved{counts.failed > 0 ? ` · ${counts.failed} failed` : ''}{counts.active > 0 ? ` · ${counts.active} in progress` : ''}
+                </h4>
+                <button
+                  onClick={clearFinishedBatchItems}
+                  className="flex items-center gap-1 px-2 py-1 hover:bg-white/10 rounded text-xs text-discord-textMuted hover:text-white transition-colors"
+                >
+                  <Trash2 size={14} /> Clear finished
+                </button>
+              </div>
+              <div className="space-y-2">
+                {items.map(item => (
+                  <div key={item.id} className="flex items-center gap-3 bg-discord-bg p-3 rounded-lg border border-white/5">
+                    <StatusIcon item={item} />
+                    <div className="flex-1 min-w-0">
+                      <span className="text-sm text-white truncate block">{item.name}</span>
+                      <span className={`text-xs block truncate ${item.status === 'failed' ? 'text-red-400' : 'text-discord-textMuted'}`}>
+                        {describeStatus(item)}
+                      </span>
+                      {item.status === 'running' && item.progress?.stage === 'sections' && (
+                        <div className="h-1 bg-white/10 rounded-full mt-1 overflow-hidden">
+                          <div
+                            className="h-full bg-discord-accent transition-all"
+                            style={{ width: `${(item.progress.completed / Math.max(1, item.progress.total)) * 100}%` }}
+                          />
+                        </div>
+                      )}
+                    </div>
+                    {(item.status === 'failed' || item.status === 'cancelled') && (
+                      <button
+                        onClick={() => retryBatchItem(item.id)}
+                        className="p-1.5 hover:bg-white/10 rounded text-discord-textMuted hover:text-white transition-colors"
+                        title="Retry"
+                      >
+                        <RotateCcw size={16} />
+                      </button>
+                    )}
+                    {(item.status === 'queued' || item.status === 'waiting' || item.status === 'running') && (
+                      <button
+                        onClick={() => cancelBatchItem(item.id)}
+                        className="p-1.5 hover:bg-red-500/20 rounded text-discord-textMuted hover:text-red-400 transition-colors"
+                        title="Cancel"
+                      >
+                        <Square size={16} />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchSummaryPanel;
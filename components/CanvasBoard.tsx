@@ -3,14 +3,16 @@
 
 import React, { useEffect, useRef, useState, forwardRef, useImperativeHandle } from "react";
 import { CanvasEngine } from "./canvas/CanvasEngine";
-import { ToolType, Shape, StrokeWidth, StrokeStyle, RoughStyle, FillStyle, FontSize } from "./canvas/types";
-import { MousePointer, Hand, Square, Circle, Minus, Pencil, Eraser, Type, Diamond, MoveRight, ZoomIn, ZoomOut, RotateCcw } from "lucide-react";
+import { ToolType, Shape, StrokeWidth, StrokeStyle, RoughStyle, FillStyle, FontSize, LabelTarget } from "./canvas/types";
+import { MousePointer, Hand, Square, Circle, Minus, Pencil, Eraser, Type, Diamond, MoveRight, ZoomIn, ZoomOut, RotateCcw, EyeOff } from "lucide-react";
 
 interface CanvasBoardProps {
     canvasId?: string;
     readOnly?: boolean;
     elements?: Shape[];
     onShapesAdded?: (shapes: Shape[]) => void;
+    /** Called with the labels to hide, one image-occlusion card each */
+    onMakeOcclusionCards?: (targets: LabelTarget[]) => void;
 }
 
 export interface CanvasBoardRef {
@@ -19,7 +21,7 @@ export interface CanvasBoardRef {
 }
 
 
-const CanvasBoard = forwardRef<CanvasBoardRef, CanvasBoardProps>(({ canvasId, readOnly = false, elements, onShapesAdded }: CanvasBoardProps, ref) => {
+const CanvasBoard = forwardRef<CanvasBoardRef, CanvasBoardProps>(({ canvasId, readOnly = false, elements, onShapesAdded, onMakeOcclusionCards }: CanvasBoardProps, ref) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [engine, setEngine] = useState<CanvasEngine | null>(null);
     const [activeTool, setActiveTool] = useState<ToolType>("selection");
@@ -167,6 +169,16 @@ const CanvasBoard = forwardRef<CanvasBoardRef, CanvasBoardProps>(({ canvasId, re
         }
     };
 
+    const makeOcclusionCards = () => {
+        if (!engine || !onMakeOcclusionCards) return;
+        const targets = engine.getLabelTargets();
+        if (targets.length === 0) {
+            alert("Add text labels to the diagram, or select the labels to hide, first.");
+            return;
+        }
+        onMakeOcclusionCards(targets);
+    };
+
     const clearCanvas = () => {
         if (engine && !readOnly) engine.clear();
     };
@@ -277,6 +289,13 @@ const CanvasBoard = forwardRef<CanvasBoardRef, CanvasBoardProps>(({ canvasId, re
                         
                         <div className="w-px bg-zinc-700 mx-1 h-6"></div>
                         
+                        {onMakeOcclusionCards && (
+                            <>
+                                <ToolButton icon={<EyeOff size={18} />} active={false} onClick={makeOcclusionCards} title="Occlusion cards from the selected labels (or all labels)" />
+                                <div className="w-px bg-zinc-700 mx-1 h-6"></div>
+                            </>
+                        )}
+
                         {/* Clear */}
                         <button 
                             onClick={clearCanvas} 
@@ -0,0 +1,50 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { SummarySource } from '../types';
+import { linkSourceMarkers, sourceIdFromHref, describeSource } from '../utils/summaryCitations';
+
+interface CitedMarkdownProps {
+  text: string;
+  sources?: SummarySource[];
+  onCite?: (source: SummarySource) => void;
+  activeSourceId?: number | null;
+}
+
+/**
+ * Markdown with the summary's [S#] source markers rendered as citation chips
+ */
+const CitedMarkdown: React.FC<CitedMarkdownProps> = ({ text, sources = [], onCite, activeSourceId }) => (
+  <ReactMarkdown
+    components={{
+      a: ({ href, children }) => {
+        const id = sourceIdFromHref(href);
+        if (id === null) {
+          return <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>;
+        }
+
+        const source = sources.find(s => s.id === id);
+        if (!source) {
+          return <span className="text-xs text-discord-textMuted">[S{id}]</span>;
+        }
+
+        return (
+          <button
+            type="button"
+            onClick={() => onCite?.(source)}
+            title={describeSource(source)}
+            className={`inline-flex items-center px-1.5 py-0.5 mx-0.5 rounded text-[10px] font-bold align-middle no-underline transition-colors ${activeSourceId === id
+              ? 'bg-discord-accent text-white'
+              : 'bg-discord-accent/20 text-discord-accent hover:bg-discord-accent/40'
+              } ${onCite ? 'cursor-pointer' : 'cursor-default'}`}
+          >
+            S{id}
+          </button>
+        );
+      }
+    }}
+  >
+    {linkSourceMarkers(text)}
+  </ReactMarkdown>
+);
+
+export default CitedMarkdown;
@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { Deck, Flashcard, CardSchedule, ReviewGrade } from '../types';
+import { StudyOrder, STUDY_ORDER_LABELS, orderStudyCards } from '../services/deckService';
+import { REVIEW_GRADES } from '../utils/spacedRepetition';
+import GradeButtons from './GradeButtons';
+import OcclusionView from './OcclusionView';
+import { X, RotateCcw, CheckCircle, Shuffle } from 'lucide-react';
+
+interface DeckStudyProps {
+  deck: Deck;
+  schedules: Map<string, CardSchedule>;
+  onClose: () => void;
+  /** Called with each studied card's new status when the session ends */
+  onFinish: (statuses: Record<string, Flashcard['status']>) => void;
+}
+
+// Cards graded Again come back after this many others
+const AGAIN_GAP = 3;
+
+/**
+ * Practice session over a deck: flip each card, grade it from the keyboard, and cards missed
+ * come back later in the session. Practice marks cards as learning or mastered but leaves the
+ * daily review schedule alone.
+ */
+const DeckStudy: React.FC<DeckStudyProps> = ({ deck, schedules, onClose, onFinish }) => {
+  const [order, setOrder] = useState<StudyOrder>('ordered');
+  const [queue, setQueue] = useState<Flashcard[]>(() => orderStudyCards(deck.cards, 'ordered', schedules));
+  const [flipped, setFlipped] = useState(false);
+  const [firstGrades, setFirstGrades] = useState<Record<string, ReviewGrade>>({});
+  const [seen, setSeen] = useState(0);
+  // Kept across restarts, so every session's results are saved on close
+  const [statuses, setStatuses] = useState<Record<string, Flashcard['status']>>({});
+
+  const current = queue[0];
+  const finished = !current;
+
+  const restart = (nextOrder: StudyOrder) => {
+    setOrder(nextOrder);
+    setQueue(orderStudyCards(deck.cards, nextOrder, schedules));
+    setFirstGrades({});
+    setSeen(0);
+    setFlipped(false);
+  };
+
+  const grade = (value: ReviewGrade) => {
+    if (!current) return;
+    if (!firstGrades[current.id]) {
+      setFirstGrades(prev => ({ ...prev, [current.id]: value }));
+      setStatuses(prev => ({ ...prev, [current.id]: value === 'good' || value === 'easy' ? 'mastered' : 'learning' }));
+    }
+    setSeen(n => n + 1);
+    setQueue(prev => {
+      const rest = prev.slice(1);
+      if (value === 'again') return [...rest.slice(0, AGAIN_GAP), current, ...rest.slice(AGAIN_GAP)];
+      if (value === 'hard') return [...rest, current];
+      return rest;
+    });
+    setFlipped(false);
+  };
+
+  const handleClose = () => {
+    if (Object.keys(statuses).length > 0) onFinish(statuses);
+    onClose();
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement)?.closest('input, textarea, select')) return;
+      if (e.key === 'Escape') handleClose();
+      else if (!current) return;
+      else if (e.key === ' ' || e.key === 'Enter') {
+        e.preventDefault();
+        setFlipped(f => !f);
+      } else if (flipped && ['1', '2', '3', '4'].includes(e.key)) {
+        grade(REVIEW_GRADES[Number(e.key) - 1]);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const grades = Object.values(firstGrades);
+  const known = grades.filter(g => g === 'good' || g === 'easy').length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4 animate-in fade-in">
+      <div className="bg-discord-panel w-full max-w-2xl rounded-2xl border border-white/10 shadow-2xl flex flex-col animate-in zoom-in-95">
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-bold text-white truncate">{deck.name}</h2>
+            <p className="text-sm text-discord-textMuted mt-1">
+              {finished ? 'Session complete' : `${Object.keys(firstGrades).length} of ${deck.cards.length} cards · ${queue.length} left in queue`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Shuffle size={16} className="text-discord-textMuted" />
+            <select
+              value={order}
+              onChange={(e) => restart(e.target.value as StudyOrder)}
+              className="bg-discord-bg border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none"
+              title="Study order"
+            >
+              {(Object.keys(STUDY_ORDER_LABELS) as StudyOrder[]).map(o => (
+                <option key={o} value={o}>{STUDY_ORDER_LABELS[o]}</option>
+              ))}
+            </select>
+            <button onClick={handleClose} className="p-2 hover:bg-white/10 rounded-lg text-discord-textMuted hover:text-white transition-colors">
+              <X size={24} />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {finished ? (
+            <div className="py-10 text-center space-y-3">
+              <CheckCircle size={40} className="mx-auto text-green-400" />
+              <h3 className="text-xl font-bold text-white">
+                {deck.cards.length === 0 ? 'This deck has no cards yet' : `You knew ${known} of ${grades.length} on the first try`}
+              </h3>
+              {deck.cards.length > 0 && (
+                <p className="text-sm text-discord-textMuted">{seen} cards shown in total.</p>
+              )}
+              <div className="flex justify-center gap-3 pt-2">
+                {deck.cards.length > 0 && (
+                  <button
+                    onClick={() => restart(order)}
+                    className="flex items-center gap-2 px-4 py-2 bg-discord-bg hover:bg-discord-hover border border-white/10 rounded-lg text-white text-sm transition-colors"
+                  >
+                    <RotateCcw size={16} /> Study again
+                  </button>
+                )}
+                <button
+                  onClick={handleClose}
+                  className="px-4 py-2 bg-discord-accent hover:bg-discord-accentHover rounded-lg text-white text-sm font-bold transition-colors"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <button
+                onClick={() => setFlipped(f => !f)}
+                className="w-full min-h-[240px] bg-discord-bg rounded-2xl border border-white/5 hover:border-discord-accent/40 p-8 flex flex-col items-center justify-center text-center transition-colors"
+                title="Flip (Space)"
+              >
+                <span className="text-xs font-bold uppercase text-discord-textMuted mb-4">{flipped ? 'Answer' : 'Question'}</span>
+                {current.occlusion && (
+                  <OcclusionView key={current.id} occlusion={current.occlusion} revealed={flipped} className="h-56 mb-4" />
+                )}
+                <span key={`${current.id}-${flipped}`} className={`whitespace-pre-wrap animate-in fade-in ${flipped ? 'text-lg text-discord-text' : 'text-2xl font-bold text-white'}`}>
+                  {flipped ? current.back : current.front}
+                </span>
+              </button>
+
+              {flipped ? (
+                <GradeButtons onGrade={grade} />
+              ) : (
+                <p className="text-center text-xs text-discord-textMuted">
+                  Click the card or press Space to flip, then grade with 1-4
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeckStudy;
@@ -443,7 +443,8 @@ import {
     Code,
     Link,
     Image as ImageIcon,
-    Wand2
+    Wand2,
+    Brackets
 } from 'lucide-react';
 
 // Simple ID generator
@@ -454,6 +455,7 @@ interface DocumentEditorProps {
     onUpdate: (newBlocks: Block[]) => void;
     readOnly?: boolean;
     onGenerateDiagram?: (selectedText: string, selectedBlockIds: string[]) => void;
+    onGenerateCloze?: (selectedText: string, selectedBlockIds: string[]) => void;
 }
 
 const initialBlock: Block = {
@@ -462,7 +464,7 @@ const initialBlock: Block = {
     content: 'Untitled',
 };
 
-const DocumentEditor: React.FC<DocumentEditorProps> = ({ content, onUpdate, readOnly = false, onGenerateDiagram }) => {
+const DocumentEditor: React.FC<DocumentEditorProps> = ({ content, onUpdate, readOnly = false, onGenerateDiagram, onGenerateCloze }) => {
     // Initialize blocks with content prop, or default if empty
     const [blocks, setBlocks] = useState<Block[]>(() => {
         if (content && content.length > 0) return content;
@@ -474,6 +476,43 @@ const DocumentEditor: React.FC<DocumentEditorProps> = ({ content, onUpdate, read
     // Store selection when user selects text
     const storedSelectionRef = useRef<{ text: string; blockIds: string[] } | null>(null);
 
+    // Remembers the selected text and the blocks it spans, for the selection actions in the toolbar
+    const captureSelection = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        storedSelectionRef.current = null;
+
+        const selection = window.getSelection();
+        if (!selection || selection.isCollapsed) return;
+
+        const selectedBlockIds: string[] = [];
+        const editorContainer = document.querySelector('.document-editor-container');
+        editorContainer?.querySelectorAll('[data-block-id]').forEach((wrapper) => {
+            const blockId = wrapper.getAttribute('data-block-id');
+            const contentElement = wrapper.querySelector('[contenteditable]');
+            if (!blockId || !contentElement) return;
+            try {
+                if (selection.containsNode(contentElement, true)) selectedBlockIds.push(blockId);
+            } catch (error) {
+                console.warn("Error checking node:", error);
+            }
+        });
+
+        storedSelectionRef.current = { text: selection.toString().trim(), blockIds: selectedBlockIds };
+    };
+
+    const runOnSelection = (e: React.MouseEvent, action: (selectedText: string, selectedBlockIds: string[]) => void) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const stored = storedSelectionRef.current;
+        storedSelectionRef.current = null;
+        if (stored && stored.text) {
+            action(stored.text, stored.blockIds);
+        } else {
+            alert("Please select text first");
+        }
+    };
+
     // Sync internal state if props change drastically (optional, but good for note switching)
     useEffect(() => {
         if (content && content !== blocks) {
@@ -735,75 +774,29 @@ const DocumentEditor: React.FC<DocumentEditorProps> = ({ content, onUpdate, read
                             />
                         </div>
 
-                        {onGenerateDiagram && (
+                        {(onGenerateDiagram || onGenerateCloze) && (
                             <div className="flex items-center gap-1 ml-4 pl-4 border-l border-gray-700">
-                                <button
-                                    onMouseDown={(e) => {
-                                        e.preventDefault();
-                                        e.stopPropagation();
-
-                                        // Capture selection immediately
-                                        const selection = window.getSelection();
-                                        if (selection && !selection.isCollapsed) {
-                                            const selectedText = selection.toString().trim();
-                                            console.log("[DocumentEditor] Captured on mousedown:", selectedText.substring(0, 30) + "...");
-
-                                            // Find selected blocks
-                                            const editorContainer = document.querySelector('.document-editor-container');
-                                            const selectedBlockIds: string[] = [];
-
-                                            if (editorContainer) {
-                                                const blockWrappers = editorContainer.querySelectorAll('[data-block-id]');
-                                                blockWrappers.forEach((wrapper) => {
-                                                    const blockId = wrapper.getAttribute('data-block-id');
-                                                    const contentElement = wrapper.querySelector('[contenteditable]');
-                                                    if (blockId && contentElement) {
-                                                        try {
-                                                            if (selection.containsNode(contentElement, true)) {
-                                                                selectedBlockIds.push(blockId);
-                                                            }
-                                                        } catch (e) {
-                                                            console.warn("Error checking node:", e);
-                                                        }
-                                                    }
-                                                });
-                                            }
-
-                                            // Store both text and block IDs
-                                            (e.currentTarget as any).__selection = {
-                                                text: selectedText,
-                                                blockIds: selectedBlockIds
-                                            };
-                                        }
-                                    }}
-                                    onClick={(e) => {
-                                        e.preventDefault();
-                                        e.stopPropagation();
-
-                                        // Get stored selection
-                                        const stored = (e.currentTarget as any).__selection;
-
-                                        if (stored && stored.text && stored.text.trim()) {
-                                            console.log("[DocumentEditor] Using stored selection:", stored.text.substring(0, 30) + "...");
-                                            console.log("[DocumentEditor] Block IDs:", stored.blockIds);
-
-                                            // ✅ CALL THE CALLBACK!
-                                            if (onGenerateDiagram) {
-                                                onGenerateDiagram(stored.text, stored.blockIds);
-                                            }
-                                        } else {
-                                            alert("Please select text first");
-                                        }
-
-                                        // Clear stored selection after use
-                                        delete (e.currentTarget as any).__selection;
-                                    }}
-                                    className="p-2 rounded hover:bg-white/10 transition-colors text-gray-400 hover:text-white"
-                                    title="Generate Diagram from Selection"
-                                >
-                                    <Wand2 size={18} />
-
-                                </button>
+                                {onGenerateDiagram && (
+                                    <button
+                                        // Capture on mousedown, before the click moves focus and clears the selection
+                                        onMouseDown={captureSelection}
+                                        onClick={(e) => runOnSelection(e, onGenerateDiagram)}
+                                        className="p-2 rounded hover:bg-white/10 transition-colors text-gray-400 hover:text-white"
+                                        title="Generate Diagram from Selection"
+                                    >
+                                        <Wand2 size={18} />
+                                    </button>
+                                )}
+                                {onGenerateCloze && (
+                                    <button
+                                        onMouseDown={captureSelection}
+                                        onClick={(e) => runOnSelection(e, onGenerateCloze)}
+                                        className="p-2 rounded hover:bg-white/10 transition-colors text-gray-400 hover:text-white"
+                                        title="Make Cloze Cards from Selection"
+                                    >
+                                        <Brackets size={18} />
+                                    </button>
+                                )}
                             </div>
                         )}
 
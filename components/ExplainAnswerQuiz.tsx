@@ -1,13 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, CheckCircle, XCircle, ArrowRight, Trophy, Star, Loader2, MessageSquare } from 'lucide-react';
 import { ExplainQuestion, AttemptedExplainQuestion } from '../types';
 import { calculateExplainScore } from '../utils/quizUtils';
 import { evaluateReasoning } from '../services/geminiService';
+import VideoMomentLink from './VideoMomentLink';
 
 interface ExplainAnswerQuizProps {
   questions: ExplainQuestion[];
   onComplete: (score: number, attempted: AttemptedExplainQuestion[]) => void;
+  /** Called as each answer is submitted, with the time taken since the question was shown */
+  onAnswer?: (question: ExplainQuestion, isCorrect: boolean, timeSpentMs: number) => void;
   onExit: () => void;
   timerEnabled: boolean;
   timerDuration?: number;
@@ -16,6 +19,7 @@ interface ExplainAnswerQuizProps {
 const ExplainAnswerQuiz: React.FC<ExplainAnswerQuizProps> = ({
   questions,
   onComplete,
+  onAnswer,
   onExit,
   timerEnabled,
   timerDuration = 90,
@@ -30,9 +34,14 @@ const ExplainAnswerQuiz: React.FC<ExplainAnswerQuizProps> = ({
   const [evaluation, setEvaluation] = useState<any>(null);
   const [timer, setTimer] = useState(timerDuration);
   const [attemptedQuestions, setAttemptedQuestions] = useState<AttemptedExplainQuestion[]>([]);
+  const shownAtRef = useRef(Date.now());
 
   const currentQuestion = questions[currentIndex];
 
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+  }, [currentIndex]);
+
   // Timer logic
   useEffect(() => {
     if (timerEnabled && step !== 'feedback' && timer > 0) {
@@ -66,6 +75,8 @@ const ExplainAnswerQuiz: React.FC<ExplainAnswerQuizProps> = ({
 
     setEvaluating(true);
     setStep('feedback');
+    // The chosen option decides correctness; the reasoning score only adds to the points
+    onAnswer?.(currentQuestion, selectedOption === currentQuestion.correctIndex, Date.now() - shownAtRef.current);
 
     try {
       const result = await evaluateReasoning(
@@ -321,6 +332,7 @@ const ExplainAnswerQuiz: React.FC<ExplainAnswerQuizProps> = ({
                       <p className="text-discord-textMuted text-sm leading-relaxed">
                         {currentQuestion.explanation}
                       </p>
+                      <VideoMomentLink question={currentQuestion} />
                     </div>
                   </div>
 
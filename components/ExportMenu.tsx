@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Summary } from '../types';
+import { exportSummaries, ExportFormat } from '../services/exportService';
+import { Download, FileText, Printer, FileType, Layers, Package, Loader2 } from 'lucide-react';
+
+interface ExportMenuProps {
+  summaries: Summary[];
+  label?: string;
+}
+
+const FORMATS: { format: ExportFormat; label: string; hint: string; icon: React.ReactNode }[] = [
+  { format: 'markdown', label: 'Markdown', hint: '.md file', icon: <FileText size={16} /> },
+  { format: 'pdf', label: 'PDF', hint: 'Print, then save as PDF', icon: <Printer size={16} /> },
+  { format: 'docx', label: 'Word', hint: '.docx file', icon: <FileType size={16} /> },
+  { format: 'anki', label: 'Anki', hint: 'Flashcards, via File > Import', icon: <Layers size={16} /> },
+  { format: 'apkg', label: 'Anki package', hint: 'Flashcards with review progress, .apkg', icon: <Package size={16} /> },
+];
+
+/**
+ * Export button with a format menu, for one summary or a selection of history
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ summaries, label = 'Export' }) => {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const hasFlashcards = summaries.some(s => s.flashcards && s.flashcards.length > 0);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      await exportSummaries(summaries, format);
+      setOpen(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Export failed.');
+    }
+    setExporting(null);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={summaries.length === 0}
+        className="flex items-center gap-2 px-3 py-2 hover:bg-white/10 rounded-lg text-sm text-discord-textMuted hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        title="Export"
+      >
+        <Download size={18} />
+        {label}
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-64 bg-discord-bg border border-white/10 rounded-xl shadow-2xl z-20 p-1 animate-in fade-in">
+            {FORMATS.map(({ format, label, hint, icon }) => {
+              const disabled = (format === 'anki' || format === 'apkg') && !hasFlashcards;
+              return (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  disabled={disabled || exporting !== null}
+                  className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left hover:bg-discord-hover transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={disabled ? 'No flashcards to export' : undefined}
+                >
+                  <span className="text-discord-accent">
+                    {exporting === format ? <Loader2 size={16} className="animate-spin" /> : icon}
+                  </span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm text-white font-medium">{label}</span>
+                    <span className="block text-xs text-discord-textMuted">{hint}</span>
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -1,12 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, CheckCircle, XCircle, ArrowRight, Trophy } from 'lucide-react';
 import { FillInTheBlanksQuestion, AttemptedFillQuestion } from '../types';
 import { fuzzyMatch, parseTextWithBlanks, calculateFillBlanksScore } from '../utils/quizUtils';
+import VideoMomentLink from './VideoMomentLink';
 
 interface FillInTheBlanksQuizProps {
   questions: FillInTheBlanksQuestion[];
   onComplete: (score: number, attempted: AttemptedFillQuestion[]) => void;
+  /** Called as each question is answered, with the time taken since it was shown */
+  onAnswer?: (question: FillInTheBlanksQuestion, isCorrect: boolean, timeSpentMs: number) => void;
   onExit: () => void;
   timerEnabled: boolean;
   timerDuration?: number;
@@ -15,6 +18,7 @@ interface FillInTheBlanksQuizProps {
 const FillInTheBlanksQuiz: React.FC<FillInTheBlanksQuizProps> = ({
   questions,
   onComplete,
+  onAnswer,
   onExit,
   timerEnabled,
   timerDuration = 45,
@@ -28,6 +32,11 @@ const FillInTheBlanksQuiz: React.FC<FillInTheBlanksQuizProps> = ({
   const [timer, setTimer] = useState(timerDuration);
   const [attemptedQuestions, setAttemptedQuestions] = useState<AttemptedFillQuestion[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const shownAtRef = useRef(Date.now());
+
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+  }, [currentIndex]);
 
   const currentQuestion = questions[currentIndex];
   
@@ -114,6 +123,7 @@ const FillInTheBlanksQuiz: React.FC<FillInTheBlanksQuizProps> = ({
         explanation: currentQuestion.explanation,
       },
     ]);
+    onAnswer?.(currentQuestion, allCorrect, Date.now() - shownAtRef.current);
     
     setIsSubmitting(false);
   };
@@ -280,6 +290,7 @@ const FillInTheBlanksQuiz: React.FC<FillInTheBlanksQuizProps> = ({
                   <p className="text-discord-textMuted text-sm leading-relaxed">
                     {currentQuestion.explanation}
                   </p>
+                  <VideoMomentLink question={currentQuestion} />
                 </div>
               </div>
 
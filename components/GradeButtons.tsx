@@ -0,0 +1,40 @@
+import React from 'react';
+import { ReviewGrade } from '../types';
+import { REVIEW_GRADES } from '../utils/spacedRepetition';
+
+interface GradeButtonsProps {
+  onGrade: (grade: ReviewGrade) => void;
+  disabled?: boolean;
+  /** Shown under each label, e.g. when the card would come back */
+  hints?: Partial<Record<ReviewGrade, string>>;
+}
+
+const GRADE_STYLES: Record<ReviewGrade, { label: string; className: string }> = {
+  again: { label: 'Again', className: 'bg-red-500/20 hover:bg-red-500/30 text-red-300 border-red-500/30' },
+  hard: { label: 'Hard', className: 'bg-amber-500/20 hover:bg-amber-500/30 text-amber-300 border-amber-500/30' },
+  good: { label: 'Good', className: 'bg-green-500/20 hover:bg-green-500/30 text-green-300 border-green-500/30' },
+  easy: { label: 'Easy', className: 'bg-discord-accent/20 hover:bg-discord-accent/30 text-blue-300 border-discord-accent/30' },
+};
+
+/**
+ * Again / Hard / Good / Easy, with the 1-4 key each is bound to
+ */
+const GradeButtons: React.FC<GradeButtonsProps> = ({ onGrade, disabled, hints }) => (
+  <div className="grid grid-cols-4 gap-3">
+    {REVIEW_GRADES.map((grade, i) => (
+      <button
+        key={grade}
+        onClick={() => onGrade(grade)}
+        disabled={disabled}
+        className={`py-3 rounded-xl border font-bold transition-colors disabled:opacity-50 ${GRADE_STYLES[grade].className}`}
+      >
+        {GRADE_STYLES[grade].label}
+        <span className="block text-xs font-medium opacity-80">
+          {hints?.[grade] ? `${hints[grade]} · ${i + 1}` : i + 1}
+        </span>
+      </button>
+    ))}
+  </div>
+);
+
+export default GradeButtons;
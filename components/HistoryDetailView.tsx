@@ -1,8 +1,11 @@
-import React from 'react';
-import { Summary, isSummarySession } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Summary, SummarySource, Attachment, isSummarySession } from '../types';
 import { generateSummaryTitle } from '../utils/summaryUtils';
-import { ArrowLeft, Trash2, RotateCcw, FileUp, Mic, Link as LinkIcon } from 'lucide-react';
-import ReactMarkdown from 'react-markdown';
+import { describeSource, timestampedUrl, stripSourceMarkers } from '../utils/summaryCitations';
+import { ArrowLeft, Trash2, RotateCcw, FileUp, Mic, Link as LinkIcon, ExternalLink, X, Image as ImageIcon, FileText, Headphones } from 'lucide-react';
+import PodcastModal from './PodcastModal';
+import CitedMarkdown from './CitedMarkdown';
+import ExportMenu from './ExportMenu';
 
 interface HistoryDetailViewProps {
   summary: Summary;
@@ -11,6 +14,39 @@ interface HistoryDetailViewProps {
   onDelete: () => void;
 }
 
+const base64ToObjectUrl = (content: string, mimeType: string): string => {
+  const base64 = content.includes(',') ? content.split(',')[1] : content;
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+};
+
+/**
+ * URL that opens the attachment at the cited page or time, or null when it cannot be opened.
+ * fileUrl gives the object URL of an uploaded file's content.
+ */
+const sourceLocationUrl = (
+  source: SummarySource,
+  attachment: Attachment,
+  fileUrl: (mimeType: string) => string
+): string | null => {
+  switch (attachment.type) {
+    case 'pdf':
+      return `${fileUrl('application/pdf')}${source.page ? `#page=${source.page}` : ''}`;
+    case 'url':
+      return source.offset !== undefined ? timestampedUrl(attachment.content, source.offset) : attachment.content;
+    case 'audio': {
+      const url = fileUrl(attachment.mimeType || 'audio/webm');
+      return source.offset !== undefined ? timestampedUrl(url, source.offset) : url;
+    }
+    case 'document':
+      return fileUrl(attachment.mimeType || 'application/octet-stream');
+    default:
+      return null;
+  }
+};
+
 const HistoryDetailView: React.FC<HistoryDetailViewProps> = ({
   summary,
   onBack,
@@ -19,6 +55,40 @@ const HistoryDetailView: React.FC<HistoryDetailViewProps> = ({
 }) => {
   const title = generateSummaryTitle(summary);
   const hasSessionData = isSummarySession(summary);
+  const [activeSource, setActiveSource] = useState<SummarySource | null>(null);
+  const [showPodcast, setShowPodcast] = useState(false);
+  const highlightRef = useRef<HTMLElement>(null);
+  const fileUrlRef = useRef<string | null>(null);
+
+  const activeAttachment = activeSource?.attachmentId
+    ? summary.attachments?.find(a => a.id === activeSource.attachmentId)
+    : undefined;
+
+  // Where a text input citation starts in the original text, so it can be highlighted there
+  const textMatch = (() => {
+    if (!activeSource || activeAttachment || !summary.originalText) return null;
+    const probe = activeSource.excerpt.substring(0, 80);
+    const start = summary.originalText.indexOf(probe);
+    return start === -1 ? null : { start, end: start + activeSource.excerpt.length };
+  })();
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeSource]);
+
+  // One object URL for the cited file, revoked once another file is cited or the view closes
+  useEffect(() => () => {
+    if (fileUrlRef.current) URL.revokeObjectURL(fileUrlRef.current);
+    fileUrlRef.current = null;
+  }, [summary.id, activeAttachment?.id]);
+
+  const handleOpenSource = () => {
+    if (!activeSource || !activeAttachment) return;
+    const fileUrl = (mimeType: string) =>
+      (fileUrlRef.current ||= base64ToObjectUrl(activeAttachment.content, mimeType));
+    const url = sourceLocationUrl(activeSource, activeAttachment, fileUrl);
+    if (url) window.open(url, '_blank', 'noopener,noreferrer');
+  };
 
   const handleDelete = () => {
     if (window.confirm('Are you sure you want to delete this summary?')) {
@@ -31,6 +101,8 @@ const HistoryDetailView: React.FC<HistoryDetailViewProps> = ({
       case 'pdf': return <FileUp size={16} />;
       case 'audio': return <Mic size={16} />;
       case 'url': return <LinkIcon size={16} />;
+      case 'image': return <ImageIcon size={16} />;
+      case 'document': return <FileText size={16} />;
       default: return <FileUp size={16} />;
     }
   };
@@ -49,13 +121,25 @@ const HistoryDetailView: React.FC<HistoryDetailViewProps> = ({
           </button>
           <h3 className="text-lg font-bold text-white truncate">{title}</h3>
         </div>
-        <button
-          onClick={handleDelete}
-          className="p-2 hover:bg-red-500/20 rounded-lg text-discord-textMuted hover:text-red-400 transition-colors"
-          title="Delete summary"
-        >
-          <Trash2 size={20} />
-        </button>
+        <div className="flex items-center gap-1">
+          {summary.podcast && (
+            <button
+              onClick={() => setShowPodcast(true)}
+              className="p-2 hover:bg-white/10 rounded-lg text-discord-textMuted hover:text-white transition-colors"
+              title="Listen to the study podcast"
+            >
+              <Headphones size={20} />
+            </button>
+          )}
+          <ExportMenu summaries={[summary]} />
+          <button
+            onClick={handleDelete}
+            className="p-2 hover:bg-red-500/20 rounded-lg text-discord-textMuted hover:text-red-400 transition-colors"
+            title="Delete summary"
+          >
+            <Trash2 size={20} />
+          </button>
+        </div>
       </div>
 
       {/* Content - Scrollable */}
@@ -66,6 +150,14 @@ const HistoryDetailView: React.FC<HistoryDetailViewProps> = ({
           <span className="px-3 py-1 bg-discord-accent/20 border border-discord-accent/50 text-discord-accent rounded text-xs font-bold capitalize">
             {summary.mode === 'eli5' ? 'ELI5' : summary.mode}
           </span>
+          {summary.offline && (
+            <span
+              className="px-3 py-1 bg-yellow-500/20 border border-yellow-500/50 text-yellow-400 rounded text-xs font-bold"
+              title="Key sentences picked from the content without AI, because the AI was unavailable"
+            >
+              Offline summary
+            </span>
+          )}
         </div>
 
         {/* Original Text */}
@@ -73,7 +165,17 @@ const HistoryDetailView: React.FC<HistoryDetailViewProps> = ({
           <div>
             <h4 className="text-sm font-bold text-discord-textMuted uppercase mb-2">Original Text</h4>
             <div className="bg-discord-bg p-4 rounded-lg border border-white/5 max-h-48 overflow-y-auto">
-              <p className="text-discord-text text-sm whitespace-pre-wrap">{summary.originalText}</p>
+              {textMatch ? (
+                <p className="text-discord-text text-sm whitespace-pre-wrap">
+                  {summary.originalText.substring(0, textMatch.start)}
+                  <mark ref={highlightRef} className="bg-discord-accent/30 text-white rounded">
+                    {summary.originalText.substring(textMatch.start, textMatch.end)}
+                  </mark>
+                  {summary.originalText.substring(textMatch.end)}
+                </p>
+              ) : (
+                <p className="text-discord-text text-sm whitespace-pre-wrap">{summary.originalText}</p>
+              )}
             </div>
           </div>
         )}
@@ -109,10 +211,46 @@ const HistoryDetailView: React.FC<HistoryDetailViewProps> = ({
         <div>
           <h4 className="text-sm font-bold text-discord-textMuted uppercase mb-2">Generated Summary</h4>
           <div className="bg-discord-bg p-4 rounded-lg border border-white/5 max-h-96 overflow-y-auto prose prose-invert prose-sm max-w-none">
-            <ReactMarkdown>{summary.summaryText}</ReactMarkdown>
+            <CitedMarkdown
+              text={summary.summaryText}
+              sources={summary.sources}
+              onCite={setActiveSource}
+              activeSourceId={activeSource?.id}
+            />
           </div>
         </div>
 
+        {/* Cited source */}
+        {activeSource && (
+          <div className="bg-discord-bg p-4 rounded-lg border border-discord-accent/40">
+            <div className="flex items-center justify-between mb-2 gap-2">
+              <h4 className="text-sm font-bold text-white truncate">
+                <span className="text-discord-accent mr-2">S{activeSource.id}</span>
+                {describeSource(activeSource)}
+              </h4>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {activeAttachment && activeAttachment.type !== 'image' && (
+                  <button
+                    onClick={handleOpenSource}
+                    className="flex items-center gap-1 px-2 py-1 hover:bg-white/10 rounded text-xs text-discord-textMuted hover:text-white transition-colors"
+                    title="Open the original at this location"
+                  >
+                    <ExternalLink size={14} /> Open original
+                  </button>
+                )}
+                <button
+                  onClick={() => setActiveSource(null)}
+                  className="p-1 hover:bg-white/10 rounded text-discord-textMuted hover:text-white transition-colors"
+                  title="Close"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            </div>
+            <p className="text-discord-textMuted text-sm whitespace-pre-wrap max-h-40 overflow-y-auto">{activeSource.excerpt}</p>
+          </div>
+        )}
+
         {/* Flashcards */}
         {summary.flashcards && summary.flashcards.length > 0 && (
           <div>
@@ -155,6 +293,16 @@ const HistoryDetailView: React.FC<HistoryDetailViewProps> = ({
           </button>
         </div>
       )}
+
+      {summary.podcast && (
+        <PodcastModal
+          isOpen={showPodcast}
+          onClose={() => setShowPodcast(false)}
+          title={summary.podcast.title}
+          content={stripSourceMarkers(summary.summaryText)}
+          episode={summary.podcast}
+        />
+      )}
     </div>
   );
 };
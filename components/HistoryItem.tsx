@@ -7,9 +7,11 @@ interface HistoryItemProps {
   summary: Summary;
   onSelect: () => void;
   onDelete: () => void;
+  selected?: boolean;
+  onToggleSelected?: () => void;
 }
 
-const HistoryItem: React.FC<HistoryItemProps> = ({ summary, onSelect, onDelete }) => {
+const HistoryItem: React.FC<HistoryItemProps> = ({ summary, onSelect, onDelete, selected, onToggleSelected }) => {
   const title = generateSummaryTitle(summary);
   const formattedDate = formatSummaryDate(summary.createdAt);
 
@@ -42,6 +44,17 @@ const HistoryItem: React.FC<HistoryItemProps> = ({ summary, onSelect, onDelete }
       }}
     >
       <div className="flex items-start justify-between gap-3">
+        {onToggleSelected && (
+          <input
+            type="checkbox"
+            checked={!!selected}
+            onChange={onToggleSelected}
+            onClick={(e) => e.stopPropagation()} // Prevent triggering onSelect
+            onKeyDown={(e) => e.stopPropagation()}
+            className="mt-1.5 accent-discord-accent"
+            aria-label="Select for export"
+          />
+        )}
         <div className="flex-1 min-w-0">
           <h4 className="text-white font-medium mb-2 truncate group-hover:text-discord-accent transition-colors">
             {title}
@@ -50,8 +63,17 @@ const HistoryItem: React.FC<HistoryItemProps> = ({ summary, onSelect, onDelete }
             <span className={`px-2 py-1 border rounded font-bold capitalize ${getModeColor(summary.mode)}`}>
               {summary.mode === 'eli5' ? 'ELI5' : summary.mode}
             </span>
+            {summary.offline && (
+              <span className="px-2 py-1 border rounded font-bold bg-yellow-500/20 border-yellow-500/50 text-yellow-400">Offline</span>
+            )}
             <span>•</span>
             <span>{formattedDate}</span>
+            {summary.flashcards && summary.flashcards.length > 0 && (
+              <>
+                <span>•</span>
+                <span>{summary.flashcards.length} flashcards</span>
+              </>
+            )}
           </div>
         </div>
         <button
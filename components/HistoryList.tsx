@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Summary } from '../types';
 import HistoryItem from './HistoryItem';
-import { Clock } from 'lucide-react';
+import ExportMenu from './ExportMenu';
+import { generateSummaryTitle } from '../utils/summaryUtils';
+import { Clock, Search } from 'lucide-react';
 
 interface HistoryListProps {
   summaries: Summary[];
@@ -9,11 +11,15 @@ interface HistoryListProps {
   onDeleteSummary: (summaryId: string) => void;
 }
 
-const HistoryList: React.FC<HistoryListProps> = ({ 
-  summaries, 
-  onSelectSummary, 
-  onDeleteSummary 
+const HistoryList: React.FC<HistoryListProps> = ({
+  summaries,
+  onSelectSummary,
+  onDeleteSummary
 }) => {
+  const [query, setQuery] = useState('');
+  const [modeFilter, setModeFilter] = useState('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
   // Sort summaries by creation date (newest first)
   const sortedSummaries = [...summaries].sort((a, b) => b.createdAt - a.createdAt);
 
@@ -30,16 +36,76 @@ const HistoryList: React.FC<HistoryListProps> = ({
     );
   }
 
+  const modes = [...new Set(sortedSummaries.map(s => s.mode))];
+  const search = query.trim().toLowerCase();
+  const filteredSummaries = sortedSummaries.filter(s =>
+    (modeFilter === 'all' || s.mode === modeFilter) &&
+    (!search || generateSummaryTitle(s).toLowerCase().includes(search) || s.summaryText.toLowerCase().includes(search))
+  );
+
+  // Export the ticked summaries, or everything the filter shows when none are ticked
+  const selectedSummaries = filteredSummaries.filter(s => selectedIds.has(s.id));
+  const exportSummaries = selectedSummaries.length > 0 ? selectedSummaries : filteredSummaries;
+  const allSelected = filteredSummaries.length > 0 && selectedSummaries.length === filteredSummaries.length;
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(filteredSummaries.map(s => s.id)));
+  };
+
   return (
-    <div className="space-y-3 overflow-y-auto max-h-[600px] pr-2">
-      {sortedSummaries.map((summary) => (
-        <HistoryItem
-          key={summary.id}
-          summary={summary}
-          onSelect={() => onSelectSummary(summary)}
-          onDelete={() => onDeleteSummary(summary.id)}
+    <div className="flex flex-col gap-3">
+      {/* Filter & export */}
+      <div className="flex items-center gap-2">
+        <div className="flex-1 flex items-center gap-2 bg-discord-bg border border-white/5 rounded-lg px-3">
+          <Search size={16} className="text-discord-textMuted" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search summaries..."
+            className="flex-1 bg-transparent py-2 text-sm text-white placeholder:text-discord-textMuted focus:outline-none"
+          />
+        </div>
+        <select
+          value={modeFilter}
+          onChange={(e) => setModeFilter(e.target.value)}
+          className="bg-discord-bg border border-white/5 rounded-lg px-3 py-2 text-sm text-white capitalize focus:outline-none"
+        >
+          <option value="all">All modes</option>
+          {modes.map(mode => <option key={mode} value={mode}>{mode === 'eli5' ? 'ELI5' : mode}</option>)}
+        </select>
+        <ExportMenu
+          summaries={exportSummaries}
+          label={selectedSummaries.length > 0 ? `Export ${selectedSummaries.length}` : 'Export all'}
         />
-      ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-discord-textMuted cursor-pointer select-none">
+        <input type="checkbox" checked={allSelected} onChange={toggleAll} className="accent-discord-accent" />
+        Select all shown ({filteredSummaries.length})
+      </label>
+
+      <div className="space-y-3 overflow-y-auto max-h-[520px] pr-2">
+        {filteredSummaries.map((summary) => (
+          <HistoryItem
+            key={summary.id}
+            summary={summary}
+            onSelect={() => onSelectSummary(summary)}
+            onDelete={() => onDeleteSummary(summary.id)}
+            selected={selectedIds.has(summary.id)}
+            onToggleSelected={() => toggleSelected(summary.id)}
+          />
+        ))}
+        {filteredSummaries.length === 0 && (
+          <p className="text-discord-textMuted text-sm text-center py-8">No summaries match this filter.</p>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,49 @@
+import React from 'react';
+import { NoteAbility } from '../types';
+
+interface NoteAbilityListProps {
+  abilities: NoteAbility[];
+  onNoteClick?: (noteId: string) => void;
+}
+
+const LEVEL_STYLES: Record<NoteAbility['level'], string> = {
+  easy: 'bg-green-500/10 text-green-400 border-green-500/20',
+  medium: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+  hard: 'bg-red-500/10 text-red-400 border-red-500/20'
+};
+
+/**
+ * Estimated ability per note: the chance of answering a medium question and the difficulty to ask next
+ */
+const NoteAbilityList: React.FC<NoteAbilityListProps> = ({ abilities, onNoteClick }) => (
+  <div className="space-y-3">
+    {abilities.map(ability => (
+      <div
+        key={ability.noteId}
+        onClick={onNoteClick ? () => onNoteClick(ability.noteId) : undefined}
+        className={`flex items-center gap-4 ${onNoteClick ? 'cursor-pointer group' : ''}`}
+      >
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between gap-2 mb-1">
+            <span className="text-sm font-medium text-white truncate group-hover:text-discord-accent transition-colors">{ability.topic}</span>
+            <span className="text-sm font-bold text-white shrink-0">{Math.round(ability.mastery * 100)}%</span>
+          </div>
+          <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+            <div className="h-full bg-discord-accent rounded-full" style={{ width: `${ability.mastery * 100}%` }} />
+          </div>
+          <p className="text-[11px] text-discord-textMuted mt-1">
+            {ability.attempts} answer{ability.attempts === 1 ? '' : 's'}
+          </p>
+        </div>
+        <span
+          className={`px-2 py-0.5 rounded-lg text-[10px] font-bold uppercase border shrink-0 ${LEVEL_STYLES[ability.level]}`}
+          title="Difficulty of the next questions on this note"
+        >
+          {ability.level}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+export default NoteAbilityList;
@@ -0,0 +1,74 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { OcclusionSource } from '../types';
+import { CanvasEngine } from './canvas/CanvasEngine';
+import { Shape } from './canvas/types';
+import { StorageService } from '../services/storageService';
+
+interface OcclusionViewProps {
+  occlusion: OcclusionSource;
+  revealed: boolean;
+  className?: string;
+}
+
+/**
+ * A note's canvas, fitted to view, with the card's label masked until revealed
+ */
+const OcclusionView: React.FC<OcclusionViewProps> = ({ occlusion, revealed, className = 'h-64' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const engineRef = useRef<CanvasEngine | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const parent = canvas?.parentElement;
+    if (!canvas || !parent) return;
+
+    const rect = parent.getBoundingClientRect();
+    const dpr = window.devicePixelRatio || 1;
+    canvas.style.width = `${rect.width}px`;
+    canvas.style.height = `${rect.height}px`;
+    canvas.width = Math.floor(rect.width * dpr);
+    canvas.height = Math.floor(rect.height * dpr);
+
+    // Read-only, so the cached copy shows at once and nothing is saved back
+    const engine = new CanvasEngine(canvas, occlusion.noteId, true);
+    engineRef.current = engine;
+    engine.setOcclusion({ labelId: occlusion.labelId, shapeId: occlusion.shapeId, revealed });
+    engine.fitToContent();
+
+    let cancelled = false;
+    StorageService.getCanvasElements(occlusion.noteId)
+      .then(elements => {
+        if (cancelled) return;
+        const shapes = elements as Shape[];
+        if (shapes.length > 0) engine.loadElements(shapes);
+        setMissing(!shapes.some(shape => shape.id === occlusion.labelId));
+        engine.fitToContent();
+      })
+      .catch(error => console.error('Failed to load the diagram', error));
+
+    return () => {
+      cancelled = true;
+      engine.destroy();
+      engineRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [occlusion.noteId, occlusion.labelId]);
+
+  useEffect(() => {
+    engineRef.current?.setOcclusion({ labelId: occlusion.labelId, shapeId: occlusion.shapeId, revealed });
+  }, [revealed, occlusion.labelId, occlusion.shapeId]);
+
+  return (
+    <div className={`relative w-full rounded-xl overflow-hidden bg-zinc-950 border border-white/5 ${className}`}>
+      <canvas ref={canvasRef} className="block pointer-events-none" />
+      {missing && (
+        <div className="absolute inset-x-0 bottom-0 px-3 py-2 bg-black/70 text-xs text-discord-textMuted text-center">
+          This label is no longer on the note's canvas
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OcclusionView;
@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PodcastEpisode } from '../types';
+import { createPodcast, PodcastAudioStore, PodcastProgress } from '../services/podcastService';
+import { getAIErrorMessage } from '../services/aiValidationService';
+import PodcastPlayer from './PodcastPlayer';
+import { X, Headphones, Loader2, RefreshCw } from 'lucide-react';
+
+interface PodcastModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  /** Markdown or plain text the episode is made from */
+  content: string;
+  /** An episode made earlier, whose audio is looked up on this device */
+  episode?: PodcastEpisode | null;
+  onCreated?: (episode: PodcastEpisode, audio: Blob) => void;
+}
+
+const describeProgress = (progress: PodcastProgress | null): string => {
+  if (!progress) return 'Getting started...';
+  if (progress.stage === 'script') {
+    return progress.total > 1 ? `Writing the script (part ${progress.completed + 1} of ${progress.total})...` : 'Writing the script...';
+  }
+  return `Recording the hosts (${progress.completed} of ${progress.total})...`;
+};
+
+/**
+ * Makes a two-host study podcast from the content, or plays one made earlier
+ */
+const PodcastModal: React.FC<PodcastModalProps> = ({ isOpen, onClose, title, content, episode, onCreated }) => {
+  const [current, setCurrent] = useState<{ episode: PodcastEpisode; audio: Blob } | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [progress, setProgress] = useState<PodcastProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [audioMissing, setAudioMissing] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const generate = async (regenerate = false) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setGenerating(true);
+    setError(null);
+    setAudioMissing(false);
+    setProgress(null);
+    try {
+      const result = await createPodcast(content, title, { signal: controller.signal, onProgress: setProgress, regenerate });
+      if (controller.signal.aborted) return;
+      setCurrent(result);
+      onCreated?.(result.episode, result.audio);
+    } catch (err) {
+      if (!controller.signal.aborted) setError(getAIErrorMessage(err));
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setGenerating(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (!episode) {
+      generate();
+      return;
+    }
+    let cancelled = false;
+    PodcastAudioStore.load(episode.id)
+      .then(audio => {
+        if (cancelled) return;
+        if (audio) setCurrent({ episode, audio });
+        else setAudioMissing(true);
+      })
+      .catch(() => !cancelled && setAudioMissing(true));
+    return () => { cancelled = true; };
+  }, [isOpen, episode?.id]);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    setCurrent(null);
+    setError(null);
+    setAudioMissing(false);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4 animate-in fade-in">
+      <div className="bg-discord-panel w-full max-w-2xl max-h-[90vh] rounded-2xl border border-white/10 shadow-2xl flex flex-col animate-in zoom-in-95">
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+            <Headphones className="text-discord-accent" /> Study Podcast
+          </h2>
+          <button onClick={handleClose} className="p-2 hover:bg-white/10 rounded-lg text-discord-textMuted hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {generating && (
+            <div className="flex flex-col items-center gap-3 py-10 text-discord-textMuted">
+              <Loader2 size={32} className="animate-spin text-discord-accent" />
+              <p className="text-sm">{describeProgress(progress)}</p>
+              {progress && progress.total > 0 && (
+                <div className="w-64 h-1.5 bg-white/10 rounded-full overflow-hidden">
+                  <div className="h-full bg-discord-accent transition-all" style={{ width: `${(progress.completed / progress.total) * 100}%` }} />
+                </div>
+              )}
+              <button onClick={() => abortRef.current?.abort()} className="text-xs hover:text-white underline">Cancel</button>
+            </div>
+          )}
+
+          {error && !generating && (
+            <div className="p-4 bg-red-500/10 border border-red-500/20 text-red-400 text-sm rounded-lg">{error}</div>
+          )}
+
+          {audioMissing && !generating && (
+            <p className="text-sm text-discord-textMuted">
+              The audio for this episode was made on another device or has been cleared. Make it again to listen here.
+            </p>
+          )}
+
+          {current && !generating && <PodcastPlayer episode={current.episode} audio={current.audio} />}
+
+          {!generating && (
+            <button
+              onClick={() => generate(!!current)}
+              className="flex items-center gap-2 px-4 py-2 bg-discord-bg hover:bg-discord-hover border border-white/10 rounded-lg text-white text-sm transition-colors"
+            >
+              <RefreshCw size={16} /> {current ? 'Make a new version' : 'Make the podcast'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PodcastModal;
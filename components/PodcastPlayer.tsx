@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PodcastEpisode } from '../types';
+import { formatOffset } from '../utils/summaryCitations';
+import { Play, Pause, SkipBack, SkipForward, Download } from 'lucide-react';
+
+interface PodcastPlayerProps {
+  episode: PodcastEpisode;
+  audio: Blob;
+}
+
+const SPEEDS = [0.75, 1, 1.25, 1.5, 2];
+
+/**
+ * Plays a study podcast with speed control, chapter skipping and the transcript of the current chapter
+ */
+const PodcastPlayer: React.FC<PodcastPlayerProps> = ({ episode, audio }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(audio);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [audio]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = speed;
+  }, [speed, url]);
+
+  const chapterIndex = Math.max(0, episode.chapters.findIndex((chapter, i) =>
+    currentTime >= chapter.start && currentTime < (episode.chapters[i + 1]?.start ?? Infinity)
+  ));
+  const chapter = episode.chapters[chapterIndex];
+
+  const seek = (seconds: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = Math.max(0, Math.min(episode.duration, seconds));
+    setCurrentTime(audioRef.current.currentTime);
+  };
+
+  const togglePlay = () => {
+    if (!audioRef.current) return;
+    if (audioRef.current.paused) audioRef.current.play();
+    else audioRef.current.pause();
+  };
+
+  // Back goes to the start of the chapter, or the previous one when already near its start
+  const previousChapter = () => {
+    const target = currentTime - (chapter?.start ?? 0) > 3 ? chapterIndex : chapterIndex - 1;
+    seek(episode.chapters[Math.max(0, target)]?.start ?? 0);
+  };
+
+  const nextChapter = () => {
+    const next = episode.chapters[chapterIndex + 1];
+    if (next) seek(next.start);
+  };
+
+  return (
+    <div className="bg-discord-bg rounded-xl border border-white/5 p-4 space-y-4">
+      {url && (
+        <audio
+          ref={audioRef}
+          src={url}
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onEnded={() => setPlaying(false)}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        />
+      )}
+
+      <div>
+        <h4 className="text-white font-bold truncate">{episode.title}</h4>
+        <p className="text-xs text-discord-textMuted">
+          {episode.hosts.join(' & ')} · {formatOffset(episode.duration)} · {episode.chapters.length} chapters
+        </p>
+      </div>
+
+      {/* Transport */}
+      <div className="flex items-center gap-3">
+        <button onClick={previousChapter} className="p-2 hover:bg-white/10 rounded-lg text-discord-textMuted hover:text-white transition-colors" title="Previous chapter">
+          <SkipBack size={18} />
+        </button>
+        <button onClick={togglePlay} className="p-3 bg-discord-accent hover:bg-discord-accentHover rounded-full text-white transition-colors" title={playing ? 'Pause' : 'Play'}>
+          {playing ? <Pause size={20} /> : <Play size={20} />}
+        </button>
+        <button onClick={nextChapter} disabled={chapterIndex >= episode.chapters.length - 1} className="p-2 hover:bg-white/10 rounded-lg text-discord-textMuted hover:text-white transition-colors disabled:opacity-40" title="Next chapter">
+          <SkipForward size={18} />
+        </button>
+
+        <div className="flex-1 flex items-center gap-2 text-xs text-discord-textMuted font-mono">
+          <span>{formatOffset(currentTime)}</span>
+          <input
+            type="range"
+            min={0}
+            max={episode.duration}
+            step={0.1}
+            value={currentTime}
+            onChange={(e) => seek(Number(e.target.value))}
+            className="flex-1 accent-discord-accent"
+          />
+          <span>{formatOffset(episode.duration)}</span>
+        </div>
+
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="bg-discord-panel border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none"
+          title="Playback speed"
+        >
+          {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+        {url && (
+          <a href={url} download={`${episode.title}.wav`} className="p-2 hover:bg-white/10 rounded-lg text-discord-textMuted hover:text-white transition-colors" title="Download audio">
+            <Download size={18} />
+          </a>
+        )}
+      </div>
+
+      {/* Chapters */}
+      <div className="space-y-1 max-h-40 overflow-y-auto">
+        {episode.chapters.map((c, i) => (
+          <button
+            key={i}
+            onClick={() => seek(c.start)}
+            className={`w-full flex items-center gap-3 px-3 py-1.5 rounded-lg text-left text-sm transition-colors ${i === chapterIndex ? 'bg-discord-accent/20 text-white' : 'text-discord-textMuted hover:bg-white/5 hover:text-white'}`}
+          >
+            <span className="font-mono text-xs w-12">{formatOffset(c.start)}</span>
+            <span className="truncate">{c.title}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Transcript of the current chapter */}
+      {chapter && (
+        <div className="border-t border-white/5 pt-3 space-y-2 max-h-48 overflow-y-auto text-sm">
+          {chapter.lines.map((line, i) => (
+            <p key={i} className="text-discord-text">
+              <span className={`font-bold mr-2 ${line.speaker === episode.hosts[0] ? 'text-discord-accent' : 'text-green-400'}`}>{line.speaker}</span>
+              {line.text}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PodcastPlayer;
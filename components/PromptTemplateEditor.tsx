@@ -0,0 +1,366 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { X, Save, Play, Square, History, Share2, Loader2, AlertTriangle, CheckCircle } from 'lucide-react';
+import { CustomMode, PromptVariables, Classroom, ClassroomResource, UserPreferences } from '../types';
+import { summarizeContentStream } from '../services/geminiService';
+import { getAIErrorMessage } from '../services/aiValidationService';
+import { StorageService } from '../services/storageService';
+import {
+  PROMPT_VARIABLES,
+  SAMPLE_TEXT,
+  getBuiltInMode,
+  findTemplateVariables,
+  isKnownVariable,
+  getVersions,
+} from '../utils/promptTemplates';
+import { stripSourceMarkers } from '../utils/summaryCitations';
+
+interface PromptTemplateEditorProps {
+  /** The mode being edited, or null when creating one */
+  mode: CustomMode | null;
+  user?: UserPreferences;
+  /** Name taken by another mode, built-in or custom */
+  isNameTaken: (name: string) => boolean;
+  onSave: (name: string, systemPrompt: string, variables: PromptVariables) => Promise<void>;
+  onClose: () => void;
+}
+
+interface PreviewState {
+  text: string;
+  loading: boolean;
+  error?: string;
+}
+
+const EMPTY_PREVIEW: PreviewState = { text: '', loading: false };
+
+/**
+ * Create and edit summarizer modes as templates, compare a draft against the saved
+ * version on sample text, restore earlier versions and share the mode to a classroom
+ */
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ mode, user, isNameTaken, onSave, onClose }) => {
+  const [name, setName] = useState(mode?.name || '');
+  const [prompt, setPrompt] = useState(mode?.systemPrompt || '');
+  const [defaults, setDefaults] = useState<PromptVariables>(mode?.variables || {});
+  const [sampleText, setSampleText] = useState(SAMPLE_TEXT);
+  const [saving, setSaving] = useState(false);
+  const [savedPreview, setSavedPreview] = useState<PreviewState>(EMPTY_PREVIEW);
+  const [draftPreview, setDraftPreview] = useState<PreviewState>(EMPTY_PREVIEW);
+  const [classrooms, setClassrooms] = useState<Classroom[]>([]);
+  const [shareClassroomId, setShareClassroomId] = useState('');
+  const [sharing, setSharing] = useState(false);
+  const [sharedTo, setSharedTo] = useState<string | null>(null);
+  const previewAbortRef = useRef<AbortController | null>(null);
+  const promptRef = useRef<HTMLTextAreaElement>(null);
+
+  const versions = mode ? getVersions(mode) : [];
+  // New modes are compared against the default built-in mode
+  const baseline = mode || getBuiltInMode('short')!;
+  const baselineLabel = mode ? `Saved (v${versions[versions.length - 1].version})` : 'Built-in "short"';
+
+  const usedVariables = findTemplateVariables(prompt);
+  const unknownVariables = usedVariables.filter(v => !isKnownVariable(v));
+  const trimmedName = name.trim();
+  const nameTaken = !!trimmedName && trimmedName !== mode?.name && isNameTaken(trimmedName);
+  const canShare = user?.role === 'teacher' && !user.isGuest && !!mode;
+
+  useEffect(() => {
+    if (!canShare) return;
+    StorageService.getClassrooms(user!.id)
+      .then(list => {
+        setClassrooms(list);
+        if (list.length > 0) setShareClassroomId(list[0].id);
+      })
+      .catch(error => console.error('Error loading classrooms:', error));
+  }, [canShare, user?.id]);
+
+  useEffect(() => () => previewAbortRef.current?.abort(), []);
+
+  const insertVariable = (variable: string) => {
+    const token = `{{${variable}}}`;
+    const textarea = promptRef.current;
+    if (!textarea) {
+      setPrompt(prev => prev + token);
+      return;
+    }
+    const start = textarea.selectionStart;
+    const end = textarea.selectionEnd;
+    setPrompt(prev => prev.slice(0, start) + token + prev.slice(end));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.selectionStart = textarea.selectionEnd = start + token.length;
+    });
+  };
+
+  const runPreview = async () => {
+    previewAbortRef.current?.abort();
+    const controller = new AbortController();
+    previewAbortRef.current = controller;
+
+    const preview = async (
+      template: string,
+      variables: PromptVariables,
+      setState: React.Dispatch<React.SetStateAction<PreviewState>>
+    ) => {
+      setState({ text: '', loading: true });
+      try {
+        const { text } = await summarizeContentStream(
+          sampleText,
+          [],
+          'custom',
+          partial => setState({ text: partial, loading: true }),
+          { customPrompt: template, variables, signal: controller.signal, offlineFallback: false }
+        );
+        setState({ text, loading: false });
+      } catch (error) {
+        setState({ text: '', loading: false, error: getAIErrorMessage(error) });
+      }
+    };
+
+    // Sequential, so both sides are not competing for the same rate limit
+    await preview(baseline.systemPrompt, baseline.variables || {}, setSavedPreview);
+    if (!controller.signal.aborted) {
+      await preview(prompt, defaults, setDraftPreview);
+    }
+  };
+
+  const stopPreview = () => {
+    previewAbortRef.current?.abort();
+    setSavedPreview(prev => ({ ...prev, loading: false }));
+    setDraftPreview(prev => ({ ...prev, loading: false }));
+  };
+
+  const handleSave = async () => {
+    if (!trimmedName || !prompt.trim() || nameTaken) return;
+    setSaving(true);
+    try {
+      await onSave(trimmedName, prompt.trim(), defaults);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!mode || !user || !shareClassroomId) return;
+    setSharing(true);
+    try {
+      // Students get a snapshot of the saved version, not the unsaved draft or its history.
+      // The history is left out rather than set to undefined, which Firestore rejects.
+      const { versions, ...snapshot } = mode;
+      const resource: ClassroomResource = {
+        id: Date.now().toString(),
+        classroomId: shareClassroomId,
+        resourceType: 'mode',
+        resourceId: mode.id,
+        resourceTitle: mode.name,
+        resourceDescription: mode.systemPrompt,
+        sharedBy: user.id,
+        sharedByName: user.name,
+        sharedAt: Date.now(),
+        mode: snapshot
+      };
+      await StorageService.shareResource(resource);
+      setSharedTo(classrooms.find(c => c.id === shareClassroomId)?.name || 'classroom');
+    } catch (error) {
+      console.error('Error sharing mode:', error);
+      alert('Failed to share mode. Please try again.');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const previewing = savedPreview.loading || draftPreview.loading;
+
+  const renderPreview = (title: string, state: PreviewState) => (
+    <div className="flex-1 min-w-0 bg-discord-bg rounded-lg border border-white/5 p-4 flex flex-col min-h-[200px]">
+      <h4 className="text-xs font-bold text-discord-textMuted uppercase mb-2 flex items-center gap-2">
+        {title}
+        {state.loading && <Loader2 size={12} className="animate-spin" />}
+      </h4>
+      {state.error ? (
+        <p className="text-sm text-red-400">{state.error}</p>
+      ) : state.text ? (
+        <div className="prose prose-invert prose-sm max-w-none overflow-y-auto text-discord-text">
+          <ReactMarkdown>{stripSourceMarkers(state.text)}</ReactMarkdown>
+        </div>
+      ) : (
+        <p className="text-sm text-discord-textMuted/60 italic">{state.loading ? 'Generating...' : 'Run the preview to compare.'}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+      <div className="bg-discord-panel p-6 rounded-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto border border-white/10 shadow-2xl animate-in zoom-in-95">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold text-white">
+            {mode ? 'Edit Custom Mode' : 'Create Custom Mode'}
+            {mode && <span className="ml-2 text-xs font-medium text-discord-textMuted">v{versions[versions.length - 1].version}</span>}
+          </h3>
+          <button onClick={onClose} className="text-discord-textMuted hover:text-white">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">Mode Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Technical, Creative, Research Notes"
+                className="w-full bg-discord-bg border border-white/10 rounded-lg px-4 py-3 text-white placeholder-discord-textMuted/50 focus:outline-none focus:border-discord-accent transition-colors"
+                autoFocus
+              />
+              {nameTaken && <p className="text-xs text-red-400 mt-1">A mode with this name already exists.</p>}
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-white">Prompt Template</label>
+                {versions.length > 1 && (
+                  <div className="flex items-center gap-1 text-xs text-discord-textMuted">
+                    <History size={12} />
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        const version = versions.find(v => v.version === Number(e.target.value));
+                        if (version) setPrompt(version.systemPrompt);
+                      }}
+                      className="bg-discord-bg border border-white/10 rounded px-2 py-1 text-xs text-white focus:outline-none"
+                    >
+                      <option value="">Restore version...</option>
+                      {[...versions].reverse().map(v => (
+                        <option key={v.version} value={v.version}>
+                          v{v.version} · {new Date(v.createdAt).toLocaleDateString()}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+              <textarea
+                ref={promptRef}
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+                placeholder="Define how the AI should summarize content in this mode. For example: 'Summarize {{subject}} for {{level}} with a focus on technical concepts. Write in {{language}}.'"
+                className="w-full h-32 bg-discord-bg border border-white/10 rounded-lg px-4 py-3 text-white placeholder-discord-textMuted/50 focus:outline-none focus:border-discord-accent transition-colors resize-none font-mono text-sm"
+              />
+              <div className="flex flex-wrap gap-2 mt-2">
+                {PROMPT_VARIABLES.map(v => (
+                  <button
+                    key={v.name}
+                    type="button"
+                    onClick={() => insertVariable(v.name)}
+                    className="px-2 py-1 rounded bg-discord-accent/20 text-discord-accent hover:bg-discord-accent/40 text-xs font-mono transition-colors"
+                  >
+                    {`{{${v.name}}}`}
+                  </button>
+                ))}
+              </div>
+              {unknownVariables.length > 0 && (
+                <p className="text-xs text-yellow-400 mt-2 flex items-center gap-1">
+                  <AlertTriangle size={12} />
+                  Unknown variable{unknownVariables.length === 1 ? '' : 's'} {unknownVariables.map(v => `{{${v}}}`).join(', ')} will be sent as written.
+                </p>
+              )}
+            </div>
+
+            {usedVariables.some(isKnownVariable) && (
+              <div>
+                <label className="block text-sm font-medium text-white mb-2">Default Values</label>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                  {PROMPT_VARIABLES.filter(v => usedVariables.includes(v.name)).map(v => (
+                    <input
+                      key={v.name}
+                      type="text"
+                      value={defaults[v.name] || ''}
+                      onChange={(e) => setDefaults(prev => ({ ...prev, [v.name]: e.target.value }))}
+                      placeholder={`${v.label}: ${v.placeholder}`}
+                      className="bg-discord-bg border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-discord-textMuted/50 focus:outline-none focus:border-discord-accent transition-colors"
+                    />
+                  ))}
+                </div>
+                <p className="text-xs text-discord-textMuted mt-1">Used when the summarizer leaves a variable empty.</p>
+              </div>
+            )}
+
+            {canShare && classrooms.length > 0 && (
+              <div className="bg-discord-bg/50 rounded-lg p-4 border border-white/5">
+                <h4 className="text-sm font-medium text-white mb-2 flex items-center gap-2">
+                  <Share2 size={14} /> Share to Classroom
+                </h4>
+                <div className="flex gap-2">
+                  <select
+                    value={shareClassroomId}
+                    onChange={(e) => {
+                      setShareClassroomId(e.target.value);
+                      setSharedTo(null);
+                    }}
+                    className="flex-1 bg-discord-bg border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-discord-accent"
+                  >
+                    {classrooms.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                  </select>
+                  <button
+                    onClick={handleShare}
+                    disabled={sharing || !shareClassroomId}
+                    className="px-4 py-2 bg-discord-accent hover:bg-discord-accentHover text-white text-sm rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {sharing ? <Loader2 size={14} className="animate-spin" /> : <Share2 size={14} />}
+                    Share
+                  </button>
+                </div>
+                {sharedTo ? (
+                  <p className="text-xs text-green-400 mt-2 flex items-center gap-1">
+                    <CheckCircle size={12} /> Shared the saved version with {sharedTo}.
+                  </p>
+                ) : (
+                  <p className="text-xs text-discord-textMuted mt-2">Students receive the last saved version.</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3 flex flex-col">
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">Sample Text</label>
+              <textarea
+                value={sampleText}
+                onChange={(e) => setSampleText(e.target.value)}
+                className="w-full h-28 bg-discord-bg border border-white/10 rounded-lg px-4 py-3 text-sm text-discord-text focus:outline-none focus:border-discord-accent transition-colors resize-none"
+              />
+            </div>
+            <button
+              onClick={previewing ? stopPreview : runPreview}
+              disabled={!previewing && (!prompt.trim() || !sampleText.trim())}
+              className="self-start px-4 py-2 bg-discord-bg hover:bg-discord-hover border border-white/10 text-white text-sm rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2"
+            >
+              {previewing ? <><Square size={14} /> Stop</> : <><Play size={14} /> Preview side by side</>}
+            </button>
+            <div className="flex flex-col sm:flex-row gap-3 flex-1">
+              {renderPreview(baselineLabel, savedPreview)}
+              {renderPreview('Draft', draftPreview)}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onClose} className="px-4 py-2 text-discord-textMuted hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !trimmedName || !prompt.trim() || nameTaken}
+            className="px-6 py-2 bg-discord-accent hover:bg-discord-accentHover text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            <Save size={16} />
+            {mode ? 'Save' : 'Create'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { Deck, DeckSource, Flashcard } from '../types';
+import { StorageService } from '../services/storageService';
+import { createDeck } from '../services/deckService';
+import { X, Trash2, Loader2, Library, CheckCircle } from 'lucide-react';
+
+interface SaveCardsModalProps {
+  userId: string;
+  title: string;
+  cards: Flashcard[];
+  /** Name offered for a new deck */
+  deckName: string;
+  source?: DeckSource;
+  onClose: () => void;
+}
+
+const NEW_DECK = 'new';
+
+/**
+ * Preview of newly made cards, saved to a new or an existing deck so they join the daily review
+ */
+const SaveCardsModal: React.FC<SaveCardsModalProps> = ({ userId, title, cards: initialCards, deckName, source, onClose }) => {
+  const [cards, setCards] = useState<Flashcard[]>(initialCards);
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [target, setTarget] = useState(NEW_DECK);
+  const [name, setName] = useState(deckName);
+  const [saving, setSaving] = useState(false);
+  const [savedTo, setSavedTo] = useState<string | null>(null);
+
+  useEffect(() => {
+    StorageService.getDecks()
+      .then(setDecks)
+      .catch(error => console.error('Failed to load decks', error));
+  }, []);
+
+  const handleSave = async () => {
+    if (cards.length === 0) return;
+    setSaving(true);
+    try {
+      const existing = decks.find(d => d.id === target);
+      const deck = existing
+        ? { ...existing, cards: [...existing.cards, ...cards], updatedAt: Date.now() }
+        : createDeck(userId, { name, source, cards });
+      await StorageService.saveDeck(deck);
+      setSavedTo(deck.name);
+    } catch (error) {
+      console.error('Failed to save cards', error);
+      alert('Could not save the cards. Please try again.');
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4 animate-in fade-in">
+      <div className="bg-discord-panel w-full max-w-2xl max-h-[85vh] rounded-2xl border border-white/10 shadow-2xl flex flex-col animate-in zoom-in-95">
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div>
+            <h2 className="text-2xl font-bold text-white">{title}</h2>
+            <p className="text-sm text-discord-textMuted mt-1">{cards.length} card{cards.length === 1 ? '' : 's'}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-lg text-discord-textMuted hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        {savedTo ? (
+          <div className="p-10 text-center space-y-3">
+            <CheckCircle size={40} className="mx-auto text-green-400" />
+            <h3 className="text-xl font-bold text-white">Saved to "{savedTo}"</h3>
+            <p className="text-sm text-discord-textMuted">The cards will show up in Daily Review and the deck's study mode.</p>
+            <button
+              onClick={onClose}
+              className="mt-2 px-4 py-2 bg-discord-accent hover:bg-discord-accentHover rounded-lg text-white text-sm font-bold transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto p-6 space-y-2">
+              {cards.length === 0 && (
+                <p className="text-center text-discord-textMuted py-8">No cards left to save.</p>
+              )}
+              {cards.map(card => (
+                <div key={card.id} className="group bg-discord-bg p-4 rounded-xl border border-white/5 flex items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <h5 className="text-white font-bold text-sm mb-1 whitespace-pre-wrap">{card.front}</h5>
+                    <p className="text-discord-textMuted text-sm whitespace-pre-wrap">{card.back}</p>
+                  </div>
+                  <button
+                    onClick={() => setCards(prev => prev.filter(c => c.id !== card.id))}
+                    className="p-1.5 opacity-0 group-hover:opacity-100 hover:bg-red-500/20 rounded text-discord-textMuted hover:text-red-400 transition-all"
+                    title="Leave out"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="p-6 border-t border-white/10 flex flex-wrap items-center gap-3">
+              <Library size={18} className="text-discord-accent" />
+              <select
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                className="bg-discord-bg border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none"
+              >
+                <option value={NEW_DECK}>New deck</option>
+                {decks.map(deck => (
+                  <option key={deck.id} value={deck.id}>{deck.name}</option>
+                ))}
+              </select>
+              {target === NEW_DECK && (
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Deck name"
+                  className="flex-1 min-w-[160px] bg-discord-bg border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-discord-accent"
+                />
+              )}
+              <button
+                onClick={handleSave}
+                disabled={saving || cards.length === 0}
+                className="ml-auto px-4 py-2 bg-discord-accent hover:bg-discord-accentHover rounded-lg text-white text-sm font-bold transition-colors flex items-center gap-2 disabled:opacity-50"
+              >
+                {saving && <Loader2 size={16} className="animate-spin" />} Save cards
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SaveCardsModal;
@@ -2,7 +2,7 @@ import React from 'react';
 import { ViewState } from '../types';
 import { LayoutDashboard, FileText, BookOpen, Clock, BrainCircuit, Gamepad2, LogOut, Flame, Globe, PanelLeftClose, PanelLeftOpen, GraduationCap } from 'lucide-react';
 import { ViewState, UserRole } from '../types';
-import { LayoutDashboard, FileText, BookOpen, Clock, BrainCircuit, Gamepad2, LogOut, Flame, Globe, PanelLeftClose, PanelLeftOpen, GraduationCap, Users } from 'lucide-react';
+import { LayoutDashboard, FileText, BookOpen, Clock, BrainCircuit, Gamepad2, LogOut, Flame, Globe, PanelLeftClose, PanelLeftOpen, GraduationCap, Users, MessageSquare, Gauge, Repeat, Library } from 'lucide-react';
 import { ThemeToggle } from './ThemeToggle';
 
 interface SidebarProps {
@@ -143,16 +143,24 @@ const Sidebar: React.FC<SidebarProps> = ({
           <>
             <NavItem view="classrooms" icon={GraduationCap} label="My Classrooms" />
             <NavItem view="notes" icon={BookOpen} label="My Notes" />
+            <NavItem view="askNotes" icon={MessageSquare} label="Ask My Notes" />
+            <NavItem view="decks" icon={Library} label="Flashcard Decks" />
+            <NavItem view="review" icon={Repeat} label="Daily Review" />
+            <NavItem view="usage" icon={Gauge} label="AI Usage" />
           </>
         ) : (
           <>
             <NavItem view="summarizer" icon={FileText} label="Summarizer" />
             <NavItem view="notes" icon={BookOpen} label="My Notes" />
+            <NavItem view="askNotes" icon={MessageSquare} label="Ask My Notes" />
+            <NavItem view="decks" icon={Library} label="Flashcard Decks" />
+            <NavItem view="review" icon={Repeat} label="Daily Review" />
             <NavItem view="studentClassrooms" icon={Users} label="Classrooms" />
             <NavItem view="feed" icon={Flame} label="Learning Feed" />
             <NavItem view="quiz" icon={Gamepad2} label="Quiz Arena" />
             <NavItem view="routine" icon={Clock} label="Routine" />
             <NavItem view="focus" icon={BrainCircuit} label="Focus Mode" />
+            <NavItem view="usage" icon={Gauge} label="AI Usage" />
           </>
         )}
       </nav>
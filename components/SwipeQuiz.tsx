@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence, useMotionValue, useTransform } from 'framer-motion';
 import { Question } from '../types';
 import { Check, X, RotateCcw } from 'lucide-react';
@@ -14,6 +14,8 @@ interface AttemptedSwipeQuestion {
 interface SwipeQuizProps {
     questions: Question[];
     onComplete: (score: number, attemptedQuestions: AttemptedSwipeQuestion[]) => void;
+    /** Called as each question is answered, with the time taken since it was shown */
+    onAnswer?: (question: Question, isCorrect: boolean, timeSpentMs: number) => void;
     onExit: () => void;
 }
 
@@ -48,11 +50,16 @@ const SwipeCard = ({ question, onSwipe }: { question: Question; onSwipe: (direct
     );
 };
 
-const SwipeQuiz: React.FC<SwipeQuizProps> = ({ questions, onComplete, onExit }) => {
+const SwipeQuiz: React.FC<SwipeQuizProps> = ({ questions, onComplete, onAnswer, onExit }) => {
     const [currentIndex, setCurrentIndex] = useState(0);
     const [score, setScore] = useState(0);
     const [showResult, setShowResult] = useState<'correct' | 'incorrect' | null>(null);
     const [attemptedQuestions, setAttemptedQuestions] = useState<AttemptedSwipeQuestion[]>([]);
+    const shownAtRef = useRef(Date.now());
+
+    useEffect(() => {
+        shownAtRef.current = Date.now();
+    }, [currentIndex]);
 
     const handleSwipe = (direction: 'left' | 'right') => {
         const currentQ = questions[currentIndex];
@@ -73,6 +80,7 @@ const SwipeQuiz: React.FC<SwipeQuizProps> = ({ questions, onComplete, onExit })
             explanation: currentQ.explanation
         };
         setAttemptedQuestions(prev => [...prev, attemptedQ]);
+        onAnswer?.(currentQ, isCorrect, Date.now() - shownAtRef.current);
 
         setShowResult(isCorrect ? 'correct' : 'incorrect');
 
@@ -0,0 +1,26 @@
+import React from 'react';
+import { PlayCircle } from 'lucide-react';
+
+interface VideoMomentLinkProps {
+  question: { videoTimestamp?: string; videoUrl?: string };
+}
+
+/**
+ * Opens the source video where the question's answer is explained
+ */
+const VideoMomentLink: React.FC<VideoMomentLinkProps> = ({ question }) => {
+  if (!question.videoUrl || !question.videoTimestamp) return null;
+
+  return (
+    <a
+      href={question.videoUrl}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex items-center gap-1.5 mt-2 text-xs font-medium text-discord-accent hover:underline"
+    >
+      <PlayCircle size={14} /> Watch the explanation at {question.videoTimestamp}
+    </a>
+  );
+};
+
+export default VideoMomentLink;
@@ -3,12 +3,15 @@ import rough from "roughjs/bin/rough";
 import { RoughCanvas } from "roughjs/bin/canvas";
 import {
     Shape, ToolType, LOCALSTORAGE_CANVAS_KEY,
-    StrokeWidth, StrokeStyle, RoughStyle, FillStyle, FontFamily, FontSize
+    StrokeWidth, StrokeStyle, RoughStyle, FillStyle, FontFamily, FontSize,
+    Bounds, LabelTarget, Occlusion
 } from "./types";
 import { SelectionController } from "./SelectionController";
 import { generateFreeDrawPath, getFontSize } from "./utils";
 import { StorageService } from "../../services/storageService";
 
+type TextShape = Extract<Shape, { type: "text" }>;
+
 export class CanvasEngine {
     private canvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D;
@@ -50,6 +53,9 @@ export class CanvasEngine {
     // Save debounce timer
     private saveTimeoutId: ReturnType<typeof setTimeout> | null = null;
 
+    // Label masked for an image-occlusion card
+    private occlusion: Occlusion | null = null;
+
     constructor(canvas: HTMLCanvasElement, canvasId?: string, readOnly: boolean = false) {
         this.canvas = canvas;
         this.ctx = canvas.getContext("2d")!;
@@ -304,6 +310,7 @@ export class CanvasEngine {
         );
 
         this.shapes.forEach(shape => this.drawShape(shape));
+        this.drawOcclusion();
 
         // Draw selections
         if (this.activeTool === "selection") {
@@ -397,7 +404,202 @@ export class CanvasEngine {
                 }
                 this.ctx.restore();
                 break;
+            case "flashcard_deck":
+                this.drawFlashcardDeck(shape);
+                break;
+        }
+    }
+
+    /**
+     * A deck is drawn as a stack of cards showing its title, size and the first few questions
+     */
+    private drawFlashcardDeck(deck: Extract<Shape, { type: "flashcard_deck" }>) {
+        const ctx = this.ctx;
+        const padding = 16;
+        ctx.save();
+
+        // Cards peeking out behind the top one
+        [2, 1].forEach(depth => {
+            ctx.fillStyle = "#232428";
+            ctx.strokeStyle = "rgba(255, 255, 255, 0.1)";
+            ctx.lineWidth = 1;
+            ctx.beginPath();
+            ctx.roundRect(deck.x + depth * 6, deck.y + depth * 6, deck.width, deck.height, 12);
+            ctx.fill();
+            ctx.stroke();
+        });
+
+        ctx.fillStyle = "#2b2d31";
+        ctx.strokeStyle = deck.strokeFill;
+        ctx.lineWidth = deck.strokeWidth;
+        ctx.beginPath();
+        ctx.roundRect(deck.x, deck.y, deck.width, deck.height, 12);
+        ctx.fill();
+        ctx.stroke();
+
+        ctx.textBaseline = "top";
+        ctx.textAlign = "left";
+        const maxWidth = deck.width - padding * 2;
+        const fit = (text: string) => {
+            let fitted = text;
+            while (fitted.length > 1 && ctx.measureText(fitted).width > maxWidth) fitted = fitted.slice(0, -2) + "…";
+            return fitted;
+        };
+
+        ctx.fillStyle = "#ffffff";
+        ctx.font = "bold 16px sans-serif";
+        ctx.fillText(fit(deck.title), deck.x + padding, deck.y + padding);
+
+        ctx.fillStyle = "#949ba4";
+        ctx.font = "12px sans-serif";
+        ctx.fillText(`${deck.cards.length} flashcard${deck.cards.length === 1 ? "" : "s"}`, deck.x + padding, deck.y + padding + 24);
+
+        ctx.fillStyle = "#dbdee1";
+        ctx.font = "14px sans-serif";
+        const lineHeight = 22;
+        const top = deck.y + padding + 52;
+        const visible = Math.max(0, Math.floor((deck.y + deck.height - padding - top) / lineHeight));
+        deck.cards.slice(0, visible).forEach((card, i) => {
+            ctx.fillText(fit(`• ${card.front}`), deck.x + padding, top + i * lineHeight);
+        });
+
+        ctx.restore();
+    }
+
+    // --- Image Occlusion ---
+
+    /**
+     * Labels to make occlusion cards from: the selected labels and those inside selected shapes,
+     * or every label on the canvas when nothing is selected
+     */
+    public getLabelTargets(): LabelTarget[] {
+        const targets = this.shapes
+            .filter((shape): shape is TextShape => shape.type === "text" && !!shape.text.trim())
+            .map(label => {
+                const target: LabelTarget = { labelId: label.id, label: label.text.trim() };
+                const container = this.findContainer(label);
+                if (container) target.shapeId = container.id;
+                return target;
+            });
+
+        const selected = this.selectionController.getSelectedShapes();
+        const single = this.selectionController.getSelectedShape();
+        const selectedIds = new Set([...selected, ...(single ? [single] : [])].map(s => s.id));
+        if (selectedIds.size === 0) return targets;
+        return targets.filter(t => selectedIds.has(t.labelId) || (t.shapeId && selectedIds.has(t.shapeId)));
+    }
+
+    public setOcclusion(occlusion: Occlusion | null) {
+        this.occlusion = occlusion;
+        this.render();
+    }
+
+    /**
+     * Zooms and pans so the whole drawing fits in view
+     */
+    public fitToContent(padding: number = 24) {
+        if (this.shapes.length === 0) return;
+        const bounds = this.shapes.map(shape => this.getVisibleBounds(shape));
+        const minX = Math.min(...bounds.map(b => b.x));
+        const minY = Math.min(...bounds.map(b => b.y));
+        const width = Math.max(...bounds.map(b => b.x + b.width)) - minX || 1;
+        const height = Math.max(...bounds.map(b => b.y + b.height)) - minY || 1;
+
+        const dpr = window.devicePixelRatio || 1;
+        const viewWidth = this.canvas.width / dpr;
+        const viewHeight = this.canvas.height / dpr;
+        const fitted = Math.min((viewWidth - padding * 2) / width, (viewHeight - padding * 2) / height, 2);
+        this.scale = Math.max(this.minScale, Math.min(this.maxScale, fitted));
+        this.panX = (viewWidth - width * this.scale) / 2 - minX * this.scale;
+        this.panY = (viewHeight - height * this.scale) / 2 - minY * this.scale;
+        this.render();
+    }
+
+    /**
+     * The area a text shape covers, measured the way it is drawn
+     */
+    private getTextBounds(shape: TextShape): Bounds {
+        const size = getFontSize(shape.fontSize, 1);
+        const lines = shape.lines && shape.lines.length > 0 ? shape.lines : [shape.text];
+        this.ctx.save();
+        this.ctx.font = `${size}px sans-serif`;
+        const width = Math.max(...lines.map(line => this.ctx.measureText(line).width));
+        this.ctx.restore();
+        const x = shape.textAlign === "center" ? shape.x - width / 2 : shape.textAlign === "right" ? shape.x - width : shape.x;
+        return { x, y: shape.y, width, height: lines.length * (shape.lineHeight || 1.2) * size };
+    }
+
+    private getVisibleBounds(shape: Shape): Bounds {
+        if (shape.type === "text") return this.getTextBounds(shape);
+        // Diamonds are drawn around their x/y
+        if (shape.type === "diamond") {
+            const width = Math.abs(shape.width);
+            const height = Math.abs(shape.height);
+            return { x: shape.x - width / 2, y: shape.y - height / 2, width, height };
+        }
+        return this.selectionController.getShapeBounds(shape);
+    }
+
+    /**
+     * The smallest rectangle, diamond or ellipse around the label's centre
+     */
+    private findContainer(label: TextShape): Shape | null {
+        const b = this.getTextBounds(label);
+        const cx = b.x + b.width / 2;
+        const cy = b.y + b.height / 2;
+        let best: Shape | null = null;
+        let bestArea = Infinity;
+        this.shapes.forEach(shape => {
+            if (shape.type !== "rectangle" && shape.type !== "diamond" && shape.type !== "ellipse") return;
+            const s = this.getVisibleBounds(shape);
+            const area = s.width * s.height;
+            if (cx >= s.x && cx <= s.x + s.width && cy >= s.y && cy <= s.y + s.height && area < bestArea) {
+                best = shape;
+                bestArea = area;
+            }
+        });
+        return best;
+    }
+
+    /**
+     * Covers the hidden label with a mask and outlines the shape it belongs to; once revealed
+     * the label is highlighted instead
+     */
+    private drawOcclusion() {
+        if (!this.occlusion) return;
+        const label = this.shapes.find(s => s.id === this.occlusion!.labelId);
+        if (!label || label.type !== "text") return;
+        const ctx = this.ctx;
+        const padding = 6;
+        const b = this.getTextBounds(label);
+        ctx.save();
+
+        const container = this.occlusion.shapeId ? this.shapes.find(s => s.id === this.occlusion!.shapeId) : null;
+        if (container) {
+            const c = this.getVisibleBounds(container);
+            ctx.strokeStyle = "#f59e0b";
+            ctx.lineWidth = 3;
+            ctx.setLineDash([8, 6]);
+            ctx.strokeRect(c.x - padding, c.y - padding, c.width + padding * 2, c.height + padding * 2);
+            ctx.setLineDash([]);
+        }
+
+        ctx.beginPath();
+        ctx.roundRect(b.x - padding, b.y - padding, b.width + padding * 2, b.height + padding * 2, 6);
+        if (this.occlusion.revealed) {
+            ctx.strokeStyle = "#22c55e";
+            ctx.lineWidth = 3;
+            ctx.stroke();
+        } else {
+            ctx.fillStyle = "#f59e0b";
+            ctx.fill();
+            ctx.fillStyle = "#1e1f22";
+            ctx.font = `bold ${Math.min(24, b.height + padding)}px sans-serif`;
+            ctx.textAlign = "center";
+            ctx.textBaseline = "middle";
+            ctx.fillText("?", b.x + b.width / 2, b.y + b.height / 2);
         }
+        ctx.restore();
     }
 
     // --- Input Handling ---
@@ -133,6 +133,8 @@ export class SelectionController {
         } else if (shape.type === 'text') {
             // Approximation
             return { x: shape.x, y: shape.y, width: 100, height: 20 };
+        } else if (shape.type === 'flashcard_deck') {
+            return { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
         }
         return { x: 0, y: 0, width: 0, height: 0 };
     }
@@ -153,7 +155,7 @@ export class SelectionController {
                 if (distanceToSegment({ x, y }, shape.points[i], shape.points[i + 1]) < threshold) return true;
             }
             return false;
-        } else if (shape.type === 'text') {
+        } else if (shape.type === 'text' || shape.type === 'flashcard_deck') {
             const b = this.getShapeBounds(shape);
             return isPointInRectangle(x, y, b.x, b.y, b.width, b.height);
         }
@@ -111,4 +111,40 @@ export type Shape =
         strokeEdge?: StrokeEdge;
         bgFill?: string;
         lineHeight?: number; // Line spacing multiplier
+    }
+    | {
+        id: string;
+        type: "flashcard_deck";
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+        title: string;
+        cards: DeckCard[];
+        strokeFill: string;
+        strokeWidth: StrokeWidth;
+        strokeEdge?: StrokeEdge;
     };
+
+export type FlashcardDeckShape = Extract<Shape, { type: "flashcard_deck" }>;
+
+// A text label that an image-occlusion card can hide, with the shape it sits in
+export interface LabelTarget {
+    labelId: string;
+    shapeId?: string;
+    label: string;
+}
+
+// A label masked on the canvas until revealed
+export interface Occlusion {
+    labelId: string;
+    shapeId?: string;
+    revealed: boolean;
+}
+
+// A flashcard as stored on a canvas deck
+export interface DeckCard {
+    id: string;
+    front: string;
+    back: string;
+}
@@ -100,3 +100,34 @@ export function distanceToSegment(p: Point, v: Point, w: Point): number {
         y: v.y + t * (w.y - v.y)
     });
 }
+
+// --- Generated Elements ---
+import { v4 as uuidv4 } from "uuid";
+import { DeckCard, FlashcardDeckShape, Shape } from "./types";
+
+const DECK_WIDTH = 320;
+const DECK_HEIGHT = 220;
+
+/**
+ * A flashcard deck element placed below whatever is already on the canvas
+ */
+export function createFlashcardDeck(title: string, cards: DeckCard[], existing: Shape[] = []): FlashcardDeckShape {
+    const bottom = existing.reduce((max, shape) => {
+        if (shape.type === "free-draw") return Math.max(max, ...shape.points.map(p => p.y));
+        const height = "height" in shape ? shape.height : "radY" in shape ? shape.radY : 0;
+        return Math.max(max, shape.y + height);
+    }, 0);
+
+    return {
+        id: uuidv4(),
+        type: "flashcard_deck",
+        x: 100,
+        y: bottom + 60,
+        width: DECK_WIDTH,
+        height: DECK_HEIGHT,
+        title,
+        cards,
+        strokeFill: "#5865F2",
+        strokeWidth: 2,
+    };
+}
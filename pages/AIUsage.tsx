@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Gauge, Zap, Upload, Download } from 'lucide-react';
+import { UserPreferences, AIUsageDay, AIUsageFeature } from '../types';
+import { AIUsageService, AI_USAGE_FEATURE_LABELS, totalsOf, getLocalDateKey } from '../services/aiUsageService';
+import { useAIUsageToday } from '../components/AIStatusBanner';
+import AICacheStats from '../components/AICacheStats';
+
+interface AIUsageProps {
+  user: UserPreferences;
+}
+
+const HISTORY_DAYS = 14;
+
+const TIER_LABELS: Record<string, string> = {
+  guest: 'Guest',
+  student: 'Student',
+  teacher: 'Teacher',
+};
+
+const formatCount = (n: number) => {
+  if (n < 1000) return `${n}`;
+  if (n < 1000000) return `${(n / 1000).toFixed(1)}k`;
+  return `${(n / 1000000).toFixed(1)}M`;
+};
+
+const UsageMeter: React.FC<{ label: string; used: number; limit: number; icon: React.ComponentType<{ size: number; className?: string }> }> = ({ label, used, limit, icon: Icon }) => {
+  const percent = Math.min(100, Math.round((used / limit) * 100));
+  const barColor = percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-discord-accent';
+
+  return (
+    <div className="bg-discord-panel p-6 rounded-2xl border border-white/5 shadow-sm">
+      <div className="flex items-center gap-2 text-discord-textMuted text-sm mb-2">
+        <Icon size={16} className="text-discord-accent" /> {label}
+      </div>
+      <p className="text-2xl font-bold text-white">
+        {formatCount(used)} <span className="text-sm font-medium text-discord-textMuted">/ {formatCount(limit)}</span>
+      </p>
+      <div className="mt-3 h-2 bg-discord-bg rounded-full overflow-hidden">
+        <div className={`h-full ${barColor} transition-all`} style={{ width: `${percent}%` }} />
+      </div>
+      <p className="text-xs text-discord-textMuted mt-2">{percent >= 100 ? 'Limit reached, resets at midnight' : `${percent}% of today's allowance`}</p>
+    </div>
+  );
+};
+
+const AIUsage: React.FC<AIUsageProps> = ({ user }) => {
+  const today = useAIUsageToday();
+  const [history, setHistory] = useState<AIUsageDay[]>([]);
+
+  // Reload history when today's counts change so the chart's last bar stays current
+  useEffect(() => {
+    AIUsageService.getHistory(HISTORY_DAYS).then(setHistory);
+  }, [user.id, today]);
+
+  const quota = AIUsageService.getQuota();
+  const tier = AIUsageService.getTier() || 'guest';
+  const totals = totalsOf(today);
+
+  const chartData = Array.from({ length: HISTORY_DAYS }, (_, i) => {
+    const date = new Date();
+    date.setDate(date.getDate() - (HISTORY_DAYS - 1 - i));
+    const key = getLocalDateKey(date);
+    return {
+      name: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      calls: totalsOf(history.find(d => d.date === key) || null).calls
+    };
+  });
+
+  const features = Object.keys(AI_USAGE_FEATURE_LABELS) as AIUsageFeature[];
+  const periodCalls = (feature: AIUsageFeature) =>
+    history.reduce((sum, day) => sum + (day.features[feature]?.calls || 0), 0);
+
+  return (
+    <div className="p-8 space-y-6 max-w-6xl mx-auto">
+      <div>
+        <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+          <Gauge className="text-discord-accent" /> AI Usage
+        </h1>
+        <p className="text-discord-textMuted mt-1">
+          How much AI you have used today and over the last {HISTORY_DAYS} days. Daily limits for {TIER_LABELS[tier] || tier} accounts reset at midnight.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <UsageMeter label="AI requests today" used={totals.calls} limit={quota.dailyCalls} icon={Zap} />
+        <UsageMeter label="Characters sent today" used={totals.inputChars} limit={quota.dailyInputChars} icon={Upload} />
+        <div className="bg-discord-panel p-6 rounded-2xl border border-white/5 shadow-sm">
+          <div className="flex items-center gap-2 text-discord-textMuted text-sm mb-2">
+            <Download size={16} className="text-discord-accent" /> Characters received today
+          </div>
+          <p className="text-2xl font-bold text-white">{formatCount(totals.outputChars)}</p>
+          <p className="text-xs text-discord-textMuted mt-2">Not limited</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 bg-discord-panel p-6 rounded-2xl border border-white/5 shadow-sm">
+          <h3 className="text-lg font-bold text-white mb-6 flex items-center gap-2">
+            <Zap size={18} className="text-discord-accent" /> AI Requests per Day
+          </h3>
+          <div style={{ width: '100%', height: '256px', minWidth: 0 }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <XAxis dataKey="name" stroke="#949ba4" tickLine={false} axisLine={false} />
+                <YAxis stroke="#949ba4" tickLine={false} axisLine={false} allowDecimals={false} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#111214', border: '1px solid #2b2d31', borderRadius: '12px' }}
+                  itemStyle={{ color: '#dbdee1' }}
+                  cursor={{ fill: '#35373c' }}
+                />
+                <Bar dataKey="calls" fill="#5865F2" radius={[6, 6, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="bg-discord-panel p-6 rounded-2xl border border-white/5 shadow-sm">
+          <h3 className="text-lg font-bold text-white mb-4">By Feature</h3>
+          <div className="space-y-2">
+            {features.map(feature => {
+              const counter = today?.features[feature];
+              const cap = quota.featureCalls?.[feature];
+              const reached = cap !== undefined && (counter?.calls || 0) >= cap;
+              return (
+                <div key={feature} className="flex items-center justify-between text-sm p-2 bg-discord-bg rounded-lg border border-white/5">
+                  <span className={reached ? 'text-red-400' : 'text-white'}>{AI_USAGE_FEATURE_LABELS[feature]}</span>
+                  <span className="text-discord-textMuted text-xs text-right">
+                    {counter?.calls || 0}{cap !== undefined ? ` / ${cap}` : ''} today · {periodCalls(feature)} in {HISTORY_DAYS}d
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      <AICacheStats userId={user.id} />
+    </div>
+  );
+};
+
+export default AIUsage;
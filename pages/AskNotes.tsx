@@ -0,0 +1,227 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { MessageSquare, Send, Square, FileText, BookOpen, Database, Trash2 } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { Note, Summary, UserPreferences, NoteChatMessage, NoteCitation } from '../types';
+import { answerFromNotesStream } from '../services/geminiService';
+import { getAIErrorMessage } from '../services/aiValidationService';
+import { isAbortError } from '../services/aiResilience';
+import { NoteIndexService, NoteIndexStats } from '../services/noteIndexService';
+import { useAIServiceStatus } from '../components/AIStatusBanner';
+
+interface AskNotesProps {
+    user: UserPreferences;
+    notes: Note[];
+    summaries: Summary[];
+    onOpenCitation: (citation: NoteCitation) => void;
+}
+
+const AskNotes: React.FC<AskNotesProps> = ({ user, notes, summaries, onOpenCitation }) => {
+    const [messages, setMessages] = useState<NoteChatMessage[]>([]);
+    const [question, setQuestion] = useState('');
+    const [answering, setAnswering] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [indexing, setIndexing] = useState(true);
+    const [stats, setStats] = useState<NoteIndexStats | null>(null);
+    const [expandedCitation, setExpandedCitation] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const { degraded: aiDegraded } = useAIServiceStatus();
+
+    // Catch up on anything saved before the index existed or while it was unavailable
+    useEffect(() => {
+        let active = true;
+        setIndexing(true);
+        NoteIndexService.sync(user.id, notes, summaries)
+            .then(() => NoteIndexService.getStats(user.id))
+            .then(result => {
+                if (active) setStats(result);
+            })
+            .finally(() => {
+                if (active) setIndexing(false);
+            });
+        return () => {
+            active = false;
+        };
+    }, [user.id, notes, summaries]);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    useEffect(() => {
+        scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+    }, [messages]);
+
+    const handleAsk = async () => {
+        const text = question.trim();
+        if (!text || answering) return;
+
+        const history = messages;
+        const userMessage: NoteChatMessage = { id: Date.now().toString(), role: 'user', text, createdAt: Date.now() };
+        const answerId = `${userMessage.id}-answer`;
+        setMessages([...history, userMessage, { id: answerId, role: 'assistant', text: '', createdAt: Date.now() }]);
+        setQuestion('');
+        setError(null);
+        setAnswering(true);
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        const updateAnswer = (patch: Partial<NoteChatMessage>) =>
+            setMessages(prev => prev.map(m => (m.id === answerId ? { ...m, ...patch } : m)));
+
+        try {
+            const passages = await NoteIndexService.search(user.id, text);
+            const answer = await answerFromNotesStream(
+                text,
+                passages,
+                history,
+                partial => updateAnswer({ text: partial }),
+                { userId: user.id, signal: controller.signal }
+            );
+            updateAnswer({ text: answer.text, citations: answer.citations });
+        } catch (e) {
+            if (!isAbortError(e)) {
+                setError(getAIErrorMessage(e));
+                // Drop the empty answer bubble, keep the question so it can be retried
+                setMessages(prev => prev.filter(m => m.id !== answerId || m.text));
+            }
+        } finally {
+            if (abortRef.current === controller) abortRef.current = null;
+            setAnswering(false);
+        }
+    };
+
+    const handleStop = () => abortRef.current?.abort();
+
+    const handleClear = () => {
+        abortRef.current?.abort();
+        setMessages([]);
+        setError(null);
+    };
+
+    const renderCitation = (message: NoteChatMessage, citation: NoteCitation) => {
+        const key = `${message.id}-${citation.index}`;
+        const isNote = citation.sourceType === 'note';
+        return (
+            <button
+                key={key}
+                onClick={() => (isNote ? onOpenCitation(citation) : setExpandedCitation(expandedCitation === key ? null : key))}
+                className="flex items-center gap-1.5 px-2 py-1 bg-discord-bg hover:bg-discord-hover border border-white/10 rounded text-xs text-discord-textMuted hover:text-white transition-colors max-w-[240px]"
+                title={citation.snippet}
+            >
+                <span className="font-bold text-discord-accent">[{citation.index}]</span>
+                {isNote ? <FileText size={12} /> : <BookOpen size={12} />}
+                <span className="truncate">{citation.title}</span>
+            </button>
+        );
+    };
+
+    return (
+        <div className="p-8 h-full flex flex-col">
+            <div className="flex justify-between items-start mb-6">
+                <div>
+                    <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+                        <MessageSquare className="text-discord-accent" /> Ask My Notes
+                    </h1>
+                    <p className="text-discord-textMuted mt-1">Answers come only from your notes and summaries, with links back to the source.</p>
+                </div>
+                <div className="flex items-center gap-3">
+                    <span className="flex items-center gap-1.5 text-xs text-discord-textMuted">
+                        <Database size={14} />
+                        {indexing
+                            ? 'Indexing your notes...'
+                            : stats
+                                ? `${stats.sourceCount} sources, ${stats.chunkCount} passages indexed`
+                                : 'Index unavailable'}
+                    </span>
+                    {messages.length > 0 && (
+                        <button onClick={handleClear} className="p-2 hover:bg-white/10 rounded-full text-discord-textMuted hover:text-white" title="Clear conversation">
+                            <Trash2 size={16} />
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div className="bg-discord-panel rounded-xl border border-white/5 flex-1 flex flex-col overflow-hidden">
+                <div ref={scrollRef} className="flex-1 overflow-y-auto p-6 space-y-4">
+                    {messages.length === 0 && (
+                        <div className="h-full flex flex-col items-center justify-center text-center text-discord-textMuted">
+                            <MessageSquare size={40} className="mb-3 opacity-40" />
+                            <p className="font-medium text-white">Ask anything you have written down</p>
+                            <p className="text-sm mt-1">e.g. "What are the stages of mitosis?" or "Summarize my notes on supply and demand"</p>
+                        </div>
+                    )}
+
+                    {messages.map(message => (
+                        <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                            <div
+                                className={`max-w-[80%] rounded-xl px-4 py-3 ${message.role === 'user'
+                                    ? 'bg-discord-accent text-white'
+                                    : 'bg-discord-bg border border-white/5 text-discord-text'
+                                    }`}
+                            >
+                                {message.role === 'assistant' ? (
+                                    <div className="prose prose-invert prose-sm max-w-none">
+                                        {message.text ? <ReactMarkdown>{message.text}</ReactMarkdown> : <span className="text-discord-textMuted">Searching your notes...</span>}
+                                    </div>
+                                ) : (
+                                    <p className="whitespace-pre-wrap">{message.text}</p>
+                                )}
+
+                                {message.citations && message.citations.length > 0 && (
+                                    <div className="mt-3 pt-3 border-t border-white/5">
+                                        <div className="flex flex-wrap gap-2">
+                                            {message.citations.map(citation => renderCitation(message, citation))}
+                                        </div>
+                                        {message.citations
+                                            .filter(c => expandedCitation === `${message.id}-${c.index}`)
+                                            .map(c => (
+                                                <p key={c.index} className="mt-2 text-xs text-discord-textMuted italic border-l-2 border-discord-accent/50 pl-2">
+                                                    {c.snippet}
+                                                </p>
+                                            ))}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                {error && <div className="mx-6 mb-3 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">{error}</div>}
+
+                <div className="p-4 border-t border-white/5 flex gap-3">
+                    <textarea
+                        value={question}
+                        onChange={e => setQuestion(e.target.value)}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter' && !e.shiftKey) {
+                                e.preventDefault();
+                                handleAsk();
+                            }
+                        }}
+                        rows={1}
+                        placeholder="Ask a question about your notes..."
+                        className="flex-1 bg-discord-bg border border-white/10 rounded-lg px-4 py-2 text-white placeholder-discord-textMuted resize-none focus:outline-none focus:border-discord-accent"
+                    />
+                    {answering ? (
+                        <button
+                            onClick={handleStop}
+                            className="bg-discord-bg hover:bg-discord-hover border border-white/10 text-white px-4 py-2 rounded-lg font-bold flex items-center gap-2"
+                        >
+                            <Square size={16} /> Stop
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleAsk}
+                            disabled={!question.trim() || aiDegraded}
+                            className="bg-discord-accent hover:bg-discord-accentHover text-white px-4 py-2 rounded-lg font-bold transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                        >
+                            <Send size={16} /> Ask
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AskNotes;
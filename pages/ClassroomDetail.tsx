@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { UserPreferences, Classroom, Announcement, ClassroomResource, Invitation, Note, ViewState } from '../types';
 import { StorageService } from '../services/storageService';
-import { ArrowLeft, Loader2, MessageSquare, Share2, Users, Mail, Plus, X, Send, Trash2, Calendar, Check } from 'lucide-react';
+import { ArrowLeft, Loader2, MessageSquare, Share2, Users, Mail, Plus, X, Send, Trash2, Calendar, Check, Sparkles } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface ClassroomDetailProps {
@@ -418,7 +418,9 @@ const ClassroomDetail: React.FC<ClassroomDetailProps> = ({ user, classroomId, on
                   >
                     <div className="flex justify-between items-start mb-4">
                       <div className="w-12 h-12 bg-[#5865F2]/10 rounded-lg flex items-center justify-center">
-                        <Share2 size={22} className="text-[#5865F2]" />
+                        {resource.resourceType === 'mode'
+                          ? <Sparkles size={22} className="text-[#5865F2]" />
+                          : <Share2 size={22} className="text-[#5865F2]" />}
                       </div>
                       <button
                         onClick={() => handleUnshareResource(resource.id)}
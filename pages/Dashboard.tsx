@@ -1,8 +1,12 @@
 import React, { useMemo, useState, useEffect } from 'react';
-import { UserPreferences, Summary, Note, UserStats } from '../types';
+import { UserPreferences, Summary, Note, UserStats, NoteAbility } from '../types';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
 import { Clock, BookOpen, FileText, Zap, Calendar, Flame, Trophy, ArrowRight, BrainCircuit, Sparkles, Target, PenLine } from 'lucide-react';
 import { generateDashboardInsight, generateDashboardInsightAsync, DashboardInsight, CTAAction } from '../services/insightService';
+import AICacheStats from '../components/AICacheStats';
+import NoteAbilityList from '../components/NoteAbilityList';
+import { QuestionBankService } from '../services/questionBankService';
+import { estimateAbilities } from '../services/adaptiveQuizService';
 
 interface DashboardProps {
   user: UserPreferences;
@@ -102,6 +106,22 @@ const Dashboard: React.FC<DashboardProps> = ({ user, summaries, notes, stats, on
     return () => { cancelled = true; };
   }, [user.id, notes.length, safeStats.loginStreak, safeStats.quizzesTaken]);
 
+  // Ability per note, for the notes that have quiz answers in the question bank
+  const [abilities, setAbilities] = useState<NoteAbility[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    QuestionBankService.getBank()
+      .then(bank => {
+        if (cancelled) return;
+        const quizzed = new Set(bank.filter(entry => entry.attempts.length > 0).map(entry => entry.noteId));
+        setAbilities(estimateAbilities(bank, notes.filter(note => quizzed.has(note.id))));
+      })
+      .catch(console.error);
+
+    return () => { cancelled = true; };
+  }, [user.id, notes.length, safeStats.quizzesTaken]);
+
   const handleCTAClick = () => {
     const action = insight.ctaAction;
     switch (action.type) {
@@ -279,6 +299,28 @@ const Dashboard: React.FC<DashboardProps> = ({ user, summaries, notes, stats, on
           </div>
         </div>
       </div>
+
+      {abilities.length > 0 && (
+        <div className="bg-discord-panel p-6 rounded-2xl border border-white/5 shadow-sm">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-bold text-white flex items-center gap-2">
+              <Target size={18} className="text-discord-accent" /> Quiz Ability
+            </h3>
+            <button
+              onClick={() => onNavigate?.('quiz')}
+              className="text-sm text-discord-textMuted hover:text-white transition-colors flex items-center gap-1"
+            >
+              Practice <ArrowRight size={14} />
+            </button>
+          </div>
+          <p className="text-xs text-discord-textMuted mb-4">Chance of answering a medium question on each note, weakest first</p>
+          <div className="max-h-[300px] overflow-y-auto pr-2 custom-scrollbar">
+            <NoteAbilityList abilities={abilities} onNoteClick={onNoteClick} />
+          </div>
+        </div>
+      )}
+
+      <AICacheStats userId={user.id} />
     </div>
   );
 };
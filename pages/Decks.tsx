@@ -0,0 +1,608 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Deck, DeckSource, Flashcard, Folder, Note, Summary, UserPreferences, CardSchedule } from '../types';
+import { StorageService } from '../services/storageService';
+import { ReviewService } from '../services/reviewService';
+import { createDeck, createCard, parseTags, cardsFromSummary, cardsFromNote } from '../services/deckService';
+import { importAnkiPackage } from '../services/ankiService';
+import { exportDeckToAnki } from '../services/exportService';
+import { generateSummaryTitle } from '../utils/summaryUtils';
+import DeckStudy from '../components/DeckStudy';
+import {
+  Plus,
+  Search,
+  Library,
+  Play,
+  Trash2,
+  ChevronLeft,
+  Pencil,
+  Check,
+  X,
+  Tag,
+  FolderOpen,
+  FileText,
+  BookOpen,
+  Loader2,
+  Upload,
+  Download,
+} from 'lucide-react';
+
+interface DecksProps {
+  user: UserPreferences;
+  summaries: Summary[];
+  notes: Note[];
+  folders: Folder[];
+}
+
+const STATUS_STYLES: Record<Flashcard['status'], string> = {
+  new: 'bg-white/5 text-discord-textMuted',
+  learning: 'bg-amber-500/20 text-amber-300',
+  mastered: 'bg-green-500/20 text-green-300',
+};
+
+const Decks: React.FC<DecksProps> = ({ user, summaries, notes, folders }) => {
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [schedules, setSchedules] = useState<Map<string, CardSchedule>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [folderFilter, setFolderFilter] = useState('all');
+  const [tagFilter, setTagFilter] = useState('');
+  const [selectedDeckId, setSelectedDeckId] = useState<string | null>(null);
+  const [studyingDeckId, setStudyingDeckId] = useState<string | null>(null);
+
+  // Create form
+  const [isCreating, setIsCreating] = useState(false);
+  const [creatingBusy, setCreatingBusy] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newSource, setNewSource] = useState('');
+  const [newFolderId, setNewFolderId] = useState('');
+  const [newTags, setNewTags] = useState('');
+  const [importing, setImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Card editing
+  const [editingCardId, setEditingCardId] = useState<string | null>(null);
+  const [draftFront, setDraftFront] = useState('');
+  const [draftBack, setDraftBack] = useState('');
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([StorageService.getDecks(), ReviewService.getSchedules()])
+      .then(([loadedDecks, loadedSchedules]) => {
+        setDecks(loadedDecks);
+        setSchedules(loadedSchedules);
+      })
+      .catch(error => console.error('Failed to load decks', error))
+      .finally(() => setLoading(false));
+  }, [user.id]);
+
+  const allTags = useMemo(() => Array.from(new Set(decks.flatMap(d => d.tags))).sort(), [decks]);
+
+  const filteredDecks = decks.filter(deck => {
+    if (folderFilter !== 'all' && (deck.folderId || '') !== folderFilter) return false;
+    if (tagFilter && !deck.tags.includes(tagFilter)) return false;
+    const query = search.trim().toLowerCase();
+    return !query || deck.name.toLowerCase().includes(query) || deck.tags.some(t => t.includes(query));
+  });
+
+  const selectedDeck = decks.find(d => d.id === selectedDeckId) || null;
+  const studyingDeck = decks.find(d => d.id === studyingDeckId) || null;
+
+  const sourceLabel = (source?: DeckSource) => {
+    if (!source) return null;
+    if (source.kind === 'summary') {
+      const summary = summaries.find(s => s.id === source.summaryId);
+      return summary ? `Summary: ${generateSummaryTitle(summary)}` : 'Summary (deleted)';
+    }
+    return `Note: ${notes.find(n => n.id === source.noteId)?.title || '(deleted)'}`;
+  };
+
+  const folderName = (folderId?: string | null) => folders.find(f => f.id === folderId)?.name;
+
+  const saveDeck = async (deck: Deck) => {
+    const updated = { ...deck, updatedAt: Date.now() };
+    setDecks(prev => [updated, ...prev.filter(d => d.id !== deck.id)]);
+    try {
+      await StorageService.saveDeck(updated);
+    } catch (error) {
+      console.error('Failed to save deck', error);
+      alert('Could not save the deck. Please try again.');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim() && !newSource) return;
+    setCreatingBusy(true);
+    try {
+      let source: DeckSource | undefined;
+      let cards: Flashcard[] = [];
+      let fallbackName = '';
+      if (newSource.startsWith('summary:')) {
+        const summary = summaries.find(s => s.id === newSource.slice('summary:'.length));
+        if (summary) {
+          source = { kind: 'summary', summaryId: summary.id };
+          cards = cardsFromSummary(summary);
+          fallbackName = generateSummaryTitle(summary);
+        }
+      } else if (newSource.startsWith('note:')) {
+        const note = notes.find(n => n.id === newSource.slice('note:'.length));
+        if (note) {
+          source = { kind: 'note', noteId: note.id };
+          cards = await cardsFromNote(note);
+          fallbackName = note.title;
+        }
+      }
+
+      const deck = createDeck(user.id, {
+        name: newName.trim() || fallbackName,
+        source,
+        folderId: newFolderId || null,
+        tags: parseTags(newTags),
+        cards,
+      });
+      await StorageService.saveDeck(deck);
+      setDecks(prev => [deck, ...prev]);
+      setSelectedDeckId(deck.id);
+      setIsCreating(false);
+      setNewName('');
+      setNewSource('');
+      setNewFolderId('');
+      setNewTags('');
+    } catch (error) {
+      console.error('Failed to create deck', error);
+      alert('Could not create the deck. Please try again.');
+    }
+    setCreatingBusy(false);
+  };
+
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    try {
+      const result = await importAnkiPackage(file, user.id);
+      await Promise.all(result.decks.map(deck => StorageService.saveDeck(deck)));
+      await StorageService.saveCardSchedules(result.schedules);
+      setDecks(prev => [...result.decks, ...prev]);
+      setSchedules(prev => new Map([...prev, ...result.schedules.map(s => [s.id, s] as [string, CardSchedule])]));
+      const cardCount = result.decks.reduce((n, deck) => n + deck.cards.length, 0);
+      alert([
+        `Imported ${cardCount} cards into ${result.decks.length} deck${result.decks.length === 1 ? '' : 's'}, with review history for ${result.schedules.length}.`,
+        ...result.warnings,
+      ].join('\n'));
+    } catch (error) {
+      console.error('Anki import failed', error);
+      alert(error instanceof Error ? error.message : 'Could not import the Anki package.');
+    }
+    setImporting(false);
+  };
+
+  const handleExport = async (deck: Deck) => {
+    try {
+      await exportDeckToAnki(deck);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Export failed.');
+    }
+  };
+
+  const handleDeleteDeck = async (deck: Deck) => {
+    if (!window.confirm(`Delete "${deck.name}" and its ${deck.cards.length} cards?`)) return;
+    await StorageService.deleteDeck(deck.id);
+    setDecks(prev => prev.filter(d => d.id !== deck.id));
+    if (selectedDeckId === deck.id) setSelectedDeckId(null);
+  };
+
+  const startEditCard = (card: Flashcard) => {
+    setEditingCardId(card.id);
+    setDraftFront(card.front);
+    setDraftBack(card.back);
+  };
+
+  const handleSaveCard = () => {
+    if (!selectedDeck || !draftFront.trim()) return;
+    const cards = editingCardId === 'new'
+      ? [createCard(draftFront, draftBack), ...selectedDeck.cards]
+      : selectedDeck.cards.map(c => {
+          if (c.id !== editingCardId) return c;
+          const edited = { ...c, front: draftFront.trim(), back: draftBack.trim() };
+          // Once its sides are rewritten, a cloze card is a plain card
+          if (edited.front !== c.front || edited.back !== c.back) delete edited.cloze;
+          return edited;
+        });
+    saveDeck({ ...selectedDeck, cards });
+    setEditingCardId(null);
+  };
+
+  const handleDeleteCard = (cardId: string) => {
+    if (!selectedDeck) return;
+    saveDeck({ ...selectedDeck, cards: selectedDeck.cards.filter(c => c.id !== cardId) });
+  };
+
+  const handleStudyFinished = (deckId: string, statuses: Record<string, Flashcard['status']>) => {
+    const deck = decks.find(d => d.id === deckId);
+    if (!deck) return;
+    saveDeck({ ...deck, cards: deck.cards.map(c => statuses[c.id] ? { ...c, status: statuses[c.id] } : c) });
+  };
+
+  const cardEditor = (
+    <div className="bg-discord-bg p-4 rounded-xl border border-discord-accent/40 space-y-3">
+      <textarea
+        autoFocus
+        value={draftFront}
+        onChange={(e) => setDraftFront(e.target.value)}
+        placeholder="Question"
+        rows={2}
+        className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-discord-accent resize-none"
+      />
+      <textarea
+        value={draftBack}
+        onChange={(e) => setDraftBack(e.target.value)}
+        placeholder="Answer"
+        rows={3}
+        className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-discord-accent resize-none"
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSaveCard();
+        }}
+      />
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setEditingCardId(null)} className="p-2 hover:bg-white/10 rounded-lg text-discord-textMuted hover:text-white transition-colors" title="Cancel">
+          <X size={16} />
+        </button>
+        <button
+          onClick={handleSaveCard}
+          disabled={!draftFront.trim()}
+          className="px-3 py-1.5 bg-discord-accent hover:bg-discord-accentHover rounded-lg text-white text-sm font-medium flex items-center gap-1 disabled:opacity-50 transition-colors"
+        >
+          <Check size={16} /> Save card
+        </button>
+      </div>
+    </div>
+  );
+
+  const studyModal = studyingDeck && (
+    <DeckStudy
+      deck={studyingDeck}
+      schedules={schedules}
+      onClose={() => setStudyingDeckId(null)}
+      onFinish={(statuses) => handleStudyFinished(studyingDeck.id, statuses)}
+    />
+  );
+
+  // --- Deck editor ---
+  if (selectedDeck) {
+    return (
+      <div className="p-8 h-full overflow-y-auto bg-[#1e1f22]">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <button
+              onClick={() => { setSelectedDeckId(null); setEditingCardId(null); }}
+              className="flex items-center gap-1 text-discord-textMuted hover:text-white transition-colors"
+            >
+              <ChevronLeft size={20} /> All decks
+            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleExport(selectedDeck)}
+                disabled={selectedDeck.cards.length === 0}
+                className="p-2 hover:bg-white/10 rounded-lg text-discord-textMuted hover:text-white transition-colors disabled:opacity-40"
+                title="Export to Anki (.apkg)"
+              >
+                <Download size={20} />
+              </button>
+              <button
+                onClick={() => handleDeleteDeck(selectedDeck)}
+                className="p-2 hover:bg-red-500/20 rounded-lg text-discord-textMuted hover:text-red-400 transition-colors"
+                title="Delete deck"
+              >
+                <Trash2 size={20} />
+              </button>
+              <button
+                onClick={() => setStudyingDeckId(selectedDeck.id)}
+                disabled={selectedDeck.cards.length === 0}
+                className="bg-discord-accent hover:bg-discord-accentHover text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors font-medium disabled:opacity-50"
+              >
+                <Play size={18} /> Study
+              </button>
+            </div>
+          </div>
+
+          <div className="bg-discord-panel rounded-xl border border-white/5 p-6 space-y-4">
+            <input
+              key={`name-${selectedDeck.id}`}
+              defaultValue={selectedDeck.name}
+              onBlur={(e) => e.target.value.trim() && e.target.value.trim() !== selectedDeck.name && saveDeck({ ...selectedDeck, name: e.target.value.trim() })}
+              className="w-full bg-transparent text-3xl font-bold text-white focus:outline-none border-b border-transparent focus:border-discord-accent"
+            />
+            <textarea
+              key={`description-${selectedDeck.id}`}
+              defaultValue={selectedDeck.description || ''}
+              placeholder="Add a description..."
+              rows={2}
+              onBlur={(e) => {
+                const description = e.target.value.trim();
+                if (description === (selectedDeck.description || '')) return;
+                const { description: _previous, ...rest } = selectedDeck;
+                saveDeck(description ? { ...rest, description } : rest);
+              }}
+              className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-discord-accent resize-none"
+            />
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <label className="flex items-center gap-2 text-discord-textMuted">
+                <FolderOpen size={16} />
+                <select
+                  value={selectedDeck.folderId || ''}
+                  onChange={(e) => saveDeck({ ...selectedDeck, folderId: e.target.value || null })}
+                  className="bg-black/20 border border-white/10 rounded-lg px-3 py-1.5 text-white focus:outline-none focus:border-discord-accent"
+                >
+                  <option value="">Uncategorized</option>
+                  {folders.map(folder => <option key={folder.id} value={folder.id}>{folder.name}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-discord-textMuted flex-1 min-w-[220px]">
+                <Tag size={16} />
+                <input
+                  key={`tags-${selectedDeck.id}`}
+                  defaultValue={selectedDeck.tags.join(', ')}
+                  placeholder="Tags, separated by commas"
+                  onBlur={(e) => saveDeck({ ...selectedDeck, tags: parseTags(e.target.value) })}
+                  className="flex-1 bg-black/20 border border-white/10 rounded-lg px-3 py-1.5 text-white focus:outline-none focus:border-discord-accent"
+                />
+              </label>
+            </div>
+            {selectedDeck.source && (
+              <p className="text-xs text-discord-textMuted flex items-center gap-1">
+                {selectedDeck.source.kind === 'summary' ? <FileText size={14} /> : <BookOpen size={14} />}
+                From {sourceLabel(selectedDeck.source)}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-bold text-discord-textMuted uppercase">{selectedDeck.cards.length} cards</h2>
+              {editingCardId !== 'new' && (
+                <button
+                  onClick={() => { setEditingCardId('new'); setDraftFront(''); setDraftBack(''); }}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-white/5 hover:bg-white/10 rounded-lg text-sm text-white transition-colors"
+                >
+                  <Plus size={16} /> Add card
+                </button>
+              )}
+            </div>
+
+            {editingCardId === 'new' && cardEditor}
+
+            {selectedDeck.cards.map((card, i) => editingCardId === card.id ? (
+              <React.Fragment key={card.id}>{cardEditor}</React.Fragment>
+            ) : (
+              <div key={card.id} className="group bg-discord-panel p-4 rounded-xl border border-white/5 flex items-start gap-3">
+                <span className="w-6 h-6 rounded-full bg-discord-accent/20 flex items-center justify-center text-discord-accent text-xs font-bold shrink-0">
+                  {i + 1}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <h5 className="text-white font-bold text-sm mb-1 whitespace-pre-wrap">{card.front}</h5>
+                  <p className="text-discord-textMuted text-sm whitespace-pre-wrap">{card.back}</p>
+                </div>
+                {(card.cloze || card.occlusion) && (
+                  <span className="px-2 py-0.5 rounded text-xs font-medium bg-purple-500/20 text-purple-300">
+                    {card.cloze ? 'Cloze' : 'Diagram'}
+                  </span>
+                )}
+                <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${STATUS_STYLES[card.status] || STATUS_STYLES.new}`}>
+                  {card.status}
+                </span>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => startEditCard(card)} className="p-1.5 hover:bg-white/10 rounded text-discord-textMuted hover:text-white" title="Edit card">
+                    <Pencil size={14} />
+                  </button>
+                  <button onClick={() => handleDeleteCard(card.id)} className="p-1.5 hover:bg-red-500/20 rounded text-discord-textMuted hover:text-red-400" title="Delete card">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+        {studyModal}
+      </div>
+    );
+  }
+
+  // --- Deck list ---
+  return (
+    <div className="p-8 h-full overflow-y-auto bg-[#1e1f22]">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-white mb-2 flex items-center gap-3">
+              <Library className="text-discord-accent" /> Flashcard Decks
+            </h1>
+            <p className="text-discord-textMuted">Build decks from your summaries and notes, write your own cards, or bring them from Anki</p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".apkg,.colpkg"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleImport(file);
+              }}
+            />
+            <button
+              onClick={() => importInputRef.current?.click()}
+              disabled={importing}
+              className="bg-discord-panel hover:bg-discord-hover border border-white/10 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors font-medium disabled:opacity-50"
+              title="Import an Anki package"
+            >
+              {importing ? <Loader2 size={18} className="animate-spin" /> : <Upload size={18} />} Import .apkg
+            </button>
+            <button
+              onClick={() => setIsCreating(true)}
+              className="bg-discord-accent hover:bg-discord-accentHover text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors font-medium"
+            >
+              <Plus size={18} /> New Deck
+            </button>
+          </div>
+        </div>
+
+        {/* Search & Filters */}
+        <div className="flex flex-wrap gap-4 mb-6">
+          <div className="flex-1 min-w-[240px] relative">
+            <Search className="absolute left-3 top-3 text-discord-textMuted" size={20} />
+            <input
+              className="w-full bg-discord-panel border border-white/5 rounded-lg pl-10 pr-4 py-3 text-white focus:outline-none focus:border-discord-accent transition-all"
+              placeholder="Search decks..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <select
+            value={folderFilter}
+            onChange={(e) => setFolderFilter(e.target.value)}
+            className="bg-discord-panel border border-white/5 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-discord-accent transition-all"
+          >
+            <option value="all">All folders</option>
+            <option value="">Uncategorized</option>
+            {folders.map(folder => <option key={folder.id} value={folder.id}>{folder.name}</option>)}
+          </select>
+          {allTags.length > 0 && (
+            <select
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              className="bg-discord-panel border border-white/5 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-discord-accent transition-all"
+            >
+              <option value="">All tags</option>
+              {allTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+            </select>
+          )}
+        </div>
+
+        {/* Create Deck Form */}
+        {isCreating && (
+          <div className="bg-discord-panel border border-white/10 rounded-xl p-6 mb-6 animate-in fade-in space-y-3">
+            <h3 className="text-white font-bold">Create New Deck</h3>
+            <input
+              autoFocus
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Deck name..."
+              className="w-full bg-black/20 border border-white/10 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-discord-accent"
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleCreate();
+                if (e.key === 'Escape') setIsCreating(false);
+              }}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <select
+                value={newSource}
+                onChange={(e) => setNewSource(e.target.value)}
+                className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-discord-accent"
+              >
+                <option value="">Start empty</option>
+                {summaries.some(s => s.flashcards?.length) && (
+                  <optgroup label="Cards from a summary">
+                    {summaries.filter(s => s.flashcards?.length).map(s => (
+                      <option key={s.id} value={`summary:${s.id}`}>{generateSummaryTitle(s)} ({s.flashcards!.length})</option>
+                    ))}
+                  </optgroup>
+                )}
+                {notes.length > 0 && (
+                  <optgroup label="Cards from a note's canvas">
+                    {notes.map(n => <option key={n.id} value={`note:${n.id}`}>{n.title}</option>)}
+                  </optgroup>
+                )}
+              </select>
+              <select
+                value={newFolderId}
+                onChange={(e) => setNewFolderId(e.target.value)}
+                className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-discord-accent"
+              >
+                <option value="">Uncategorized</option>
+                {folders.map(folder => <option key={folder.id} value={folder.id}>{folder.name}</option>)}
+              </select>
+              <input
+                value={newTags}
+                onChange={(e) => setNewTags(e.target.value)}
+                placeholder="Tags, separated by commas"
+                className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-discord-accent"
+              />
+            </div>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setIsCreating(false)}
+                className="bg-white/5 hover:bg-white/10 text-white px-4 py-2 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={creatingBusy || (!newName.trim() && !newSource)}
+                className="bg-discord-accent hover:bg-discord-accentHover text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+              >
+                {creatingBusy ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />} Create
+              </button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-20 text-discord-textMuted gap-2">
+            <Loader2 size={20} className="animate-spin" /> Loading decks...
+          </div>
+        ) : filteredDecks.length === 0 ? (
+          <div className="text-center py-20 text-discord-textMuted">
+            <Library size={48} className="mx-auto mb-4 opacity-40" />
+            <p>{decks.length === 0 ? 'No decks yet. Create one to start studying.' : 'No decks match your filters.'}</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {filteredDecks.map(deck => {
+              const mastered = deck.cards.filter(c => c.status === 'mastered').length;
+              return (
+                <div
+                  key={deck.id}
+                  onClick={() => setSelectedDeckId(deck.id)}
+                  className="group bg-discord-panel p-5 rounded-xl border border-white/5 hover:border-discord-accent/50 cursor-pointer transition-all flex flex-col gap-3"
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <h3 className="text-white font-bold truncate">{deck.name}</h3>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleDeleteDeck(deck); }}
+                      className="p-1 opacity-0 group-hover:opacity-100 hover:bg-red-500/20 rounded text-discord-textMuted hover:text-red-400 transition-all"
+                      title="Delete deck"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                  <p className="text-sm text-discord-textMuted">
+                    {deck.cards.length} cards · {mastered} mastered{folderName(deck.folderId) ? ` · ${folderName(deck.folderId)}` : ''}
+                  </p>
+                  <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+                    <div className="h-full bg-green-500" style={{ width: `${deck.cards.length ? (mastered / deck.cards.length) * 100 : 0}%` }} />
+                  </div>
+                  {deck.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {deck.tags.map(tag => (
+                        <span key={tag} className="px-2 py-0.5 bg-discord-accent/10 text-discord-accent rounded text-xs">#{tag}</span>
+                      ))}
+                    </div>
+                  )}
+                  <button
+                    onClick={(e) => { e.stopPropagation(); setStudyingDeckId(deck.id); }}
+                    disabled={deck.cards.length === 0}
+                    className="mt-auto flex items-center justify-center gap-2 px-3 py-2 bg-white/5 hover:bg-discord-accent rounded-lg text-sm text-white font-medium transition-colors disabled:opacity-40 disabled:hover:bg-white/5"
+                  >
+                    <Play size={16} /> Study
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+      {studyModal}
+    </div>
+  );
+};
+
+export default Decks;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef, Dispatch, SetStateAction } from "react";
-import { Note, NoteElement, UserPreferences, Folder } from "../types";
+import { Note, NoteElement, UserPreferences, Folder, Flashcard } from "../types";
 import {
   Plus,
   ChevronLeft,
@@ -16,14 +16,20 @@ import {
   X,
   Upload,
   Wand2,
-  Loader2
+  Loader2,
+  Headphones
 } from "lucide-react";
 import DocumentEditor from "../components/DocumentEditor";
 import CanvasBoard, { CanvasBoardRef } from "../components/CanvasBoard";
 import MigrationHub from "../components/MigrationHub";
+import PodcastModal from "../components/PodcastModal";
+import SaveCardsModal from "../components/SaveCardsModal";
 import { StorageService } from "../services/storageService";
 import { generateDiagramFromText, convertSpecToShapes } from "../services/diagramService";
-import { Shape } from "../components/canvas/types";
+import { generateClozeCards } from "../services/geminiService";
+import { occlusionCard } from "../services/deckService";
+import { getAIErrorMessage } from "../services/aiValidationService";
+import { Shape, LabelTarget } from "../components/canvas/types";
 
 interface NotesProps {
   notes: Note[];
@@ -33,6 +39,9 @@ interface NotesProps {
   onNavigate: (view: any, folderId?: string | null) => void;
   activeFolderId?: string | null; // null = uncategorized, undefined = all notes
   folders?: Folder[];
+  /** Note, and optionally block, to open and scroll to, e.g. from an Ask My Notes citation */
+  focusTarget?: { noteId: string; blockId?: string } | null;
+  onFocusHandled?: () => void;
 }
 
 type ViewMode = "split" | "document" | "canvas";
@@ -45,12 +54,15 @@ const Notes: React.FC<NotesProps> = ({
   onNavigate,
   activeFolderId,
   folders = [],
+  focusTarget,
+  onFocusHandled,
 }) => {
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>("split");
   const [search, setSearch] = useState("");
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [showMigrationHub, setShowMigrationHub] = useState(false);
+  const [showPodcast, setShowPodcast] = useState(false);
 
   // Resizable split view state
   const [splitPosition, setSplitPosition] = useState(50); // Percentage (0-100)
@@ -61,6 +73,9 @@ const Notes: React.FC<NotesProps> = ({
   // Diagram generation state
   const [isGeneratingDiagram, setIsGeneratingDiagram] = useState(false);
   const [diagramError, setDiagramError] = useState<string | null>(null);
+  const [isGeneratingCloze, setIsGeneratingCloze] = useState(false);
+  // Cloze or occlusion cards waiting to be saved to a deck
+  const [newCards, setNewCards] = useState<{ title: string; cards: Flashcard[]; deckName: string } | null>(null);
 
   // Handle mouse move during drag
   const handleMouseMove = useCallback(
@@ -105,6 +120,33 @@ const Notes: React.FC<NotesProps> = ({
     };
   }, [isDragging, handleMouseMove, handleMouseUp]);
 
+  // Open the requested note and bring the cited block into view once the editor has rendered it
+  useEffect(() => {
+    if (!focusTarget) return;
+    if (!notes.some((n) => n.id === focusTarget.noteId)) {
+      onFocusHandled?.();
+      return;
+    }
+
+    setSelectedNoteId(focusTarget.noteId);
+    if (viewMode === "canvas") setViewMode("split");
+
+    const { blockId } = focusTarget;
+    const timer = setTimeout(() => {
+      if (blockId) {
+        const element = document.querySelector<HTMLElement>(`[data-block-id="${blockId}"]`);
+        if (element) {
+          element.scrollIntoView({ behavior: "smooth", block: "center" });
+          element.classList.add("ring-2", "ring-discord-accent", "rounded");
+          setTimeout(() => element.classList.remove("ring-2", "ring-discord-accent", "rounded"), 2000);
+        }
+      }
+      onFocusHandled?.();
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [focusTarget]);
+
   const activeNote = notes.find((n) => n.id === selectedNoteId);
 
   // Migration / Data Access Helper
@@ -129,6 +171,21 @@ const Notes: React.FC<NotesProps> = ({
     return [];
   };
 
+  // Plain text of the document, for turning the note into a podcast
+  const getBlockText = (block: any): string =>
+    (block.content || "")
+      .replace(/<[^>]*>/g, " ")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&amp;/g, "&")
+      .trim();
+
+  const getDocumentText = (note: Note) =>
+    getDocumentContent(note).map(getBlockText).filter(Boolean).join("\n\n");
+
   const handleMigrationImport = async (blocks: any[], title: string) => {
     const newNote: Note = {
       id: Date.now().toString(),
@@ -266,11 +323,6 @@ const Notes: React.FC<NotesProps> = ({
 
       const diagramSpec = await generateDiagramFromText(selectedText);
 
-      if (!diagramSpec) {
-        setDiagramError("Failed to generate diagram. Please try again.");
-        return;
-      }
-
       console.log("[Notes.tsx] Diagram spec generated:", diagramSpec);
 
       const shapes = convertSpecToShapes(diagramSpec);
@@ -295,12 +347,45 @@ const Notes: React.FC<NotesProps> = ({
 
     } catch (error) {
       console.error("[Notes.tsx] Diagram generation error:", error);
-      setDiagramError("An error occurred while generating the diagram.");
+      setDiagramError(getAIErrorMessage(error));
     } finally {
       setIsGeneratingDiagram(false);
     }
   };
 
+  const handleGenerateCloze = async (selectedText: string, selectedBlockIds: string[]) => {
+    if (!activeNote) return;
+
+    // Whole blocks give the AI complete sentences, so the selection is widened to them
+    const blocks = getDocumentContent(activeNote).filter((block: any) => selectedBlockIds.includes(block.id));
+    const text = blocks.length > 0 ? blocks.map(getBlockText).filter(Boolean).join("\n\n") : selectedText;
+
+    setIsGeneratingCloze(true);
+    setDiagramError(null);
+    try {
+      const cards = await generateClozeCards(text, user.id);
+      if (cards.length === 0) {
+        setDiagramError("No cloze cards could be made from the selection.");
+      } else {
+        setNewCards({ title: "Cloze cards", cards, deckName: activeNote.title || "Cloze cards" });
+      }
+    } catch (error) {
+      console.error("[Notes.tsx] Cloze generation error:", error);
+      setDiagramError(getAIErrorMessage(error));
+    } finally {
+      setIsGeneratingCloze(false);
+    }
+  };
+
+  const handleMakeOcclusionCards = (targets: LabelTarget[]) => {
+    if (!activeNote) return;
+    setNewCards({
+      title: "Image occlusion cards",
+      cards: targets.map((target) => occlusionCard(activeNote.title, { noteId: activeNote.id, ...target })),
+      deckName: `${activeNote.title || "Untitled"} diagram`,
+    });
+  };
+
   // Filter notes based on active folder
   const filteredNotes = notes.filter((note) => {
     // Search filter
@@ -576,6 +661,15 @@ const Notes: React.FC<NotesProps> = ({
             </>
           )}
 
+          <button
+            onClick={() => setShowPodcast(true)}
+            className="p-2 rounded-md transition-all flex items-center gap-2 text-discord-textMuted hover:text-white hover:bg-white/5"
+            title="Study podcast"
+          >
+            <Headphones size={18} />
+          </button>
+          <div className="w-[1px] h-6 bg-white/10 mx-1"></div>
+
           {isGeneratingDiagram && (
             <div className="flex items-center gap-2 px-3 text-blue-400">
               <Loader2 size={18} className="animate-spin" />
@@ -592,7 +686,14 @@ const Notes: React.FC<NotesProps> = ({
             </div>
           )}
 
-          {!isGeneratingDiagram && !diagramError && (
+          {isGeneratingCloze && (
+            <div className="flex items-center gap-2 px-3 text-blue-400">
+              <Loader2 size={18} className="animate-spin" />
+              <span className="text-sm">Making Cloze Cards...</span>
+            </div>
+          )}
+
+          {!isGeneratingDiagram && !isGeneratingCloze && !diagramError && (
             <>
               <button
                 onClick={() => setViewMode("document")}
@@ -636,6 +737,7 @@ const Notes: React.FC<NotesProps> = ({
               content={getDocumentContent(activeNote)}
               onUpdate={updateDocumentContent}
               onGenerateDiagram={!isGeneratingDiagram ? handleGenerateDiagram : undefined}
+              onGenerateCloze={!isGeneratingCloze ? handleGenerateCloze : undefined}
             />
           </div>
         )}
@@ -663,10 +765,35 @@ const Notes: React.FC<NotesProps> = ({
               width: viewMode === "split" ? `${100 - splitPosition}%` : "100%",
             }}
           >
-            <CanvasBoard canvasId={activeNote.id} readOnly={false} ref={canvasBoardRef} />
+            <CanvasBoard
+              canvasId={activeNote.id}
+              readOnly={false}
+              ref={canvasBoardRef}
+              onMakeOcclusionCards={handleMakeOcclusionCards}
+            />
           </div>
         )}
       </div>
+
+      {showPodcast && (
+        <PodcastModal
+          isOpen
+          onClose={() => setShowPodcast(false)}
+          title={activeNote.title}
+          content={getDocumentText(activeNote)}
+        />
+      )}
+
+      {newCards && (
+        <SaveCardsModal
+          userId={user.id}
+          title={newCards.title}
+          cards={newCards.cards}
+          deckName={newCards.deckName}
+          source={{ kind: "note", noteId: activeNote.id }}
+          onClose={() => setNewCards(null)}
+        />
+      )}
     </div>
   );
 };
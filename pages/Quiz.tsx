@@ -1,13 +1,20 @@
 import { ActionFunction, LoaderFunction, redirect } from "react-router-dom"; // Just minimal dummy if needed, but keeping original imports
-import React, { useState, useEffect } from 'react';
-import { Note, Quiz, UserPreferences, UserStats, QuizReport, QuizModeType, AttemptedFillQuestion, AttemptedExplainQuestion } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Note, Quiz, UserPreferences, UserStats, QuizReport, QuizModeType, AttemptedFillQuestion, AttemptedExplainQuestion, BankedQuestion, BankQuestion, Question } from '../types';
 import { generateQuizFromNotes, generateTrueFalseQuiz, generateQuizReport, generateFillInTheBlanksQuiz, generateExplainQuiz } from '../services/geminiService';
+import { getAIErrorMessage } from '../services/aiValidationService';
+import { isAbortError } from '../services/aiResilience';
+import { useAIServiceStatus } from '../components/AIStatusBanner';
 import { StorageService } from '../services/storageService';
-import { Play, Trophy, CheckCircle, XCircle, Zap, Target, BookOpen, AlertCircle, RefreshCw, Layers, Clock, ArrowRight, BrainCircuit, TrendingUp, Users, Loader2, MoreHorizontal } from 'lucide-react';
+import { QuestionBankService, BankSource, missedQuestions, questionStats, topicStats } from '../services/questionBankService';
+import { estimateAbilities, planRound } from '../services/adaptiveQuizService';
+import { Play, Trophy, CheckCircle, XCircle, Zap, Target, BookOpen, AlertCircle, RefreshCw, Layers, Clock, ArrowRight, BrainCircuit, TrendingUp, Users, Loader2, MoreHorizontal, RotateCcw } from 'lucide-react';
 import SwipeQuiz from '../components/SwipeQuiz';
 import FillInTheBlanksQuiz from '../components/FillInTheBlanksQuiz';
 import ExplainAnswerQuiz from '../components/ExplainAnswerQuiz';
+import VideoMomentLink from '../components/VideoMomentLink';
 import ModeSelectionModal from '../components/ModeSelectionModal';
+import NoteAbilityList from '../components/NoteAbilityList';
 import MultiplayerWaitingRoom from '../components/MultiplayerWaitingRoom';
 import MultiplayerLeaderboard from '../components/MultiplayerLeaderboard';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -15,6 +22,18 @@ import { DEFAULT_TIMER_CONFIG } from '../utils/quizUtils';
 
 const QUESTION_TIMER = 30;
 
+/**
+ * The text of a note's canvas elements and document blocks, one item per line
+ */
+const getNoteText = (note: Note): string => {
+    const elements = note.canvas?.elements || note.elements || [];
+    const blocks = note.document?.blocks || [];
+    return [...elements, ...blocks]
+        .filter(item => item.content)
+        .map(item => item.content + "\n")
+        .join('');
+};
+
 interface QuizProps {
     notes: Note[];
     user: UserPreferences;
@@ -29,12 +48,15 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
     const [quizMode, setQuizMode] = useState<'singleplayer' | 'multiplayer'>('singleplayer');
     const [selectedNoteIds, setSelectedNoteIds] = useState<string[]>([]);
     const [difficulty, setDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium');
+    const [freshQuestions, setFreshQuestions] = useState(false);
     const [timerEnabled, setTimerEnabled] = useState(true);
     const [timerDuration, setTimerDuration] = useState(30);
     const [loading, setLoading] = useState(false);
     const [continuing, setContinuing] = useState(false);
     const [quizReport, setQuizReport] = useState<QuizReport | null>(null);
     const [generatingReport, setGeneratingReport] = useState(false);
+    const generationAbortRef = useRef<AbortController | null>(null);
+    const { degraded: aiDegraded } = useAIServiceStatus();
 
     // Multiplayer state
     const [multiplayerSession, setMultiplayerSession] = useState<import('../types').MultiplayerQuizSession | null>(null);
@@ -74,6 +96,108 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
     const [attemptedFillQuestions, setAttemptedFillQuestions] = useState<AttemptedFillQuestion[]>([]);
     const [attemptedExplainQuestions, setAttemptedExplainQuestions] = useState<AttemptedExplainQuestion[]>([]);
 
+    // Question bank: every question generated here, with the history of attempts at it
+    const [bank, setBank] = useState<BankedQuestion[]>([]);
+    const bankRef = useRef<Map<string, BankedQuestion>>(new Map());
+    const [reviewingMissed, setReviewingMissed] = useState(false);
+    const questionShownAtRef = useRef(Date.now());
+    // Attempts are saved one after another, and awaited before the history is read back
+    const recordQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+    useEffect(() => {
+        QuestionBankService.getBank()
+            .then(updateBank)
+            .catch(error => console.error('Failed to load the question bank', error));
+    }, []);
+
+    useEffect(() => {
+        questionShownAtRef.current = Date.now();
+    }, [currentQIndex, quiz?.id]);
+
+    // Cancel any in-flight generation when the user navigates away
+    useEffect(() => () => generationAbortRef.current?.abort(), []);
+
+    /**
+     * Aborts the previous generation, if any, and returns the controller for a new one
+     */
+    const startGeneration = () => {
+        generationAbortRef.current?.abort();
+        const controller = new AbortController();
+        generationAbortRef.current = controller;
+        return controller;
+    };
+
+    const cancelGeneration = () => {
+        generationAbortRef.current?.abort();
+        setLoading(false);
+    };
+
+    const updateBank = (entries: BankedQuestion[]) => {
+        entries.forEach(entry => bankRef.current.set(entry.id, entry));
+        setBank([...bankRef.current.values()]);
+    };
+
+    /**
+     * Files generated questions in the bank under the selected notes and returns them with
+     * their bank ids. The quiz goes ahead with the questions as generated if that fails.
+     */
+    const fileQuestions = async <Q extends BankQuestion>(
+        questions: Q[],
+        questionMode: QuizModeType,
+        sources: BankSource[] = notes
+            .filter(note => selectedNoteIds.includes(note.id))
+            .map(note => ({ noteId: note.id, title: note.title, text: getNoteText(note) }))
+    ): Promise<Q[]> => {
+        try {
+            const entries = await QuestionBankService.bankQuestions(user.id, questions, questionMode, sources);
+            if (entries.length === 0) return questions;
+            updateBank(entries);
+            return entries.map(entry => entry.question as Q);
+        } catch (error) {
+            console.error('Failed to save questions to the bank', error);
+            return questions;
+        }
+    };
+
+    const recordAnswer = (questionId: string, correct: boolean, timeSpentMs: number) => {
+        const attempt = { answeredAt: Date.now(), correct, timeSpentMs, mode };
+        recordQueueRef.current = recordQueueRef.current.then(async () => {
+            const entry = bankRef.current.get(questionId);
+            if (!entry) return;
+            updateBank([await QuestionBankService.recordAttempt(entry, attempt)]);
+        }).catch(error => console.error('Failed to record the answer', error));
+    };
+
+    const startQuiz = (title: string, questions: Question[]) => {
+        setQuiz({
+            id: Date.now().toString(),
+            userId: user.id,
+            title,
+            questions,
+            highScore: 0
+        });
+
+        setCurrentQIndex(0);
+        setScore(0);
+        setStreak(0);
+        setAttemptedQuestions([]);
+        setAttemptedSwipeQuestions([]);
+        setSelectedOption(null);
+        setShowAnalysis(false);
+        setTimer(QUESTION_TIMER);
+        setView('playing');
+    };
+
+    /**
+     * Asks again, from the bank, the questions of this mode last answered wrong
+     */
+    const startMissedSession = () => {
+        const missed = missedQuestions(bank, mode, selectedNoteIds);
+        if (missed.length === 0) return;
+        setReviewingMissed(true);
+        startQuiz('Missed Questions', missed.map(entry => entry.question as Question));
+    };
+
     // Update timer config when mode changes
     useEffect(() => {
         const config = DEFAULT_TIMER_CONFIG[mode];
@@ -101,22 +225,7 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
         selectedNoteIds.forEach(id => {
             const note = notes.find(n => n.id === id);
             if (note) {
-                const elements = note.canvas?.elements || note.elements || [];
-                const blocks = note.document?.blocks || [];
-
-                aggregatedText += `Source: ${note.title}\n`;
-
-                // Extract text from canvas elements
-                elements.forEach(el => {
-                    if (el.content) aggregatedText += el.content + "\n";
-                });
-
-                // Extract text from document blocks
-                blocks.forEach(block => {
-                    if (block.content) {
-                        aggregatedText += block.content + "\n";
-                    }
-                });
+                aggregatedText += `Source: ${note.title}\n` + getNoteText(note);
             }
         });
 
@@ -126,19 +235,20 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
             return;
         }
 
+        const { signal } = startGeneration();
         let questions;
-        if (mode === 'swipe') {
-            questions = await generateTrueFalseQuiz(aggregatedText);
-        } else if (mode === 'fillBlanks') {
-            questions = await generateFillInTheBlanksQuiz(aggregatedText, difficulty);
-        } else if (mode === 'explain') {
-            questions = await generateExplainQuiz(aggregatedText, difficulty);
-        } else {
-            questions = await generateQuizFromNotes(aggregatedText, difficulty);
-        }
-
-        if (questions.length === 0) {
-            alert("Failed to generate questions. Please try a different note or try again.");
+        try {
+            if (mode === 'swipe') {
+                questions = await generateTrueFalseQuiz(aggregatedText, signal);
+            } else if (mode === 'fillBlanks') {
+                questions = await generateFillInTheBlanksQuiz(aggregatedText, difficulty, signal);
+            } else if (mode === 'explain') {
+                questions = await generateExplainQuiz(aggregatedText, difficulty, signal);
+            } else {
+                questions = await generateQuizFromNotes(aggregatedText, difficulty, { regenerate: freshQuestions }, signal);
+            }
+        } catch (error) {
+            if (!isAbortError(error)) alert(getAIErrorMessage(error));
             setLoading(false);
             return;
         }
@@ -179,26 +289,10 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
         }
 
         // Singleplayer mode (existing logic)
-        setQuiz({
-            id: Date.now().toString(),
-            userId: user.id,
-            title: 'Generated Quiz',
-            questions,
-            highScore: 0
-        });
-
-
-        setCurrentQIndex(0);
-        setScore(0);
-        setStreak(0);
-        setAttemptedQuestions([]);
-        setAttemptedSwipeQuestions([]);
-        setSelectedOption(null);
-        setShowAnalysis(false);
-        setTimer(QUESTION_TIMER);
-
+        const banked = await fileQuestions<Question>(questions, mode);
+        setReviewingMissed(false);
+        startQuiz('Generated Quiz', banked);
         setLoading(false);
-        setView('playing');
     };
 
     const handleJoinQuiz = async () => {
@@ -285,6 +379,9 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
         };
 
         setAttemptedQuestions(prev => [...prev, attemptedQuestion]);
+        if (!multiplayerSession) {
+            recordAnswer(currentQuestion.id, isCorrect, Date.now() - questionShownAtRef.current);
+        }
 
         if (isCorrect) {
             // Include time bonus
@@ -298,49 +395,67 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
     };
 
     const handleContinueQuiz = async () => {
+        if (!quiz) return;
         setContinuing(true);
-        
-        // 1. Analyze Performance of last round (last 5 questions)
-        const lastRoundQuestions = attemptedQuestions.slice(-5);
-        const correctCount = lastRoundQuestions.filter(q => q.isCorrect).length;
-        
-        let newDifficulty = difficulty;
-        if (correctCount >= 4) {
-            if (difficulty === 'easy') newDifficulty = 'medium';
-            else if (difficulty === 'medium') newDifficulty = 'hard';
-        } else if (correctCount <= 2) {
-            if (difficulty === 'hard') newDifficulty = 'medium';
-            else if (difficulty === 'medium') newDifficulty = 'easy';
-        }
-        
-        setDifficulty(newDifficulty); // Update state for UI
 
-        // 2. Re-aggregate text (simplified for now)
-        let aggregatedText = "";
-        selectedNoteIds.forEach(id => {
-            const note = notes.find(n => n.id === id);
-            if (note) {
-                const elements = note.canvas?.elements || note.elements || [];
-                const blocks = note.document?.blocks || [];
-                note.elements?.forEach(el => { if (el.content) aggregatedText += el.content + "\n"; });
-                note.canvas?.elements?.forEach(el => { if (el.content) aggregatedText += el.content + "\n"; });
-                note.document?.blocks?.forEach(block => { if (block.content) aggregatedText += block.content + "\n"; });
-            }
+        // 1. Plan the next round from the ability on each note, reusing banked questions that fit
+        await recordQueueRef.current;
+        const entries = [...bankRef.current.values()];
+        const selectedNotes = notes.filter(note => selectedNoteIds.includes(note.id));
+        const used = new Set(quiz.questions.map(q => q.id));
+        const slots = planRound(entries, estimateAbilities(entries, selectedNotes), 'standard', used);
+        const picked = slots.map(slot => slot.question?.question as Question | undefined);
+        picked.forEach(q => q && used.add(q.id));
+
+        // 2. Generate what the bank can't supply, once per note and difficulty
+        // Always bypass the cache here: the same notes at the same level must yield new questions
+        const openSlots = new Map<string, number[]>();
+        slots.forEach((slot, i) => {
+            if (slot.question) return;
+            const key = `${slot.noteId}|${slot.difficulty}`;
+            openSlots.set(key, [...(openSlots.get(key) || []), i]);
         });
 
-        // 3. Generate New Questions
-        const newQuestions = await generateQuizFromNotes(aggregatedText, newDifficulty);
-        
-        if (newQuestions.length > 0 && quiz) {
+        const { signal } = startGeneration();
+        let failure: unknown = null;
+        for (const indexes of openSlots.values()) {
+            const { noteId, difficulty: level } = slots[indexes[0]];
+            const note = selectedNotes.find(n => n.id === noteId);
+            if (!note) continue;
+            const text = getNoteText(note);
+            try {
+                const generated = await fileQuestions(
+                    await generateQuizFromNotes(text, level, { regenerate: true }, signal),
+                    'standard',
+                    [{ noteId: note.id, title: note.title, text }]
+                );
+                const fresh = generated.filter(q => !used.has(q.id));
+                indexes.forEach((slotIndex, i) => {
+                    if (!fresh[i]) return;
+                    picked[slotIndex] = fresh[i];
+                    used.add(fresh[i].id);
+                });
+            } catch (error) {
+                if (isAbortError(error)) {
+                    setContinuing(false);
+                    return;
+                }
+                failure = error;
+            }
+        }
+
+        // 3. Ask the round in the planned order, weak notes interleaved with the rest
+        const newQuestions = picked.filter((q): q is Question => !!q);
+        if (newQuestions.length > 0) {
             setQuiz(prev => prev ? ({
                 ...prev,
                 questions: [...prev.questions, ...newQuestions]
             }) : null);
             nextQuestion(); // Move to next index (which is now start of new set)
         } else {
-            alert("Could not generate more questions for this content.");
+            alert(`Could not generate more questions for this content. ${getAIErrorMessage(failure)}`);
         }
-        
+
         setContinuing(false);
     };
 
@@ -381,8 +496,17 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
 
         // Generate AI Report
         if (attemptedQuestions.length > 0) {
-            const report = await generateQuizReport(attemptedQuestions);
-            setQuizReport(report);
+            try {
+                const report = await generateQuizReport(attemptedQuestions, startGeneration().signal);
+                await recordQueueRef.current;
+                const entries = [...bankRef.current.values()];
+                const quizNoteIds = new Set(quiz?.questions.map(q => bankRef.current.get(q.id)?.noteId));
+                const abilities = estimateAbilities(entries, notes.filter(note => quizNoteIds.has(note.id)));
+                setQuizReport(abilities.length > 0 ? { ...report, abilities } : report);
+            } catch (error) {
+                if (!isAbortError(error)) throw error;
+                return;
+            }
         }
 
         const updatedStats = await StorageService.updateStats(prev => ({
@@ -406,6 +530,9 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
 
 
     if (view === 'setup') {
+        const noteAccuracy = new Map(topicStats(bank).map(topic => [topic.noteId, topic]));
+        const missedCount = missedQuestions(bank, mode, selectedNoteIds).length;
+
         return (
             <motion.div
                 initial={{ opacity: 0, scale: 0.95 }}
@@ -458,6 +585,12 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
                                             <span className="text-xs text-discord-textMuted opacity-70">{new Date(note.lastModified).toLocaleDateString()} • {note.folder}</span>
                                         </div>
                                     </div>
+                                    {noteAccuracy.get(note.id)?.accuracy != null && (
+                                        <div className="text-right shrink-0" title="Accuracy over every answer to this note's questions">
+                                            <span className="font-bold text-white block">{Math.round(noteAccuracy.get(note.id)!.accuracy! * 100)}%</span>
+                                            <span className="text-xs text-discord-textMuted">{noteAccuracy.get(note.id)!.attempts} answers</span>
+                                        </div>
+                                    )}
                                 </div>
                             ))}
                             {notes.length === 0 && (
@@ -612,10 +745,22 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
                             </div>
                         )}
 
+                        {mode === 'standard' && (
+                            <label className="flex items-center gap-3 text-sm text-discord-textMuted cursor-pointer select-none">
+                                <input
+                                    type="checkbox"
+                                    checked={freshQuestions}
+                                    onChange={(e) => setFreshQuestions(e.target.checked)}
+                                    className="accent-discord-accent w-4 h-4"
+                                />
+                                Generate fresh questions (ignore saved set for these notes)
+                            </label>
+                        )}
+
                         <div className="mt-4">
                             <button
                                 onClick={handleGenerate}
-                                disabled={loading || selectedNoteIds.length === 0}
+                                disabled={loading || aiDegraded || selectedNoteIds.length === 0}
                                 className="w-full bg-discord-green hover:bg-green-600 text-white py-4 rounded-xl font-bold text-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg hover:shadow-green-500/20"
                             >
                                 {loading ? (
@@ -624,12 +769,35 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
                                     <>{quizMode === 'multiplayer' ? 'Create Quiz Room' : 'Start Quiz'} <Play size={20} fill="currentColor" /></>
                                 )}
                             </button>
+                            {quizMode === 'singleplayer' && missedCount > 0 && !loading && (
+                                <button
+                                    onClick={startMissedSession}
+                                    className="w-full mt-2 bg-discord-panel hover:bg-discord-hover text-white py-3 rounded-xl font-bold transition-all border border-white/10 flex items-center justify-center gap-2"
+                                    title={selectedNoteIds.length > 0 ? 'From the selected notes' : 'From all notes'}
+                                >
+                                    <RotateCcw size={18} /> Retry {missedCount} missed question{missedCount === 1 ? '' : 's'}
+                                </button>
+                            )}
+                            {loading && (
+                                <button
+                                    onClick={cancelGeneration}
+                                    className="w-full mt-2 text-sm text-discord-textMuted hover:text-white transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                            )}
                             {selectedNoteIds.length === 0 && (
                                 <p className="text-center text-red-400 text-sm mt-3 flex items-center justify-center gap-2">
                                     <AlertCircle size={16} />
                                     Select at least one note to create a quiz
                                 </p>
                             )}
+                            {aiDegraded && (
+                                <p className="text-center text-amber-400 text-sm mt-3 flex items-center justify-center gap-2">
+                                    <AlertCircle size={16} />
+                                    Quiz generation is paused while the AI service recovers
+                                </p>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -708,6 +876,7 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
                     setAttemptedSwipeQuestions(swipeAttempted);
                     finishQuiz(finalScore * 100);
                 }}
+                onAnswer={(question, isCorrect, timeSpentMs) => recordAnswer(question.id, isCorrect, timeSpentMs)}
                 onExit={() => setView('setup')}
             />
         );
@@ -722,6 +891,7 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
                     setAttemptedFillQuestions(fillAttempted);
                     finishQuiz(finalScore);
                 }}
+                onAnswer={(question, isCorrect, timeSpentMs) => recordAnswer(question.id, isCorrect, timeSpentMs)}
                 onExit={() => setView('setup')}
                 timerEnabled={timerEnabled}
                 timerDuration={timerDuration}
@@ -738,6 +908,7 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
                     setAttemptedExplainQuestions(explainAttempted);
                     finishQuiz(finalScore);
                 }}
+                onAnswer={(question, isCorrect, timeSpentMs) => recordAnswer(question.id, isCorrect, timeSpentMs)}
                 onExit={() => setView('setup')}
                 timerEnabled={timerEnabled}
                 timerDuration={timerDuration}
@@ -750,6 +921,8 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
         const question = quiz.questions[currentQIndex];
         const isCorrect = selectedOption === question.correctIndex;
         const isAnswered = selectedOption !== null;
+        const banked = bank.find(entry => entry.id === question.id);
+        const history = banked ? questionStats(banked) : null;
 
         return (
             <div className="h-full flex flex-col max-w-4xl mx-auto p-8">
@@ -846,6 +1019,12 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
                                             {isCorrect ? 'Correct!' : selectedOption === -1 ? "Time's Up!" : 'Incorrect'}
                                         </h4>
                                         <p className="text-discord-textMuted text-sm leading-relaxed">{question.explanation}</p>
+                                        <VideoMomentLink question={question} />
+                                        {history && history.attempts > 1 && (
+                                            <p className="text-xs text-discord-textMuted mt-2">
+                                                Answered {history.attempts} times, {history.correct} correct
+                                            </p>
+                                        )}
                                     </div>
                                 </div>
 
@@ -858,7 +1037,7 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
                                         >
                                             Next Question <Play size={20} fill="currentColor" />
                                         </button>
-                                    ) : (
+                                    ) : reviewingMissed ? null : (
                                         // End of current set
                                         <button
                                             onClick={handleContinueQuiz}
@@ -1033,6 +1212,16 @@ const QuizPage: React.FC<QuizProps> = ({ notes, user, stats, setStats }) => {
                                 ))}
                             </div>
                         </div>
+
+                        {/* Ability per note, from every answer in the question bank */}
+                        {quizReport.abilities && quizReport.abilities.length > 0 && (
+                            <div className="bg-discord-panel p-6 rounded-2xl border border-white/5">
+                                <h4 className="text-sm font-bold text-discord-textMuted uppercase mb-4 flex items-center gap-2">
+                                    <Target size={16} /> Ability by Note
+                                </h4>
+                                <NoteAbilityList abilities={quizReport.abilities} />
+                            </div>
+                        )}
                     </motion.div>
                 )}
 
@@ -0,0 +1,207 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Repeat, Layers, CheckCircle, TrendingUp, Loader2, Eye } from 'lucide-react';
+import { UserPreferences, Summary, Note, CardSchedule, ReviewGrade } from '../types';
+import { ReviewCard, ReviewService, collectReviewCards, buildReviewQueue, computeReviewStats, NEW_CARDS_PER_DAY } from '../services/reviewService';
+import { createSchedule, previewIntervals, formatInterval, REVIEW_GRADES } from '../utils/spacedRepetition';
+import GradeButtons from '../components/GradeButtons';
+import OcclusionView from '../components/OcclusionView';
+
+interface ReviewProps {
+  user: UserPreferences;
+  summaries: Summary[];
+  notes: Note[];
+}
+
+const StatCard: React.FC<{ label: string; value: string; hint?: string; icon: React.ComponentType<{ size: number; className?: string }> }> = ({ label, value, hint, icon: Icon }) => (
+  <div className="bg-discord-panel p-5 rounded-2xl border border-white/5 shadow-sm">
+    <div className="flex items-center gap-2 text-discord-textMuted text-sm mb-2">
+      <Icon size={16} className="text-discord-accent" /> {label}
+    </div>
+    <p className="text-2xl font-bold text-white">{value}</p>
+    {hint && <p className="text-xs text-discord-textMuted mt-1">{hint}</p>}
+  </div>
+);
+
+const Review: React.FC<ReviewProps> = ({ user, summaries, notes }) => {
+  const [cards, setCards] = useState<ReviewCard[]>([]);
+  const [schedules, setSchedules] = useState<Map<string, CardSchedule>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [revealed, setRevealed] = useState(false);
+  const [grading, setGrading] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([collectReviewCards(summaries, notes), ReviewService.getSchedules()])
+      .then(([collected, loaded]) => {
+        if (cancelled) return;
+        setCards(collected);
+        setSchedules(loaded);
+      })
+      .catch(error => console.error('Failed to load flashcards for review', error))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [user.id, summaries, notes]);
+
+  // Learning cards come due within minutes, so the queue is refreshed while the page is open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const queue = useMemo(() => buildReviewQueue(cards, schedules, now), [cards, schedules, now]);
+  const stats = useMemo(() => computeReviewStats(cards, schedules, now), [cards, schedules, now]);
+  const current = queue.cards[0];
+  const currentSchedule = current ? schedules.get(current.id) : undefined;
+  const intervals = useMemo(
+    () => current ? previewIntervals(currentSchedule || createSchedule(current.id, user.id, current.source, now), now) : null,
+    [current, currentSchedule, now, user.id]
+  );
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!current || grading) return;
+    setGrading(true);
+    try {
+      const reviewedAt = Date.now();
+      const next = await ReviewService.grade(current, currentSchedule, grade, reviewedAt);
+      setSchedules(prev => new Map(prev).set(next.id, next));
+      setNow(reviewedAt);
+      setRevealed(false);
+    } catch (error) {
+      console.error('Failed to save review', error);
+      alert('Could not save this review. Please try again.');
+    }
+    setGrading(false);
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!current || (e.target as HTMLElement)?.closest('input, textarea, [contenteditable="true"]')) return;
+      if (!revealed && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        setRevealed(true);
+      } else if (revealed && ['1', '2', '3', '4'].includes(e.key)) {
+        handleGrade(REVIEW_GRADES[Number(e.key) - 1]);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const nextDue = useMemo(() => {
+    const upcoming = cards.map(card => schedules.get(card.id)?.due).filter((due): due is number => !!due && due > now);
+    return upcoming.length > 0 ? Math.min(...upcoming) : null;
+  }, [cards, schedules, now]);
+
+  const chartData = stats.forecast.map(day => ({
+    name: new Date(day.date).toLocaleDateString('en-US', { weekday: 'short' }),
+    due: day.due
+  }));
+
+  return (
+    <div className="p-8 space-y-6 max-w-5xl mx-auto">
+      <div>
+        <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+          <Repeat className="text-discord-accent" /> Daily Review
+        </h1>
+        <p className="text-discord-textMuted mt-1">
+          Flashcards from your summaries and note canvases, scheduled so you see each one just before you would forget it.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-20 text-discord-textMuted gap-2">
+          <Loader2 size={20} className="animate-spin" /> Gathering your flashcards...
+        </div>
+      ) : (
+        <>
+          {/* Card */}
+          <div className="bg-discord-panel rounded-2xl border border-white/5 shadow-sm p-6">
+            <div className="flex items-center justify-between text-xs font-bold uppercase mb-4">
+              <span className="text-discord-textMuted truncate">{current?.sourceTitle || 'Review queue'}</span>
+              <span className="flex gap-3 shrink-0">
+                <span className="text-blue-300">{queue.counts.new} new</span>
+                <span className="text-red-300">{queue.counts.learning} learning</span>
+                <span className="text-green-300">{queue.counts.review} to review</span>
+              </span>
+            </div>
+
+            {current ? (
+              <div className="space-y-6">
+                {current.occlusion && <OcclusionView key={current.id} occlusion={current.occlusion} revealed={revealed} />}
+                <div className="min-h-[120px] flex items-center justify-center text-center">
+                  <h2 className="text-2xl font-bold text-white whitespace-pre-wrap">{current.front}</h2>
+                </div>
+
+                {revealed ? (
+                  <>
+                    <div className="border-t border-white/10 pt-6 min-h-[80px] text-center text-lg text-discord-text whitespace-pre-wrap">
+                      {current.back}
+                    </div>
+                    <GradeButtons
+                      onGrade={handleGrade}
+                      disabled={grading}
+                      hints={intervals ? Object.fromEntries(REVIEW_GRADES.map(g => [g, formatInterval(intervals[g])])) : undefined}
+                    />
+                  </>
+                ) : (
+                  <button
+                    onClick={() => setRevealed(true)}
+                    className="w-full bg-discord-accent hover:bg-discord-accentHover text-white px-6 py-3 rounded-xl font-bold transition-all flex items-center justify-center gap-2"
+                  >
+                    <Eye size={18} /> Show answer <span className="text-xs opacity-70">(Space)</span>
+                  </button>
+                )}
+              </div>
+            ) : (
+              <div className="py-12 text-center space-y-2">
+                <CheckCircle size={40} className="mx-auto text-green-400" />
+                <h2 className="text-xl font-bold text-white">
+                  {cards.length === 0 ? 'No flashcards yet' : 'All caught up'}
+                </h2>
+                <p className="text-sm text-discord-textMuted">
+                  {cards.length === 0
+                    ? 'Generate flashcards in the Summarizer or add a flashcard deck to a note to start reviewing.'
+                    : nextDue
+                      ? `The next card is due ${new Date(nextDue).toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' })}.`
+                      : `You have reached today's limit of ${NEW_CARDS_PER_DAY} new cards.`}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Statistics */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <StatCard icon={Repeat} label="Due today" value={`${stats.dueToday}`} hint={`${stats.reviewedToday} reviews done today`} />
+            <StatCard icon={Layers} label="Cards" value={`${stats.total}`} hint={`${stats.new} new · ${stats.learning} learning`} />
+            <StatCard icon={TrendingUp} label="Mature cards" value={`${stats.mature}`} hint={`${stats.young} young, under 21 days`} />
+            <StatCard
+              icon={CheckCircle}
+              label="Retention (30 days)"
+              value={stats.retention === null ? '—' : `${Math.round(stats.retention * 100)}%`}
+              hint={stats.retentionReviews > 0 ? `Across ${stats.retentionReviews} reviews` : 'Shows once cards come back for review'}
+            />
+          </div>
+
+          <div className="bg-discord-panel p-6 rounded-2xl border border-white/5 shadow-sm">
+            <h3 className="text-sm font-bold text-discord-textMuted uppercase mb-4">Coming up</h3>
+            <div className="h-40">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <XAxis dataKey="name" stroke="#949ba4" fontSize={12} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#949ba4" fontSize={12} tickLine={false} axisLine={false} allowDecimals={false} />
+                  <Tooltip contentStyle={{ backgroundColor: '#1e1f22', border: 'none', borderRadius: '8px' }} cursor={{ fill: 'rgba(255,255,255,0.05)' }} />
+                  <Bar dataKey="due" name="Cards due" fill="#5865F2" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Review;
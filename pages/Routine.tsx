@@ -1,6 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { UserPreferences, RoutineTask, Note, QueueItem } from '../types';
 import { analyzeNoteWorkload, generateAdaptiveRoutine, generatePanicDecomposition } from '../services/geminiService';
+import { getAIErrorMessage } from '../services/aiValidationService';
+import { isAbortError } from '../services/aiResilience';
+import { useAIServiceStatus } from '../components/AIStatusBanner';
 import { StorageService } from '../services/storageService';
 import { Clock, CheckCircle, RefreshCw, CalendarCheck, PlayCircle, Plus, BrainCircuit, Settings, Coffee, Trash2, AlertTriangle, Zap } from 'lucide-react';
 
@@ -26,7 +29,20 @@ const Routine: React.FC<RoutineProps> = ({ user, setUser, notes, setNotes, onSta
 
 
     const [showSettings, setShowSettings] = useState(false);
-
+    const generationAbortRef = useRef<AbortController | null>(null);
+    const { degraded: aiDegraded } = useAIServiceStatus();
+
+    // Cancel any in-flight generation when the user navigates away
+    useEffect(() => () => generationAbortRef.current?.abort(), []);
+
+    /**
+     * Aborts the previous generation, if any, and returns the signal for a new one
+     */
+    const startGeneration = () => {
+        generationAbortRef.current?.abort();
+        generationAbortRef.current = new AbortController();
+        return generationAbortRef.current.signal;
+    };
 
     useEffect(() => {
         const loadData = async () => {
@@ -97,7 +113,13 @@ const Routine: React.FC<RoutineProps> = ({ user, setUser, notes, setNotes, onSta
                 const textContent = note.document.blocks.map(block => block.content || "").join("\n");
                 console.log('[Routine] Analyzing note with content:', textContent.substring(0, 100));
 
-                const analysis = await analyzeNoteWorkload(textContent || "Empty Note");
+                let analysis;
+                try {
+                    analysis = await analyzeNoteWorkload(textContent || "Empty Note", undefined, {}, startGeneration());
+                } catch (error) {
+                    if (isAbortError(error)) return;
+                    throw error;
+                }
                 console.log('[Routine] Analysis result:', analysis);
 
                 // Update the note with analysis
@@ -122,9 +144,15 @@ const Routine: React.FC<RoutineProps> = ({ user, setUser, notes, setNotes, onSta
         if (queue.length === 0) return;
         setGeneratingRoutine(true);
 
-        const result = await generateAdaptiveRoutine(queue, notes, user);
-        setTasks(result.tasks);
-        setRoutineMeta({ projection: result.projection, confidence: result.confidence });
+        try {
+            const result = await generateAdaptiveRoutine(queue, notes, user, startGeneration());
+            setTasks(result.tasks);
+            setRoutineMeta({ projection: result.projection, confidence: result.confidence });
+        } catch (error) {
+            if (isAbortError(error)) return;
+            setTasks([]);
+            setRoutineMeta({ projection: `Could not generate routine. ${getAIErrorMessage(error)}`, confidence: 'low' });
+        }
         setGeneratingRoutine(false);
         setPanicMode(false);
 
@@ -142,15 +170,20 @@ const Routine: React.FC<RoutineProps> = ({ user, setUser, notes, setNotes, onSta
 
         setPreviousTasks(tasks); // Save state before panic
         setGeneratingRoutine(true);
-        const panicTasks = await generatePanicDecomposition(tasks);
-
-        if (panicTasks.length > 0) {
-            setTasks(panicTasks);
-            setPanicMode(true);
-            setRoutineMeta({
-                projection: "PANIC PROTOCOL ENGAGED. Breaking everything down. Just do the first tiny thing.",
-                confidence: 'high'
-            });
+        try {
+            const panicTasks = await generatePanicDecomposition(tasks, startGeneration());
+
+            if (panicTasks.length > 0) {
+                setTasks(panicTasks);
+                setPanicMode(true);
+                setRoutineMeta({
+                    projection: "PANIC PROTOCOL ENGAGED. Breaking everything down. Just do the first tiny thing.",
+                    confidence: 'high'
+                });
+            }
+        } catch (error) {
+            if (isAbortError(error)) return;
+            alert(getAIErrorMessage(error));
         }
         setGeneratingRoutine(false);
     };
@@ -225,7 +258,8 @@ const Routine: React.FC<RoutineProps> = ({ user, setUser, notes, setNotes, onSta
                         </div>
                         <button
                             onClick={generatePlan}
-                            disabled={queue.length === 0 || generatingRoutine}
+                            disabled={queue.length === 0 || generatingRoutine || aiDegraded}
+                            title={aiDegraded ? 'Paused while the AI service recovers' : undefined}
                             className="bg-discord-green hover:bg-green-600 text-white px-6 py-2 rounded-xl font-bold flex items-center gap-2 transition-all disabled:opacity-50 disabled:grayscale"
                         >
                             {generatingRoutine ? <RefreshCw className="animate-spin" /> : <PlayCircle />}
@@ -330,7 +364,7 @@ const Routine: React.FC<RoutineProps> = ({ user, setUser, notes, setNotes, onSta
                 )}
                 <button
                     onClick={activatePanicMode}
-                    disabled={generatingRoutine || panicMode || tasks.length === 0}
+                    disabled={generatingRoutine || panicMode || tasks.length === 0 || aiDegraded}
                     className={`flex items-center gap-2 px-4 py-2 rounded-lg font-bold transition-all shadow-lg
                     ${panicMode
                             ? 'bg-red-500/20 text-red-400 border border-red-500/50 cursor-default'
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { UserPreferences, Classroom, Announcement, ClassroomResource, ViewState, Note } from '../types';
+import { UserPreferences, Classroom, Announcement, ClassroomResource, ViewState, Note, CustomMode } from '../types';
 import { StorageService } from '../services/storageService';
-import { ArrowLeft, Loader2, MessageSquare, Share2, Calendar, User, Download, Eye, Copy } from 'lucide-react';
+import { ArrowLeft, Loader2, MessageSquare, Share2, Calendar, User, Download, Eye, Copy, Sparkles } from 'lucide-react';
+import { withNewVersion, getBuiltInMode, PROMPT_VARIABLES } from '../utils/promptTemplates';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface StudentClassroomViewProps {
@@ -68,6 +69,12 @@ const StudentClassroomView: React.FC<StudentClassroomViewProps> = ({ user, class
   };
 
   const handleViewResource = async (resource: ClassroomResource) => {
+    // Shared modes carry their template with them, there is no note to fetch
+    if (resource.resourceType === 'mode') {
+      setSelectedResource(resource);
+      return;
+    }
+
     try {
       setLoadingNote(true);
       setSelectedResource(resource);
@@ -116,6 +123,57 @@ const StudentClassroomView: React.FC<StudentClassroomViewProps> = ({ user, class
     }
   };
 
+  const handleAddToMyModes = async () => {
+    const sharedMode = selectedResource?.mode;
+    if (!sharedMode || !selectedResource) return;
+
+    try {
+      setCopying(true);
+
+      // Adding the same mode again updates the student's copy to the teacher's latest version.
+      // Copies made before sharedFrom was stored are recognised by teacher and name.
+      const sharedFrom = { teacherId: selectedResource.sharedBy, modeId: sharedMode.id };
+      const myModes = await StorageService.getCustomModes();
+      const existing = myModes.find(m => m.sharedFrom
+        ? m.sharedFrom.teacherId === sharedFrom.teacherId && m.sharedFrom.modeId === sharedFrom.modeId
+        : m.sharedBy === selectedResource.sharedByName && m.name === sharedMode.name);
+
+      // Modes are picked by name, so a new copy never takes the name of one the student already has
+      const isTaken = (name: string) => !!getBuiltInMode(name) || myModes.some(m => m.name === name);
+      let name = sharedMode.name;
+      if (!existing && isTaken(name)) {
+        const withTeacher = `${sharedMode.name} (${selectedResource.sharedByName})`;
+        name = withTeacher;
+        for (let n = 2; isTaken(name); n++) name = `${withTeacher} ${n}`;
+      }
+
+      const base: CustomMode = existing || {
+        id: Date.now().toString(),
+        userId: user.id,
+        name,
+        systemPrompt: sharedMode.systemPrompt,
+        createdAt: Date.now(),
+        version: 1,
+        versions: [{ version: 1, systemPrompt: sharedMode.systemPrompt, createdAt: Date.now() }]
+      };
+
+      await StorageService.saveCustomMode({
+        ...withNewVersion(base, sharedMode.systemPrompt),
+        ...(sharedMode.variables ? { variables: sharedMode.variables } : {}),
+        sharedBy: selectedResource.sharedByName,
+        sharedFrom
+      });
+
+      alert(`"${base.name}" is now available in the Summarizer.`);
+      setSelectedResource(null);
+    } catch (error) {
+      console.error('Error adding mode:', error);
+      alert('Failed to add mode');
+    } finally {
+      setCopying(false);
+    }
+  };
+
   const handleCopyToMyNotes = async () => {
     if (!resourceNote || !classroom) return;
     
@@ -279,7 +337,9 @@ const StudentClassroomView: React.FC<StudentClassroomViewProps> = ({ user, class
                 >
                   <div className="flex items-start gap-3">
                     <div className="w-10 h-10 bg-[#5865F2]/10 rounded-lg flex items-center justify-center flex-shrink-0">
-                      <Share2 size={18} className="text-[#5865F2]" />
+                      {resource.resourceType === 'mode'
+                        ? <Sparkles size={18} className="text-[#5865F2]" />
+                        : <Share2 size={18} className="text-[#5865F2]" />}
                     </div>
                     <div className="flex-1">
                       <h3 className="text-white font-medium mb-1">{resource.resourceTitle}</h3>
@@ -327,7 +387,19 @@ const StudentClassroomView: React.FC<StudentClassroomViewProps> = ({ user, class
 
               {/* Content */}
               <div className="flex-1 overflow-y-auto mb-4 bg-[#1e1f22] rounded-lg p-6">
-                {loadingNote ? (
+                {selectedResource.resourceType === 'mode' ? (
+                  <div className="space-y-4">
+                    <p className="text-gray-400 text-sm">A summarizer mode. Add it to use this prompt when summarizing.</p>
+                    <pre className="bg-[#0d0e10] p-4 rounded text-sm text-gray-300 whitespace-pre-wrap">{selectedResource.mode?.systemPrompt}</pre>
+                    {PROMPT_VARIABLES.some(v => selectedResource.mode?.variables?.[v.name]) && (
+                      <div className="text-sm text-gray-400 space-y-1">
+                        {PROMPT_VARIABLES.filter(v => selectedResource.mode?.variables?.[v.name]).map(v => (
+                          <p key={v.name}>{v.label}: <span className="text-gray-300">{selectedResource.mode!.variables![v.name]}</span></p>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ) : loadingNote ? (
                   <div className="flex items-center justify-center py-12">
                     <Loader2 className="animate-spin text-[#5865F2]" size={32} />
                   </div>
@@ -368,23 +440,34 @@ const StudentClassroomView: React.FC<StudentClassroomViewProps> = ({ user, class
                 >
                   Close
                 </button>
-                <button
-                  onClick={handleCopyToMyNotes}
-                  disabled={copying || !resourceNote}
-                  className="flex-1 bg-[#5865F2] hover:bg-[#4752c4] text-white py-2.5 rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
-                >
-                  {copying ? (
-                    <>
-                      <Loader2 className="animate-spin" size={18} />
-                      Copying...
-                    </>
-                  ) : (
-                    <>
-                      <Copy size={18} />
-                      Copy to My Notes
-                    </>
-                  )}
-                </button>
+                {selectedResource.resourceType === 'mode' ? (
+                  <button
+                    onClick={handleAddToMyModes}
+                    disabled={copying || !selectedResource.mode}
+                    className="flex-1 bg-[#5865F2] hover:bg-[#4752c4] text-white py-2.5 rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                  >
+                    {copying ? <Loader2 className="animate-spin" size={18} /> : <Sparkles size={18} />}
+                    Add to My Modes
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleCopyToMyNotes}
+                    disabled={copying || !resourceNote}
+                    className="flex-1 bg-[#5865F2] hover:bg-[#4752c4] text-white py-2.5 rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                  >
+                    {copying ? (
+                      <>
+                        <Loader2 className="animate-spin" size={18} />
+                        Copying...
+                      </>
+                    ) : (
+                      <>
+                        <Copy size={18} />
+                        Copy to My Notes
+                      </>
+                    )}
+                  </button>
+                )}
               </div>
             </motion.div>
           </div>
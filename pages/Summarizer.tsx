@@ -1,33 +1,51 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { summarizeContent, generateFlashcards, generateSpeech, playAudioBlob } from '../services/geminiService';
-import { Summary, Flashcard, Note, Attachment, CustomMode } from '../types';
-import { Sparkles, Link as LinkIcon, Mic, FileUp, Volume2, Plus, X, Paperclip, CheckCircle, FilePlus, BookOpen, Edit3, Trash2, Save, Clock } from 'lucide-react';
-import ReactMarkdown from 'react-markdown';
+import { summarizeContentStream, generateFlashcards, generateSpeech, playAudioBlob, SummaryProgress } from '../services/geminiService';
+import { getAIErrorMessage } from '../services/aiValidationService';
+import { Summary, Flashcard, Note, Folder, Attachment, CustomMode, SummarySource, PromptVariables, UserPreferences, PodcastEpisode } from '../types';
+import { Sparkles, Link as LinkIcon, Mic, FileUp, Volume2, Plus, X, Paperclip, CheckCircle, FilePlus, BookOpen, Edit3, Trash2, Clock, Square, RefreshCw, Image as ImageIcon, FileText, Layers, Headphones, Library } from 'lucide-react';
+import CitedMarkdown from '../components/CitedMarkdown';
+import PromptTemplateEditor from '../components/PromptTemplateEditor';
 import { StorageService } from '../services/storageService';
 import HistoryModal from '../components/HistoryModal';
-import { determineType } from '../utils/summaryUtils';
+import BatchSummaryPanel from '../components/BatchSummaryPanel';
+import PodcastModal from '../components/PodcastModal';
+import { PodcastAudioStore } from '../services/podcastService';
+import { BatchItem, getBatchItems, subscribeToBatchQueue, subscribeToBatchResults } from '../services/batchSummaryService';
+import { determineType, getAttachmentType, generateSummaryTitle } from '../utils/summaryUtils';
+import { createDeck } from '../services/deckService';
+import { stripSourceMarkers, linkVideoTimestamps, timestampedUrl } from '../utils/summaryCitations';
+import { looksLikeHTML } from '../utils/readability';
+import { extractFromHTML, isReaderFallbackEnabled, setReaderFallbackEnabled } from '../services/urlContentService';
+import { BUILT_IN_MODES, PROMPT_VARIABLES, SYNTHESIS_MODE, MIN_SYNTHESIS_SOURCES, getBuiltInMode, findTemplateVariables, withNewVersion } from '../utils/promptTemplates';
 
 interface SummarizerProps {
+    /** Called with each history entry once it is saved, when created and again when flashcards or a podcast are added */
     onSave: (summary: Summary) => void;
     notes: Note[];
     onAddToNote: (noteId: string | null, summary: Summary, flashcards: Flashcard[]) => void;
+    user?: UserPreferences;
+    folders?: Folder[];
 }
 
-const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) => {
+const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote, user, folders = [] }) => {
 
     const [textContext, setTextContext] = useState('');
     const [attachments, setAttachments] = useState<Attachment[]>([]);
 
 
     const [mode, setMode] = useState<string>('short');
-    const [showCustomModeInput, setShowCustomModeInput] = useState(false);
-    const [customModeText, setCustomModeText] = useState('');
-    const [customModePrompt, setCustomModePrompt] = useState('');
+    const [variables, setVariables] = useState<PromptVariables>({});
     const [customModes, setCustomModes] = useState<CustomMode[]>([]);
     const [showCustomModeModal, setShowCustomModeModal] = useState(false);
     const [editingCustomMode, setEditingCustomMode] = useState<CustomMode | null>(null);
     const [loading, setLoading] = useState(false);
     const [result, setResult] = useState('');
+    const [resultSources, setResultSources] = useState<SummarySource[]>([]);
+    const [streaming, setStreaming] = useState(false);
+    const [wasCancelled, setWasCancelled] = useState(false);
+    const [resultOffline, setResultOffline] = useState(false);
+    const [summaryProgress, setSummaryProgress] = useState<SummaryProgress | null>(null);
+    const summaryAbortRef = useRef<AbortController | null>(null);
     const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
     const [extractionWarnings, setExtractionWarnings] = useState<string[]>([]);
 
@@ -39,6 +57,7 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
     const [showLinkInput, setShowLinkInput] = useState(false);
     const [linkUrl, setLinkUrl] = useState('');
     const [linkError, setLinkError] = useState('');
+    const [readerFallback, setReaderFallback] = useState(isReaderFallbackEnabled);
     const [showAudioRecorder, setShowAudioRecorder] = useState(false);
 
 
@@ -51,11 +70,33 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
     // History feature state
     const [showHistoryModal, setShowHistoryModal] = useState(false);
     const [summaryHistory, setSummaryHistory] = useState<Summary[]>([]);
+    const [historyEntryId, setHistoryEntryId] = useState<string | null>(null); // History entry of the summary on screen
+
+    // Batch queue state
+    const [showBatchModal, setShowBatchModal] = useState(false);
+    const [showPodcastModal, setShowPodcastModal] = useState(false);
+    const [podcast, setPodcast] = useState<PodcastEpisode | null>(null);
+    const [deckSaved, setDeckSaved] = useState(false);
+    const [activeBatchCount, setActiveBatchCount] = useState(0);
 
     // Load custom modes on mount
     useEffect(() => {
         loadCustomModes();
         loadSummaryHistory();
+        return () => summaryAbortRef.current?.abort();
+    }, []);
+
+    // Batch results are saved by the queue; this keeps the history list in step while the page is open
+    useEffect(() => {
+        const countActive = (items: BatchItem[]) =>
+            setActiveBatchCount(items.filter(i => i.status === 'queued' || i.status === 'waiting' || i.status === 'running').length);
+        countActive(getBatchItems());
+        const unsubscribeQueue = subscribeToBatchQueue(countActive);
+        const unsubscribeResults = subscribeToBatchResults(({ summary }) => setSummaryHistory(prev => [summary, ...prev]));
+        return () => {
+            unsubscribeQueue();
+            unsubscribeResults();
+        };
     }, []);
 
     const loadCustomModes = async () => {
@@ -77,17 +118,19 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
         }
     };
 
-    const saveCustomMode = async () => {
-        if (!customModeText.trim() || !customModePrompt.trim()) return;
-
+    const saveCustomMode = async (name: string, systemPrompt: string, defaults: PromptVariables) => {
         try {
-            const newMode: CustomMode = {
-                id: editingCustomMode?.id || Date.now().toString(),
+            // Editing keeps the previous templates as versions; new modes start at version 1
+            const base: CustomMode = editingCustomMode || {
+                id: Date.now().toString(),
                 userId: StorageService.currentUserId || '',
-                name: customModeText.trim(),
-                systemPrompt: customModePrompt.trim(),
-                createdAt: editingCustomMode?.createdAt || Date.now()
+                name,
+                systemPrompt,
+                createdAt: Date.now(),
+                version: 1,
+                versions: [{ version: 1, systemPrompt, createdAt: Date.now() }]
             };
+            const newMode: CustomMode = { ...withNewVersion(base, systemPrompt), name, variables: defaults };
 
             await StorageService.saveCustomMode(newMode);
             await loadCustomModes();
@@ -95,9 +138,6 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
             // Set the new mode as active
             setMode(newMode.name);
 
-            // Reset form
-            setCustomModeText('');
-            setCustomModePrompt('');
             setShowCustomModeModal(false);
             setEditingCustomMode(null);
         } catch (error) {
@@ -109,8 +149,6 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
 
     const editCustomMode = (customMode: CustomMode) => {
         setEditingCustomMode(customMode);
-        setCustomModeText(customMode.name);
-        setCustomModePrompt(customMode.systemPrompt);
         setShowCustomModeModal(true);
     };
 
@@ -135,6 +173,19 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
         return customMode?.systemPrompt;
     };
 
+    const activeMode = customModes.find(m => m.name === mode) || getBuiltInMode(mode);
+    const activeVariables = PROMPT_VARIABLES.filter(v => findTemplateVariables(activeMode?.systemPrompt || '').includes(v.name));
+
+    // Values typed here win over the mode's own defaults
+    const getVariablesForMode = (): PromptVariables => {
+        const values: PromptVariables = {};
+        PROMPT_VARIABLES.forEach(v => {
+            const value = variables[v.name]?.trim() || activeMode?.variables?.[v.name];
+            if (value) values[v.name] = value;
+        });
+        return values;
+    };
+
 
     const addAttachment = (att: Attachment) => {
         setAttachments(prev => {
@@ -148,9 +199,12 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
         setAttachments(prev => prev.filter(a => a.id !== id));
     };
 
-    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, type: 'image' | 'pdf') => {
+    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
-        if (file) {
+        const type = file ? getAttachmentType(file) : null;
+        if (file && !type) {
+            alert('Unsupported file. Upload a PDF, Word (.docx) or PowerPoint (.pptx) file, an image or an audio recording.');
+        } else if (file) {
             const reader = new FileReader();
             reader.onload = (ev) => {
                 if (ev.target?.result) {
@@ -190,6 +244,19 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
         return url.includes('youtube.com') || url.includes('youtu.be');
     };
 
+    // Whole web pages pasted as rich text are reduced to their readable content
+    const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        const html = e.clipboardData.getData('text/html');
+        if (!html || !looksLikeHTML(html)) return;
+
+        const article = extractFromHTML(html);
+        if (!article.success) return;
+
+        e.preventDefault();
+        const { selectionStart, selectionEnd } = e.currentTarget;
+        setTextContext(prev => prev.slice(0, selectionStart) + article.text + prev.slice(selectionEnd));
+    };
+
     const handleLinkUrlChange = (url: string) => {
         setLinkUrl(url);
         if (linkError) setLinkError('');
@@ -267,65 +334,172 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
 
 
 
-    const handleSummarize = async () => {
+    // Typed text counts as one source next to the attachments
+    const sourceCount = (textContext.trim() ? 1 : 0) + attachments.length;
+    const needsMoreSources = mode === SYNTHESIS_MODE && sourceCount < MIN_SYNTHESIS_SOURCES;
+
+    const handleSummarize = async (regenerate: boolean = false) => {
         if (!textContext && attachments.length === 0) return;
         setLoading(true);
+        setStreaming(true);
+        setWasCancelled(false);
+        setSummaryProgress(null);
         setResult('');
+        setResultSources([]);
+        setResultOffline(false);
         setFlashcards([]);
         setExtractionWarnings([]);
+        setHistoryEntryId(null);
+        setPodcast(null);
+
+        const controller = new AbortController();
+        summaryAbortRef.current = controller;
 
         try {
             // Get custom prompt if using a custom mode
             const customPrompt = getCustomPromptForMode(mode);
 
-            // summarizeContent in geminiService handles the normalization via extractionService
-            const summaryText = await summarizeContent(textContext, attachments, mode, customPrompt);
+            // summarizeContentStream in geminiService handles the normalization via extractionService
+            const { text: summaryText, cancelled, sources, offline } = await summarizeContentStream(
+                textContext,
+                attachments,
+                mode,
+                (partialText) => setResult(partialText),
+                { customPrompt, variables: getVariablesForMode(), signal: controller.signal, onProgress: setSummaryProgress, regenerate }
+            );
             setResult(summaryText);
+            setResultSources(sources || []);
+            setResultOffline(!!offline);
+
+            // A cancelled run keeps its partial text on screen but is not added to history
+            if (cancelled) {
+                setWasCancelled(true);
+                return;
+            }
 
             const newSummary: Summary = {
                 id: Date.now().toString(),
                 userId: StorageService.currentUserId || '',
-                originalSource: attachments.length > 0 ? `Multiple sources` : 'Text input',
+                originalSource: mode === SYNTHESIS_MODE
+                    ? `Synthesis of ${sourceCount} sources`
+                    : attachments.length > 0 ? `Multiple sources` : 'Text input',
                 summaryText,
-                type: determineType(attachments),
+                type: mode === SYNTHESIS_MODE ? 'mixed' : determineType(attachments),
                 mode,
                 createdAt: Date.now(),
                 // Store complete session data for history
                 originalText: textContext,
-                attachments: attachments
+                attachments: attachments,
+                // Firestore rejects undefined fields, so these are only set when present
+                ...(sources?.length ? { sources } : {}),
+                ...(offline ? { offline: true } : {})
             };
 
             // Save to history
             try {
-                const updated = [newSummary, ...summaryHistory];
-                await StorageService.saveSummaries(updated);
-                setSummaryHistory(updated);
+                await StorageService.saveSummary(newSummary);
+                setSummaryHistory(prev => [newSummary, ...prev]);
+                setHistoryEntryId(newSummary.id);
+                onSave(newSummary);
             } catch (saveError) {
                 console.error('Failed to save to history:', saveError);
                 // Continue - don't block summarization if history save fails
             }
-
-            onSave(newSummary);
         } catch (error) {
             console.error('Summarization failed:', error);
             setResult('Error generating summary. Please try again.');
         } finally {
+            if (summaryAbortRef.current === controller) summaryAbortRef.current = null;
+            setSummaryProgress(null);
+            setStreaming(false);
             setLoading(false);
         }
     };
 
+    const handleCancelSummarize = () => {
+        summaryAbortRef.current?.abort();
+    };
+
     const handleGenerateFlashcards = async () => {
         if (!result) return;
         setLoading(true);
-        const cards = await generateFlashcards(result);
-        setFlashcards(cards);
+        // A second click means the user wants a different set, not the cached one
+        try {
+            const cards = await generateFlashcards(stripSourceMarkers(result), undefined, { regenerate: flashcards.length > 0 });
+            setFlashcards(cards);
+            setDeckSaved(false);
+
+            // Keep the cards with the history entry, so they can be exported later
+            const entry = summaryHistory.find(s => s.id === historyEntryId);
+            if (entry) {
+                const updated = { ...entry, flashcards: cards };
+                StorageService.saveSummary(updated)
+                    .then(() => {
+                        setSummaryHistory(prev => prev.map(s => s.id === updated.id ? updated : s));
+                        onSave(updated);
+                    })
+                    .catch(saveError => console.error('Failed to save flashcards to history:', saveError));
+            }
+        } catch (error) {
+            alert(getAIErrorMessage(error));
+        }
         setLoading(false);
     };
 
+    const handleSaveDeck = async () => {
+        if (flashcards.length === 0 || !user) return;
+        const historyEntry = summaryHistory.find(s => s.id === historyEntryId);
+        const deck = createDeck(user.id, {
+            name: historyEntry ? generateSummaryTitle(historyEntry) : `Flashcards ${new Date().toLocaleDateString()}`,
+            source: historyEntry ? { kind: 'summary', summaryId: historyEntry.id } : undefined,
+            cards: flashcards
+        });
+        try {
+            await StorageService.saveDeck(deck);
+            setDeckSaved(true);
+        } catch (error) {
+            console.error('Failed to save deck:', error);
+            alert('Could not save the deck. Please try again.');
+        }
+    };
+
+    // The audio stays on this device; the episode details go with the history entry
+    const handlePodcastCreated = async (episode: PodcastEpisode, audio: Blob) => {
+        setPodcast(episode);
+        try {
+            if (podcast) await PodcastAudioStore.remove(podcast.id);
+            await PodcastAudioStore.save(episode.id, audio);
+            const entry = summaryHistory.find(s => s.id === historyEntryId);
+            if (entry) {
+                const updated = { ...entry, podcast: episode };
+                await StorageService.saveSummary(updated);
+                setSummaryHistory(prev => prev.map(s => s.id === updated.id ? updated : s));
+                onSave(updated);
+            }
+        } catch (saveError) {
+            console.error('Failed to save podcast:', saveError);
+        }
+    };
+
     const handleTTS = async () => {
         if (!result) return;
-        const audioData = await generateSpeech(result);
-        if (audioData) playAudioBlob(audioData);
+        try {
+            const audioData = await generateSpeech(stripSourceMarkers(result));
+            if (audioData) playAudioBlob(audioData);
+        } catch (error) {
+            alert(getAIErrorMessage(error));
+        }
+    };
+
+    // Video the cited passage came from, for linking to its timestamp
+    const videoUrlFor = (source: SummarySource): string | null => {
+        const attachment = attachments.find(a => a.id === source.attachmentId);
+        return attachment?.type === 'url' && isYouTubeUrl(attachment.content) ? attachment.content : null;
+    };
+
+    const handleCite = (source: SummarySource) => {
+        const url = videoUrlFor(source);
+        if (url && source.offset !== undefined) window.open(timestampedUrl(url, source.offset), '_blank', 'noopener');
     };
 
     const handleSaveToNote = (noteId: string | null) => {
@@ -333,7 +507,8 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
             id: Date.now().toString(),
             userId: '',
             originalSource: 'Summarizer Export',
-            summaryText: result,
+            // Notes do not keep the source passages, so markers become video timestamp links or are dropped
+            summaryText: linkVideoTimestamps(result, resultSources, videoUrlFor),
             type: 'mixed',
             mode,
             createdAt: Date.now()
@@ -396,7 +571,8 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
                 <div key={att.id} className="flex items-center gap-2 bg-discord-bg border border-white/10 rounded-lg pl-3 pr-2 py-2 animate-in fade-in zoom-in-95">
                     <span className="text-discord-accent">
                         {att.type === 'pdf' && <FileUp size={16} />}
-                        {/* {att.type === 'image' && <ImageIcon size={16} /> } */}
+                        {att.type === 'document' && <FileText size={16} />}
+                        {att.type === 'image' && <ImageIcon size={16} />}
                         {att.type === 'audio' && <Mic size={16} />}
                         {att.type === 'url' && <LinkIcon size={16} />}
                     </span>
@@ -423,14 +599,27 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
                         Enter text to summarize. Choose your summary style below.
                     </p>
                 </div>
-                <button
-                    onClick={() => setShowHistoryModal(true)}
-                    className="flex items-center gap-2 px-4 py-2 bg-discord-bg hover:bg-discord-hover border border-white/10 rounded-lg text-white transition-colors"
-                    title="View history"
-                >
-                    <Clock size={20} />
-                    <span className="font-medium">History</span>
-                </button>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setShowBatchModal(true)}
+                        className="flex items-center gap-2 px-4 py-2 bg-discord-bg hover:bg-discord-hover border border-white/10 rounded-lg text-white transition-colors"
+                        title="Summarize many files"
+                    >
+                        <Layers size={20} />
+                        <span className="font-medium">Batch</span>
+                        {activeBatchCount > 0 && (
+                            <span className="px-1.5 py-0.5 bg-discord-accent rounded text-xs font-bold">{activeBatchCount}</span>
+                        )}
+                    </button>
+                    <button
+                        onClick={() => setShowHistoryModal(true)}
+                        className="flex items-center gap-2 px-4 py-2 bg-discord-bg hover:bg-discord-hover border border-white/10 rounded-lg text-white transition-colors"
+                        title="View history"
+                    >
+                        <Clock size={20} />
+                        <span className="font-medium">History</span>
+                    </button>
+                </div>
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 h-full min-h-0 flex-1">
@@ -440,7 +629,7 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
 
                     <div>
                         <div className="bg-discord-panel p-1 rounded-xl border border-white/5 flex gap-1 mb-2 flex-wrap">
-                            {(['short', 'detailed', 'eli5', 'exam'] as const).map((m) => (
+                            {BUILT_IN_MODES.map(({ name: m, systemPrompt }) => (
                                 <button
                                     key={m}
                                     onClick={() => setMode(m)}
@@ -448,6 +637,7 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
                                 ${mode === m
                                             ? 'bg-discord-accent text-white shadow-md'
                                             : 'text-discord-textMuted hover:bg-discord-hover'}`}
+                                    title={systemPrompt}
                                 >
                                     {m === 'eli5' ? 'ELI5' : m}
                                 </button>
@@ -462,7 +652,7 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
                                     ${mode === customMode.name
                                                 ? 'bg-purple-600 text-white shadow-md'
                                                 : 'text-discord-textMuted hover:bg-discord-hover'}`}
-                                        title={customMode.systemPrompt}
+                                        title={customMode.sharedBy ? `Shared by ${customMode.sharedBy}\n\n${customMode.systemPrompt}` : customMode.systemPrompt}
                                     >
                                         {customMode.name}
                                     </button>
@@ -488,50 +678,14 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
                             <div className="relative flex">
                                 <button
                                     onClick={() => {
-                                        setShowCustomModeModal(true);
-                                        setCustomModeText('');
-                                        setCustomModePrompt('');
                                         setEditingCustomMode(null);
+                                        setShowCustomModeModal(true);
                                     }}
                                     className="w-10 rounded-lg text-xs font-bold transition-all flex items-center justify-center flex-none text-discord-textMuted hover:bg-discord-hover"
                                     title="Create new custom mode"
                                 >
                                     +
                                 </button>
-
-                                {showCustomModeInput && (
-                                    <div className="absolute right-0 top-full mt-2 bg-discord-panel border border-white/10 rounded-lg shadow-2xl p-3 w-80 z-50 origin-top-right animate-in fade-in zoom-in-95">
-                                        <div className="mb-3">
-                                            <label className="text-xs font-bold text-discord-textMuted uppercase mb-1 block">Quick Create Mode</label>
-                                            <input
-                                                type="text"
-                                                value={customModeText}
-                                                onChange={(e) => setCustomModeText(e.target.value)}
-                                                onKeyDown={(e) => {
-                                                    if (e.key === 'Enter' && customModeText.trim()) {
-                                                        setShowCustomModeModal(true);
-                                                        setShowCustomModeInput(false);
-                                                    } else if (e.key === 'Escape') {
-                                                        setShowCustomModeInput(false);
-                                                        setCustomModeText('');
-                                                    }
-                                                }}
-                                                placeholder="e.g., creative, technical, casual..."
-                                                className="w-full bg-discord-bg border border-white/10 rounded px-3 py-2 text-sm text-white placeholder-discord-textMuted/50 focus:outline-none focus:border-discord-accent transition-colors"
-                                                autoFocus
-                                            />
-                                        </div>
-                                        <button
-                                            onClick={() => {
-                                                setShowCustomModeModal(true);
-                                                setShowCustomModeInput(false);
-                                            }}
-                                            className="w-full px-3 py-2 bg-discord-accent hover:bg-discord-accentHover text-white text-xs font-medium rounded transition-colors"
-                                        >
-                                            Define Prompt
-                                        </button>
-                                    </div>
-                                )}
                             </div>
                         </div>
 
@@ -543,7 +697,31 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
                                 }`}>
                                 {mode === 'eli5' ? 'ELI5' : mode}
                             </span>
+                            {activeMode?.sharedBy && (
+                                <span className="text-xs text-discord-textMuted">shared by {activeMode.sharedBy}</span>
+                            )}
+                            {mode === SYNTHESIS_MODE && (
+                                <span className={`text-xs ${needsMoreSources ? 'text-amber-400' : 'text-discord-textMuted'}`}>
+                                    Compares {sourceCount} source{sourceCount === 1 ? '' : 's'}{needsMoreSources ? `, add at least ${MIN_SYNTHESIS_SOURCES}` : ''}
+                                </span>
+                            )}
                         </div>
+
+                        {activeVariables.length > 0 && (
+                            <div className="flex gap-2 px-2 py-1 flex-wrap">
+                                {activeVariables.map(v => (
+                                    <input
+                                        key={v.name}
+                                        type="text"
+                                        value={variables[v.name] || ''}
+                                        onChange={(e) => setVariables(prev => ({ ...prev, [v.name]: e.target.value }))}
+                                        placeholder={`${v.label}: ${activeMode?.variables?.[v.name] || v.placeholder}`}
+                                        title={`Fills {{${v.name}}} in the mode's prompt`}
+                                        className="flex-1 min-w-32 bg-discord-bg border border-white/10 rounded-lg px-3 py-1.5 text-xs text-white placeholder-discord-textMuted/50 focus:outline-none focus:border-discord-accent transition-colors"
+                                    />
+                                ))}
+                            </div>
+                        )}
                     </div>
 
 
@@ -558,21 +736,17 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
                             placeholder="Paste your content or type your notes here to summarize..."
                             value={textContext}
                             onChange={(e) => setTextContext(e.target.value)}
+                            onPaste={handlePaste}
                         />
 
 
                         <div className="mt-4 pt-4 border-t border-white/10 flex items-center justify-between gap-4">
                             {/* Multimodal Inputs - Bottom Left */}
                             <div className="flex items-center gap-2">
-                                <button onClick={() => document.getElementById('pdf-upload')?.click()} className="p-2 bg-discord-bg hover:bg-discord-hover border border-white/10 rounded-lg text-discord-textMuted hover:text-white transition-colors" title="Upload PDF">
+                                <button onClick={() => document.getElementById('file-upload')?.click()} className="p-2 bg-discord-bg hover:bg-discord-hover border border-white/10 rounded-lg text-discord-textMuted hover:text-white transition-colors" title="Upload PDF, Word, PowerPoint, image or audio">
                                     <FileUp size={20} />
                                 </button>
-                                <input type="file" id="pdf-upload" className="hidden" accept=".pdf" onChange={(e) => handleFileUpload(e, 'pdf')} />
-
-                                {/* <button onClick={() => document.getElementById('img-upload')?.click()} className="p-2 bg-discord-bg hover:bg-discord-hover border border-white/10 rounded-lg text-discord-textMuted hover:text-white transition-colors" title="Upload Image">
-                                    <ImageIcon size={20} />
-                                </button>
-                                <input type="file" id="img-upload" className="hidden" accept="image/*" onChange={(e) => handleFileUpload(e, 'image')} /> */}
+                                <input type="file" id="file-upload" className="hidden" accept=".pdf,.docx,.pptx,image/*,audio/*" onChange={handleFileUpload} />
 
                                 <div className="relative">
                                     <button onClick={() => setShowLinkInput(!showLinkInput)} className={`p-2 border border-white/10 rounded-lg text-discord-textMuted hover:text-white transition-colors ${showLinkInput ? 'bg-discord-accent text-white' : 'bg-discord-bg hover:bg-discord-hover'}`} title="Add Link">
@@ -615,6 +789,20 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
                                                     <span>Note: YouTube URLs have limited support due to browser restrictions</span>
                                                 </div>
                                             )}
+                                            {!isYouTubeUrl(linkUrl) && (
+                                                <label className="mt-2 flex items-start gap-2 text-xs text-discord-textMuted cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={readerFallback}
+                                                        onChange={(e) => {
+                                                            setReaderFallback(e.target.checked);
+                                                            setReaderFallbackEnabled(e.target.checked);
+                                                        }}
+                                                        className="mt-0.5 accent-discord-accent"
+                                                    />
+                                                    <span>If a site can't be read from the browser, send the link to Jina Reader (r.jina.ai) instead</span>
+                                                </label>
+                                            )}
                                             <div className="flex justify-end gap-2 mt-3">
                                                 <button
                                                     onClick={() => {
@@ -644,14 +832,24 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
                                 {isRecording && <span className="text-xs font-mono text-red-400 min-w-[30px]">{formatTime(recordingDuration)}</span>}*/}
                             </div>
 
-                            <button
-                                onClick={handleSummarize}
-                                disabled={loading || (!textContext.trim() && attachments.length === 0)}
-                                className="bg-discord-accent hover:bg-discord-accentHover text-white px-6 py-2 rounded-lg font-bold transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 shadow-lg"
-                            >
-                                {loading ? <Sparkles size={18} className="animate-spin" /> : <Sparkles size={18} />}
-                                Summarize
-                            </button>
+                            {streaming ? (
+                                <button
+                                    onClick={handleCancelSummarize}
+                                    className="bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 text-red-400 px-6 py-2 rounded-lg font-bold transition-all flex items-center gap-2 shadow-lg"
+                                >
+                                    <Square size={16} />
+                                    Stop
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={() => handleSummarize()}
+                                    disabled={loading || (!textContext.trim() && attachments.length === 0) || needsMoreSources}
+                                    className="bg-discord-accent hover:bg-discord-accentHover text-white px-6 py-2 rounded-lg font-bold transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 shadow-lg"
+                                >
+                                    {loading ? <Sparkles size={18} className="animate-spin" /> : <Sparkles size={18} />}
+                                    Summarize
+                                </button>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -663,13 +861,31 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
                         {result ? (
                             <>
                                 <div className="flex justify-between items-center mb-4 pb-4 border-b border-white/5">
-                                    <h3 className="font-bold text-white">Summary Result</h3>
-                                    <div className="flex gap-2">
+                                    <h3 className="font-bold text-white flex items-center gap-2">
+                                        Summary Result
+                                        {streaming && <Sparkles size={14} className="text-discord-accent animate-spin" />}
+                                        {wasCancelled && <span className="text-xs font-medium text-discord-textMuted">(stopped, not saved to history)</span>}
+                                        {resultOffline && (
+                                            <span
+                                                className="px-2 py-0.5 bg-yellow-500/20 border border-yellow-500/50 text-yellow-400 rounded text-xs font-bold"
+                                                title="The AI was unavailable, so these key sentences were picked from your content on this device. Regenerate to try the AI again."
+                                            >
+                                                Offline summary
+                                            </span>
+                                        )}
+                                    </h3>
+                                    <div className={`flex gap-2 ${streaming ? 'opacity-50 pointer-events-none' : ''}`}>
+                                        <button onClick={() => handleSummarize(true)} className="p-2 hover:bg-white/10 rounded-full text-discord-textMuted hover:text-white" title="Regenerate (skip saved result)">
+                                            <RefreshCw size={18} />
+                                        </button>
                                         <button onClick={handleTTS} className="p-2 hover:bg-white/10 rounded-full text-discord-textMuted hover:text-white" title="Read Aloud">
                                             <Volume2 size={18} />
                                         </button>
+                                        <button onClick={() => setShowPodcastModal(true)} className="p-2 hover:bg-white/10 rounded-full text-discord-textMuted hover:text-white" title="Study podcast">
+                                            <Headphones size={18} />
+                                        </button>
                                         <button onClick={handleGenerateFlashcards} className="px-3 py-1.5 bg-white/5 hover:bg-white/10 rounded text-xs font-medium text-white transition-colors">
-                                            + Flashcards
+                                            {flashcards.length > 0 ? 'New Flashcards' : '+ Flashcards'}
                                         </button>
                                         <button
                                             onClick={() => setShowSaveModal(true)}
@@ -681,11 +897,22 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
                                     </div>
                                 </div>
                                 <div className="flex-1 overflow-y-auto pr-2 prose prose-invert prose-sm max-w-none">
-                                    <ReactMarkdown>{result}</ReactMarkdown>
+                                    <CitedMarkdown text={result} sources={resultSources} onCite={handleCite} />
 
                                     {flashcards.length > 0 && (
                                         <div className="mt-8 pt-8 border-t border-white/10">
-                                            <h4 className="text-white font-bold mb-4">Learning Chunks (Key Concepts)</h4>
+                                            <div className="flex items-center justify-between mb-4">
+                                                <h4 className="text-white font-bold">Learning Chunks (Key Concepts)</h4>
+                                                {user && (
+                                                    <button
+                                                        onClick={handleSaveDeck}
+                                                        disabled={deckSaved}
+                                                        className="flex items-center gap-1 px-3 py-1.5 bg-white/5 hover:bg-white/10 rounded text-xs font-medium text-white transition-colors disabled:opacity-60"
+                                                    >
+                                                        {deckSaved ? <><CheckCircle size={14} className="text-green-400" /> Saved to Decks</> : <><Library size={14} /> Save as deck</>}
+                                                    </button>
+                                                )}
+                                            </div>
                                             <div className="grid grid-cols-1 gap-3">
                                                 {flashcards.map((card, i) => (
                                                     <div key={i} className="bg-discord-bg p-4 rounded-lg border border-white/5 hover:border-discord-accent/50 transition-colors">
@@ -707,6 +934,32 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
                                     )}
                                 </div>
                             </>
+                        ) : streaming ? (
+                            <div className="flex-1 flex flex-col items-center justify-center text-discord-textMuted/60">
+                                <Sparkles size={48} className="mb-4 animate-spin text-discord-accent" />
+                                {summaryProgress?.stage === 'sections' ? (
+                                    <>
+                                        <p className="text-lg font-medium">Summarizing section {summaryProgress.completed + 1} of {summaryProgress.total}</p>
+                                        <p className="text-sm max-w-xs text-center truncate">{summaryProgress.label}</p>
+                                        <div className="w-64 h-1.5 bg-white/10 rounded-full mt-4 overflow-hidden">
+                                            <div
+                                                className="h-full bg-discord-accent transition-all"
+                                                style={{ width: `${(summaryProgress.completed / summaryProgress.total) * 100}%` }}
+                                            />
+                                        </div>
+                                    </>
+                                ) : summaryProgress?.stage === 'merging' ? (
+                                    <>
+                                        <p className="text-lg font-medium">Merging section summaries...</p>
+                                        <p className="text-sm max-w-xs text-center">Long document detected, combining every section into one summary.</p>
+                                    </>
+                                ) : (
+                                    <>
+                                        <p className="text-lg font-medium">Reading your content...</p>
+                                        <p className="text-sm max-w-xs text-center">The summary will appear here as it is written.</p>
+                                    </>
+                                )}
+                            </div>
                         ) : (
                             <div className="flex-1 flex flex-col items-center justify-center text-discord-textMuted/40">
                                 <Paperclip size={48} className="mb-4 opacity-50" />
@@ -770,81 +1023,16 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
 
             {/* Custom Mode Modal */}
             {showCustomModeModal && (
-                <div className="absolute inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
-                    <div className="bg-discord-panel p-6 rounded-2xl w-full max-w-lg border border-white/10 shadow-2xl animate-in zoom-in-95">
-                        <div className="flex justify-between items-center mb-6">
-                            <h3 className="text-xl font-bold text-white">
-                                {editingCustomMode ? 'Edit Custom Mode' : 'Create Custom Mode'}
-                            </h3>
-                            <button
-                                onClick={() => {
-                                    setShowCustomModeModal(false);
-                                    setCustomModeText('');
-                                    setCustomModePrompt('');
-                                    setEditingCustomMode(null);
-                                }}
-                                className="text-discord-textMuted hover:text-white"
-                            >
-                                <X size={24} />
-                            </button>
-                        </div>
-
-                        <div className="space-y-4">
-                            <div>
-                                <label className="block text-sm font-medium text-white mb-2">Mode Name</label>
-                                <input
-                                    type="text"
-                                    value={customModeText}
-                                    onChange={(e) => setCustomModeText(e.target.value)}
-                                    placeholder="e.g., Technical, Creative, Research Notes"
-                                    className="w-full bg-discord-bg border border-white/10 rounded-lg px-4 py-3 text-white placeholder-discord-textMuted/50 focus:outline-none focus:border-discord-accent transition-colors"
-                                    autoFocus
-                                />
-                            </div>
-
-                            <div>
-                                <label className="block text-sm font-medium text-white mb-2">System Prompt</label>
-                                <textarea
-                                    value={customModePrompt}
-                                    onChange={(e) => setCustomModePrompt(e.target.value)}
-                                    placeholder="Define how the AI should summarize content in this mode. For example: 'Summarize with a focus on technical concepts and include code examples when relevant.'"
-                                    className="w-full h-32 bg-discord-bg border border-white/10 rounded-lg px-4 py-3 text-white placeholder-discord-textMuted/50 focus:outline-none focus:border-discord-accent transition-colors resize-none"
-                                />
-                            </div>
-
-                            <div className="bg-discord-bg/50 rounded-lg p-4 border border-white/5">
-                                <h4 className="text-sm font-medium text-white mb-2">Examples:</h4>
-                                <div className="space-y-2 text-xs text-discord-textMuted">
-                                    <div><strong>Technical:</strong> "Focus on technical concepts, include definitions, and use bullet points for clarity."</div>
-                                    <div><strong>Creative:</strong> "Write in an engaging, narrative style with creative analogies and examples."</div>
-                                    <div><strong>Research:</strong> "Organize information hierarchically with key findings, methodologies, and conclusions."</div>
-                                </div>
-                            </div>
-
-                            <div className="flex justify-end gap-3">
-                                <button
-                                    onClick={() => {
-                                        setShowCustomModeModal(false);
-                                        setCustomModeText('');
-                                        setCustomModePrompt('');
-                                        setEditingCustomMode(null);
-                                    }}
-                                    className="px-4 py-2 text-discord-textMuted hover:text-white transition-colors"
-                                >
-                                    Cancel
-                                </button>
-                                <button
-                                    onClick={saveCustomMode}
-                                    disabled={!customModeText.trim() || !customModePrompt.trim()}
-                                    className="px-6 py-2 bg-discord-accent hover:bg-discord-accentHover text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-                                >
-                                    <Save size={16} />
-                                    {editingCustomMode ? 'Update' : 'Create'}
-                                </button>
-                            </div>
-                        </div>
-                    </div>
-                </div>
+                <PromptTemplateEditor
+                    mode={editingCustomMode}
+                    user={user}
+                    isNameTaken={(name) => !!getBuiltInMode(name) || customModes.some(m => m.name === name)}
+                    onSave={saveCustomMode}
+                    onClose={() => {
+                        setShowCustomModeModal(false);
+                        setEditingCustomMode(null);
+                    }}
+                />
             )}
 
             {/* History Modal */}
@@ -856,6 +1044,27 @@ const Summarizer: React.FC<SummarizerProps> = ({ onSave, notes, onAddToNote }) =
                 onDeleteSummary={handleDeleteSummary}
                 onLoadContent={handleLoadContent}
             />
+
+            {/* Podcast Modal */}
+            <PodcastModal
+                isOpen={showPodcastModal}
+                onClose={() => setShowPodcastModal(false)}
+                title={`Study podcast: ${activeMode?.name || mode}`}
+                content={stripSourceMarkers(result)}
+                episode={podcast}
+                onCreated={handlePodcastCreated}
+            />
+
+            {/* Batch Modal */}
+            <BatchSummaryPanel
+                isOpen={showBatchModal}
+                onClose={() => setShowBatchModal(false)}
+                mode={mode}
+                customPrompt={getCustomPromptForMode(mode)}
+                variables={getVariablesForMode()}
+                folders={folders}
+                disabledReason={mode === SYNTHESIS_MODE ? 'Synthesis compares several sources in one summary. Pick another mode to summarize files one by one.' : undefined}
+            />
         </div >
     );
 };
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { levelFor, estimateAbilities, interleaveNotes, planRound } from './adaptiveQuizService';
+import { BankedQuestion, QuestionAttempt, QuizModeType } from '../types';
+
+// questionBankService saves through StorageService, which needs Firebase
+vi.mock('./storageService', () => ({ StorageService: {} }));
+
+const NOTES = [
+  { id: 'cells', title: 'Cell biology' },
+  { id: 'rome', title: 'Roman history' },
+  { id: 'waves', title: 'Waves' }
+];
+
+let nextId = 0;
+const banked = (
+  noteId: string,
+  difficulty: 'easy' | 'medium' | 'hard',
+  answers: [answeredAt: number, correct: boolean][] = [],
+  mode: QuizModeType = 'standard'
+): BankedQuestion => {
+  const id = `q${nextId++}`;
+  return {
+    id,
+    userId: 'u1',
+    noteId,
+    topic: noteId,
+    mode,
+    question: { id, text: `Question ${id}`, options: ['a', 'b', 'c', 'd'], correctIndex: 0, explanation: '', difficulty },
+    createdAt: 0,
+    attempts: answers.map(([answeredAt, correct]): QuestionAttempt => ({ answeredAt, correct, timeSpentMs: 5000, mode }))
+  };
+};
+
+describe('adaptive quizzes', () => {
+  it('asks the difficulty the learner should get right about 70% of the time', () => {
+    expect(levelFor(-2)).toBe('easy');
+    expect(levelFor(Math.log(0.7 / 0.3))).toBe('medium');
+    expect(levelFor(3)).toBe('hard');
+  });
+
+  it('rates notes from their attempts, weakest first', () => {
+    const entries = [
+      banked('cells', 'easy', [[1, false], [2, false]]),
+      banked('rome', 'hard', [[1, true], [2, true], [3, true]])
+    ];
+    const abilities = estimateAbilities(entries, NOTES);
+
+    expect(abilities.map(a => a.noteId)).toEqual(['cells', 'waves', 'rome']);
+    expect(abilities[0]).toMatchObject({ topic: 'Cell biology', attempts: 2, level: 'easy' });
+    // A note without history starts at medium
+    expect(abilities[1]).toMatchObject({ attempts: 0, level: 'medium' });
+    expect(abilities[2].level).toBe('hard');
+    expect(abilities[2].mastery).toBeGreaterThan(abilities[0].mastery);
+  });
+
+  it('interleaves notes, giving weak ones more of the round', () => {
+    const even = interleaveNotes(estimateAbilities([], NOTES), 6);
+    expect(even.map(a => a.noteId).sort()).toEqual(['cells', 'cells', 'rome', 'rome', 'waves', 'waves']);
+    even.slice(1).forEach((a, i) => expect(a.noteId).not.toBe(even[i].noteId));
+
+    const uneven = interleaveNotes(estimateAbilities([
+      banked('cells', 'easy', [[1, false], [2, false], [3, false]]),
+      banked('rome', 'hard', [[1, true], [2, true], [3, true]])
+    ], NOTES), 10);
+    const count = (noteId: string) => uneven.filter(a => a.noteId === noteId).length;
+    expect(count('cells')).toBeGreaterThan(count('waves'));
+    expect(count('waves')).toBeGreaterThan(count('rome'));
+    expect(count('rome')).toBeGreaterThan(0);
+
+    expect(interleaveNotes([], 5)).toEqual([]);
+  });
+
+  it('reuses missed questions first, then unanswered ones, and leaves the rest to generate', () => {
+    const missedFirst = banked('cells', 'easy', [[1, false]]);
+    const missedLater = banked('cells', 'easy', [[2, true], [3, false]]);
+    const unanswered = banked('cells', 'easy');
+    const otherMode = banked('cells', 'easy', [], 'swipe');
+    const otherLevel = banked('cells', 'medium');
+    const entries = [unanswered, otherMode, otherLevel, missedLater, missedFirst];
+
+    const abilities = estimateAbilities(entries, NOTES.slice(0, 1));
+    expect(abilities[0].level).toBe('easy');
+
+    const round = planRound(entries, abilities, 'standard', new Set(), 4);
+    expect(round.map(slot => slot.question?.id)).toEqual([missedFirst.id, missedLater.id, unanswered.id, undefined]);
+    expect(round.every(slot => slot.noteId === 'cells' && slot.difficulty === 'easy')).toBe(true);
+
+    const withoutAsked = planRound(entries, abilities, 'standard', new Set([missedFirst.id]), 2);
+    expect(withoutAsked.map(slot => slot.question?.id)).toEqual([missedLater.id, unanswered.id]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Adaptive quizzes
+ * Rates the learner's ability on each note from the attempts in the question bank, Elo style:
+ * every answer moves the rating by how surprising it was for the question's difficulty. The next
+ * round is planned from those ratings. Weak notes come up more often, interleaved with the rest,
+ * and every question is asked at the difficulty the learner should get right about 70% of the
+ * time. Banked questions are reused where they fit; the slots left open are for the caller to
+ * generate.
+ */
+import { BankedQuestion, NoteAbility, QuizModeType } from '../types';
+import { isMissed, questionStats } from './questionBankService';
+
+type Difficulty = NoteAbility['level'];
+
+export interface RoundSlot {
+  noteId: string;
+  difficulty: Difficulty;
+  /** Banked question for the slot, missing when one has to be generated */
+  question?: BankedQuestion;
+}
+
+const DIFFICULTY_LOGITS: Record<Difficulty, number> = { easy: -1, medium: 0, hard: 1 };
+// Chance of a correct answer to aim for, 70%, on the logit scale
+const TARGET_LOGIT = Math.log(0.7 / 0.3);
+// A note without history starts where medium questions are answered at the target rate
+const INITIAL_ABILITY = DIFFICULTY_LOGITS.medium + TARGET_LOGIT;
+// Added to every note's weight so mastered notes still come up now and then
+const MIN_WEIGHT = 0.15;
+export const ROUND_SIZE = 5;
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+// Large steps while a note has little history, settling as answers accumulate
+const stepSize = (answered: number) => Math.max(0.2, 1 / Math.sqrt(answered + 1));
+
+const questionDifficulty = (entry: BankedQuestion): Difficulty => entry.question.difficulty || 'medium';
+
+/**
+ * The difficulty whose questions the learner should answer correctly closest to the target rate
+ */
+export const levelFor = (ability: number): Difficulty => {
+  const target = ability - TARGET_LOGIT;
+  return (Object.keys(DIFFICULTY_LOGITS) as Difficulty[]).reduce((best, level) =>
+    Math.abs(DIFFICULTY_LOGITS[level] - target) < Math.abs(DIFFICULTY_LOGITS[best] - target) ? level : best
+  );
+};
+
+const rate = (noteId: string, topic: string, entries: BankedQuestion[]): NoteAbility => {
+  const attempts = entries
+    .flatMap(entry => entry.attempts.map(attempt => ({ ...attempt, logit: DIFFICULTY_LOGITS[questionDifficulty(entry)] })))
+    .sort((a, b) => a.answeredAt - b.answeredAt);
+
+  let ability = INITIAL_ABILITY;
+  attempts.forEach((attempt, i) => {
+    ability += stepSize(i) * ((attempt.correct ? 1 : 0) - sigmoid(ability - attempt.logit));
+  });
+
+  return {
+    noteId,
+    topic,
+    ability,
+    mastery: sigmoid(ability - DIFFICULTY_LOGITS.medium),
+    attempts: attempts.length,
+    level: levelFor(ability)
+  };
+};
+
+/**
+ * Ability on each of the notes, from every attempt at their banked questions in any mode.
+ * Notes without history get the starting estimate. Weakest first.
+ */
+export const estimateAbilities = (entries: BankedQuestion[], notes: { id: string; title: string }[]): NoteAbility[] =>
+  notes
+    .map(note => rate(note.id, note.title, entries.filter(entry => entry.noteId === note.id)))
+    .sort((a, b) => a.ability - b.ability);
+
+/**
+ * Notes for each slot of a round, by smooth weighted round-robin: a note's share grows with its
+ * weakness, and the same note only repeats back to back when the weights leave no other choice.
+ */
+export const interleaveNotes = (abilities: NoteAbility[], size: number): NoteAbility[] => {
+  if (abilities.length === 0) return [];
+  const weights = abilities.map(a => 1 - a.mastery + MIN_WEIGHT);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const credit = abilities.map(() => 0);
+
+  const order: NoteAbility[] = [];
+  for (let slot = 0; slot < size; slot++) {
+    weights.forEach((w, i) => { credit[i] += w; });
+    const next = credit.reduce((best, c, i) => (c > credit[best] ? i : best), 0);
+    credit[next] -= total;
+    order.push(abilities[next]);
+  }
+  return order;
+};
+
+/**
+ * The next round: one slot per question, each with its note and difficulty and, where the bank
+ * has an unused question of the mode at that difficulty, the question to ask. Missed questions
+ * are preferred, then unanswered ones, then those answered longest ago.
+ */
+export const planRound = (
+  entries: BankedQuestion[],
+  abilities: NoteAbility[],
+  mode: QuizModeType,
+  exclude: Set<string> = new Set(),
+  size = ROUND_SIZE
+): RoundSlot[] => {
+  const used = new Set(exclude);
+  const priority = (entry: BankedQuestion) => (isMissed(entry) ? 0 : entry.attempts.length === 0 ? 1 : 2);
+
+  return interleaveNotes(abilities, size).map(({ noteId, level }) => {
+    const question = entries
+      .filter(entry =>
+        entry.noteId === noteId && entry.mode === mode && !used.has(entry.id) && questionDifficulty(entry) === level)
+      .sort((a, b) =>
+        priority(a) - priority(b) ||
+        (questionStats(a).lastAnsweredAt ?? 0) - (questionStats(b).lastAnsweredAt ?? 0))[0];
+
+    if (!question) return { noteId, difficulty: level };
+    used.add(question.id);
+    return { noteId, difficulty: level, question };
+  });
+};
@@ -0,0 +1,286 @@
+/**
+ * AI Generation Cache
+ * Persists AI results in IndexedDB so regenerating flashcards, quizzes, reels etc. for
+ * unchanged content does not spend quota. Entries are keyed by function, model, prompt
+ * version and a hash of the input, scoped to the signed-in user, and evicted least
+ * recently used first once the cache outgrows its budget.
+ */
+import { getAIProvider } from './aiProvider';
+import { StorageService } from './storageService';
+import { hashString } from '../utils/textAnalysis';
+import logger from './securityLogger';
+
+const DB_NAME = 'procastify_ai_cache';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const STATS_STORE = 'stats';
+
+const MAX_CACHE_BYTES = 5 * 1024 * 1024;
+const MAX_CACHE_ENTRIES = 400;
+
+export interface AICacheOptions {
+  /** Skip the lookup and overwrite the cached value with a fresh generation */
+  regenerate?: boolean;
+}
+
+export interface AICacheSpec {
+  fn: string;
+  promptVersion: number;
+  /** Everything the output depends on besides fn/model/version: content, mode, difficulty... */
+  input: unknown;
+}
+
+interface AICacheEntry {
+  key: string;
+  userId: string;
+  fn: string;
+  model: string;
+  promptVersion: number;
+  contentHash: string;
+  value: unknown;
+  size: number;
+  createdAt: number;
+  lastAccessed: number;
+  hits: number;
+}
+
+export interface AICacheFunctionStats {
+  hits: number;
+  misses: number;
+  regenerations: number;
+}
+
+export interface AICacheUserStats {
+  userId: string;
+  byFunction: Record<string, AICacheFunctionStats>;
+  lastHitAt?: number;
+}
+
+export interface AICacheOverview {
+  stats: AICacheUserStats;
+  entryCount: number;
+  totalBytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDB = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+        const entries = db.createObjectStore(ENTRY_STORE, { keyPath: 'key' });
+        entries.createIndex('lastAccessed', 'lastAccessed');
+        entries.createIndex('userId', 'userId');
+      }
+      if (!db.objectStoreNames.contains(STATS_STORE)) {
+        db.createObjectStore(STATS_STORE, { keyPath: 'userId' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('AI cache unavailable:', request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const getCacheUserId = (): string => StorageService.currentUserId || 'anonymous';
+
+/**
+ * SHA-256 of the input where WebCrypto is available, with a cheap fallback otherwise
+ */
+const hashInput = async (input: unknown): Promise<string> => {
+  const text = typeof input === 'string' ? input : JSON.stringify(input);
+  try {
+    if (typeof crypto !== 'undefined' && crypto.subtle) {
+      const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+      return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+    }
+  } catch { /* fall through */ }
+  return `${hashString(text)}_${text.length}`;
+};
+
+const recordStat = async (userId: string, fn: string, field: keyof AICacheFunctionStats): Promise<void> => {
+  const db = await openDB();
+  if (!db) return;
+  try {
+    const store = db.transaction(STATS_STORE, 'readwrite').objectStore(STATS_STORE);
+    const stats: AICacheUserStats = (await promisify(store.get(userId))) || { userId, byFunction: {} };
+    const fnStats = stats.byFunction[fn] || { hits: 0, misses: 0, regenerations: 0 };
+    fnStats[field] += 1;
+    stats.byFunction[fn] = fnStats;
+    if (field === 'hits') stats.lastHitAt = Date.now();
+    await promisify(store.put(stats));
+  } catch (error) {
+    console.warn('Failed to record AI cache stats:', error);
+  }
+};
+
+/**
+ * Drops least recently used entries until the cache fits its entry and byte budget
+ */
+const evict = async (db: IDBDatabase): Promise<void> => {
+  const store = db.transaction(ENTRY_STORE, 'readwrite').objectStore(ENTRY_STORE);
+  const entries: AICacheEntry[] = await promisify(store.index('lastAccessed').getAll());
+
+  let totalBytes = entries.reduce((sum, e) => sum + e.size, 0);
+  let count = entries.length;
+
+  for (const entry of entries) {
+    if (totalBytes <= MAX_CACHE_BYTES && count <= MAX_CACHE_ENTRIES) break;
+    store.delete(entry.key);
+    totalBytes -= entry.size;
+    count -= 1;
+  }
+};
+
+export const AICacheService = {
+
+  /**
+   * Resolves the storage key for a generation. The model comes from the active provider,
+   * so switching provider or model never serves results produced by another one.
+   */
+  buildKey: async (spec: AICacheSpec) => {
+    const model = getAIProvider().model;
+    const contentHash = await hashInput(spec.input);
+    const userId = getCacheUserId();
+    return {
+      key: `${userId}:${spec.fn}:${model}:v${spec.promptVersion}:${contentHash}`,
+      userId,
+      model,
+      contentHash
+    };
+  },
+
+  get: async <T>(spec: AICacheSpec): Promise<T | null> => {
+    const db = await openDB();
+    if (!db) return null;
+    try {
+      const { key, userId } = await AICacheService.buildKey(spec);
+      const store = db.transaction(ENTRY_STORE, 'readwrite').objectStore(ENTRY_STORE);
+      const entry: AICacheEntry | undefined = await promisify(store.get(key));
+
+      if (!entry) {
+        await recordStat(userId, spec.fn, 'misses');
+        return null;
+      }
+
+      entry.lastAccessed = Date.now();
+      entry.hits += 1;
+      store.put(entry);
+      await recordStat(userId, spec.fn, 'hits');
+      logger.log(`AI cache hit: ${spec.fn}`, 'AI', 'INFO' as any, { userId });
+      return entry.value as T;
+    } catch (error) {
+      console.warn('AI cache lookup failed:', error);
+      return null;
+    }
+  },
+
+  set: async <T>(spec: AICacheSpec, value: T): Promise<void> => {
+    const db = await openDB();
+    if (!db) return;
+    try {
+      const { key, userId, model, contentHash } = await AICacheService.buildKey(spec);
+      const now = Date.now();
+      const entry: AICacheEntry = {
+        key,
+        userId,
+        fn: spec.fn,
+        model,
+        promptVersion: spec.promptVersion,
+        contentHash,
+        value,
+        size: JSON.stringify(value).length,
+        createdAt: now,
+        lastAccessed: now,
+        hits: 0
+      };
+      if (entry.size > MAX_CACHE_BYTES) return;
+
+      const store = db.transaction(ENTRY_STORE, 'readwrite').objectStore(ENTRY_STORE);
+      await promisify(store.put(entry));
+      await evict(db);
+    } catch (error) {
+      console.warn('AI cache write failed:', error);
+    }
+  },
+
+  /**
+   * Counts an explicit "regenerate" request, which skips the lookup
+   */
+  noteRegeneration: (fn: string): Promise<void> => recordStat(getCacheUserId(), fn, 'regenerations'),
+
+  /**
+   * Returns the cached value for spec, or runs generate and caches its result.
+   * Values rejected by isCacheable (fallbacks, empty results) are returned but not stored.
+   */
+  getOrGenerate: async <T>(
+    spec: AICacheSpec,
+    options: AICacheOptions | undefined,
+    generate: () => Promise<T>,
+    isCacheable: (value: T) => boolean = value => Array.isArray(value) ? value.length > 0 : !!value
+  ): Promise<T> => {
+    if (options?.regenerate) {
+      await AICacheService.noteRegeneration(spec.fn);
+    } else {
+      const cached = await AICacheService.get<T>(spec);
+      if (cached !== null) return cached;
+    }
+
+    const value = await generate();
+    if (isCacheable(value)) {
+      await AICacheService.set(spec, value);
+    }
+    return value;
+  },
+
+  /**
+   * Cache hit statistics and storage use for the current user
+   */
+  getOverview: async (userId: string = getCacheUserId()): Promise<AICacheOverview> => {
+    const empty: AICacheOverview = { stats: { userId, byFunction: {} }, entryCount: 0, totalBytes: 0 };
+    const db = await openDB();
+    if (!db) return empty;
+    try {
+      const tx = db.transaction([ENTRY_STORE, STATS_STORE], 'readonly');
+      const stats: AICacheUserStats | undefined = await promisify(tx.objectStore(STATS_STORE).get(userId));
+      const entries: AICacheEntry[] = await promisify(tx.objectStore(ENTRY_STORE).index('userId').getAll(userId));
+      return {
+        stats: stats || empty.stats,
+        entryCount: entries.length,
+        totalBytes: entries.reduce((sum, e) => sum + e.size, 0)
+      };
+    } catch (error) {
+      console.warn('Failed to read AI cache overview:', error);
+      return empty;
+    }
+  },
+
+  /**
+   * Removes the current user's cached generations. Hit statistics are kept.
+   */
+  clear: async (userId: string = getCacheUserId()): Promise<void> => {
+    const db = await openDB();
+    if (!db) return;
+    const store = db.transaction(ENTRY_STORE, 'readwrite').objectStore(ENTRY_STORE);
+    const keys = await promisify(store.index('userId').getAllKeys(userId));
+    keys.forEach(key => store.delete(key));
+  }
+};
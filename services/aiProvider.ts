@@ -0,0 +1,148 @@
+/**
+ * AI Provider Layer
+ * Every AI feature talks to a provider through this interface, so Gemini is one
+ * implementation among others and the app can run fully offline with the local provider.
+ */
+import type { Schema } from "@google/genai";
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalAIProvider } from './localAIProvider';
+import { withResilience } from './aiResilience';
+import { withUsageMetering } from './aiUsageService';
+import logger from './securityLogger';
+import { readEnv } from '../utils/env';
+
+export type AIProviderName = 'gemini' | 'local';
+
+/**
+ * Identifies the calling feature. Rule-based providers dispatch on it,
+ * remote providers only use it for logging.
+ */
+export type AITask =
+  | 'summary'
+  | 'noteAnalysis'
+  | 'routine'
+  | 'panic'
+  | 'flashcards'
+  | 'cloze'
+  | 'question'
+  | 'quiz'
+  | 'trueFalse'
+  | 'fillBlanks'
+  | 'explainQuiz'
+  | 'quizReport'
+  | 'reasoning'
+  | 'reels'
+  | 'diagram'
+  | 'insight'
+  | 'notesChat'
+  | 'podcast';
+
+export type AIPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+export type AIModelTier = 'text' | 'multimodal';
+
+export interface AIRequest {
+  task: AITask;
+  contents: string | AIPart[];
+  systemInstruction?: string;
+  tier?: AIModelTier;
+  /**
+   * Structured inputs behind the prompt (mode, difficulty, queue items...).
+   * Ignored by remote providers; rule-based providers use it instead of parsing prompts.
+   */
+  context?: Record<string, any>;
+  /** Aborts the in-flight request */
+  signal?: AbortSignal;
+  /**
+   * Part of a job whose quota was checked once up front, e.g. a podcast episode. The call is not
+   * checked again and adds its characters to the usage but not a call; the job records that.
+   */
+  quotaChecked?: boolean;
+}
+
+export interface AIJSONRequest extends AIRequest {
+  schema: Schema;
+}
+
+export interface AISpeechRequest {
+  /** Feature the speech is metered under, read-aloud when missing */
+  task?: AITask;
+  text: string;
+  voice?: string;
+  /** A two-person dialogue: the text is written as "Name: line" turns, each name read in its voice */
+  speakers?: { name: string; voice: string }[];
+  /** See AIRequest.quotaChecked */
+  quotaChecked?: boolean;
+  /** Aborts the in-flight request */
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  /** Identifies the model behind text generation, e.g. for cache keys */
+  readonly model: string;
+  generateText(request: AIRequest): Promise<string>;
+  /** Yields the response text incrementally, chunk by chunk */
+  streamText(request: AIRequest): AsyncIterable<string>;
+  generateJSON<T>(request: AIJSONRequest): Promise<T>;
+  /** Returns base64 encoded audio, or null when speech could not be produced */
+  generateSpeech(request: AISpeechRequest): Promise<string | null>;
+}
+
+const PROVIDER_OVERRIDE_KEY = 'procastify_ai_provider';
+
+let activeProvider: AIProvider | null = null;
+
+const readConfiguredProviderName = (): AIProviderName => {
+  let configured: string | undefined;
+  try {
+    configured = localStorage.getItem(PROVIDER_OVERRIDE_KEY) || undefined;
+  } catch { /* ignore */ }
+
+  if (!configured) {
+    configured = readEnv('VITE_AI_PROVIDER');
+  }
+
+  return configured === 'local' ? 'local' : 'gemini';
+};
+
+// Only the remote provider is metered: local output costs nothing and must not use up the quotas
+const createProvider = (name: AIProviderName): AIProvider => {
+  switch (name) {
+    case 'local': return withResilience(createLocalAIProvider());
+    case 'gemini': default: return withUsageMetering(withResilience(createGeminiProvider()));
+  }
+};
+
+/**
+ * Returns the active provider, creating it from configuration on first use.
+ * Set VITE_AI_PROVIDER=local (or call switchAIProvider('local')) to work offline.
+ */
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(readConfiguredProviderName());
+    logger.log(`AI provider initialised: ${activeProvider.name}`, 'AI', 'INFO' as any);
+  }
+  return activeProvider;
+};
+
+/**
+ * Replaces the active provider, e.g. with a local provider carrying custom fixtures
+ */
+export const setAIProvider = (provider: AIProvider): void => {
+  activeProvider = provider;
+  logger.log(`AI provider switched to ${provider.name}`, 'AI', 'INFO' as any);
+};
+
+/**
+ * Switches provider by name and remembers the choice on this device
+ */
+export const switchAIProvider = (name: AIProviderName): AIProvider => {
+  try {
+    localStorage.setItem(PROVIDER_OVERRIDE_KEY, name);
+  } catch { /* ignore */ }
+  setAIProvider(createProvider(name));
+  return activeProvider!;
+};
@@ -0,0 +1,228 @@
+/**
+ * Resilient AI calls
+ * Wraps a provider so rate limits and outages (429/503) are retried with exponential
+ * backoff, repeated failures open a circuit breaker that fails fast and switches the UI
+ * into a degraded mode, and every wait honours the request's AbortSignal.
+ */
+import type { AIProvider, AIRequest, AIJSONRequest, AISpeechRequest } from './aiProvider';
+import logger, { APIError } from './securityLogger';
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15000;
+
+/** Consecutive failed calls (after their retries) before the circuit opens */
+const FAILURE_THRESHOLD = 4;
+const OPEN_DURATION_MS = 30000;
+
+export type AICircuitState = 'closed' | 'open' | 'half-open';
+
+export interface AIServiceStatus {
+  state: AICircuitState;
+  consecutiveFailures: number;
+  /** When an open circuit lets the next trial call through */
+  retryAt?: number;
+  lastError?: string;
+}
+
+type StatusListener = (status: AIServiceStatus) => void;
+
+let status: AIServiceStatus = { state: 'closed', consecutiveFailures: 0 };
+const listeners = new Set<StatusListener>();
+
+const setStatus = (next: AIServiceStatus) => {
+  const changed = next.state !== status.state;
+  status = next;
+  if (changed) {
+    logger.log(`AI circuit ${next.state}`, 'AI', (next.state === 'open' ? 'WARNING' : 'INFO') as any, { lastError: next.lastError });
+  }
+  listeners.forEach(listener => listener(status));
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+};
+
+/**
+ * Reads the HTTP status from our APIError, the Gemini SDK error or, failing that, the message
+ */
+const getStatusCode = (error: any): number | undefined => {
+  if (typeof error?.statusCode === 'number') return error.statusCode;
+  if (typeof error?.status === 'number') return error.status;
+  const message = String(error?.message || '');
+  const code = message.match(/\b(429|500|502|503|504)\b/);
+  if (code) return Number(code[1]);
+  if (message.includes('RESOURCE_EXHAUSTED')) return 429;
+  if (message.includes('UNAVAILABLE')) return 503;
+  return undefined;
+};
+
+/** A missing API key will not fix itself, so it is neither retried nor held against the service */
+const isNotConfigured = (error: unknown) =>
+  error instanceof APIError && error.message === 'AI service not configured';
+
+/**
+ * True when the AI cannot be reached at all: no API key, an open circuit, an outage or no network.
+ * Callers with an offline alternative use it instead of showing an error.
+ */
+export const isAIUnavailableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  return getStatusCode(error) === 503 || error instanceof TypeError;
+};
+
+const isRetryable = (error: unknown) => {
+  if (isNotConfigured(error)) return false;
+  const code = getStatusCode(error);
+  return code === 429 || code === 503;
+};
+
+/**
+ * Failures that say the service is unhealthy, as opposed to a rejected request or bad output.
+ * fetch reports network failures as TypeErrors.
+ */
+const isServiceFailure = (error: unknown) => {
+  if (isAbortError(error) || isNotConfigured(error)) return false;
+  const code = getStatusCode(error);
+  if (code !== undefined) return code === 429 || code >= 500;
+  return error instanceof TypeError;
+};
+
+const backoffDelay = (attempt: number) => {
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const assertCircuitAllows = () => {
+  if (status.state !== 'open') return;
+  if (Date.now() >= (status.retryAt || 0)) {
+    setStatus({ ...status, state: 'half-open', retryAt: undefined });
+    return;
+  }
+  throw new APIError('AI service temporarily unavailable', 503);
+};
+
+const recordSuccess = () => {
+  if (status.state !== 'closed' || status.consecutiveFailures > 0) {
+    setStatus({ state: 'closed', consecutiveFailures: 0 });
+  }
+};
+
+const recordFailure = (error: unknown) => {
+  const consecutiveFailures = status.consecutiveFailures + 1;
+  const lastError = error instanceof Error ? error.message : String(error);
+  // A failed trial call re-opens the circuit straight away
+  if (status.state === 'half-open' || consecutiveFailures >= FAILURE_THRESHOLD) {
+    setStatus({ state: 'open', consecutiveFailures, retryAt: Date.now() + OPEN_DURATION_MS, lastError });
+  } else {
+    setStatus({ ...status, consecutiveFailures, lastError });
+  }
+};
+
+/**
+ * Runs one provider call with backoff on 429/503 and circuit breaker bookkeeping.
+ * Errors that are not about service health (bad requests, unparseable output) are
+ * passed to the caller untouched and never retried.
+ */
+export const callWithResilience = async <T>(
+  operation: string,
+  signal: AbortSignal | undefined,
+  call: () => Promise<T>
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    assertCircuitAllows();
+
+    try {
+      const result = await call();
+      recordSuccess();
+      return result;
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) throw error;
+      if (!isServiceFailure(error)) {
+        // The service answered, it just did not like this request
+        if (!isNotConfigured(error)) recordSuccess();
+        throw error;
+      }
+
+      if (isRetryable(error) && attempt < MAX_RETRIES && status.state === 'closed') {
+        const delay = backoffDelay(attempt);
+        logger.log(`AI ${operation} failed with ${getStatusCode(error)}, retrying in ${Math.round(delay)}ms`, 'AI', 'WARNING' as any, { attempt: attempt + 1 });
+        await sleep(delay, signal);
+        continue;
+      }
+
+      recordFailure(error);
+      throw error;
+    }
+  }
+};
+
+/**
+ * Decorates a provider with callWithResilience. Streams are only retried until the
+ * first chunk arrives; after that a failure ends the stream.
+ */
+export const withResilience = (provider: AIProvider): AIProvider => ({
+  name: provider.name,
+  model: provider.model,
+
+  generateText: (request: AIRequest) =>
+    callWithResilience('generateText', request.signal, () => provider.generateText(request)),
+
+  streamText: async function* (request: AIRequest) {
+    const { iterator, first } = await callWithResilience('streamText', request.signal, async () => {
+      const iterator = provider.streamText(request)[Symbol.asyncIterator]();
+      return { iterator, first: await iterator.next() };
+    });
+
+    if (first.done) return;
+    yield first.value;
+
+    try {
+      for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+        yield next.value;
+      }
+    } catch (error) {
+      if (!request.signal?.aborted && isServiceFailure(error)) recordFailure(error);
+      throw error;
+    }
+  },
+
+  generateJSON: <T>(request: AIJSONRequest) =>
+    callWithResilience('generateJSON', request.signal, () => provider.generateJSON<T>(request)),
+
+  generateSpeech: (request: AISpeechRequest) =>
+    callWithResilience('generateSpeech', request.signal, () => provider.generateSpeech(request))
+});
+
+export const getAIServiceStatus = (): AIServiceStatus => status;
+
+/**
+ * Notifies listener whenever the circuit state or failure count changes. Returns an unsubscribe function.
+ */
+export const subscribeToAIServiceStatus = (listener: StatusListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Closes the circuit, e.g. when the user asks to try again before the cooldown ends
+ */
+export const resetAIServiceStatus = () => setStatus({ state: 'closed', consecutiveFailures: 0 });
@@ -0,0 +1,347 @@
+/**
+ * AI usage metering
+ * Every provider call is attributed to the signed-in user and a feature, counted per local
+ * day and persisted through StorageService, so usage survives reloads and daily quotas
+ * per role are checked before a request is sent.
+ */
+import type { AIProvider, AIRequest, AIJSONRequest, AISpeechRequest, AITask } from './aiProvider';
+import { StorageService } from './storageService';
+import logger, { APIError } from './securityLogger';
+import { AIUsageDay, AIUsageFeature, AIUsageCounter, AIQuota, UserPreferences, UserRole } from '../types';
+import { readEnv } from '../utils/env';
+
+export type AIQuotaTier = UserRole | 'guest';
+
+const TASK_FEATURES: Record<AITask, AIUsageFeature> = {
+  summary: 'summary',
+  notesChat: 'chat',
+  flashcards: 'flashcards',
+  cloze: 'flashcards',
+  reels: 'reels',
+  diagram: 'diagram',
+  question: 'quiz',
+  quiz: 'quiz',
+  trueFalse: 'quiz',
+  fillBlanks: 'quiz',
+  explainQuiz: 'quiz',
+  quizReport: 'quiz',
+  reasoning: 'quiz',
+  noteAnalysis: 'planning',
+  routine: 'planning',
+  panic: 'planning',
+  insight: 'planning',
+  podcast: 'podcast',
+};
+
+export const AI_USAGE_FEATURE_LABELS: Record<AIUsageFeature, string> = {
+  summary: 'Summaries',
+  quiz: 'Quizzes',
+  flashcards: 'Flashcards',
+  reels: 'Learning Feed',
+  tts: 'Read aloud',
+  podcast: 'Podcasts',
+  diagram: 'Diagrams',
+  chat: 'Ask My Notes',
+  planning: 'Routine & planning',
+};
+
+const DEFAULT_QUOTAS: Record<AIQuotaTier, AIQuota> = {
+  guest: { dailyCalls: 40, dailyInputChars: 400000, featureCalls: { tts: 10, podcast: 2, diagram: 10 } },
+  student: { dailyCalls: 150, dailyInputChars: 2000000, featureCalls: { tts: 30, podcast: 5, diagram: 30 } },
+  teacher: { dailyCalls: 400, dailyInputChars: 6000000, featureCalls: { tts: 60, podcast: 10, diagram: 60 } },
+};
+
+const SAVE_DEBOUNCE_MS = 2000;
+
+/**
+ * Defaults merged with VITE_AI_QUOTAS, a JSON object keyed by tier, e.g.
+ * {"student": {"dailyCalls": 200}, "guest": {"featureCalls": {"tts": 5}}}
+ */
+const readQuotas = (): Record<AIQuotaTier, AIQuota> => {
+  let overrides: Partial<Record<AIQuotaTier, Partial<AIQuota>>> = {};
+  try {
+    const raw = readEnv('VITE_AI_QUOTAS');
+    if (raw) overrides = JSON.parse(raw);
+  } catch (error) {
+    console.warn('Ignoring invalid VITE_AI_QUOTAS', error);
+  }
+
+  const quotas = { ...DEFAULT_QUOTAS };
+  (Object.keys(DEFAULT_QUOTAS) as AIQuotaTier[]).forEach(tier => {
+    const override = overrides[tier];
+    if (!override) return;
+    quotas[tier] = {
+      ...DEFAULT_QUOTAS[tier],
+      ...override,
+      featureCalls: { ...DEFAULT_QUOTAS[tier].featureCalls, ...override.featureCalls }
+    };
+  });
+  return quotas;
+};
+
+let quotas: Record<AIQuotaTier, AIQuota> | null = null;
+
+export class AIQuotaError extends APIError {
+  public feature: AIUsageFeature;
+  public limit: number;
+  public resetsAt: number;
+
+  constructor(message: string, feature: AIUsageFeature, limit: number, resetsAt: number) {
+    super(message, 429);
+    this.feature = feature;
+    this.limit = limit;
+    this.resetsAt = resetsAt;
+    Object.setPrototypeOf(this, AIQuotaError.prototype);
+  }
+}
+
+type UsageListener = (day: AIUsageDay | null) => void;
+
+let usageUser: { id: string; tier: AIQuotaTier } | null = null;
+let today: AIUsageDay | null = null;
+let loading: Promise<AIUsageDay | null> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<UsageListener>();
+
+export const getLocalDateKey = (date: Date = new Date()): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const nextMidnight = (): number => {
+  const midnight = new Date();
+  midnight.setHours(24, 0, 0, 0);
+  return midnight.getTime();
+};
+
+const emptyDay = (userId: string, date: string): AIUsageDay => ({
+  id: date,
+  userId,
+  date,
+  features: {},
+  updatedAt: Date.now()
+});
+
+export const totalsOf = (day: AIUsageDay | null): AIUsageCounter => {
+  const totals: AIUsageCounter = { calls: 0, inputChars: 0, outputChars: 0 };
+  Object.values(day?.features || {}).forEach(counter => {
+    if (!counter) return;
+    totals.calls += counter.calls;
+    totals.inputChars += counter.inputChars;
+    totals.outputChars += counter.outputChars;
+  });
+  return totals;
+};
+
+const notify = () => listeners.forEach(listener => listener(today));
+
+/**
+ * Today's record for the current user, loaded once per session and rolled over at midnight
+ */
+const loadToday = async (): Promise<AIUsageDay | null> => {
+  if (!usageUser) return null;
+  const user = usageUser;
+  const date = getLocalDateKey();
+  if (today && today.userId === user.id && today.date === date) return today;
+
+  if (!loading) {
+    loading = StorageService.getAIUsage(date)
+      .then(days => days.find(d => d.date === date) || emptyDay(user.id, date))
+      .catch(error => {
+        console.warn('AI usage could not be loaded, counting from zero', error);
+        return emptyDay(user.id, date);
+      })
+      .then(day => {
+        // The user may have changed while loading
+        if (usageUser?.id === user.id) {
+          today = day;
+          notify();
+        }
+        return usageUser?.id === user.id ? day : null;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  return loading;
+};
+
+const scheduleSave = () => {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    if (!today) return;
+    StorageService.saveAIUsageDay(today).catch(error => console.warn('AI usage could not be saved', error));
+  }, SAVE_DEBOUNCE_MS);
+};
+
+const textLength = (request: AIRequest): number => {
+  const contents = typeof request.contents === 'string'
+    ? request.contents.length
+    : request.contents.reduce((sum, part) => sum + ('text' in part ? part.text.length : 0), 0);
+  return contents + (request.systemInstruction?.length || 0);
+};
+
+const quotaMessage = (limit: number, what: string) => {
+  const resetsIn = Math.ceil((nextMidnight() - Date.now()) / 3600000);
+  return `You've reached today's AI limit for ${what} (${limit}). It resets at midnight, in about ${resetsIn} hour${resetsIn === 1 ? '' : 's'}. Your notes and saved results still work.`;
+};
+
+export const AIUsageService = {
+  /** Called whenever the session changes; usage is not metered without a user */
+  setUser: (user: UserPreferences | null) => {
+    const next = user ? { id: user.id, tier: (user.isGuest ? 'guest' : user.role || 'student') as AIQuotaTier } : null;
+    if (next?.id === usageUser?.id && next?.tier === usageUser?.tier) return;
+
+    if (saveTimer && today) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+      StorageService.saveAIUsageDay(today).catch(error => console.warn('AI usage could not be saved', error));
+    }
+    usageUser = next;
+    today = null;
+    notify();
+  },
+
+  getQuota: (tier: AIQuotaTier = usageUser?.tier || 'guest'): AIQuota => {
+    if (!quotas) quotas = readQuotas();
+    return quotas[tier];
+  },
+
+  getTier: (): AIQuotaTier | null => usageUser?.tier || null,
+
+  getToday: (): Promise<AIUsageDay | null> => loadToday(),
+
+  /** Daily records from the last `days` days, oldest first, including today */
+  getHistory: async (days: number): Promise<AIUsageDay[]> => {
+    if (!usageUser) return [];
+    const since = new Date();
+    since.setDate(since.getDate() - (days - 1));
+    const [history, current] = await Promise.all([
+      StorageService.getAIUsage(getLocalDateKey(since)),
+      loadToday()
+    ]);
+    // Today's in-memory record may be ahead of the saved one
+    return current ? [...history.filter(d => d.date !== current.date), current] : history;
+  },
+
+  /**
+   * Throws an AIQuotaError when the user has used up today's allowance overall or for the feature
+   */
+  checkQuota: async (feature: AIUsageFeature): Promise<void> => {
+    const day = await loadToday();
+    if (!day) return;
+
+    const quota = AIUsageService.getQuota();
+    const totals = totalsOf(day);
+    const featureLimit = quota.featureCalls?.[feature];
+
+    let error: AIQuotaError | null = null;
+    if (totals.calls >= quota.dailyCalls) {
+      error = new AIQuotaError(quotaMessage(quota.dailyCalls, 'AI requests'), feature, quota.dailyCalls, nextMidnight());
+    } else if (totals.inputChars >= quota.dailyInputChars) {
+      error = new AIQuotaError(quotaMessage(quota.dailyInputChars, 'characters sent to the AI'), feature, quota.dailyInputChars, nextMidnight());
+    } else if (featureLimit !== undefined && (day.features[feature]?.calls || 0) >= featureLimit) {
+      error = new AIQuotaError(quotaMessage(featureLimit, AI_USAGE_FEATURE_LABELS[feature].toLowerCase()), feature, featureLimit, nextMidnight());
+    }
+
+    if (error) {
+      logger.log(`AI quota reached for ${feature}`, 'AI', 'WARNING' as any, { userId: day.userId, limit: error.limit });
+      throw error;
+    }
+  },
+
+  /** Adds to today's usage; calls is 0 for the parts of a job that is counted once as a whole */
+  record: async (feature: AIUsageFeature, inputChars: number, outputChars: number, calls = 1): Promise<void> => {
+    const day = await loadToday();
+    if (!day) return;
+
+    const counter = day.features[feature] || { calls: 0, inputChars: 0, outputChars: 0 };
+    today = {
+      ...day,
+      features: {
+        ...day.features,
+        [feature]: {
+          calls: counter.calls + calls,
+          inputChars: counter.inputChars + inputChars,
+          outputChars: counter.outputChars + outputChars
+        }
+      },
+      updatedAt: Date.now()
+    };
+    notify();
+    scheduleSave();
+  },
+
+  /** Notifies listener whenever today's usage changes. Returns an unsubscribe function. */
+  subscribe: (listener: UsageListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /** True when no further AI request is allowed today, regardless of feature */
+  isExhausted: (day: AIUsageDay | null): boolean => {
+    if (!day || !usageUser) return false;
+    const quota = AIUsageService.getQuota();
+    const totals = totalsOf(day);
+    return totals.calls >= quota.dailyCalls || totals.inputChars >= quota.dailyInputChars;
+  }
+};
+
+const checkUnlessJob = (feature: AIUsageFeature, request: { quotaChecked?: boolean }) =>
+  request.quotaChecked ? Promise.resolve() : AIUsageService.checkQuota(feature);
+
+const callsOf = (request: { quotaChecked?: boolean }) => (request.quotaChecked ? 0 : 1);
+
+/**
+ * Decorates a provider so every call is checked against the quota first and counted once
+ * it succeeds. Wrap outside withResilience, so retries of one request count as one call.
+ * Calls that belong to a job checked up front (quotaChecked) only add their characters.
+ */
+export const withUsageMetering = (provider: AIProvider): AIProvider => ({
+  name: provider.name,
+  model: provider.model,
+
+  generateText: async (request: AIRequest) => {
+    const feature = TASK_FEATURES[request.task];
+    await checkUnlessJob(feature, request);
+    const text = await provider.generateText(request);
+    await AIUsageService.record(feature, textLength(request), text?.length || 0, callsOf(request));
+    return text;
+  },
+
+  streamText: async function* (request: AIRequest) {
+    const feature = TASK_FEATURES[request.task];
+    await checkUnlessJob(feature, request);
+    let output = 0;
+    try {
+      for await (const chunk of provider.streamText(request)) {
+        output += chunk.length;
+        yield chunk;
+      }
+    } finally {
+      // A stopped stream still used the tokens it produced
+      if (output > 0) await AIUsageService.record(feature, textLength(request), output, callsOf(request));
+    }
+  },
+
+  generateJSON: async <T>(request: AIJSONRequest) => {
+    const feature = TASK_FEATURES[request.task];
+    await checkUnlessJob(feature, request);
+    const result = await provider.generateJSON<T>(request);
+    await AIUsageService.record(feature, textLength(request), JSON.stringify(result ?? '').length, callsOf(request));
+    return result;
+  },
+
+  generateSpeech: async (request: AISpeechRequest) => {
+    const feature = request.task ? TASK_FEATURES[request.task] : 'tts';
+    await checkUnlessJob(feature, request);
+    const audio = await provider.generateSpeech(request);
+    if (audio) await AIUsageService.record(feature, request.text.length, 0, callsOf(request));
+    return audio;
+  }
+});
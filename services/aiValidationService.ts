@@ -0,0 +1,228 @@
+/**
+ * Schema-validated AI generation.
+ * Output is checked item by item against a runtime schema; invalid items are sent back to
+ * the model once for repair, anything still invalid is dropped, and when nothing usable is
+ * left the caller gets an AIOutputError describing what went wrong.
+ */
+import { getAIProvider } from './aiProvider';
+import type { AIJSONRequest } from './aiProvider';
+import logger, { APIError, getClientErrorMessage } from './securityLogger';
+import { RuntimeSchema } from '../utils/aiSchemas';
+import { AIQuotaError } from './aiUsageService';
+
+export type AIOutputErrorCode = 'invalid_output' | 'empty_output';
+
+export class AIOutputError extends APIError {
+  public feature: string;
+  public code: AIOutputErrorCode;
+  public issues: string[];
+  public dropped: number;
+
+  constructor(message: string, feature: string, code: AIOutputErrorCode, issues: string[] = [], dropped: number = 0) {
+    super(message, 502);
+    this.feature = feature;
+    this.code = code;
+    this.issues = issues;
+    this.dropped = dropped;
+    Object.setPrototypeOf(this, AIOutputError.prototype);
+  }
+}
+
+export interface ValidatedList<T> {
+  items: T[];
+  /** Items that were still invalid after repair and were left out */
+  dropped: number;
+  /** Items that only passed after the model repaired them */
+  repaired: number;
+  issues: string[];
+}
+
+interface ValidationOptions {
+  /** Used in logs and error messages, e.g. "quiz questions" */
+  feature: string;
+  minItems?: number;
+}
+
+const MAX_LOGGED_ISSUES = 10;
+
+/**
+ * Runs the request, retrying once when the response is not parseable JSON at all
+ */
+export const generateRaw = async (request: AIJSONRequest): Promise<unknown> => {
+  try {
+    return await getAIProvider().generateJSON<unknown>(request);
+  } catch (error) {
+    if (!(error instanceof SyntaxError) || request.signal?.aborted) throw error;
+    logger.log(`Unparseable AI output for ${request.task}, retrying`, 'AI', 'WARNING' as any);
+    return getAIProvider().generateJSON<unknown>(request);
+  }
+};
+
+/**
+ * Accepts `[...]` as well as a wrapper object holding a single array, e.g. `{ "questions": [...] }`
+ */
+const unwrapArray = (value: unknown): unknown[] | null => {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === 'object') {
+    const arrays = Object.values(value).filter(Array.isArray);
+    if (arrays.length === 1) return arrays[0] as unknown[];
+  }
+  return null;
+};
+
+const instructionsOf = (request: AIJSONRequest): string => {
+  if (typeof request.contents === 'string') return request.contents;
+  const first = request.contents.find((part): part is { text: string } => 'text' in part);
+  return first?.text || '';
+};
+
+const buildRepairRequest = (request: AIJSONRequest, broken: unknown, problems: string[]): AIJSONRequest => ({
+  task: request.task,
+  tier: request.tier,
+  signal: request.signal,
+  quotaChecked: request.quotaChecked,
+  schema: request.schema,
+  systemInstruction: request.systemInstruction,
+  contents: [
+    { text: `You previously generated JSON for these instructions:\n${instructionsOf(request)}` },
+    { text: `Some of it failed validation:\n- ${problems.join('\n- ')}\n\nReturn the corrected JSON only, in the same shape and order. Fix every listed problem and change nothing else.` },
+    { text: JSON.stringify(broken) }
+  ],
+  // Rule-based providers cannot repair, they hand the items back for validation to drop
+  context: { ...request.context, repairOf: broken }
+});
+
+/**
+ * Validates already generated items, sends the invalid ones back for one repair round
+ * and drops whatever is still invalid. repairRequest must ask for an array of items.
+ */
+export const validateItems = async <T>(
+  raw: unknown[],
+  itemSchema: RuntimeSchema<T>,
+  repairRequest: AIJSONRequest,
+  options: ValidationOptions
+): Promise<ValidatedList<T>> => {
+  const { feature, minItems = 1 } = options;
+  const valid = new Map<number, T>();
+  let invalid: { index: number; item: unknown; errors: string[] }[] = [];
+
+  raw.forEach((item, index) => {
+    const result = itemSchema.validate(item, `[${index}]`);
+    if (result.ok) valid.set(index, result.value);
+    else invalid.push({ index, item, errors: result.errors });
+  });
+
+  let repaired = 0;
+  if (invalid.length > 0) {
+    logger.log(`${invalid.length} invalid ${feature} from AI, requesting repair`, 'AI', 'WARNING' as any, {
+      issues: invalid.flatMap(i => i.errors).slice(0, MAX_LOGGED_ISSUES)
+    });
+
+    try {
+      const fixed = unwrapArray(await getAIProvider().generateJSON<unknown>(buildRepairRequest(
+        repairRequest,
+        invalid.map(i => i.item),
+        invalid.flatMap((i, n) => i.errors.map(e => e.replace(`[${i.index}]`, `[${n}]`)))
+      )));
+
+      if (fixed) {
+        invalid = invalid.filter((entry, n) => {
+          const result = itemSchema.validate(fixed[n], `[${entry.index}]`);
+          if (!result.ok) {
+            entry.errors = result.errors;
+            return true;
+          }
+          valid.set(entry.index, result.value);
+          repaired++;
+          return false;
+        });
+      }
+    } catch (error) {
+      if (repairRequest.signal?.aborted) throw error;
+      logger.logAPIError(`/repair/${repairRequest.task}`, error);
+    }
+  }
+
+  const items = [...valid.entries()].sort((a, b) => a[0] - b[0]).map(([, value]) => value);
+  const issues = invalid.flatMap(i => i.errors);
+
+  if (invalid.length > 0) {
+    logger.log(`Dropped ${invalid.length} invalid ${feature}`, 'AI', 'WARNING' as any, { issues: issues.slice(0, MAX_LOGGED_ISSUES) });
+  }
+
+  if (items.length < minItems) {
+    throw new AIOutputError(
+      raw.length === 0
+        ? `The AI did not return any ${feature}.`
+        : `The AI returned ${feature} that could not be used, even after asking it to fix them.`,
+      feature,
+      raw.length === 0 ? 'empty_output' : 'invalid_output',
+      issues,
+      invalid.length
+    );
+  }
+
+  return { items, dropped: invalid.length, repaired, issues };
+};
+
+/**
+ * Generates a JSON array and validates every item against itemSchema
+ */
+export const generateValidatedList = async <T>(
+  request: AIJSONRequest,
+  itemSchema: RuntimeSchema<T>,
+  options: ValidationOptions
+): Promise<ValidatedList<T>> => {
+  const raw = unwrapArray(await generateRaw(request));
+
+  if (!raw) {
+    throw new AIOutputError(`The AI response for ${options.feature} was not a list.`, options.feature, 'invalid_output', ['response must be a JSON array']);
+  }
+
+  return validateItems(raw, itemSchema, request, options);
+};
+
+/**
+ * Generates a single JSON object and validates it, asking for one repair when it is invalid
+ */
+export const generateValidatedObject = async <T>(
+  request: AIJSONRequest,
+  schema: RuntimeSchema<T>,
+  options: Pick<ValidationOptions, 'feature'>
+): Promise<T> => {
+  const { feature } = options;
+  const raw = await generateRaw(request);
+  const first = schema.validate(raw);
+  if (first.ok) return first.value;
+
+  logger.log(`Invalid ${feature} from AI, requesting repair`, 'AI', 'WARNING' as any, { issues: first.errors.slice(0, MAX_LOGGED_ISSUES) });
+
+  let issues = first.errors;
+  try {
+    const fixed = await getAIProvider().generateJSON<unknown>(buildRepairRequest(request, raw, first.errors));
+    const second = schema.validate(fixed);
+    if (second.ok) return second.value;
+    issues = second.errors;
+  } catch (error) {
+    if (request.signal?.aborted) throw error;
+    logger.logAPIError(`/repair/${request.task}`, error);
+  }
+
+  throw new AIOutputError(`The AI returned an invalid ${feature}.`, feature, 'invalid_output', issues, 1);
+};
+
+/**
+ * User-facing text for any error thrown by an AI generator
+ */
+export const getAIErrorMessage = (error: unknown): string => {
+  if (error instanceof AIOutputError) {
+    return `${error.message} Please try again, or try with different notes.`;
+  }
+  if (error instanceof AIQuotaError) {
+    return error.message;
+  }
+  if (error instanceof APIError && error.statusCode === 503) {
+    return 'The AI service is not available right now. Please try again later.';
+  }
+  return getClientErrorMessage(error);
+};
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+import { exportAnkiPackage, importAnkiPackage } from './ankiService';
+import { cardsFromCloze } from './deckService';
+import { createSchedule, gradeCard, DAY } from '../utils/spacedRepetition';
+import { readSqliteTables } from '../utils/sqliteFile';
+import { CardSchedule, Flashcard } from '../types';
+
+// deckService saves through StorageService, which needs Firebase
+vi.mock('./storageService', () => ({ StorageService: {} }));
+
+const NOW = new Date(2026, 2, 1, 12, 0).getTime();
+
+const basic: Flashcard[] = [
+  { id: 'c1', front: 'Powerhouse of the cell', back: 'Mitochondria', status: 'learning', tags: ['biology'] },
+  { id: 'c2', front: 'H2O & <salt>', back: 'Water "and" salt', status: 'new' }
+];
+const cloze = cardsFromCloze('{{c1::Mitochondria}} make {{c2::ATP}}', 'Cell biology');
+
+const studied = (): Map<string, CardSchedule> => {
+  let schedule = createSchedule('c1', 'user', { kind: 'deck', deckId: 'd' }, NOW - 10 * DAY);
+  schedule = gradeCard(schedule, 'good', NOW - 10 * DAY);
+  schedule = gradeCard(schedule, 'good', NOW - 10 * DAY + 10 * 60 * 1000);
+  schedule = gradeCard(schedule, 'good', NOW - 9 * DAY);
+  return new Map([['c1', schedule]]);
+};
+
+const exportDecks = () => exportAnkiPackage(
+  [{ name: 'Biology', cards: [...basic, ...cloze], tags: ['exam prep'] }],
+  studied(),
+  NOW
+);
+
+describe('Anki packages', () => {
+  it('writes a collection Anki can open, with one cloze note per cloze text', async () => {
+    const zip = await JSZip.loadAsync(await (await exportDecks()).arrayBuffer());
+    expect(zip.file('media')).not.toBeNull();
+
+    const tables = readSqliteTables(await zip.file('collection.anki2')!.async('uint8array'));
+    expect(tables.col).toHaveLength(1);
+    expect(tables.notes).toHaveLength(3);
+    expect(tables.cards).toHaveLength(4);
+    expect(tables.revlog).toHaveLength(3);
+  });
+
+  it('reads back the cards, tags and review history it wrote', async () => {
+    const { decks, schedules, warnings } = await importAnkiPackage(await exportDecks(), 'student', NOW);
+
+    expect(warnings).toEqual([]);
+    expect(decks).toHaveLength(1);
+    expect(decks[0].name).toBe('Biology');
+
+    const cards = decks[0].cards;
+    expect(cards.map(card => [card.front, card.back])).toEqual(expect.arrayContaining([
+      ['Powerhouse of the cell', 'Mitochondria'],
+      ['H2O & <salt>', 'Water "and" salt']
+    ]));
+    expect(cards.find(card => card.front === 'Powerhouse of the cell')!.tags).toEqual(['exam_prep', 'biology']);
+
+    const clozes = cards.filter(card => card.cloze).map(card => card.cloze);
+    expect(clozes).toEqual(expect.arrayContaining([
+      { text: '{{c1::Mitochondria}} make {{c2::ATP}}', index: 1, extra: 'Cell biology' },
+      { text: '{{c1::Mitochondria}} make {{c2::ATP}}', index: 2, extra: 'Cell biology' }
+    ]));
+
+    // Only the studied card carries a schedule, with its history intact
+    expect(schedules).toHaveLength(1);
+    const [original] = studied().values();
+    expect(schedules[0].state).toBe('review');
+    expect(schedules[0].interval).toBe(original.interval);
+    expect(schedules[0].ease).toBe(original.ease);
+    expect(schedules[0].log.map(entry => entry.grade)).toEqual(['good', 'good', 'good']);
+    expect(schedules[0].due).toBe(new Date(original.due).setHours(0, 0, 0, 0));
+  });
+
+  it('gives the same card ids when a package is imported twice', async () => {
+    const file = await exportDecks();
+    const first = await importAnkiPackage(file, 'student', NOW);
+    const second = await importAnkiPackage(file, 'student', NOW);
+    expect(second.decks[0].cards.map(card => card.id)).toEqual(first.decks[0].cards.map(card => card.id));
+  });
+
+  it('rejects files that are not Anki packages', async () => {
+    await expect(importAnkiPackage(new Blob(['not a zip']), 'student')).rejects.toThrow('not an Anki package');
+  });
+});
@@ -0,0 +1,551 @@
+/**
+ * Anki packages
+ * Reads .apkg files into flashcard decks with their review history, and writes decks back out.
+ * A package is a zip holding a SQLite collection (notes, cards, review log and the note types,
+ * decks and settings as JSON) plus a media map. Basic-style note types are rendered from their
+ * card templates; cloze note types become one cloze card per deletion.
+ * Packages from Anki 2.1.50+ keep the collection zstd-compressed unless exported with
+ * "Support older Anki versions", so only those legacy collections can be read here.
+ * Collection format reference: https://github.com/ankitects/anki/blob/main/rslib/src/storage/schema11.sql
+ */
+import JSZip from 'jszip';
+import { CardSchedule, CardScheduleState, ClozeSource, Deck, Flashcard, ReviewLogEntry } from '../types';
+import { clozeCard, createDeck } from './deckService';
+import { APIError } from './securityLogger';
+import { readSqliteTables, writeSqliteDatabase, SqliteRow, SqliteTable } from '../utils/sqliteFile';
+import { DAY, MATURE_INTERVAL, REVIEW_GRADES, STARTING_EASE, startOfDay } from '../utils/spacedRepetition';
+
+export interface AnkiImport {
+  decks: Deck[];
+  schedules: CardSchedule[];
+  /** Things that could not be brought over, shown to the user */
+  warnings: string[];
+}
+
+export interface AnkiExportDeck {
+  name: string;
+  cards: Flashcard[];
+  /** Added to every note in the deck */
+  tags?: string[];
+}
+
+// Fixed so repeated exports update the same note types in Anki instead of adding copies
+const BASIC_MODEL_ID = 1712000000001;
+const CLOZE_MODEL_ID = 1712000000002;
+const DEFAULT_DECK_ID = 1;
+const FIELD_SEPARATOR = '\x1f';
+
+// Anki card types and the state they map to
+const CARD_STATES: CardScheduleState[] = ['new', 'learning', 'review', 'relearning'];
+// Review log types: learning, review, relearning (filtered-deck and manual entries are skipped)
+const REVLOG_STATES: CardScheduleState[] = ['learning', 'review', 'relearning'];
+
+// --- Text ---
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&amp;/g, '&');
+
+/**
+ * Field HTML as plain text: line breaks and blocks become newlines, images become a marker
+ * and sound tags are dropped
+ */
+const htmlToText = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/\[sound:[^\]]*\]/g, '')
+      .replace(/<img[^>]*>/gi, '[image]')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(div|p|li|h[1-6])>/gi, '\n')
+      .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const textToHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r?\n/g, '<br>');
+
+const isBlank = (html: string | undefined) => !html || !htmlToText(html);
+
+/**
+ * A card side from an Anki template: {{Field}} and filtered {{text:Field}} references,
+ * {{#Field}}…{{/Field}} and {{^Field}}…{{/Field}} sections. Type-in answers and the front
+ * side are left out, since both sides are shown separately here.
+ */
+const renderTemplate = (template: string, fields: Record<string, string>, tags: string): string => {
+  let html = template.replace(/\{\{FrontSide\}\}/g, '');
+  // Sections can nest, so resolve the innermost ones until none are left
+  const section = /\{\{([#^])\s*([^}]+?)\s*\}\}((?:(?!\{\{[#^])[\s\S])*?)\{\{\/\s*\2\s*\}\}/g;
+  for (let previous = ''; previous !== html; ) {
+    previous = html;
+    html = html.replace(section, (_, kind, name, inner) =>
+      (kind === '#') === !isBlank(fields[name]) ? inner : ''
+    );
+  }
+  return html.replace(/\{\{([^}]+)\}\}/g, (_, reference: string) => {
+    const parts = reference.split(':');
+    const name = parts[parts.length - 1].trim();
+    if (parts.slice(0, -1).some(filter => filter.trim() === 'type')) return '';
+    if (name === 'Tags') return tags;
+    return fields[name] ?? '';
+  });
+};
+
+// --- Import ---
+
+const parseJson = <T>(value: unknown, fallback: T): T => {
+  if (typeof value !== 'string' || !value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+const int = (value: unknown) => Number(value) || 0;
+
+/**
+ * The deck's review log, oldest first, in the app's terms
+ */
+const importLog = (revlog: SqliteRow[]): ReviewLogEntry[] =>
+  revlog
+    .filter(entry => int(entry.ease) >= 1 && int(entry.ease) <= 4 && int(entry.type) < REVLOG_STATES.length)
+    .sort((a, b) => int(a.id) - int(b.id))
+    .map((entry, i) => ({
+      reviewedAt: int(entry.id),
+      grade: REVIEW_GRADES[int(entry.ease) - 1],
+      state: i === 0 && int(entry.type) === 0 ? 'new' : REVLOG_STATES[int(entry.type)],
+      // Negative intervals are learning steps in seconds
+      interval: Math.max(0, int(entry.ivl)),
+      ease: int(entry.factor) ? int(entry.factor) / 1000 : STARTING_EASE,
+    }));
+
+/**
+ * When an Anki card is next due. Review cards count days from the collection's creation,
+ * cards in learning steps hold a timestamp in seconds.
+ */
+const importDue = (card: SqliteRow, createdAt: number, now: number): number => {
+  const queue = int(card.queue);
+  const type = int(card.type);
+  const due = int(card.due);
+  if (queue === 1) return due * 1000;
+  if (queue === 2 || queue === 3) return createdAt + due * DAY;
+  // Suspended and buried cards keep the due value of their type
+  if (type === 2) return createdAt + due * DAY;
+  if (type === 1 || type === 3) return due > 1e9 ? due * 1000 : createdAt + due * DAY;
+  return now;
+};
+
+/**
+ * Reads an Anki package into decks, one per Anki deck, and the review schedules of the cards
+ * studied there. Card ids are derived from Anki's, so importing a package twice gives the
+ * same cards.
+ */
+export const importAnkiPackage = async (file: Blob, userId: string, now = Date.now()): Promise<AnkiImport> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+  } catch {
+    throw new APIError('This file is not an Anki package (.apkg).', 400);
+  }
+  const collectionFile = zip.file('collection.anki21') || zip.file('collection.anki2');
+  if (!collectionFile || zip.file('collection.anki21b')) {
+    throw new APIError(
+      zip.file('collection.anki21b')
+        ? 'This package uses the newer Anki format. In Anki, export again with "Support older Anki versions" ticked.'
+        : 'No Anki collection found in this file.',
+      400
+    );
+  }
+
+  let tables: Record<string, SqliteRow[]>;
+  try {
+    tables = readSqliteTables(await collectionFile.async('uint8array'), ['col', 'notes', 'cards', 'revlog']);
+  } catch (error) {
+    throw new APIError(`Could not read the Anki collection: ${error instanceof Error ? error.message : error}`, 400);
+  }
+  const col = tables.col?.[0];
+  if (!col) throw new APIError('The Anki collection is empty or damaged.', 400);
+
+  const models = parseJson<Record<string, any>>(col.models, {});
+  const ankiDecks = parseJson<Record<string, any>>(col.decks, {});
+  const createdAt = int(col.crt) * 1000;
+  const warnings: string[] = [];
+
+  const notes = new Map((tables.notes || []).map(note => [int(note.id), note]));
+  const revlogByCard = new Map<number, SqliteRow[]>();
+  (tables.revlog || []).forEach(entry => {
+    const list = revlogByCard.get(int(entry.cid)) || [];
+    list.push(entry);
+    revlogByCard.set(int(entry.cid), list);
+  });
+
+  const cardsByDeck = new Map<number, { card: Flashcard; row: SqliteRow }[]>();
+  let skipped = 0;
+  let withImages = 0;
+  const missingModels = new Set<number>();
+
+  [...(tables.cards || [])]
+    .sort((a, b) => int(a.nid) - int(b.nid) || int(a.ord) - int(b.ord))
+    .forEach(row => {
+      const note = notes.get(int(row.nid));
+      const model = note && models[String(note.mid)];
+      if (!note || !model) {
+        if (note) missingModels.add(int(note.mid));
+        skipped++;
+        return;
+      }
+      const values = String(note.flds ?? '').split(FIELD_SEPARATOR);
+      const fieldNames: string[] = [...(model.flds || [])]
+        .sort((a: any, b: any) => a.ord - b.ord)
+        .map((field: any) => field.name);
+      const fields: Record<string, string> = {};
+      fieldNames.forEach((name, i) => { fields[name] = values[i] ?? ''; });
+      const tags = String(note.tags ?? '').trim().split(/\s+/).filter(Boolean);
+      const id = `anki_${row.id}`;
+
+      let card: Flashcard;
+      if (model.type === 1) {
+        const text = htmlToText(fields.Text ?? values[0] ?? '');
+        const extra = htmlToText(fields['Back Extra'] ?? values[1] ?? '');
+        const cloze: ClozeSource = { text, index: int(row.ord) + 1 };
+        if (extra) cloze.extra = extra;
+        card = clozeCard(id, cloze);
+      } else {
+        const template = (model.tmpls || []).find((t: any) => t.ord === int(row.ord)) || model.tmpls?.[0];
+        if (!template) {
+          skipped++;
+          return;
+        }
+        card = {
+          id,
+          front: htmlToText(renderTemplate(template.qfmt || '', fields, tags.join(' '))),
+          back: htmlToText(renderTemplate(template.afmt || '', fields, tags.join(' '))),
+          status: 'new',
+        };
+      }
+      if (!card.front) {
+        skipped++;
+        return;
+      }
+      if (/\[image\]/.test(card.front + card.back)) withImages++;
+      if (tags.length) card.tags = tags;
+
+      const type = int(row.type);
+      card.status = type === 0 ? 'new' : type === 2 && int(row.ivl) >= MATURE_INTERVAL ? 'mastered' : 'learning';
+
+      // Cards in a filtered deck belong to the deck they came from
+      const deckId = int(row.odid) || int(row.did);
+      const list = cardsByDeck.get(deckId) || [];
+      list.push({ card, row });
+      cardsByDeck.set(deckId, list);
+    });
+
+  const decks: Deck[] = [];
+  const schedules: CardSchedule[] = [];
+  cardsByDeck.forEach((entries, ankiDeckId) => {
+    const deck = createDeck(userId, {
+      name: ankiDecks[String(ankiDeckId)]?.name || 'Anki deck',
+      tags: ['anki'],
+      cards: entries.map(entry => entry.card),
+    });
+    decks.push(deck);
+
+    entries.forEach(({ card, row }) => {
+      const log = importLog(revlogByCard.get(int(row.id)) || []);
+      const type = int(row.type);
+      if (type === 0 && log.length === 0) return;
+
+      let repetitions = 0;
+      for (let i = log.length - 1; i >= 0 && log[i].grade !== 'again'; i--) repetitions++;
+      const schedule: CardSchedule = {
+        id: card.id,
+        userId,
+        source: { kind: 'deck', deckId: deck.id },
+        state: CARD_STATES[type] || 'new',
+        step: 0,
+        ease: int(row.factor) ? int(row.factor) / 1000 : STARTING_EASE,
+        interval: Math.max(0, int(row.ivl)),
+        repetitions,
+        lapses: int(row.lapses),
+        due: importDue(row, createdAt, now),
+        log,
+      };
+      if (log.length) schedule.lastReviewedAt = log[log.length - 1].reviewedAt;
+      schedules.push(schedule);
+    });
+  });
+
+  if (decks.length === 0) throw new APIError('No cards found in this Anki package.', 400);
+  if (skipped) warnings.push(`${skipped} card${skipped === 1 ? '' : 's'} could not be read and ${skipped === 1 ? 'was' : 'were'} skipped.`);
+  if (missingModels.size) warnings.push('Some notes use a note type missing from the package.');
+  if (withImages) warnings.push(`${withImages} card${withImages === 1 ? ' has' : 's have'} images, shown as [image]; media is not imported.`);
+
+  return { decks, schedules, warnings };
+};
+
+// --- Export ---
+
+const FIELD_DEFAULTS = { sticky: false, rtl: false, font: 'Arial', size: 20, media: [] };
+const TEMPLATE_DEFAULTS = { bqfmt: '', bafmt: '', did: null, bfont: '', bsize: 0 };
+const CARD_CSS = '.card {\n  font-family: arial;\n  font-size: 20px;\n  text-align: center;\n  color: black;\n  background-color: white;\n}\n';
+const CLOZE_CSS = `${CARD_CSS}.cloze {\n  font-weight: bold;\n  color: blue;\n}\n`;
+const LATEX_PRE = '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n';
+const LATEX_POST = '\\end{document}';
+
+const noteType = (id: number, name: string, type: 0 | 1, fields: string[], qfmt: string, afmt: string, mod: number) => ({
+  id,
+  name,
+  type,
+  mod,
+  usn: -1,
+  sortf: 0,
+  did: DEFAULT_DECK_ID,
+  tmpls: [{ name: type === 1 ? 'Cloze' : 'Card 1', ord: 0, qfmt, afmt, ...TEMPLATE_DEFAULTS }],
+  flds: fields.map((name, ord) => ({ name, ord, ...FIELD_DEFAULTS })),
+  css: type === 1 ? CLOZE_CSS : CARD_CSS,
+  latexPre: LATEX_PRE,
+  latexPost: LATEX_POST,
+  latexsvg: false,
+  req: [[0, 'any', [0]]],
+  tags: [],
+  vers: [],
+});
+
+const deckEntry = (id: number, name: string, mod: number) => ({
+  id,
+  name,
+  mod,
+  usn: -1,
+  desc: '',
+  dyn: 0,
+  conf: 1,
+  collapsed: false,
+  browserCollapsed: false,
+  extendNew: 0,
+  extendRev: 0,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0],
+});
+
+const DECK_CONFIG = {
+  1: {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+    lapse: { delays: [10], mult: 0.5, minInt: 1, leechFails: 8, leechAction: 1 },
+    rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, bury: false, hardFactor: 1.2 },
+  },
+};
+
+const SCHEMA: Record<string, string> = {
+  col: 'CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)',
+  notes: 'CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)',
+  cards: 'CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)',
+  revlog: 'CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)',
+  graves: 'CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)',
+};
+
+const table = (name: string, columns: string[], rows: (string | number)[][]): SqliteTable =>
+  ({ name, sql: SCHEMA[name], columns, rows });
+
+/**
+ * A stable note id for Anki, so exporting the same cards again updates the notes already
+ * imported instead of duplicating them
+ */
+const noteGuid = (key: string): string => {
+  let hash = 0xcbf29ce4;
+  let hash2 = 0x84222325;
+  for (let i = 0; i < key.length; i++) {
+    hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193) >>> 0;
+    hash2 = Math.imul(hash2 ^ key.charCodeAt(i), 0x0100019d) >>> 0;
+  }
+  return `pc${hash.toString(36)}${hash2.toString(36)}`;
+};
+
+/** Anki's duplicate check: the first 8 hex digits of the SHA-1 of the plain sort field */
+const fieldChecksum = async (text: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return new DataView(digest).getUint32(0);
+};
+
+const ankiTag = (tag: string) => tag.trim().replace(/\s+/g, '_');
+
+interface ExportNote {
+  key: string;
+  modelId: number;
+  fields: string[];
+  tags: string[];
+  deckId: number;
+  cards: { card: Flashcard; ord: number }[];
+}
+
+const REVLOG_TYPES: Record<CardScheduleState, number> = { new: 0, learning: 0, review: 1, relearning: 2 };
+
+/**
+ * Writes decks as an Anki package with the review history in the schedules, so progress made
+ * here carries on in Anki. Cloze cards made from the same text share one cloze note.
+ */
+export const exportAnkiPackage = async (
+  decks: AnkiExportDeck[],
+  schedules: Map<string, CardSchedule> = new Map(),
+  now = Date.now()
+): Promise<Blob> => {
+  const nowSeconds = Math.floor(now / 1000);
+  const studied = decks.flatMap(deck => deck.cards).map(card => schedules.get(card.id)).filter(Boolean) as CardSchedule[];
+  // Review due days count from the collection's creation, so start it before anything studied
+  const createdAt = startOfDay(studied.reduce(
+    (earliest, s) => s.log.reduce((min, entry) => Math.min(min, entry.reviewedAt), Math.min(earliest, s.due)),
+    now
+  ));
+
+  let nextId = now;
+  const newId = () => nextId++;
+
+  const deckEntries: Record<string, unknown> = { [DEFAULT_DECK_ID]: deckEntry(DEFAULT_DECK_ID, 'Default', nowSeconds) };
+  const notes: ExportNote[] = [];
+  const clozeNotes = new Map<string, ExportNote>();
+  decks.forEach(deck => {
+    const deckId = newId();
+    deckEntries[deckId] = deckEntry(deckId, deck.name.replace(/[\r\n]+/g, ' ').trim() || 'Procastify', nowSeconds);
+    const deckTags = (deck.tags || []).map(ankiTag);
+
+    deck.cards.forEach(card => {
+      const tags = Array.from(new Set([...deckTags, ...(card.tags || []).map(ankiTag)]));
+      if (card.cloze) {
+        const key = `${deckId}\n${card.cloze.text}`;
+        const existing = clozeNotes.get(key);
+        if (existing && !existing.cards.some(c => c.ord === card.cloze!.index - 1)) {
+          existing.cards.push({ card, ord: card.cloze.index - 1 });
+          return;
+        }
+        const note: ExportNote = {
+          key: card.id,
+          modelId: CLOZE_MODEL_ID,
+          fields: [textToHtml(card.cloze.text), textToHtml(card.cloze.extra || '')],
+          tags,
+          deckId,
+          cards: [{ card, ord: card.cloze.index - 1 }],
+        };
+        clozeNotes.set(key, note);
+        notes.push(note);
+      } else {
+        notes.push({
+          key: card.id,
+          modelId: BASIC_MODEL_ID,
+          fields: [textToHtml(card.front), textToHtml(card.back)],
+          tags,
+          deckId,
+          cards: [{ card, ord: 0 }],
+        });
+      }
+    });
+  });
+
+  const noteRows: (string | number)[][] = [];
+  const cardRows: (string | number)[][] = [];
+  const revlogRows: (string | number)[][] = [];
+  let newPosition = 0;
+
+  for (const note of notes) {
+    const noteId = newId();
+    const sortField = htmlToText(note.fields[0]);
+    noteRows.push([
+      noteId, noteGuid(note.key), note.modelId, nowSeconds, -1,
+      note.tags.length ? ` ${note.tags.join(' ')} ` : '',
+      note.fields.join(FIELD_SEPARATOR), sortField, await fieldChecksum(sortField), 0, '',
+    ]);
+    newPosition++;
+
+    note.cards.sort((a, b) => a.ord - b.ord).forEach(({ card, ord }) => {
+      const cardId = newId();
+      const schedule = schedules.get(card.id);
+      let type = 0, queue = 0, due = newPosition, ivl = 0, factor = 0, left = 0;
+      if (schedule && schedule.state !== 'new') {
+        type = CARD_STATES.indexOf(schedule.state);
+        ivl = schedule.interval;
+        factor = Math.round(schedule.ease * 1000);
+        if (schedule.state === 'review') {
+          queue = 2;
+          due = Math.round((startOfDay(schedule.due) - createdAt) / DAY);
+        } else {
+          queue = 1;
+          due = Math.floor(schedule.due / 1000);
+          left = 1001;
+        }
+      }
+      cardRows.push([
+        cardId, noteId, note.deckId, ord, nowSeconds, -1, type, queue, due, ivl, factor,
+        schedule?.log.length || 0, schedule?.lapses || 0, left, 0, 0, 0, '',
+      ]);
+
+      let lastInterval = 0;
+      schedule?.log.forEach(entry => {
+        const interval = entry.interval > 0 ? entry.interval : -60;
+        revlogRows.push([
+          entry.reviewedAt, cardId, -1, REVIEW_GRADES.indexOf(entry.grade) + 1, interval, lastInterval,
+          Math.round(entry.ease * 1000), 10000, REVLOG_TYPES[entry.state],
+        ]);
+        lastInterval = interval;
+      });
+    });
+  }
+  revlogRows.sort((a, b) => Number(a[0]) - Number(b[0]));
+  // Review log ids are timestamps and must be unique
+  revlogRows.forEach((row, i) => {
+    if (i > 0 && Number(row[0]) <= Number(revlogRows[i - 1][0])) row[0] = Number(revlogRows[i - 1][0]) + 1;
+  });
+
+  const models = {
+    [BASIC_MODEL_ID]: noteType(BASIC_MODEL_ID, 'Procastify Basic', 0, ['Front', 'Back'], '{{Front}}', '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}', nowSeconds),
+    [CLOZE_MODEL_ID]: noteType(CLOZE_MODEL_ID, 'Procastify Cloze', 1, ['Text', 'Back Extra'], '{{cloze:Text}}', '{{cloze:Text}}<br>\n{{Back Extra}}', nowSeconds),
+  };
+  const conf = {
+    nextPos: newPosition + 1,
+    estTimes: true,
+    activeDecks: [DEFAULT_DECK_ID],
+    sortType: 'noteFld',
+    timeLim: 0,
+    sortBackwards: false,
+    addToCur: true,
+    curDeck: DEFAULT_DECK_ID,
+    newSpread: 0,
+    dueCounts: true,
+    curModel: BASIC_MODEL_ID,
+    collapseTime: 1200,
+  };
+
+  const collection = writeSqliteDatabase([
+    table('col', ['id', 'crt', 'mod', 'scm', 'ver', 'dty', 'usn', 'ls', 'conf', 'models', 'decks', 'dconf', 'tags'], [[
+      1, Math.floor(createdAt / 1000), now, now, 11, 0, 0, 0,
+      JSON.stringify(conf), JSON.stringify(models), JSON.stringify(deckEntries), JSON.stringify(DECK_CONFIG), '{}',
+    ]]),
+    table('notes', ['id', 'guid', 'mid', 'mod', 'usn', 'tags', 'flds', 'sfld', 'csum', 'flags', 'data'], noteRows),
+    table('cards', ['id', 'nid', 'did', 'ord', 'mod', 'usn', 'type', 'queue', 'due', 'ivl', 'factor', 'reps', 'lapses', 'left', 'odue', 'odid', 'flags', 'data'], cardRows),
+    table('revlog', ['id', 'cid', 'usn', 'ease', 'ivl', 'lastIvl', 'factor', 'time', 'type'], revlogRows),
+    table('graves', ['usn', 'oid', 'type'], []),
+  ]);
+
+  const zip = new JSZip();
+  zip.file('collection.anki2', collection);
+  zip.file('media', '{}');
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/octet-stream' });
+};
@@ -0,0 +1,295 @@
+/**
+ * Batch summarization queue
+ * Summarizes many files in the background, a couple at a time, one Summary per file and
+ * optionally one note per file in a chosen folder. Items wait when the API rate limit is
+ * used up, transient failures (rate limits, outages, network) are retried with growing
+ * delays, and everything else fails the item so it can be retried by hand. The queue lives
+ * at module level, so it keeps running while the user works on other pages.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { Attachment, Folder, Note, PromptVariables, Summary } from '../types';
+import { summarizeContentStream, SummaryProgress } from './geminiService';
+import { isAbortError, isAIUnavailableError } from './aiResilience';
+import { apiRateLimiter } from './rateLimiter';
+import { StorageService } from './storageService';
+import logger, { APIError } from './securityLogger';
+import { determineType } from '../utils/summaryUtils';
+import { stripSourceMarkers } from '../utils/summaryCitations';
+import { markdownToBlocks } from '../utils/markdownBlocks';
+
+const BATCH_CONCURRENCY = 2;
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 20000;
+
+export type BatchItemStatus = 'queued' | 'waiting' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchJobOptions {
+  mode: string;
+  customPrompt?: string;
+  variables?: PromptVariables;
+  /** Also save each summary as a note */
+  saveAsNotes: boolean;
+  /** Folder for the notes; null files them under "Summaries" without a folder */
+  folder: Folder | null;
+}
+
+export interface BatchItem {
+  id: string;
+  name: string;
+  mode: string;
+  status: BatchItemStatus;
+  attempts: number;
+  /** Characters of summary received so far */
+  receivedChars: number;
+  /** Section pass of a long file */
+  progress: SummaryProgress | null;
+  /** When a waiting item is tried again (rate limit reset or retry delay) */
+  retryAt?: number;
+  error?: string;
+  summaryId?: string;
+  noteId?: string;
+}
+
+export interface BatchResult {
+  summary: Summary;
+  note?: Note;
+}
+
+interface BatchJob {
+  attachment: Attachment;
+  options: BatchJobOptions;
+  controller?: AbortController;
+}
+
+type QueueListener = (items: BatchItem[]) => void;
+type ResultListener = (result: BatchResult) => void;
+
+let items: BatchItem[] = [];
+const jobs = new Map<string, BatchJob>();
+const queueListeners = new Set<QueueListener>();
+const resultListeners = new Set<ResultListener>();
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+// History and notes are saved one result at a time, so parallel items do not overwrite each other
+let saveChain: Promise<unknown> = Promise.resolve();
+
+const emit = () => {
+  const snapshot = items.map(item => ({ ...item }));
+  queueListeners.forEach(listener => listener(snapshot));
+};
+
+const updateItem = (id: string, changes: Partial<BatchItem>) => {
+  items = items.map(item => (item.id === id ? { ...item, ...changes } : item));
+  emit();
+};
+
+// The same identifier enforceRateLimit uses for the signed-in user
+const rateLimitIdentifier = () => StorageService.currentUserId || 'anonymous';
+
+const isTransient = (error: unknown) =>
+  isAIUnavailableError(error) || (error instanceof APIError && error.statusCode === 429) || /\b429\b|RESOURCE_EXHAUSTED/.test(String((error as Error)?.message));
+
+const retryDelay = (attempts: number) => RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+
+const noteTitle = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+const saveResult = async (item: BatchItem, job: BatchJob, summaryText: string, sources: Summary['sources']): Promise<BatchResult> => {
+  const now = Date.now();
+  const summary: Summary = {
+    id: uuidv4(),
+    userId: StorageService.currentUserId || '',
+    originalSource: item.name,
+    summaryText,
+    type: determineType([job.attachment]),
+    mode: job.options.mode,
+    createdAt: now,
+    originalText: '',
+    attachments: [job.attachment],
+    ...(sources?.length ? { sources } : {})
+  };
+
+  let note: Note | undefined;
+  if (job.options.saveAsNotes) {
+    const folder = job.options.folder;
+    note = {
+      id: uuidv4(),
+      userId: summary.userId,
+      title: noteTitle(item.name),
+      // Notes do not keep the source passages, so the markers are dropped
+      document: { blocks: markdownToBlocks(stripSourceMarkers(summaryText)) },
+      canvas: { elements: [] },
+      elements: [],
+      tags: [],
+      folder: folder?.name || 'Summaries',
+      folderId: folder?.id || null,
+      lastModified: now,
+      createdAt: now
+    };
+  }
+
+  const save = async () => {
+    await StorageService.saveSummary(summary);
+    if (note) await StorageService.saveNote(note);
+  };
+  const saved = saveChain.then(save, save);
+  saveChain = saved.catch(() => undefined);
+  await saved;
+
+  return { summary, note };
+};
+
+const runItem = async (item: BatchItem) => {
+  const job = jobs.get(item.id);
+  if (!job) return;
+  const controller = new AbortController();
+  job.controller = controller;
+  updateItem(item.id, { status: 'running', attempts: item.attempts + 1, receivedChars: 0, progress: null, retryAt: undefined, error: undefined });
+
+  try {
+    const { text, cancelled, sources } = await summarizeContentStream(
+      '',
+      [job.attachment],
+      job.options.mode,
+      (partialText) => updateItem(item.id, { receivedChars: partialText.length }),
+      {
+        customPrompt: job.options.customPrompt,
+        variables: job.options.variables,
+        userId: StorageService.currentUserId || undefined,
+        signal: controller.signal,
+        onProgress: (progress) => updateItem(item.id, { progress }),
+        // A batch waits for the AI to come back rather than saving a weaker offline summary
+        offlineFallback: false,
+        throwOnError: true
+      }
+    );
+
+    if (cancelled) {
+      updateItem(item.id, { status: 'cancelled', progress: null });
+      return;
+    }
+
+    const result = await saveResult(item, job, text, sources);
+    jobs.delete(item.id);
+    updateItem(item.id, { status: 'done', progress: null, summaryId: result.summary.id, noteId: result.note?.id });
+    resultListeners.forEach(listener => listener(result));
+  } catch (error) {
+    if (controller.signal.aborted || isAbortError(error)) {
+      updateItem(item.id, { status: 'cancelled', progress: null });
+      return;
+    }
+    const attempts = item.attempts + 1;
+    const message = error instanceof Error ? error.message : 'Summarization failed';
+    if (isTransient(error) && attempts < MAX_ATTEMPTS) {
+      logger.log(`Batch item retrying after failure`, 'API', 'WARNING' as any, { attempts, reason: message });
+      updateItem(item.id, { status: 'waiting', progress: null, retryAt: Date.now() + retryDelay(attempts), error: message });
+    } else {
+      updateItem(item.id, { status: 'failed', progress: null, error: message });
+    }
+  } finally {
+    job.controller = undefined;
+  }
+};
+
+/**
+ * Starts queued items while there are free slots and rate limit budget, and sets a timer
+ * for the next item that is waiting
+ */
+const pump = () => {
+  if (wakeTimer) {
+    clearTimeout(wakeTimer);
+    wakeTimer = null;
+  }
+
+  const now = Date.now();
+  let running = items.filter(item => item.status === 'running').length;
+
+  for (const item of items) {
+    if (running >= BATCH_CONCURRENCY) break;
+    const ready = item.status === 'queued' || (item.status === 'waiting' && (item.retryAt || 0) <= now);
+    if (!ready) continue;
+
+    if (apiRateLimiter.getRemainingRequests(rateLimitIdentifier()) < 1) {
+      const resetAt = apiRateLimiter.getResetTime(rateLimitIdentifier());
+      updateItem(item.id, { status: 'waiting', retryAt: resetAt });
+      break;
+    }
+
+    running++;
+    runItem(item).finally(pump);
+  }
+
+  const nextWake = items
+    .filter(item => item.status === 'waiting' && item.retryAt)
+    .reduce((earliest, item) => Math.min(earliest, item.retryAt!), Infinity);
+  if (nextWake !== Infinity) {
+    wakeTimer = setTimeout(pump, Math.max(0, nextWake - Date.now()) + 50);
+  }
+};
+
+/**
+ * Adds one item per attachment, all summarized with the same options
+ */
+export const enqueueBatch = (attachments: Attachment[], options: BatchJobOptions): BatchItem[] => {
+  const added = attachments.map(attachment => {
+    const item: BatchItem = {
+      id: uuidv4(),
+      name: attachment.name || attachment.type,
+      mode: options.mode,
+      status: 'queued',
+      attempts: 0,
+      receivedChars: 0,
+      progress: null
+    };
+    jobs.set(item.id, { attachment, options });
+    return item;
+  });
+
+  items = [...items, ...added];
+  logger.log(`Batch queued`, 'API', 'INFO' as any, { items: added.length, mode: options.mode });
+  emit();
+  pump();
+  return added;
+};
+
+export const cancelBatchItem = (id: string) => {
+  const item = items.find(i => i.id === id);
+  if (!item) return;
+  if (item.status === 'running') {
+    jobs.get(id)?.controller?.abort();
+  } else if (item.status === 'queued' || item.status === 'waiting') {
+    updateItem(id, { status: 'cancelled', retryAt: undefined });
+    pump();
+  }
+};
+
+/** Puts a failed or cancelled item back in the queue with a fresh set of attempts */
+export const retryBatchItem = (id: string) => {
+  const item = items.find(i => i.id === id);
+  if (!item || !jobs.has(id) || (item.status !== 'failed' && item.status !== 'cancelled')) return;
+  updateItem(id, { status: 'queued', attempts: 0, error: undefined, retryAt: undefined });
+  pump();
+};
+
+/** Removes finished, failed and cancelled items from the list */
+export const clearFinishedBatchItems = () => {
+  items = items.filter(item => {
+    const finished = item.status === 'done' || item.status === 'failed' || item.status === 'cancelled';
+    if (finished) jobs.delete(item.id);
+    return !finished;
+  });
+  emit();
+};
+
+export const getBatchItems = (): BatchItem[] => items.map(item => ({ ...item }));
+
+export const subscribeToBatchQueue = (listener: QueueListener): (() => void) => {
+  queueListeners.add(listener);
+  return () => queueListeners.delete(listener);
+};
+
+/**
+ * Called with every saved result, e.g. so the app can add the new summary and note to its state
+ */
+export const subscribeToBatchResults = (listener: ResultListener): (() => void) => {
+  resultListeners.add(listener);
+  return () => resultListeners.delete(listener);
+};
@@ -0,0 +1,149 @@
+/**
+ * Flashcard decks
+ * A deck is a named set of cards with an optional source note or summary, a folder and tags.
+ * Decks can start empty or be filled from a summary's flashcards or the flashcard decks on a
+ * note's canvas; cards keep their ids so review schedules carry over. Besides question/answer
+ * cards, a deck can hold cloze cards (part of a sentence hidden) and image-occlusion cards
+ * (a label hidden on a canvas diagram).
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { CardSchedule, ClozeSource, Deck, DeckSource, Flashcard, Note, OcclusionSource, Summary } from '../types';
+import { StorageService } from './storageService';
+
+export type StudyOrder = 'ordered' | 'shuffled' | 'weakest';
+
+export const STUDY_ORDER_LABELS: Record<StudyOrder, string> = {
+  ordered: 'In order',
+  shuffled: 'Shuffled',
+  weakest: 'Weakest first',
+};
+
+interface NewDeck {
+  name: string;
+  description?: string;
+  source?: DeckSource;
+  folderId?: string | null;
+  tags?: string[];
+  cards?: Flashcard[];
+}
+
+export const createDeck = (userId: string, { name, description, source, folderId, tags, cards }: NewDeck): Deck => {
+  const now = Date.now();
+  const deck: Deck = {
+    id: uuidv4(),
+    userId,
+    name: name.trim() || 'Untitled deck',
+    folderId: folderId ?? null,
+    tags: tags || [],
+    cards: cards || [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  // Left off rather than undefined, which Firestore rejects
+  if (description?.trim()) deck.description = description.trim();
+  if (source) deck.source = source;
+  return deck;
+};
+
+export const createCard = (front: string, back: string): Flashcard => ({
+  id: uuidv4(),
+  front: front.trim(),
+  back: back.trim(),
+  status: 'new',
+});
+
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([^}]*?))?\}\}/g;
+
+/**
+ * One side of a cloze card: the asked deletion shows as [...] or its hint until answered,
+ * the other deletions always show their text
+ */
+export const renderCloze = (text: string, index: number, revealed: boolean): string =>
+  text.replace(CLOZE_PATTERN, (_, n, answer, hint) =>
+    Number(n) !== index || revealed ? answer : `[${hint || '...'}]`
+  );
+
+/** The deletion numbers used in a cloze text, in ascending order */
+export const clozeIndexes = (text: string): number[] =>
+  Array.from(new Set(Array.from(text.matchAll(CLOZE_PATTERN), match => Number(match[1])))).sort((a, b) => a - b);
+
+export const clozeCard = (id: string, cloze: ClozeSource): Flashcard => ({
+  id,
+  front: renderCloze(cloze.text, cloze.index, false),
+  back: [renderCloze(cloze.text, cloze.index, true), cloze.extra].filter(Boolean).join('\n\n'),
+  status: 'new',
+  cloze,
+});
+
+/**
+ * One card per deletion in a cloze text such as "{{c1::Mitochondria}} make {{c2::ATP}}"
+ */
+export const cardsFromCloze = (text: string, extra?: string): Flashcard[] =>
+  clozeIndexes(text).map(index => {
+    const cloze: ClozeSource = { text, index };
+    if (extra?.trim()) cloze.extra = extra.trim();
+    return clozeCard(uuidv4(), cloze);
+  });
+
+/**
+ * A card asking for a label on a note's canvas, which stays masked until the answer is shown
+ */
+export const occlusionCard = (noteTitle: string, occlusion: OcclusionSource): Flashcard => ({
+  id: uuidv4(),
+  front: `Name the hidden label in the "${noteTitle || 'Untitled'}" diagram`,
+  back: occlusion.label,
+  status: 'new',
+  occlusion,
+});
+
+/**
+ * Tags typed as "biology, Exam 2 , biology" become ["biology", "exam 2"]
+ */
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(input.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+export const cardsFromSummary = (summary: Summary): Flashcard[] =>
+  (summary.flashcards || []).map(card => ({ ...card }));
+
+/**
+ * The cards of every flashcard deck on the note's canvas
+ */
+export const cardsFromNote = async (note: Note): Promise<Flashcard[]> => {
+  const elements = await StorageService.getCanvasElements(note.id);
+  return elements
+    .filter((shape: any) => shape?.type === 'flashcard_deck' && Array.isArray(shape.cards))
+    .flatMap((deck: any) => deck.cards.map((card: any): Flashcard => ({
+      id: card.id,
+      front: card.front,
+      back: card.back,
+      status: 'new',
+    })));
+};
+
+/**
+ * The order cards are studied in. Weakest first puts cards that are forgotten most, then those
+ * with the lowest ease, then cards still being learned in practice, then new ones.
+ */
+export const orderStudyCards = (
+  cards: Flashcard[],
+  order: StudyOrder,
+  schedules: Map<string, CardSchedule> = new Map()
+): Flashcard[] => {
+  if (order === 'shuffled') {
+    const shuffled = [...cards];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+  if (order === 'weakest') {
+    const weakness = (card: Flashcard) => {
+      const schedule = schedules.get(card.id);
+      if (!schedule || schedule.state === 'new') return { mastered: 0, new: 1, learning: 1.5 }[card.status] ?? 1;
+      return 2 + schedule.lapses * 10 + (3 - schedule.ease);
+    };
+    return [...cards].sort((a, b) => weakness(b) - weakness(a));
+  }
+  return [...cards];
+};
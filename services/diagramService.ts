@@ -1,19 +1,10 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
 import { v4 as uuidv4 } from "uuid";
 import { Shape, ShapeBase } from "../components/canvas/types";
-const getAI = () => {
-  const apiKey = (import.meta.env as any).VITE_GEMINI_API_KEY || (process.env as any).VITE_GEMINI_API_KEY;
+import { generateValidatedObject } from './aiValidationService';
+import { object, arrayOf, str, num, oneOf, optional, withDefault, refine, RuntimeSchema } from '../utils/aiSchemas';
 
-  if (!apiKey) {
-    console.error(" Gemini API key missing. Did you set VITE_GEMINI_API_KEY in your .env?");
-  }
-
-  return new GoogleGenAI({ apiKey });
-};
-
-const MODEL_TEXT = 'gemini-3-flash-preview';
-
-interface DiagramNode {
+export interface DiagramNode {
   id: string;
   text: string;
   type: 'rectangle' | 'diamond' | 'ellipse' | 'text';
@@ -23,43 +14,46 @@ interface DiagramNode {
   height: number;
 }
 
-interface DiagramConnection {
+export interface DiagramConnection {
   id: string;
   fromNode: string;
   toNode: string;
   label?: string;
 }
 
-interface DiagramSpec {
+export interface DiagramSpec {
   nodes: DiagramNode[];
   connections: DiagramConnection[];
 }
 
-const cleanJSON = (text: string | undefined): string => {
-  if (!text) return "";
-  let cleaned = text.replace(/^```json\s*/, '').replace(/^```\s*/, '').replace(/```$/, '').trim();
-  return cleaned;
-};
-
-const safeJSONParse = <T>(text: string, fallback: T): T => {
-  try {
-    const cleaned = cleanJSON(text);
-    if (!cleaned) return fallback;
-    return JSON.parse(cleaned);
-  } catch (e) {
-    console.warn("JSON Parse failed", e);
-    return fallback;
-  }
-};
-
-export const generateDiagramFromText = async (selectedText: string): Promise<DiagramSpec | null> => {
-  const ai = getAI();
-
+export const DiagramSpecSchema: RuntimeSchema<DiagramSpec> = refine(
+  object<DiagramSpec>({
+    nodes: arrayOf(object<DiagramNode>({
+      id: str(),
+      text: str(),
+      type: withDefault(oneOf(['rectangle', 'diamond', 'ellipse', 'text'] as const), 'rectangle'),
+      x: num(),
+      y: num(),
+      width: num({ min: 1 }),
+      height: num({ min: 1 })
+    }), { min: 1 }),
+    connections: withDefault(arrayOf(object<DiagramConnection>({
+      id: withDefault(str(), ''),
+      fromNode: str(),
+      toNode: str(),
+      label: optional(str())
+    })), [])
+  }),
+  spec => new Set(spec.nodes.map(n => n.id)).size === spec.nodes.length ? null : 'node ids must be unique'
+);
+
+/**
+ * Throws an AIOutputError when the model does not produce a usable diagram.
+ * Connections pointing at nodes that do not exist are dropped.
+ */
+export const generateDiagramFromText = async (selectedText: string, signal?: AbortSignal): Promise<DiagramSpec> => {
   const prompt = `
-You are an expert diagram generator. Convert the following text into a structured diagram specification.
-
-Text to convert:
-${selectedText}
+You are an expert diagram generator. Convert the text that follows these instructions into a structured diagram specification.
 
 Guidelines:
 1. Identify key concepts, entities, or steps
@@ -102,60 +96,60 @@ Example format:
 
 Keep text concise (under 30 characters per node if possible).
 Return only valid JSON, no markdown formatting.
+
+Text to convert:
 `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_TEXT,
-      contents: [{ text: prompt }],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            nodes: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING },
-                  text: { type: Type.STRING },
-                  type: { type: Type.STRING, enum: ['rectangle', 'diamond', 'ellipse', 'text'] },
-                  x: { type: Type.NUMBER },
-                  y: { type: Type.NUMBER },
-                  width: { type: Type.NUMBER },
-                  height: { type: Type.NUMBER }
-                }
+    const spec = await generateValidatedObject({
+      task: 'diagram',
+      signal,
+      contents: [{ text: prompt }, { text: selectedText }],
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          nodes: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING },
+                text: { type: Type.STRING },
+                type: { type: Type.STRING, enum: ['rectangle', 'diamond', 'ellipse', 'text'] },
+                x: { type: Type.NUMBER },
+                y: { type: Type.NUMBER },
+                width: { type: Type.NUMBER },
+                height: { type: Type.NUMBER }
               }
-            },
-            connections: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING },
-                  fromNode: { type: Type.STRING },
-                  toNode: { type: Type.STRING },
-                  label: { type: Type.STRING }
-                }
+            }
+          },
+          connections: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING },
+                fromNode: { type: Type.STRING },
+                toNode: { type: Type.STRING },
+                label: { type: Type.STRING }
               }
             }
           }
         }
       }
-    });
-
-    if (!response || !response.text) {
-      console.error("Empty response from AI");
-      return null;
-    }
-
-    const spec = safeJSONParse<DiagramSpec>(response.text, null);
-    return spec;
+    }, DiagramSpecSchema, { feature: 'diagram' });
+
+    const nodeIds = new Set(spec.nodes.map(n => n.id));
+    return {
+      nodes: spec.nodes,
+      connections: spec.connections
+        .filter(c => nodeIds.has(c.fromNode) && nodeIds.has(c.toNode))
+        .map((c, i) => ({ ...c, id: c.id || `c${i + 1}` }))
+    };
 
   } catch (error) {
     console.error("Diagram generation error:", error);
-    return null;
+    throw error;
   }
 };
 
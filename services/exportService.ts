@@ -0,0 +1,462 @@
+import JSZip from 'jszip';
+import { Block, CardSchedule, Deck, Summary } from '../types';
+import { generateSummaryTitle } from '../utils/summaryUtils';
+import { describeSource, pickCitedSources } from '../utils/summaryCitations';
+import { markdownToBlocks } from '../utils/markdownBlocks';
+import { exportAnkiPackage } from './ankiService';
+import { ReviewService } from './reviewService';
+
+/**
+ * Export Service
+ * Turns summary history into files people can keep outside the app: Markdown, a printable
+ * page (saved as PDF from the browser's print dialog), a Word document, and the flashcards as
+ * an Anki text import file or package. Every format carries the summary's source details and
+ * creation date.
+ */
+
+export type ExportFormat = 'markdown' | 'pdf' | 'docx' | 'anki' | 'apkg';
+
+interface ExportMetadata {
+  title: string;
+  created: string;
+  mode: string;
+  source: string;
+  attachments: string[];
+  offline: boolean;
+}
+
+const metadataFor = (summary: Summary): ExportMetadata => ({
+  title: generateSummaryTitle(summary),
+  created: new Date(summary.createdAt).toLocaleString(),
+  mode: summary.mode === 'eli5' ? 'ELI5' : summary.mode,
+  source: summary.originalSource,
+  attachments: (summary.attachments || []).map(a =>
+    a.type === 'url' ? `${a.name || 'Link'} (${a.content})` : `${a.name || 'Untitled'} (${a.type})`
+  ),
+  offline: !!summary.offline
+});
+
+const isoDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'summary';
+
+const fileBaseName = (summaries: Summary[]) =>
+  summaries.length === 1
+    ? `${slugify(generateSummaryTitle(summaries[0]))}-${isoDate(summaries[0].createdAt)}`
+    : `procastify-summaries-${isoDate(Date.now())}`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeHtml = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+
+const sourceLines = (summary: Summary): string[] =>
+  pickCitedSources(summary.summaryText, summary.sources || []).map(s => `S${s.id}: ${describeSource(s)}`);
+
+// --- Markdown ---
+
+const summaryToMarkdown = (summary: Summary): string => {
+  const meta = metadataFor(summary);
+  const lines = [
+    `# ${meta.title}`,
+    '',
+    `- **Created:** ${meta.created}`,
+    `- **Mode:** ${meta.mode}${meta.offline ? ' (offline summary)' : ''}`,
+    `- **Source:** ${meta.source}`,
+    ...(meta.attachments.length > 0 ? [`- **Attachments:** ${meta.attachments.join(', ')}`] : []),
+    '',
+    summary.summaryText.trim()
+  ];
+
+  const sources = sourceLines(summary);
+  if (sources.length > 0) lines.push('', '## Sources', '', ...sources.map(s => `- ${s}`));
+
+  if (summary.flashcards?.length) {
+    lines.push('', '## Flashcards', '');
+    const oneLine = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+    summary.flashcards.forEach((card, i) => lines.push(`${i + 1}. **${oneLine(card.front)}**`, `   ${oneLine(card.back)}`));
+  }
+  return lines.join('\n');
+};
+
+export const summariesToMarkdown = (summaries: Summary[]): string =>
+  summaries.map(summaryToMarkdown).join('\n\n---\n\n') + '\n';
+
+// --- Printable HTML (PDF) ---
+
+const blocksToHtml = (blocks: Block[]): string => {
+  const html: string[] = [];
+  let list: string[] = [];
+  const flushList = () => {
+    if (list.length > 0) html.push(`<ul>${list.join('')}</ul>`);
+    list = [];
+  };
+
+  for (const block of blocks) {
+    if (block.type === 'bullet') {
+      list.push(`<li>${block.content}</li>`);
+      continue;
+    }
+    flushList();
+    switch (block.type) {
+      // The summary title is the page's h1, so its headings move down a level
+      case 'h1': html.push(`<h2>${block.content}</h2>`); break;
+      case 'h2': html.push(`<h3>${block.content}</h3>`); break;
+      case 'h3': html.push(`<h4>${block.content}</h4>`); break;
+      case 'todo': html.push(`<p>${block.isChecked ? '☑' : '☐'} ${block.content}</p>`); break;
+      case 'quote': html.push(`<blockquote>${block.content}</blockquote>`); break;
+      case 'code': html.push(`<pre><code>${block.content}</code></pre>`); break;
+      default: html.push(`<p>${block.content}</p>`);
+    }
+  }
+  flushList();
+  return html.join('\n');
+};
+
+const summaryToHtml = (summary: Summary): string => {
+  const meta = metadataFor(summary);
+  const sources = sourceLines(summary);
+  return `<section>
+<h1>${escapeHtml(meta.title)}</h1>
+<dl class="meta">
+<dt>Created</dt><dd>${escapeHtml(meta.created)}</dd>
+<dt>Mode</dt><dd>${escapeHtml(meta.mode)}${meta.offline ? ' (offline summary)' : ''}</dd>
+<dt>Source</dt><dd>${escapeHtml(meta.source)}</dd>
+${meta.attachments.length > 0 ? `<dt>Attachments</dt><dd>${escapeHtml(meta.attachments.join(', '))}</dd>` : ''}
+</dl>
+${blocksToHtml(markdownToBlocks(summary.summaryText))}
+${sources.length > 0 ? `<h3>Sources</h3><ul class="sources">${sources.map(s => `<li>${escapeHtml(s)}</li>`).join('')}</ul>` : ''}
+${summary.flashcards?.length ? `<h3>Flashcards</h3><ol class="cards">${summary.flashcards.map(card =>
+    `<li><strong>${escapeHtml(card.front)}</strong><br />${escapeHtml(card.back)}</li>`).join('')}</ol>` : ''}
+</section>`;
+};
+
+const PRINT_STYLES = `
+body { font-family: Georgia, 'Times New Roman', serif; color: #111; max-width: 720px; margin: 0 auto; padding: 24px; line-height: 1.5; }
+h1 { font-size: 22pt; margin-bottom: 8px; }
+h2, h3, h4 { margin-top: 18px; page-break-after: avoid; }
+.meta { display: grid; grid-template-columns: max-content 1fr; gap: 2px 12px; font: 9pt sans-serif; color: #555; border-bottom: 1px solid #ccc; padding-bottom: 12px; }
+.meta dt { font-weight: bold; }
+.meta dd { margin: 0; }
+blockquote { border-left: 3px solid #ccc; margin: 0; padding-left: 12px; color: #444; }
+pre { background: #f4f4f4; padding: 8px; white-space: pre-wrap; font-size: 9pt; }
+.sources { font-size: 9pt; color: #555; }
+.cards li { margin-bottom: 8px; page-break-inside: avoid; }
+section + section { page-break-before: always; }
+`;
+
+export const summariesToHtml = (summaries: Summary[]): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(summaries.length === 1 ? generateSummaryTitle(summaries[0]) : 'Procastify summaries')}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+${summaries.map(summaryToHtml).join('\n')}
+</body>
+</html>`;
+
+// Long enough for any print dialog, so the frame is never removed while still printing
+const PRINT_FRAME_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Opens the print dialog for the summaries in a hidden frame, where they can be saved as PDF
+ */
+const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    throw new Error('Could not open the print view.');
+  }
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  // print() returns straight away in some browsers (Firefox, Safari), so the frame stays until
+  // printing is done; the timeout only cleans up where afterprint never fires
+  const remove = () => {
+    clearTimeout(fallback);
+    frame.remove();
+  };
+  const fallback = setTimeout(remove, PRINT_FRAME_TIMEOUT_MS);
+  frameWindow.addEventListener('afterprint', remove, { once: true });
+  frameWindow.focus();
+  frameWindow.print();
+};
+
+// --- DOCX ---
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface RunFormat {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+const docxRun = (text: string, format: RunFormat = {}): string => {
+  const props = [
+    format.bold ? '<w:b/>' : '',
+    format.italic ? '<w:i/>' : '',
+    format.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/>' : ''
+  ].join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+/**
+ * Runs for block HTML: the tags markdownToBlocks produces become run formatting, links keep their URL
+ */
+const htmlToRuns = (html: string): string => {
+  const runs: string[] = [];
+  const format: RunFormat = {};
+  let href: string | null = null;
+
+  for (const part of html.split(/(<[^>]+>)/)) {
+    if (!part) continue;
+    const tag = part.match(/^<(\/?)(\w+)([^>]*)>$/);
+    if (!tag) {
+      runs.push(docxRun(unescapeHtml(part), format));
+      continue;
+    }
+    const [, closing, name, attributes] = tag;
+    if (name === 'b') format.bold = !closing;
+    else if (name === 'i') format.italic = !closing;
+    else if (name === 'code') format.code = !closing;
+    else if (name === 'br') runs.push('<w:r><w:br/></w:r>');
+    else if (name === 'a') {
+      if (!closing) href = attributes.match(/href="([^"]+)"/)?.[1] || null;
+      else if (href) {
+        runs.push(docxRun(` (${unescapeHtml(href)})`));
+        href = null;
+      }
+    }
+  }
+  return runs.join('');
+};
+
+const docxParagraph = (runs: string, style?: string): string =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${runs}</w:p>`;
+
+const BLOCK_STYLES: Partial<Record<Block['type'], string>> = {
+  h1: 'Heading1',
+  h2: 'Heading2',
+  h3: 'Heading3',
+  bullet: 'ListBullet',
+  todo: 'ListBullet',
+  quote: 'Quote',
+  code: 'Code'
+};
+
+const blockToDocx = (block: Block): string => {
+  if (block.type === 'code') {
+    return unescapeHtml(block.content)
+      .split('\n')
+      .map(line => docxParagraph(docxRun(line), 'Code'))
+      .join('');
+  }
+  const prefix = block.type === 'bullet' ? '• ' : block.type === 'todo' ? (block.isChecked ? '☑ ' : '☐ ') : '';
+  return docxParagraph(docxRun(prefix) + htmlToRuns(block.content), BLOCK_STYLES[block.type]);
+};
+
+const summaryToDocx = (summary: Summary): string => {
+  const meta = metadataFor(summary);
+  const metaLine = (label: string, value: string) =>
+    docxParagraph(docxRun(`${label}: `, { bold: true }) + docxRun(value), 'Meta');
+
+  const parts = [
+    docxParagraph(docxRun(meta.title), 'Title'),
+    metaLine('Created', meta.created),
+    metaLine('Mode', `${meta.mode}${meta.offline ? ' (offline summary)' : ''}`),
+    metaLine('Source', meta.source),
+    ...(meta.attachments.length > 0 ? [metaLine('Attachments', meta.attachments.join(', '))] : []),
+    ...markdownToBlocks(summary.summaryText).map(blockToDocx)
+  ];
+
+  const sources = sourceLines(summary);
+  if (sources.length > 0) {
+    parts.push(docxParagraph(docxRun('Sources'), 'Heading1'), ...sources.map(s => docxParagraph(docxRun(`• ${s}`), 'ListBullet')));
+  }
+  if (summary.flashcards?.length) {
+    parts.push(docxParagraph(docxRun('Flashcards'), 'Heading1'));
+    summary.flashcards.forEach((card, i) => {
+      parts.push(docxParagraph(docxRun(`${i + 1}. ${card.front}`, { bold: true })), docxParagraph(docxRun(card.back), 'ListBullet'));
+    });
+  }
+  return parts.join('');
+};
+
+const DOCX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const DOCX_ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCX_DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const docxStyle = (id: string, name: string, paragraph: string, run: string) =>
+  `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr>${paragraph}</w:pPr><w:rPr>${run}</w:rPr></w:style>`;
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${docxStyle('Title', 'Title', '<w:spacing w:after="120"/>', '<w:b/><w:sz w:val="40"/>')}
+${docxStyle('Heading1', 'heading 1', '<w:keepNext/><w:spacing w:before="240"/><w:outlineLvl w:val="0"/>', '<w:b/><w:sz w:val="32"/>')}
+${docxStyle('Heading2', 'heading 2', '<w:keepNext/><w:spacing w:before="200"/><w:outlineLvl w:val="1"/>', '<w:b/><w:sz w:val="28"/>')}
+${docxStyle('Heading3', 'heading 3', '<w:keepNext/><w:spacing w:before="160"/><w:outlineLvl w:val="2"/>', '<w:b/><w:sz w:val="24"/>')}
+${docxStyle('ListBullet', 'List Bullet', '<w:ind w:left="360"/><w:spacing w:after="60"/>', '')}
+${docxStyle('Quote', 'Quote', '<w:ind w:left="360"/>', '<w:i/><w:color w:val="555555"/>')}
+${docxStyle('Code', 'Code', '<w:spacing w:after="0"/><w:shd w:val="clear" w:color="auto" w:fill="F4F4F4"/>', '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/><w:sz w:val="18"/>')}
+${docxStyle('Meta', 'Summary Details', '<w:spacing w:after="0"/>', '<w:color w:val="666666"/><w:sz w:val="18"/>')}
+</w:styles>`;
+
+const docxCoreProperties = (title: string, created: number) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(title)}</dc:title>
+<dc:creator>Procastify</dc:creator>
+<dcterms:created xsi:type="dcterms:W3CDTF">${new Date(created).toISOString()}</dcterms:created>
+</cp:coreProperties>`;
+
+export const summariesToDocx = async (summaries: Summary[]): Promise<Blob> => {
+  const pageBreak = '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+  const body = summaries.map(summaryToDocx).join(pageBreak);
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', DOCX_CONTENT_TYPES);
+  zip.file('_rels/.rels', DOCX_ROOT_RELS);
+  zip.file('word/document.xml', document);
+  zip.file('word/_rels/document.xml.rels', DOCX_DOCUMENT_RELS);
+  zip.file('word/styles.xml', DOCX_STYLES);
+  zip.file('docProps/core.xml', docxCoreProperties(
+    summaries.length === 1 ? generateSummaryTitle(summaries[0]) : 'Procastify summaries',
+    summaries.length === 1 ? summaries[0].createdAt : Date.now()
+  ));
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  });
+};
+
+// --- Anki ---
+
+const ankiField = (text: string) => escapeHtml(text).replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+
+const ankiTag = (text: string) => text.trim().replace(/\s+/g, '_');
+
+const ankiDeckName = (summary: Summary) => `Procastify::${generateSummaryTitle(summary).replace(/::|[\t\r\n]/g, ' ')}`;
+
+const ankiSummaryTags = (summary: Summary) => {
+  const meta = metadataFor(summary);
+  return ['procastify', `mode::${ankiTag(meta.mode)}`, `source::${ankiTag(meta.source)}`, `created::${isoDate(summary.createdAt)}`];
+};
+
+/**
+ * Flashcards as an Anki text import file (File > Import). The header lines tell Anki the note
+ * type and which columns hold the deck and tags: one deck per summary, tagged with its
+ * mode, source and creation date.
+ */
+export const summariesToAnkiText = (summaries: Summary[]): string => {
+  const rows = summaries.flatMap(summary => {
+    const deck = ankiDeckName(summary);
+    const tags = ankiSummaryTags(summary).join(' ');
+    return (summary.flashcards || []).map(card => [ankiField(card.front), ankiField(card.back), deck, tags].join('\t'));
+  });
+
+  return [
+    '#separator:tab',
+    '#html:true',
+    '#notetype:Basic',
+    '#deck column:3',
+    '#tags column:4',
+    ...rows
+  ].join('\n') + '\n';
+};
+
+// Review history is optional in a package; without it the cards arrive as new
+const loadSchedules = (): Promise<Map<string, CardSchedule>> =>
+  ReviewService.getSchedules().catch(() => new Map<string, CardSchedule>());
+
+/**
+ * Flashcards as an Anki package (.apkg), one deck per summary, with the review progress made here
+ */
+export const summariesToApkg = async (summaries: Summary[]): Promise<Blob> =>
+  exportAnkiPackage(
+    summaries
+      .filter(summary => summary.flashcards?.length)
+      .map(summary => ({ name: ankiDeckName(summary), cards: summary.flashcards!, tags: ankiSummaryTags(summary) })),
+    await loadSchedules()
+  );
+
+// --- Download ---
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Exports the summaries as one file in the given format (PDF goes through the print dialog)
+ */
+export const exportSummaries = async (summaries: Summary[], format: ExportFormat): Promise<void> => {
+  if (summaries.length === 0) throw new Error('Nothing to export.');
+  const baseName = fileBaseName(summaries);
+
+  switch (format) {
+    case 'markdown':
+      downloadBlob(new Blob([summariesToMarkdown(summaries)], { type: 'text/markdown;charset=utf-8' }), `${baseName}.md`);
+      break;
+    case 'pdf':
+      printHtml(summariesToHtml(summaries));
+      break;
+    case 'docx':
+      downloadBlob(await summariesToDocx(summaries), `${baseName}.docx`);
+      break;
+    case 'anki':
+    case 'apkg':
+      if (!summaries.some(s => s.flashcards?.length)) {
+        throw new Error('None of these summaries have flashcards. Generate flashcards first.');
+      }
+      if (format === 'apkg') downloadBlob(await summariesToApkg(summaries), `${baseName}.apkg`);
+      else downloadBlob(new Blob([summariesToAnkiText(summaries)], { type: 'text/plain;charset=utf-8' }), `${baseName}-anki.txt`);
+      break;
+  }
+};
+
+/**
+ * Downloads a flashcard deck as an Anki package
+ */
+export const exportDeckToAnki = async (deck: Deck): Promise<void> => {
+  if (deck.cards.length === 0) throw new Error('This deck has no cards to export.');
+  const blob = await exportAnkiPackage([{ name: deck.name, cards: deck.cards, tags: deck.tags }], await loadSchedules());
+  downloadBlob(blob, `${slugify(deck.name)}-${isoDate(Date.now())}.apkg`);
+};
@@ -1,4 +1,8 @@
-import { Attachment } from '../types';
+import { Attachment, Block, SourceSection } from '../types';
+import { splitTextIntoSections } from '../utils/textChunker';
+import { MigrationService } from './migrationService';
+import { fetchURLContent } from './urlContentService';
+import { formatChapter } from '../utils/transcriptChapters';
 import * as pdfjsLib from 'pdfjs-dist';
 
 // Configure PDF.js worker to use local bundled worker
@@ -14,13 +18,40 @@ export interface ExtractionResult {
   text: string;
   success: boolean;
   error?: string;
+  pages?: string[]; // Per-page text for paged sources such as PDFs
 }
 
-interface NormalizeResult {
+// Images and audio are not turned into text, they are sent to the AI as they are
+export interface MediaInput {
+  attachmentId: string;
+  name: string;
+  kind: 'image' | 'audio';
+  mimeType: string;
+  data: string; // Base64 without the data URL prefix
+}
+
+export interface NormalizeResult {
   combinedText: string;
   failedExtractions: string[];
+  sections: SourceSection[]; // The same content split by page / heading, in order
+  media: MediaInput[];
 }
 
+/** Inline data limit per request, leaving headroom below the provider's 20 MB cap */
+const MAX_INLINE_MEDIA_BYTES = 15 * 1024 * 1024;
+
+const DEFAULT_MIME_TYPES: Record<MediaInput['kind'], string> = {
+  image: 'image/png',
+  audio: 'audio/webm',
+};
+
+const cleanExtractedText = (text: string): string => {
+  return text
+    .replace(/[ \t]+/g, ' ')  // Replace multiple spaces/tabs with single space, preserve newlines
+    .replace(/\n\s*\n/g, '\n\n')  // Clean up multiple newlines
+    .trim();
+};
+
 /**
  * Extract text from a PDF file using PDF.js
  */
@@ -36,6 +67,7 @@ export const extractPDFText = async (pdfBase64: string): Promise<ExtractionResul
     // Load the PDF document
     const pdf = await pdfjsLib.getDocument({ data: bytes }).promise;
     let fullText = '';
+    const pages: string[] = [];
 
     // Extract text from each page
     for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
@@ -48,13 +80,11 @@ export const extractPDFText = async (pdfBase64: string): Promise<ExtractionResul
         .join(' ');
       
       fullText += pageText + '\n\n';
+      pages.push(cleanExtractedText(pageText));
     }
 
     // Clean up the text
-    const cleanedText = fullText
-      .replace(/[ \t]+/g, ' ')  // Replace multiple spaces/tabs with single space, preserve newlines
-      .replace(/\n\s*\n/g, '\n\n')  // Clean up multiple newlines
-      .trim();
+    const cleanedText = cleanExtractedText(fullText);
 
     if (!cleanedText) {
       return {
@@ -66,7 +96,8 @@ export const extractPDFText = async (pdfBase64: string): Promise<ExtractionResul
 
     return {
       text: cleanedText,
-      success: true
+      success: true,
+      pages
     };
 
   } catch (error) {
@@ -79,6 +110,60 @@ export const extractPDFText = async (pdfBase64: string): Promise<ExtractionResul
   }
 };
 
+const base64ToFile = (content: string, name: string, mimeType?: string): File => {
+  const base64 = content.includes(',') ? content.split(',')[1] : content;
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new File([bytes], name, { type: mimeType || '' });
+};
+
+/**
+ * Markdown from imported blocks, keeping headings so the text can be split into sections
+ */
+const blocksToMarkdown = (blocks: Block[]): string =>
+  blocks
+    .map(block => {
+      switch (block.type) {
+        case 'h1': return `# ${block.content}`;
+        case 'h2': return `## ${block.content}`;
+        case 'h3': return `### ${block.content}`;
+        case 'bullet': return `- ${block.content}`;
+        case 'todo': return `- ${block.content}`;
+        case 'quote': return `> ${block.content}`;
+        default: return block.content;
+      }
+    })
+    .filter(line => line.trim())
+    .join('\n');
+
+/**
+ * Extract text from a Word or PowerPoint file in the browser
+ */
+export const extractDocumentText = async (attachment: Attachment): Promise<ExtractionResult> => {
+  const name = attachment.name || 'document';
+  const extension = name.split('.').pop()?.toLowerCase();
+  try {
+    const file = base64ToFile(attachment.content, name, attachment.mimeType);
+    let blocks: Block[];
+    if (extension === 'docx') blocks = await MigrationService.extractFromDocx(file);
+    else if (extension === 'pptx') blocks = await MigrationService.extractFromPptx(file);
+    else return { text: '', success: false, error: `Unsupported document type: .${extension}` };
+
+    const text = cleanExtractedText(blocksToMarkdown(blocks));
+    return text
+      ? { text, success: true }
+      : { text: '', success: false, error: 'No readable text found in document' };
+  } catch (error) {
+    console.error('Document text extraction failed:', error);
+    return {
+      text: '',
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error during document extraction'
+    };
+  }
+};
+
 export const prepareTextForSummarization = async (
   userText: string,
   attachments: Attachment[]
@@ -88,6 +173,7 @@ export const prepareTextForSummarization = async (
 
   let combinedText = userText || '';
   const failedExtractions: string[] = [];
+  const sections: SourceSection[] = userText ? splitTextIntoSections(userText, 'Text input') : [];
 
   // First, handle PDF attachments locally using our PDF.js extraction
   const pdfAttachments = attachments.filter(a => a.type === 'pdf');
@@ -98,7 +184,11 @@ export const prepareTextForSummarization = async (
     try {
       const result = await extractPDFText(pdfAttachment.content);
       if (result.success && result.text) {
-        combinedText += `\n\n--- Content from ${pdfAttachment.name || 'PDF file'} ---\n${result.text}`;
+        const source = pdfAttachment.name || 'PDF file';
+        combinedText += `\n\n--- Content from ${source} ---\n${result.text}`;
+        (result.pages || [result.text]).forEach((pageText, i) => {
+          if (pageText) sections.push({ source, label: `${source} p. ${i + 1}`, text: pageText, page: i + 1, attachmentId: pdfAttachment.id });
+        });
       } else {
         console.warn(`Failed to extract text from PDF: ${result.error}`);
         failedExtractions.push(pdfAttachment.name || 'PDF file');
@@ -109,53 +199,72 @@ export const prepareTextForSummarization = async (
     }
   }
 
-  // Handle non-PDF attachments through backend (if needed)
-  if (nonPdfAttachments.length > 0) {
-    try {
-      const response = await fetch(`${BACKEND_URL}/normalize`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          user_text: '', // We'll merge manually
-          attachments: nonPdfAttachments.map(a => ({
-            type: a.type,
-            content: a.content,
-            name: a.name,
-            mimeType: a.mimeType
-          }))
-        })
+  // Everything else is handled in the browser: documents and links become text,
+  // images and audio are passed through for the AI to read natively
+  const media: MediaInput[] = [];
+  let mediaBytes = 0;
+
+  for (const attachment of nonPdfAttachments) {
+    const source = attachment.name || attachment.type;
+
+    if (attachment.type === 'image' || attachment.type === 'audio') {
+      const data = attachment.content.includes(',') ? attachment.content.split(',')[1] : attachment.content;
+      const bytes = Math.floor(data.length * 3 / 4);
+      if (mediaBytes + bytes > MAX_INLINE_MEDIA_BYTES) {
+        console.warn(`Skipping ${source}: attachments exceed the inline size limit`);
+        failedExtractions.push(`${source} (too large)`);
+        continue;
+      }
+      mediaBytes += bytes;
+      media.push({
+        attachmentId: attachment.id,
+        name: source,
+        kind: attachment.type,
+        mimeType: attachment.mimeType || DEFAULT_MIME_TYPES[attachment.type],
+        data
       });
+      continue;
+    }
 
-      if (response.ok) {
-        const data = await response.json();
-        if (data.status === 'success' && data.normalized_text) {
-          combinedText += `\n\n--- Content from other attachments ---\n${data.normalized_text}`;
-        } else {
-          // If backend failed, add failed attachments to our list
-          if (data.failed_attachments) {
-            failedExtractions.push(...data.failed_attachments);
-          } else {
-            failedExtractions.push(...nonPdfAttachments.map(a => a.name || a.type));
-          }
-        }
-      } else {
-        console.warn('Backend not available for non-PDF attachments');
-        failedExtractions.push(...nonPdfAttachments.map(a => a.name || a.type));
+    const result = attachment.type === 'url'
+      ? await fetchURLContent(attachment.content)
+      : await extractDocumentText(attachment);
+
+    if (result.success && result.text) {
+      combinedText += `\n\n--- Content from ${source} ---\n${result.text}`;
+      if ('chapters' in result && result.chapters) {
+        // One section per video chapter, starting at the chapter's time
+        sections.push(...result.chapters.map(chapter => ({
+          source,
+          label: `${source} › ${chapter.title}`,
+          text: formatChapter(chapter),
+          offset: chapter.start,
+          attachmentId: attachment.id
+        })));
+        continue;
       }
-    } catch (error) {
-      console.warn('Backend not available for non-PDF attachments:', error);
-      failedExtractions.push(...nonPdfAttachments.map(a => a.name || a.type));
+      // Labels name the file, like PDF page labels, so citations are clear with several attachments
+      sections.push(...splitTextIntoSections(result.text, source).map(section => ({
+        ...section,
+        label: section.label === 'Introduction' ? source : `${source} › ${section.label}`,
+        attachmentId: attachment.id
+      })));
+    } else {
+      console.warn(`Failed to extract content from ${source}: ${result.error}`);
+      failedExtractions.push(source);
     }
   }
 
-  // Final fallback if no text was extracted
-  if (!combinedText.trim()) {
+  // Final fallback if nothing usable was extracted
+  if (!combinedText.trim() && media.length === 0) {
     return null;
   }
 
   return {
     combinedText: combinedText.trim(),
-    failedExtractions
+    failedExtractions,
+    sections,
+    media
   };
 };
 
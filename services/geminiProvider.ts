@@ -0,0 +1,108 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { AIProvider, AIRequest, AIJSONRequest, AISpeechRequest, AIModelTier } from './aiProvider';
+import { getSecureKey, initializeSecureKeys } from './secureKeyManager';
+import logger, { APIError } from './securityLogger';
+import { parseJSONResponse } from '../utils/aiResponseUtils';
+import { readEnv } from '../utils/env';
+
+// Initialize secure keys on module load
+initializeSecureKeys();
+
+const MODELS: Record<AIModelTier, string> = {
+  text: 'gemini-3-flash-preview',
+  multimodal: 'gemini-2.0-flash-exp',
+};
+const MODEL_TTS = 'gemini-2.5-flash-preview-tts';
+const DEFAULT_VOICE = 'Kore';
+
+const getApiKey = (): string | null => {
+  return getSecureKey('GEMINI_API_KEY')
+    || readEnv('VITE_GEMINI_API_KEY')
+    || null;
+};
+
+/**
+ * Gemini implementation of the provider interface.
+ * The client is created lazily so a missing key only fails the call that needs it.
+ */
+export const createGeminiProvider = (): AIProvider => {
+  let client: GoogleGenAI | null = null;
+
+  const getAI = () => {
+    if (client) return client;
+    const apiKey = getApiKey();
+    if (!apiKey) {
+      logger.logSecurityIncident('Gemini API key not configured', 'WARNING' as any);
+      throw new APIError('AI service not configured', 503);
+    }
+    client = new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  const buildParams = (request: AIRequest, config: Record<string, any> = {}) => ({
+    model: MODELS[request.tier || 'text'],
+    contents: typeof request.contents === 'string'
+      ? request.contents
+      : { parts: request.contents },
+    config: {
+      ...(request.systemInstruction ? { systemInstruction: request.systemInstruction } : {}),
+      ...(request.signal ? { abortSignal: request.signal } : {}),
+      ...config
+    }
+  });
+
+  const generate = async (request: AIRequest, config: Record<string, any> = {}) => {
+    const response = await getAI().models.generateContent(buildParams(request, config));
+    return response?.text || '';
+  };
+
+  return {
+    name: 'gemini',
+    model: MODELS.text,
+
+    generateText: (request: AIRequest) => generate(request),
+
+    streamText: async function* (request: AIRequest) {
+      const stream = await getAI().models.generateContentStream(buildParams(request));
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+
+    generateJSON: async <T>(request: AIJSONRequest): Promise<T> => {
+      const text = await generate(request, {
+        responseMimeType: "application/json",
+        responseSchema: request.schema
+      });
+      if (!text) throw new APIError('No response from AI', 502);
+      return parseJSONResponse<T>(text);
+    },
+
+    generateSpeech: async ({ text, voice, speakers, signal }: AISpeechRequest): Promise<string | null> => {
+      const response = await getAI().models.generateContent({
+        model: MODEL_TTS,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          ...(signal ? { abortSignal: signal } : {}),
+          responseModalities: [Modality.AUDIO],
+          // The model reads dialogue natively when given exactly two named speakers
+          speechConfig: speakers?.length === 2
+            ? {
+              multiSpeakerVoiceConfig: {
+                speakerVoiceConfigs: speakers.map(s => ({
+                  speaker: s.name,
+                  voiceConfig: { prebuiltVoiceConfig: { voiceName: s.voice } },
+                })),
+              },
+            }
+            : {
+              voiceConfig: {
+                prebuiltVoiceConfig: { voiceName: voice || DEFAULT_VOICE },
+              },
+            },
+        },
+      });
+      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+    }
+  };
+};
@@ -1,180 +1,594 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { UserPreferences, RoutineTask, Question, Flashcard, Note, QueueItem, Attachment } from '../types';
+import { Type } from "@google/genai";
+import { UserPreferences, RoutineTask, Question, Flashcard, Note, QueueItem, Attachment, QuizReport, FillInTheBlanksQuestion, ExplainQuestion, ReasoningEvaluation, NoteCitation, NoteChatMessage, SummarySource, PromptVariables } from '../types';
 import { apiRateLimiter, searchRateLimiter } from './rateLimiter';
 import { sanitizeContent, validateUserInput, validateJSON } from './validation';
-import { getSecureKey, initializeSecureKeys, hasSecureKey } from './secureKeyManager';
 import logger, { APIError, getClientErrorMessage } from './securityLogger';
+import { getAIProvider } from './aiProvider';
+import type { AIRequest, AIJSONRequest, AIPart } from './aiProvider';
+import { AICacheService, AICacheOptions } from './aiCacheService';
+import { throwIfAborted, isAbortError, isAIUnavailableError } from './aiResilience';
+import { AIQuotaError } from './aiUsageService';
+import type { RetrievedChunk } from './noteIndexService';
+import { generateValidatedList, generateValidatedObject, generateRaw, validateItems, AIOutputError } from './aiValidationService';
+import {
+  MultipleChoiceQuestionSchema,
+  TrueFalseQuestionSchema,
+  FillInTheBlanksQuestionSchema,
+  ExplainQuestionSchema,
+  FlashcardSchema,
+  ClozeTextSchema,
+  RoutineTaskSchema,
+  QuizReportSchema,
+  ReasoningEvaluationSchema,
+  oneOf
+} from '../utils/aiSchemas';
 
-// Initialize secure keys on module load
-initializeSecureKeys();
-import { UserPreferences, RoutineTask, Question, Flashcard, Note, QueueItem, Attachment, QuizReport } from '../types';
+import { prepareTextForSummarization } from './extractionService';
+import { groupSectionsIntoChunks, describeSections, splitOversizedSection, TextChunk } from '../utils/textChunker';
+import { numberSourceSections, pickCitedSources, CITATION_INSTRUCTION, formatOffset, timestampedUrl } from '../utils/summaryCitations';
+import { findTimestampLinks, findLinkAt, findExplainingMoment, parseTimestamp } from '../utils/transcriptChapters';
+import { getBuiltInMode, renderTemplate, SYNTHESIS_MODE, MIN_SYNTHESIS_SOURCES } from '../utils/promptTemplates';
+import { summarizeExtractive } from '../utils/extractiveSummarizer';
+import { cardsFromCloze } from './deckService';
+
+// Bump a version whenever its prompt changes, so cached generations from the old prompt are not reused
+const PROMPT_VERSIONS = {
+  summarizeContent: 3,
+  analyzeNoteWorkload: 1,
+  generateFlashcards: 2,
+  generateClozeCards: 1,
+  generateQuizFromNotes: 3,
+  generateReels: 1,
+};
 
-const getAI = () => {
-  const apiKey = getSecureKey('GEMINI_API_KEY');
-  if (!apiKey) {
-    logger.logSecurityIncident('Gemini API key not configured', 'WARNING' as any);
-    throw new APIError('AI service not configured', 503);
+/**
+ * Throws a 429 APIError when the caller is over its request budget.
+ * Called right before the provider, so cache hits never count against the limit.
+ */
+const enforceRateLimit = (userId: string | undefined, endpoint: string) => {
+  const identifier = userId || 'anonymous';
+  if (apiRateLimiter.isLimited(identifier)) {
+    logger.logRateLimitViolation(identifier, endpoint);
+    throw new APIError('Rate limit exceeded. Please try again later.', 429);
   }
-  return new GoogleGenAI({ apiKey });
 };
 
-const MODEL_TEXT = 'gemini-3-flash-preview';
-const MODEL_MULTIMODAL = 'gemini-2.0-flash-exp';
-const MODEL_TTS = 'gemini-2.5-flash-preview-tts';
+// Inputs up to this size are summarized in a single call; longer ones are split into sections
+const SINGLE_PASS_CHAR_LIMIT = 30000;
+const SECTION_CHUNK_CHARS = 12000;
+const MAX_SOURCE_TEXT_CHARS = 500000;
+// Longer sections are cut into several passages so citations point somewhere specific
+const CITATION_SECTION_CHARS = 4000;
+
+interface PreparedSummaryRequest {
+  request: AIRequest;
+  warningText: string;
+  mode: string;
+  systemPrompt: string;
+  /** Set when the content is too long for one call and must be summarized section by section */
+  chunks: TextChunk[] | null;
+  /** Every numbered passage the summary may cite */
+  sources: SummarySource[];
+  /** Images and audio sent as they are, ahead of the text */
+  mediaParts: AIPart[];
+  /** Names of the sources being compared, in synthesis mode only */
+  synthesisSources: string[] | null;
+}
 
+export interface SummaryProgress {
+  stage: 'sections' | 'merging';
+  completed: number;
+  total: number;
+  label?: string;
+}
 
-const cleanJSON = (text: string | undefined): string => {
-  if (!text) return "";
+export interface SummaryCoverage {
+  covered: string[];
+  skipped: string[];
+}
 
-  let cleaned = text.replace(/^```json\s*/, '').replace(/^```\s*/, '').replace(/```$/, '').trim();
-  return cleaned;
+/**
+ * Validates the input, extracts attachment text and builds the provider request.
+ * Returns null when there is nothing to summarize.
+ */
+const prepareSummaryRequest = async (
+  textContext: string,
+  attachments: Attachment[],
+  mode: string,
+  customPrompt?: string,
+  userId?: string,
+  variables: PromptVariables = {}
+): Promise<PreparedSummaryRequest | null> => {
+  // Input validation (text may be empty when attachments carry the content)
+  if (textContext || attachments.length === 0) {
+    const textValidation = validateUserInput(textContext, 'text');
+    if (!textValidation.valid) {
+      logger.logValidationError('textContext', textValidation.errors.join(', '));
+      throw new APIError('Invalid text input', 400);
+    }
+  }
+
+  // Sanitize inputs. Long inputs are no longer truncated to one request, they are summarized in sections.
+  const sanitizedText = sanitizeContent(textContext, MAX_SOURCE_TEXT_CHARS);
+  const sanitizedMode = validateUserInput(mode, 'text').sanitized;
+  const sanitizedPrompt = customPrompt ? sanitizeContent(customPrompt, 5000) : undefined;
+
+  if (!sanitizedText && attachments.length === 0) {
+    throw new APIError('Text input cannot be empty', 400);
+  }
+
+  // 1. Normalize and extract content from all inputs
+  const preparation = await prepareTextForSummarization(sanitizedText, attachments);
+
+  if (!preparation) {
+    return null;
+  }
+
+  // Synthesis compares whole sources, so every passage label names its source (typed text has none)
+  const isSynthesis = sanitizedMode === SYNTHESIS_MODE && !sanitizedPrompt;
+  const labelledSections = isSynthesis
+    ? preparation.sections.map(section => section.label.startsWith(section.source) ? section : {
+      ...section,
+      label: section.label === 'Introduction' ? section.source : `${section.source} › ${section.label}`
+    })
+    : preparation.sections;
+
+  const { sections, sources } = numberSourceSections(
+    labelledSections.flatMap(section => splitOversizedSection(section, CITATION_SECTION_CHARS))
+  );
+
+  // It also needs several sources, and tells the model which they are
+  const synthesisSources = isSynthesis
+    ? Array.from(new Set([...sections.map(s => s.source), ...preparation.media.map(m => m.name)]))
+    : null;
+  if (synthesisSources && synthesisSources.length < MIN_SYNTHESIS_SOURCES) {
+    throw new APIError(`Synthesis compares at least ${MIN_SYNTHESIS_SOURCES} sources. Add more attachments, or pick another mode.`, 400);
+  }
+  const roster = synthesisSources
+    ? `The material comes from ${synthesisSources.length} sources: ${synthesisSources.map((name, i) => `(${i + 1}) ${name}`).join(', ')}. Every passage label starts with the name of its source.\n\n`
+    : '';
+
+  const finalContent = sections.length > 0 ? sections.map(s => s.text).join('\n\n') : preparation.combinedText;
+
+  // Inform user about any failed extractions
+  let warningText = "";
+  if (preparation.failedExtractions.length > 0) {
+    logger.log(`Failed to process attachments: ${preparation.failedExtractions.join(', ')}`, 'EXTRACTION', 'WARNING' as any);
+    warningText = `\n\n⚠️ Note: Some files could not be processed (${preparation.failedExtractions.join(', ')}). The summary includes only successfully processed content.`;
+  }
+
+  // Built-in and custom modes are both templates over {{subject}}, {{level}} and {{language}}
+  const template = sanitizedPrompt || (getBuiltInMode(sanitizedMode) || getBuiltInMode('short')!).systemPrompt;
+  const sanitizedVariables: PromptVariables = {};
+  Object.entries(variables).forEach(([name, value]) => {
+    if (value) sanitizedVariables[name as keyof PromptVariables] = sanitizeContent(value, 100);
+  });
+  const systemPrompt = renderTemplate(template, sanitizedVariables);
+
+  const mediaParts: AIPart[] = preparation.media.flatMap(m => [
+    { text: `Attached ${m.kind}: ${m.name}` },
+    { inlineData: { data: m.data, mimeType: m.mimeType } }
+  ]);
+  const instruction = sources.length > 0 ? `${systemPrompt}\n\n${CITATION_INSTRUCTION}` : systemPrompt;
+
+  return {
+    request: {
+      task: 'summary',
+      contents: [
+        ...mediaParts,
+        { text: `${roster}${instruction}\n\nContent to summarize:` },
+        { text: finalContent || 'The attached files above.' }
+      ],
+      systemInstruction: systemPrompt,
+      tier: mediaParts.length > 0 ? 'multimodal' : undefined,
+      context: { mode: sanitizedMode }
+    },
+    warningText,
+    mode: sanitizedMode,
+    systemPrompt,
+    chunks: finalContent.length > SINGLE_PASS_CHAR_LIMIT
+      // In synthesis a chunk never mixes sources, so each partial summary speaks for one source
+      ? synthesisSources
+        ? synthesisSources.flatMap(name => groupSectionsIntoChunks(sections.filter(s => s.source === name), SECTION_CHUNK_CHARS))
+        : groupSectionsIntoChunks(sections, SECTION_CHUNK_CHARS)
+      : null,
+    sources,
+    mediaParts,
+    synthesisSources
+  };
 };
 
-const safeJSONParse = <T>(text: string, fallback: T): T => {
-  try {
-    const cleaned = cleanJSON(text);
-    if (!cleaned) return fallback;
-    return JSON.parse(cleaned);
-  } catch (e) {
-    console.warn("JSON Parse failed", e);
+/**
+ * Map phase for long inputs: summarizes every chunk, then folds the partial summaries
+ * together until they fit in one request. Returns the final merge request and which
+ * sections made it into the summary.
+ */
+const summarizeSections = async (
+  prepared: PreparedSummaryRequest,
+  options: { signal?: AbortSignal; onProgress?: (progress: SummaryProgress) => void; userId?: string }
+): Promise<{ request: AIRequest; coverage: SummaryCoverage }> => {
+  const { signal, onProgress, userId } = options;
+  const ai = getAIProvider();
+  const chunks = prepared.chunks || [];
+  const coverage: SummaryCoverage = { covered: [], skipped: [] };
+  let partials: { label: string; text: string }[] = [];
+  let firstError: unknown = null;
+
+  for (let i = 0; i < chunks.length; i++) {
+    throwIfAborted(signal);
+    const chunk = chunks[i];
+    onProgress?.({ stage: 'sections', completed: i, total: chunks.length, label: chunk.label });
+
+    try {
+      const partial = await ai.generateText({
+        task: 'summary',
+        contents: [
+          { text: prepared.synthesisSources
+            ? `This is part of one source (${chunk.label}) that will later be compared with other sources. Summarize its claims, positions, figures and definitions faithfully, as this source states them.\n${CITATION_INSTRUCTION}\n\nSource content:`
+            : `This is one section (${chunk.label}) of a longer document. ${prepared.systemPrompt}\nKeep every distinct concept, definition, formula and date: this partial summary will be merged with the others later.\n${CITATION_INSTRUCTION}\n\nSection content:` },
+          { text: chunk.text }
+        ],
+        systemInstruction: prepared.systemPrompt,
+        context: { mode: prepared.mode },
+        signal
+      });
+      if (!partial) throw new APIError('Failed to generate summary', 500);
+      partials.push({ label: chunk.label, text: partial });
+      coverage.covered.push(chunk.label);
+    } catch (error) {
+      throwIfAborted(signal);
+      logger.logAPIError('/summarize/section', error, userId);
+      firstError = firstError || error;
+      coverage.skipped.push(chunk.label);
+    }
+  }
 
-    if (e instanceof SyntaxError && text.includes('[{')) {
-      try {
+  if (partials.length === 0) {
+    throw firstError || new APIError('Failed to generate summary', 500);
+  }
 
-        const lastRightBracket = text.lastIndexOf(']');
-        const lastRightBrace = text.lastIndexOf('}');
-        const cutOff = Math.max(lastRightBracket, lastRightBrace);
-        if (cutOff > 0) {
-          const sub = text.substring(0, cutOff + 1);
-          return JSON.parse(cleanJSON(sub));
-        }
-      } catch (e2) {
-        console.warn("Recovery failed", e2);
-      }
+  // Fold partial summaries until they fit in a single merge request
+  const mergeInstruction = prepared.synthesisSources
+    ? `${prepared.systemPrompt}\n\nThese are summaries of the parts of ${prepared.synthesisSources.length} sources (${prepared.synthesisSources.join(', ')}); each heading names the source. Compare the sources and write the synthesis in the requested structure, keeping the [S#] source markers.\n\nSource summaries:`
+    : `${prepared.systemPrompt}\n\nThese are summaries of consecutive sections of one document, in reading order. Merge them into a single summary in the requested style. Remove repetition but keep every key point and its [S#] source markers.\n\nSection summaries:`;
+  // Intermediate folds only shorten; the comparison happens once, over everything
+  const foldInstruction = prepared.synthesisSources
+    ? `These are summaries of parts of several sources; each heading names the source. Condense them, keeping what each source claims, which source it is, and the [S#] source markers.\n\nSource summaries:`
+    : mergeInstruction;
+  const joinPartials = (items: { label: string; text: string }[]) =>
+    items.map(p => `## ${p.label}\n${p.text}`).join('\n\n');
+
+  while (joinPartials(partials).length > SINGLE_PASS_CHAR_LIMIT && partials.length > 1) {
+    const groups = groupSectionsIntoChunks(
+      partials.map(p => ({ source: p.label, label: p.label, text: `## ${p.label}\n${p.text}` })),
+      SINGLE_PASS_CHAR_LIMIT
+    );
+    const merged: { label: string; text: string }[] = [];
+    for (let i = 0; i < groups.length; i++) {
+      throwIfAborted(signal);
+      onProgress?.({ stage: 'merging', completed: i, total: groups.length });
+      const group = groups[i];
+      const text = await ai.generateText({
+        task: 'summary',
+        contents: [{ text: foldInstruction }, { text: group.text }],
+        systemInstruction: prepared.systemPrompt,
+        context: { mode: prepared.mode },
+        signal
+      });
+      merged.push({ label: describeSections(group.sections), text: text || group.text });
+    }
+    // Stop if merging no longer shrinks the input
+    if (merged.length >= partials.length) {
+      partials = merged;
+      break;
     }
-    return fallback;
+    partials = merged;
   }
-}
 
+  onProgress?.({ stage: 'merging', completed: 0, total: 1 });
+
+  return {
+    // Media is only sent once, with the final merge, rather than with every section
+    request: {
+      task: 'summary',
+      contents: [...prepared.mediaParts, { text: mergeInstruction }, { text: joinPartials(partials) }],
+      systemInstruction: prepared.systemPrompt,
+      tier: prepared.request.tier,
+      context: { mode: prepared.mode },
+      signal
+    },
+    coverage
+  };
+};
 
+/**
+ * Markdown footer listing the sections a chunked summary covers
+ */
+const formatCoverage = (coverage: SummaryCoverage): string => {
+  const total = coverage.covered.length + coverage.skipped.length;
+  let text = `\n\n---\n**Sections covered (${coverage.covered.length}/${total}):** ${coverage.covered.join(' · ')}`;
+  if (coverage.skipped.length > 0) {
+    text += `\n\n⚠️ Not summarized (the AI request failed): ${coverage.skipped.join(' · ')}`;
+  }
+  return text;
+};
 
-import { prepareTextForSummarization } from './extractionService';
+const getSummaryErrorMessage = (error: any, userId?: string): string => {
+  const clientMessage = getClientErrorMessage(error);
+  logger.logAPIError('/summarize', error, userId);
+
+  if (error instanceof APIError) {
+    return error.message;
+  }
+
+  if (error.status === 'RESOURCE_EXHAUSTED' || error.code === 429) {
+    return "Rate limited. Please try again in a moment.";
+  }
+
+  return clientMessage;
+};
+
+interface CachedSummary {
+  text: string;
+  coverage?: SummaryCoverage;
+  sources?: SummarySource[];
+}
+
+const summaryCacheSpec = (prepared: PreparedSummaryRequest) => ({
+  fn: 'summarizeContent',
+  promptVersion: PROMPT_VERSIONS.summarizeContent,
+  input: {
+    mode: prepared.mode,
+    systemPrompt: prepared.systemPrompt,
+    contents: prepared.request.contents
+  }
+});
 
+/**
+ * The summary in one piece, for callers that do not stream. Goes through
+ * summarizeContentStream, so it shares its cache and falls back to offline extraction.
+ */
 export const summarizeContent = async (
   textContext: string,
   attachments: Attachment[],
   mode: string,
   customPrompt?: string,
-  userId?: string
+  userId?: string,
+  cacheOptions: AICacheOptions = {},
+  signal?: AbortSignal,
+  variables: PromptVariables = {}
 ): Promise<string> => {
-  try {
-    // Rate limiting
-    const identifier = userId || 'anonymous';
-    if (apiRateLimiter.isLimited(identifier)) {
-      logger.logRateLimitViolation(identifier, '/summarize');
-      throw new APIError('Rate limit exceeded. Please try again later.', 429);
-    }
+  const { text } = await summarizeContentStream(textContext, attachments, mode, () => {}, {
+    ...cacheOptions,
+    customPrompt,
+    variables,
+    userId,
+    signal
+  });
+  throwIfAborted(signal);
+  return text;
+};
 
-    // Input validation
-    const textValidation = validateUserInput(textContext, 'text');
-    if (!textValidation.valid) {
-      logger.logValidationError('textContext', textValidation.errors.join(', '));
-      throw new APIError('Invalid text input', 400);
-    }
+export interface SummaryStreamResult {
+  text: string;
+  /** True when the caller aborted; text then holds whatever arrived before the abort */
+  cancelled: boolean;
+  /** Present when the input was long enough to be summarized section by section */
+  coverage?: SummaryCoverage;
+  /** The passages the summary's [S#] markers refer to */
+  sources?: SummarySource[];
+  /** True when the AI was unavailable and the summary was extracted locally */
+  offline?: boolean;
+}
 
-    // Sanitize inputs
-    const sanitizedText = sanitizeContent(textContext, 30000);
-    const sanitizedMode = validateUserInput(mode, 'text').sanitized;
-    const sanitizedPrompt = customPrompt ? sanitizeContent(customPrompt, 5000) : undefined;
+/**
+ * Extractive summary of the prepared material, for when the AI cannot be reached.
+ * Not cached, so the next request tries the AI again.
+ */
+const summarizeOffline = (prepared: PreparedSummaryRequest): SummaryStreamResult => {
+  if (prepared.sources.length === 0) {
+    // Only images or audio: there is no text to extract sentences from
+    return { text: 'The AI is unavailable right now, and images and audio can only be summarized by the AI. Please try again later.', cancelled: false };
+  }
+  const contents = prepared.request.contents as { text: string }[];
+  const text = summarizeExtractive(contents[contents.length - 1].text, prepared.mode, prepared.synthesisSources || []);
+  return { text: text + prepared.warningText, cancelled: false, sources: pickCitedSources(text, prepared.sources), offline: true };
+};
+
+/**
+ * Streaming variant of summarizeContent. onChunk receives the accumulated markdown
+ * after every chunk, so the caller can render it as-is. For long inputs the section
+ * pass is reported through onProgress and only the final merge is streamed.
+ */
+export const summarizeContentStream = async (
+  textContext: string,
+  attachments: Attachment[],
+  mode: string,
+  onChunk: (partialText: string) => void,
+  options: {
+    customPrompt?: string;
+    /** Values for the mode template's {{subject}}, {{level}} and {{language}} */
+    variables?: PromptVariables;
+    userId?: string;
+    signal?: AbortSignal;
+    onProgress?: (progress: SummaryProgress) => void;
+    /** Fall back to an extractive summary when the AI is unavailable (default true) */
+    offlineFallback?: boolean;
+    /** Throw failures instead of returning their message as the summary text, for callers that retry */
+    throwOnError?: boolean;
+  } & AICacheOptions = {}
+): Promise<SummaryStreamResult> => {
+  const { customPrompt, variables, userId, signal, onProgress, regenerate, offlineFallback = true, throwOnError = false } = options;
+  let summaryText = '';
+  let prepared: PreparedSummaryRequest | null = null;
 
-    if (!sanitizedText) {
-      throw new APIError('Text input cannot be empty', 400);
+  try {
+    prepared = await prepareSummaryRequest(textContext, attachments, mode, customPrompt, userId, variables);
+    if (!prepared) {
+      if (throwOnError) throw new APIError('No readable content could be extracted', 422);
+      return { text: "Please enter text or add valid attachments to summarize.", cancelled: false };
     }
 
-    const ai = getAI();
+    const cacheSpec = summaryCacheSpec(prepared);
+    if (regenerate) await AICacheService.noteRegeneration(cacheSpec.fn);
+    const cached = regenerate ? null : await AICacheService.get<CachedSummary>(cacheSpec);
+    if (cached) {
+      summaryText = cached.text + prepared.warningText;
+      onChunk(summaryText);
+      return { text: summaryText, cancelled: false, coverage: cached.coverage, sources: cached.sources };
+    }
 
-    // 1. Normalize and extract content from all inputs
-    const preparation = await prepareTextForSummarization(sanitizedText, attachments);
+    enforceRateLimit(userId, '/summarize');
 
-    if (!preparation) {
-      return "Please enter text or add valid attachments to summarize.";
+    let request: AIRequest = { ...prepared.request, signal };
+    let coverage: SummaryCoverage | undefined;
+    if (prepared.chunks) {
+      const sectioned = await summarizeSections(prepared, { signal, onProgress, userId });
+      request = sectioned.request;
+      coverage = sectioned.coverage;
     }
 
-    const finalContent = preparation.combinedText;
-
-    // Inform user about any failed extractions
-    let warningText = "";
-    if (preparation.failedExtractions.length > 0) {
-      logger.log(`Failed to process attachments: ${preparation.failedExtractions.join(', ')}`, 'EXTRACTION', 'WARNING' as any);
-      warningText = `\n\n⚠️ Note: Some files could not be processed (${preparation.failedExtractions.join(', ')}). The summary includes only successfully processed content.`;
+    for await (const chunk of getAIProvider().streamText(request)) {
+      if (signal?.aborted) break;
+      summaryText += chunk;
+      onChunk(summaryText);
     }
 
-    let systemPrompt = "";
-    
-    // If a custom prompt is provided, validate and use it
-    if (sanitizedPrompt) {
-      systemPrompt = sanitizedPrompt;
-    } else {
-      // Use predefined modes
-      switch (sanitizedMode) {
-        case 'eli5': systemPrompt = "Explain this content like I'm 5 years old. Use simple analogies."; break;
-        case 'exam': systemPrompt = "Summarize for exam prep. Focus on definitions, dates, formulas, and key concepts. Use structured bullet points."; break;
-        case 'detailed': systemPrompt = "Provide a comprehensive, detailed summary with examples."; break;
-        case 'short': default: systemPrompt = "Concise key points only. Bullet points."; break;
-      }
+    if (signal?.aborted) {
+      logger.log(`Summarize cancelled`, 'API', 'INFO' as any, { userId, mode: prepared.mode });
+      return { text: summaryText, cancelled: true };
     }
 
-    const parts: any[] = [];
-    parts.push({ text: `${systemPrompt}\n\nContent to summarize:\n${finalContent}` });
+    if (!summaryText) {
+      throw new APIError('Failed to generate summary', 500);
+    }
 
-    const model = 'gemini-3-flash-preview';
+    const sources = pickCitedSources(summaryText, prepared.sources);
+    summaryText += coverage ? formatCoverage(coverage) : '';
+    await AICacheService.set<CachedSummary>(cacheSpec, { text: summaryText, coverage, sources });
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: { parts },
-      config: {
-        systemInstruction: systemPrompt
-      }
-    });
+    summaryText += prepared.warningText;
+    onChunk(summaryText);
 
-    if (!response || !response.text) {
-      throw new APIError('Failed to generate summary', 500);
+    logger.log(`Summarize completed`, 'API', 'INFO' as any, { userId, mode: prepared.mode, sections: prepared.chunks?.length });
+    return { text: summaryText, cancelled: false, coverage, sources };
+  } catch (error: any) {
+    if (signal?.aborted) {
+      return { text: summaryText, cancelled: true };
+    }
+    if (prepared && offlineFallback && isAIUnavailableError(error)) {
+      logger.log(`Summarize fell back to offline extraction`, 'API', 'WARNING' as any, { userId, mode: prepared.mode, reason: error?.message });
+      const result = summarizeOffline(prepared);
+      onChunk(result.text);
+      return result;
     }
+    if (throwOnError) {
+      logger.logAPIError('/summarize', error, userId);
+      throw error;
+    }
+    return { text: getSummaryErrorMessage(error, userId), cancelled: false };
+  }
+};
 
-    logger.log(`Summarize completed`, 'API', 'INFO' as any, { userId, mode: sanitizedMode });
-    return response.text + warningText;
-  } catch (error: any) {
-    const clientMessage = getClientErrorMessage(error);
-    logger.logAPIError('/summarize', error, userId);
+const NOTES_CHAT_SYSTEM_PROMPT = `You answer a student's questions using only their own notes and summaries, given as numbered passages.
+Cite every claim with the number of the passage it comes from in square brackets, e.g. [2] or [1, 3].
+If the passages do not contain the answer, say so plainly instead of guessing.
+Answer in concise markdown.`;
 
-    if (error instanceof APIError) {
-      return error.message;
-    }
+const MAX_CHAT_HISTORY = 6;
 
-    if (error.status === 'RESOURCE_EXHAUSTED' || error.code === 429) {
-      return "Rate limited. Please try again in a moment.";
-    }
+export interface NotesChatAnswer {
+  text: string;
+  /** The passages the answer actually cites, in citation order */
+  citations: NoteCitation[];
+  cancelled: boolean;
+}
 
-    return clientMessage;
+const citedIndices = (text: string): Set<number> => {
+  const cited = new Set<number>();
+  for (const match of text.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    match[1].split(',').forEach(n => cited.add(Number(n.trim())));
   }
+  return cited;
 };
 
+/**
+ * Streams an answer to question grounded in passages retrieved from the user's notes.
+ * onChunk receives the accumulated markdown after every chunk.
+ */
+export const answerFromNotesStream = async (
+  question: string,
+  passages: RetrievedChunk[],
+  history: NoteChatMessage[],
+  onChunk: (partialText: string) => void,
+  options: { userId?: string; signal?: AbortSignal } = {}
+): Promise<NotesChatAnswer> => {
+  const { userId, signal } = options;
+
+  if (passages.length === 0) {
+    const text = "I couldn't find anything about that in your notes or summaries. Try different keywords, or add notes on the topic first.";
+    onChunk(text);
+    return { text, citations: [], cancelled: false };
+  }
+
+  enforceRateLimit(userId, '/askNotes');
+
+  const numbered = passages.map((p, i) =>
+    `[${i + 1}] ${p.title}${p.label && p.label !== p.title ? ` › ${p.label}` : ''}\n${sanitizeContent(p.text, 4000)}`
+  ).join('\n\n');
 
+  const recent = history.slice(-MAX_CHAT_HISTORY)
+    .map(m => `${m.role === 'user' ? 'Student' : 'Assistant'}: ${m.text}`)
+    .join('\n\n');
 
-export const analyzeNoteWorkload = async (noteContent: string, userId?: string): Promise<Note['aiAnalysis']> => {
+  let text = '';
   try {
-    // Rate limiting
-    const identifier = userId || 'anonymous';
-    if (apiRateLimiter.isLimited(identifier)) {
-      logger.logRateLimitViolation(identifier, '/analyzeNoteWorkload');
-      return {
-        difficulty: 'medium',
-        estimatedMinutes: 30,
-        cognitiveLoad: 'medium',
-        summary: 'Rate limited. Please try again later.'
-      };
+    for await (const chunk of getAIProvider().streamText({
+      task: 'notesChat',
+      systemInstruction: NOTES_CHAT_SYSTEM_PROMPT,
+      contents: [
+        { text: `PASSAGES:\n${numbered}` },
+        ...(recent ? [{ text: `CONVERSATION SO FAR:\n${recent}` }] : []),
+        { text: `QUESTION: ${sanitizeContent(question, 2000)}` }
+      ],
+      context: { question, passages: passages.map((p, i) => ({ index: i + 1, text: p.text })) },
+      signal
+    })) {
+      if (signal?.aborted) break;
+      text += chunk;
+      onChunk(text);
     }
+  } catch (error) {
+    if (!signal?.aborted) {
+      logger.logAPIError('/askNotes', error, userId);
+      throw error;
+    }
+  }
+
+  const cited = citedIndices(text);
+  const citations: NoteCitation[] = passages
+    .map((p, i) => ({
+      index: i + 1,
+      sourceType: p.sourceType,
+      sourceId: p.sourceId,
+      title: p.title,
+      ...(p.blockId ? { blockId: p.blockId } : {}),
+      snippet: p.text.length > 240 ? p.text.substring(0, 240) + '…' : p.text
+    }))
+    .filter(c => cited.has(c.index));
+
+  return { text, citations, cancelled: !!signal?.aborted };
+};
 
+
+
+export const analyzeNoteWorkload = async (
+  noteContent: string,
+  userId?: string,
+  cacheOptions: AICacheOptions = {},
+  signal?: AbortSignal
+): Promise<Note['aiAnalysis']> => {
+  try {
     // Input validation and sanitization
     const validation = validateUserInput(noteContent, 'text');
     if (!validation.valid) {
@@ -189,44 +603,53 @@ export const analyzeNoteWorkload = async (noteContent: string, userId?: string):
 
     const sanitizedContent = sanitizeContent(noteContent, 10000);
 
-    const ai = getAI();
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Analyze this study material. Estimate the difficulty, time required to study it effectively, and cognitive load. Return JSON.
-      Material: ${sanitizedContent}`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            difficulty: { type: Type.STRING, enum: ['easy', 'medium', 'hard'] },
-            estimatedMinutes: { type: Type.NUMBER },
-            cognitiveLoad: { type: Type.STRING, enum: ['light', 'medium', 'heavy'] },
-            summary: { type: Type.STRING }
+    const result = await AICacheService.getOrGenerate<NonNullable<Note['aiAnalysis']>>(
+      { fn: 'analyzeNoteWorkload', promptVersion: PROMPT_VERSIONS.analyzeNoteWorkload, input: sanitizedContent },
+      cacheOptions,
+      async () => {
+        enforceRateLimit(userId, '/analyzeNoteWorkload');
+
+        const analysis = await getAIProvider().generateJSON<Partial<NonNullable<Note['aiAnalysis']>>>({
+          task: 'noteAnalysis',
+          signal,
+          contents: [
+            { text: `Analyze this study material. Estimate the difficulty, time required to study it effectively, and cognitive load. Return JSON.\nMaterial:` },
+            { text: sanitizedContent }
+          ],
+          schema: {
+            type: Type.OBJECT,
+            properties: {
+              difficulty: { type: Type.STRING, enum: ['easy', 'medium', 'hard'] },
+              estimatedMinutes: { type: Type.NUMBER },
+              cognitiveLoad: { type: Type.STRING, enum: ['light', 'medium', 'heavy'] },
+              summary: { type: Type.STRING }
+            }
           }
-        }
+        });
+
+        return {
+          difficulty: 'medium',
+          estimatedMinutes: 30,
+          cognitiveLoad: 'medium',
+          summary: 'Analysis completed',
+          ...analysis
+        };
       }
-    });
-
-    if (!response || !response.text) throw new APIError('No response from AI', 500);
-
-    const result = safeJSONParse(response.text, {
-      difficulty: 'medium',
-      estimatedMinutes: 30,
-      cognitiveLoad: 'medium',
-      summary: 'Analysis completed'
-    });
+    );
 
     logger.log(`Note analysis completed`, 'API', 'INFO' as any, { userId });
     return result;
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     logger.logAPIError('/analyzeNoteWorkload', error, userId);
 
     return {
       difficulty: 'medium',
       estimatedMinutes: 30,
       cognitiveLoad: 'medium',
-      summary: 'Analysis failed. Please try again.'
+      summary: error instanceof APIError && error.statusCode === 429
+        ? 'Rate limited. Please try again later.'
+        : 'Analysis failed. Please try again.'
     };
   }
 };
@@ -236,11 +659,9 @@ export const analyzeNoteWorkload = async (noteContent: string, userId?: string):
 export const generateAdaptiveRoutine = async (
   queue: QueueItem[],
   notes: Note[],
-  prefs: UserPreferences
+  prefs: UserPreferences,
+  signal?: AbortSignal
 ): Promise<{ tasks: RoutineTask[], projection: string, confidence: 'high' | 'medium' | 'low' }> => {
-  const ai = getAI();
-
-
   const queueContext = queue.map(q => {
     const note = notes.find(n => n.id === q.noteId);
     return {
@@ -267,76 +688,68 @@ export const generateAdaptiveRoutine = async (
     Return JSON with tasks, a short text projection (e.g., "You'll likely finish Note A and B today"), and a confidence score.
   `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: MODEL_TEXT,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            tasks: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING },
-                  title: { type: Type.STRING },
-                  durationMinutes: { type: Type.NUMBER },
-                  type: { type: Type.STRING, enum: ["focus", "break", "procastify", "buffer"] },
-                  completed: { type: Type.BOOLEAN },
-                  noteId: { type: Type.STRING, nullable: true },
-                  confidence: { type: Type.STRING, enum: ["high", "medium", "low"] }
-                }
-              }
-            },
-            projection: { type: Type.STRING },
-            confidence: { type: Type.STRING, enum: ["high", "medium", "low"] }
-          }
-        }
+  const taskSchema = {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        id: { type: Type.STRING },
+        title: { type: Type.STRING },
+        durationMinutes: { type: Type.NUMBER },
+        type: { type: Type.STRING, enum: ["focus", "break", "procastify", "buffer"] },
+        completed: { type: Type.BOOLEAN },
+        noteId: { type: Type.STRING, nullable: true },
+        confidence: { type: Type.STRING, enum: ["high", "medium", "low"] }
       }
-    });
-
-    if (!response || !response.text) throw new Error("Empty response");
-
-    const fallback: { tasks: RoutineTask[], projection: string, confidence: 'high' | 'medium' | 'low' } = {
-      tasks: [],
-      projection: "Failed to parse routine.",
-      confidence: 'low'
-    };
+    }
+  };
+
+  const request: AIJSONRequest = {
+    task: 'routine',
+    signal,
+    contents: prompt,
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        tasks: taskSchema,
+        projection: { type: Type.STRING },
+        confidence: { type: Type.STRING, enum: ["high", "medium", "low"] }
+      }
+    },
+    context: { queue: queueContext, freeTimeHours: prefs.freeTimeHours }
+  };
 
-    const data = safeJSONParse(response.text, fallback);
+  try {
+    const data = await generateRaw(request) as { tasks?: unknown, projection?: unknown, confidence?: unknown } | null;
+    if (!data || !Array.isArray(data.tasks)) {
+      throw new AIOutputError('The AI did not return a routine.', 'routine tasks', 'empty_output', ['tasks must be an array']);
+    }
 
+    // Tasks are checked one by one so a single malformed block does not cost the whole plan
+    const { items } = await validateItems(data.tasks, RoutineTaskSchema, { ...request, schema: taskSchema }, { feature: 'routine tasks' });
+    const confidence = oneOf(['high', 'medium', 'low'] as const).validate(data.confidence);
 
-    if (data.tasks && Array.isArray(data.tasks)) {
-      data.tasks = data.tasks.map((t: any) => ({ ...t, id: Math.random().toString(36).substr(2, 9), completed: false }));
-    } else {
-      data.tasks = [];
-    }
-    return data;
-  } catch (error) {
-    console.error("Routine Gen Error", error);
     return {
-      tasks: [],
-      projection: "Could not generate routine. Try adding items to your queue.",
-      confidence: 'low'
+      tasks: items.map(t => ({ ...t, id: Math.random().toString(36).substr(2, 9), completed: false })),
+      projection: typeof data.projection === 'string' ? data.projection : '',
+      confidence: confidence.ok ? confidence.value : 'low'
     };
+  } catch (error) {
+    logger.logAPIError('/generateAdaptiveRoutine', error);
+    throw error;
   }
 };
 
 
 
 
-export const generateFlashcards = async (content: string, userId?: string): Promise<Flashcard[]> => {
+export const generateFlashcards = async (
+  content: string,
+  userId?: string,
+  cacheOptions: AICacheOptions = {},
+  signal?: AbortSignal
+): Promise<Flashcard[]> => {
   try {
-    // Rate limiting
-    const identifier = userId || 'anonymous';
-    if (apiRateLimiter.isLimited(identifier)) {
-      logger.logRateLimitViolation(identifier, '/generateFlashcards');
-      return [];
-    }
-
     // Input validation
     const validation = validateUserInput(content, 'text');
     if (!validation.valid) {
@@ -345,80 +758,152 @@ export const generateFlashcards = async (content: string, userId?: string): Prom
     }
 
     const sanitizedContent = sanitizeContent(content, 15000);
-    const ai = getAI();
 
-    const response = await ai.models.generateContent({
-      model: MODEL_TEXT,
-      contents: [
-        { text: "Extract 5-8 key learning chunks, definitions, or core concepts from the content below.\nReturn JSON array with 'front' (The Concept/Term) and 'back' (The Definition/Explanation/Detail).\nDo NOT create questions. Create knowledge pairings that directly reflect the summary.\n\nCONTENT TO PROCESS:" },
-        { text: sanitizedContent }
-      ],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.STRING },
-              front: { type: Type.STRING, description: "The concept, term, or headline" },
-              back: { type: Type.STRING, description: "The explanation, definition, or key fact" },
-              status: { type: Type.STRING, enum: ['new'] }
+    const cards = await AICacheService.getOrGenerate<Flashcard[]>(
+      { fn: 'generateFlashcards', promptVersion: PROMPT_VERSIONS.generateFlashcards, input: sanitizedContent },
+      cacheOptions,
+      async () => {
+        enforceRateLimit(userId, '/generateFlashcards');
+
+        const { items } = await generateValidatedList({
+          task: 'flashcards',
+          signal,
+          contents: [
+            { text: "Extract 5-8 key learning chunks, definitions, or core concepts from the content below.\nReturn JSON array with 'front' (The Concept/Term) and 'back' (The Definition/Explanation/Detail).\nDo NOT create questions. Create knowledge pairings that directly reflect the summary.\n\nCONTENT TO PROCESS:" },
+            { text: sanitizedContent }
+          ],
+          schema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING },
+                front: { type: Type.STRING, description: "The concept, term, or headline" },
+                back: { type: Type.STRING, description: "The explanation, definition, or key fact" },
+                status: { type: Type.STRING, enum: ['new'] }
+              }
             }
           }
-        }
+        }, FlashcardSchema, { feature: 'flashcards' });
+        return items;
       }
-    });
-
-    if (!response || !response.text) return [];
-
-    const cards = safeJSONParse(response.text, []);
-    if (!Array.isArray(cards)) return [];
+    );
 
     logger.log(`Generated ${cards.length} flashcards`, 'API', 'INFO' as any, { userId });
-    return cards.map((c: any) => ({ ...c, id: Math.random().toString(36).substr(2, 9), status: 'new' }));
+    return cards.map(c => ({ ...c, id: Math.random().toString(36).substr(2, 9), status: 'new' }));
   } catch (error) {
     logger.logAPIError('/generateFlashcards', error, userId);
-    return [];
+    throw error;
   }
 };
 
 
 
-export const generateSpeech = async (text: string): Promise<string | null> => {
-  const ai = getAI();
+/**
+ * Cloze cards from a passage of notes: the AI writes self-contained sentences with the key terms
+ * marked as {{c1::deletions}}, and every deletion becomes its own card
+ */
+export const generateClozeCards = async (
+  content: string,
+  userId?: string,
+  cacheOptions: AICacheOptions = {},
+  signal?: AbortSignal
+): Promise<Flashcard[]> => {
   try {
+    const validation = validateUserInput(content, 'text');
+    if (!validation.valid) {
+      logger.logValidationError('content', validation.errors.join(', '));
+      return [];
+    }
 
-    const safeText = text.length > 500 ? text.substring(0, 500) + "..." : text;
+    const sanitizedContent = sanitizeContent(content, 15000);
 
-    const response = await ai.models.generateContent({
-      model: MODEL_TTS,
-      contents: [{ parts: [{ text: safeText }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
-        },
-      },
-    });
+    const sentences = await AICacheService.getOrGenerate<{ text: string }[]>(
+      { fn: 'generateClozeCards', promptVersion: PROMPT_VERSIONS.generateClozeCards, input: sanitizedContent },
+      cacheOptions,
+      async () => {
+        enforceRateLimit(userId, '/generateClozeCards');
+
+        const { items } = await generateValidatedList({
+          task: 'cloze',
+          signal,
+          contents: [
+            { text: "Turn the key facts of the notes below into 3-8 cloze deletion sentences.\nEach sentence must make sense on its own. Wrap the term to recall in {{c1::term}}; when a sentence holds two facts worth recalling separately, mark the second as {{c2::term}}. An optional hint goes after the term: {{c1::term::hint}}.\nOnly hide key terms, names, numbers or definitions, never filler words.\n\nNOTES TO PROCESS:" },
+            { text: sanitizedContent }
+          ],
+          schema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                text: { type: Type.STRING, description: "A sentence with {{c1::...}} deletions" }
+              }
+            }
+          }
+        }, ClozeTextSchema, { feature: 'cloze cards' });
+        return items;
+      }
+    );
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    return base64Audio || null;
+    const cards = sentences.flatMap(sentence => cardsFromCloze(sentence.text));
+    logger.log(`Generated ${cards.length} cloze cards`, 'API', 'INFO' as any, { userId });
+    return cards;
   } catch (error) {
+    logger.logAPIError('/generateClozeCards', error, userId);
+    throw error;
+  }
+};
+
+export const generateSpeech = async (text: string, signal?: AbortSignal): Promise<string | null> => {
+  const ai = getAIProvider();
+  try {
+
+    const safeText = text.length > 500 ? text.substring(0, 500) + "..." : text;
+
+    return await ai.generateSpeech({ text: safeText, signal });
+  } catch (error) {
+    // Running out of quota is worth telling the user, other failures just mean no audio
+    if (error instanceof AIQuotaError || signal?.aborted) throw error;
     console.error("TTS Error:", error);
     return null;
   }
 };
 
 
+const VIDEO_TIMESTAMP_INSTRUCTION =
+  'The content has video timestamps like [12:05](link). Set videoTimestamp on each question to the m:ss timestamp of the passage that explains its answer.';
+
+/**
+ * Prompt line asking for the explaining moment of each question, when the content comes from a video
+ */
+const videoTimestampPrompt = (content: string): string =>
+  findTimestampLinks(content).length > 0 ? `\n${VIDEO_TIMESTAMP_INSTRUCTION}` : '';
+
+/**
+ * Links each question to the moment in the source video that explains it. The model's
+ * videoTimestamp is trusted when it falls within the content's timestamps; otherwise the
+ * passage sharing most words with the question and explanation is used.
+ */
+const attachVideoTimestamps = <Q extends Question | FillInTheBlanksQuestion>(questions: Q[], content: string): Q[] => {
+  const links = findTimestampLinks(content);
+  return questions.map(q => {
+    const claimed = q.videoTimestamp && /^(\d{1,2}:)?\d{1,2}:\d{2}$/.test(q.videoTimestamp.trim())
+      ? findLinkAt(parseTimestamp(q.videoTimestamp.trim()), links)
+      : null;
+    const link = claimed || findExplainingMoment(`${q.text} ${q.explanation}`, links);
+    const { videoTimestamp, videoUrl, ...rest } = q;
+    return link
+      ? { ...rest, videoTimestamp: formatOffset(link.seconds), videoUrl: timestampedUrl(link.url, link.seconds) } as Q
+      : rest as Q;
+  });
+};
+
 export const generateSingleQuestion = async (
   notesContent: string,
   difficulty: 'easy' | 'medium' | 'hard' = 'medium',
-  questionIndex: number = 0
+  questionIndex: number = 0,
+  signal?: AbortSignal
 ): Promise<Question> => {
-  const ai = getAI();
   const safeContent = notesContent.substring(0, 15000); // Match flashcard limit
 
 
@@ -432,47 +917,40 @@ export const generateSingleQuestion = async (
   }
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_TEXT,
+    const data = await generateValidatedObject({
+      task: 'question',
+      signal,
       contents: [
-        { text: `Extract 1 key concept from the content below and create a focused multiple choice question about it.\n${conceptPrompt}\nReturn JSON with exactly 4 plausible options.\nDo NOT create trivia questions. Focus on core learning concepts.\n\nCONTENT TO PROCESS:` },
+        { text: `Extract 1 key concept from the content below and create a focused multiple choice question about it.\n${conceptPrompt}\nReturn JSON with exactly 4 plausible options.\nDo NOT create trivia questions. Focus on core learning concepts.${videoTimestampPrompt(safeContent)}\n\nCONTENT TO PROCESS:` },
         { text: safeContent }
       ],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.STRING },
-            text: { type: Type.STRING, description: "Clear, focused question about one concept" },
-            options: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING },
-              description: "4 plausible options with similar wording"
-            },
-            correctIndex: { type: Type.INTEGER, description: "Index of correct answer (0-3)" },
-            explanation: { type: Type.STRING, description: "Why the correct answer is right" }
-          }
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          text: { type: Type.STRING, description: "Clear, focused question about one concept" },
+          options: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "4 plausible options with similar wording"
+          },
+          correctIndex: { type: Type.INTEGER, description: "Index of correct answer (0-3)" },
+          explanation: { type: Type.STRING, description: "Why the correct answer is right" },
+          videoTimestamp: { type: Type.STRING }
         }
-      }
-    });
-
-    if (!response || !response.text) {
-      throw new Error("Empty response from AI");
-    }
-
-    const data = safeJSONParse<any>(response.text, null);
-
-    if (!data || !data.text || !Array.isArray(data.options) || data.options.length !== 4 || typeof data.correctIndex !== 'number') {
-      throw new Error("Invalid question format from AI");
-    }
+      },
+      context: { difficulty, questionIndex }
+    }, MultipleChoiceQuestionSchema, { feature: 'question' });
 
+    const [question] = attachVideoTimestamps([data], safeContent);
     return {
       id: data.id || `q_${Date.now()}_${questionIndex}`,
       text: data.text,
       options: data.options,
       correctIndex: data.correctIndex,
-      explanation: data.explanation || "No explanation provided"
+      explanation: data.explanation || "No explanation provided",
+      videoTimestamp: question.videoTimestamp,
+      videoUrl: question.videoUrl
     };
   } catch (error) {
     console.error("Single Question Gen Error:", error);
@@ -483,10 +961,10 @@ export const generateSingleQuestion = async (
 // ... existing generateQuizFromNotes function ...
 export const generateQuizFromNotes = async (
   notesContent: string,
-  difficulty: 'easy' | 'medium' | 'hard' = 'medium'
+  difficulty: 'easy' | 'medium' | 'hard' = 'medium',
+  cacheOptions: AICacheOptions = {},
+  signal?: AbortSignal
 ): Promise<Question[]> => {
-  // ... existing implementation ...
-  const ai = getAI();
   const safeContent = notesContent.substring(0, 15000);
   let conceptPrompt = "";
   if (difficulty === 'easy') {
@@ -498,15 +976,17 @@ export const generateQuizFromNotes = async (
   }
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_TEXT,
-      contents: [
-        { text: `Extract 5 key concepts and create multiple choice questions.\n${conceptPrompt}\nReturn JSON array with exactly 4 options per question.` },
-        { text: safeContent }
-      ],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
+    const data = await AICacheService.getOrGenerate<Question[]>(
+      { fn: 'generateQuizFromNotes', promptVersion: PROMPT_VERSIONS.generateQuizFromNotes, input: { difficulty, content: safeContent } },
+      cacheOptions,
+      async () => (await generateValidatedList({
+        task: 'quiz',
+        signal,
+        contents: [
+          { text: `Extract 5 key concepts and create multiple choice questions.\n${conceptPrompt}\nReturn JSON array with exactly 4 options per question.${videoTimestampPrompt(safeContent)}` },
+          { text: safeContent }
+        ],
+        schema: {
           type: Type.ARRAY,
           items: {
             type: Type.OBJECT,
@@ -516,16 +996,16 @@ export const generateQuizFromNotes = async (
               options: { type: Type.ARRAY, items: { type: Type.STRING } },
               correctIndex: { type: Type.INTEGER },
               explanation: { type: Type.STRING },
-              difficulty: { type: Type.STRING, enum: ['easy', 'medium', 'hard'] }
+              difficulty: { type: Type.STRING, enum: ['easy', 'medium', 'hard'] },
+              videoTimestamp: { type: Type.STRING }
             }
           }
-        }
-      }
-    });
+        },
+        context: { difficulty }
+      }, MultipleChoiceQuestionSchema, { feature: 'quiz questions' })).items
+    );
 
-    if (!response || !response.text) return [];
-    const data = safeJSONParse<any[]>(response.text, []);
-    return data.map((q, i) => ({
+    return attachVideoTimestamps(data, safeContent).map((q, i) => ({
       ...q,
       id: q.id || `q_${Date.now()}_${i}`,
       explanation: q.explanation || "No explanation provided",
@@ -533,46 +1013,43 @@ export const generateQuizFromNotes = async (
     }));
   } catch (error) {
     console.error("Quiz Gen Error:", error);
-    return [];
+    throw error;
   }
 };
 
 export const generateTrueFalseQuiz = async (
-  notesContent: string
+  notesContent: string,
+  signal?: AbortSignal
 ): Promise<Question[]> => {
-  const ai = getAI();
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_TEXT,
+    const { items } = await generateValidatedList({
+      task: 'trueFalse',
+      signal,
       contents: [
-        { text: `Extract 5 key facts from the content and create True/False questions.\nSome should be True, some False (balanced mix).\nReturn JSON array.\nOptions MUST be ["True", "False"].` },
+        { text: `Extract 5 key facts from the content and create True/False questions.\nSome should be True, some False (balanced mix).\nReturn JSON array.\nOptions MUST be ["True", "False"].${videoTimestampPrompt(notesContent)}` },
         { text: notesContent.substring(0, 15000) }
       ],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.STRING },
-              text: { type: Type.STRING, description: "Statement that is either True or False" },
-              options: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING },
-                description: "Must be exactly ['True', 'False']"
-              },
-              correctIndex: { type: Type.INTEGER, description: "0 for True, 1 for False" },
-              explanation: { type: Type.STRING }
-            }
+      schema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.STRING },
+            text: { type: Type.STRING, description: "Statement that is either True or False" },
+            options: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING },
+              description: "Must be exactly ['True', 'False']"
+            },
+            correctIndex: { type: Type.INTEGER, description: "0 for True, 1 for False" },
+            explanation: { type: Type.STRING },
+            videoTimestamp: { type: Type.STRING }
           }
         }
       }
-    });
+    }, TrueFalseQuestionSchema, { feature: 'true/false questions' });
 
-    if (!response || !response.text) return [];
-    const data = safeJSONParse<any[]>(response.text, []);
-    return data.map((q, i) => ({
+    return attachVideoTimestamps(items, notesContent.substring(0, 15000)).map((q, i) => ({
       ...q,
       id: `tf_${Date.now()}_${i}`,
       options: ['True', 'False'], // Force standard options
@@ -580,7 +1057,7 @@ export const generateTrueFalseQuiz = async (
     }));
   } catch (e) {
     console.error("TF Quiz Error", e);
-    return [];
+    throw e;
   }
 };
 
@@ -590,7 +1067,7 @@ export const generateRoutine = async (prefs: UserPreferences): Promise<RoutineTa
 };
 
 
-export const generateQuiz = async (note: Note): Promise<Question[]> => {
+export const generateQuiz = async (note: Note, signal?: AbortSignal): Promise<Question[]> => {
   // Try document blocks first (new architecture)
   let textContent = '';
 
@@ -611,15 +1088,14 @@ export const generateQuiz = async (note: Note): Promise<Question[]> => {
     throw new Error('No text content found in note to generate quiz from');
   }
 
-  return generateQuizFromNotes(textContent, 'medium');
+  return generateQuizFromNotes(textContent, 'medium', {}, signal);
 };
 
 
 export const generatePanicDecomposition = async (
-  currentTasks: RoutineTask[]
+  currentTasks: RoutineTask[],
+  signal?: AbortSignal
 ): Promise<RoutineTask[]> => {
-  const ai = getAI();
-
   // Filter only incomplete tasks to process
   const pendingTasks = currentTasks.filter(t => !t.completed && t.type === 'focus');
   if (pendingTasks.length === 0) return [];
@@ -641,42 +1117,39 @@ export const generatePanicDecomposition = async (
     `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_TEXT,
+    const { items: newTasks } = await generateValidatedList({
+      task: 'panic',
+      signal,
       contents: [{ text: prompt }],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.STRING },
-              title: { type: Type.STRING },
-              durationMinutes: { type: Type.NUMBER },
-              type: { type: Type.STRING, enum: ['focus'] },
-              completed: { type: Type.BOOLEAN },
-              confidence: { type: Type.STRING, enum: ['high'] }
-            }
+      schema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.STRING },
+            title: { type: Type.STRING },
+            durationMinutes: { type: Type.NUMBER },
+            type: { type: Type.STRING, enum: ['focus'] },
+            completed: { type: Type.BOOLEAN },
+            confidence: { type: Type.STRING, enum: ['high'] }
           }
         }
-      }
-    });
+      },
+      context: { titles: pendingTasks.map(t => t.title) }
+    }, RoutineTaskSchema, { feature: 'micro-steps' });
 
-    if (!response || !response.text) return [];
-    const newTasks = safeJSONParse<any[]>(response.text, []);
 
     return newTasks.map(t => ({
       ...t,
       id: `panic_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
       completed: false,
-      type: 'focus',
-      confidence: 'high'
+      type: 'focus' as const,
+      confidence: 'high' as const
     }));
 
   } catch (e) {
     console.error("Panic Gen Error", e);
-    return [];
+    throw e;
   }
 };
 
@@ -700,32 +1173,32 @@ export const playAudioBlob = async (base64Audio: string) => {
   }
 }
 
-export const generateReels = async (content: string): Promise<string[]> => {
-  const ai = getAI();
+export const generateReels = async (content: string, cacheOptions: AICacheOptions = {}, signal?: AbortSignal): Promise<string[]> => {
+  const safeContent = content.substring(0, 15000);
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_TEXT,
-      contents: [
-        { text: "Extract exactly 5 engaging, short, standalone learning points (under 50 words each) from this text.\nFocus on 'Did you know?' style facts, key insights, or quick definitions.\nReturn JSON array of strings.\n\nCONTENT:" },
-        { text: content.substring(0, 15000) }
-      ],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
+    const reels = await AICacheService.getOrGenerate<string[]>(
+      { fn: 'generateReels', promptVersion: PROMPT_VERSIONS.generateReels, input: safeContent },
+      cacheOptions,
+      () => getAIProvider().generateJSON<string[]>({
+        task: 'reels',
+        signal,
+        contents: [
+          { text: "Extract exactly 5 engaging, short, standalone learning points (under 50 words each) from this text.\nFocus on 'Did you know?' style facts, key insights, or quick definitions.\nReturn JSON array of strings.\n\nCONTENT:" },
+          { text: safeContent }
+        ],
+        schema: {
           type: Type.ARRAY,
           items: {
             type: Type.STRING
           }
         }
-      }
-    });
-
-    if (!response || !response.text) return [];
+      })
+    );
 
-    const reels = safeJSONParse<string[]>(response.text, []);
     // Enforce exactly 5 if possible, or at least slice if too many. LLM usually obeys schema.
     return Array.isArray(reels) ? reels.slice(0, 5) : [];
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Reel Gen Error:", error);
     return [];
   }
@@ -738,10 +1211,9 @@ export const generateQuizReport = async (
     correctAnswer: number;
     isCorrect: boolean;
     difficulty?: 'easy' | 'medium' | 'hard';
-  }>
+  }>,
+  signal?: AbortSignal
 ): Promise<QuizReport> => {
-  const ai = getAI();
-
   const performanceSummary = attemptedQuestions.map((q, i) =>
     `Q${i + 1} (${q.difficulty || 'medium'}): ${q.question.substring(0, 50)}... - ${q.isCorrect ? 'CORRECT' : 'WRONG'}`
   ).join('\n');
@@ -750,8 +1222,9 @@ export const generateQuizReport = async (
   const difficulties = attemptedQuestions.map(q => q.difficulty || 'medium');
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_TEXT,
+    const report = await generateValidatedObject({
+      task: 'quizReport',
+      signal,
       contents: [
         {
           text: `Analyze this quiz performance and generate a learning report.
@@ -772,37 +1245,26 @@ Make the insights personalized. Look for patterns:
 Reflect these patterns in the suggestions.`
         }
       ],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            overallAccuracy: { type: Type.NUMBER },
-            difficultyProgression: { type: Type.ARRAY, items: { type: Type.STRING, enum: ['easy', 'medium', 'hard'] } },
-            strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-            weaknesses: { type: Type.ARRAY, items: { type: Type.STRING } },
-            suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
-          }
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          overallAccuracy: { type: Type.NUMBER },
+          difficultyProgression: { type: Type.ARRAY, items: { type: Type.STRING, enum: ['easy', 'medium', 'hard'] } },
+          strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+          weaknesses: { type: Type.ARRAY, items: { type: Type.STRING } },
+          suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
         }
-      }
-    });
-
-    if (!response || !response.text) throw new Error("No report generated");
+      },
+      context: { attempts: attemptedQuestions }
+    }, QuizReportSchema, { feature: 'quiz report' });
 
-    const report = safeJSONParse<QuizReport>(response.text, {
-      overallAccuracy: accuracy,
-      difficultyProgression: difficulties,
-      strengths: ["Completed the quiz"],
-      weaknesses: [],
-      suggestions: ["Review the questions you missed."]
-    });
-    
     // Ensure accuracy matches actual calculation if AI drifts
     report.overallAccuracy = accuracy; 
     
     return report;
 
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Report Gen Error:", error);
     return {
       overallAccuracy: accuracy,
@@ -819,9 +1281,9 @@ Reflect these patterns in the suggestions.`
 // Generate Fill in the Blanks Quiz
 export const generateFillInTheBlanksQuiz = async (
   notesContent: string,
-  difficulty: 'easy' | 'medium' | 'hard' = 'medium'
-): Promise<any[]> => {
-  const ai = getAI();
+  difficulty: 'easy' | 'medium' | 'hard' = 'medium',
+  signal?: AbortSignal
+): Promise<FillInTheBlanksQuestion[]> => {
   const safeContent = notesContent.substring(0, 15000);
 
   let conceptPrompt = "";
@@ -834,8 +1296,9 @@ export const generateFillInTheBlanksQuiz = async (
   }
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_TEXT,
+    const { items } = await generateValidatedList({
+      task: 'fillBlanks',
+      signal,
       contents: [
         { 
           text: `Create 5 fill-in-the-blank questions from the content below.
@@ -844,7 +1307,7 @@ ${conceptPrompt}
 For each question:
 1. Replace key terms/concepts with [___] placeholder
 2. Provide multiple acceptable answers (synonyms, variations, different forms)
-3. Include a clear explanation
+3. Include a clear explanation${videoTimestampPrompt(safeContent)}
 
 Example format:
 {
@@ -863,60 +1326,58 @@ CONTENT TO PROCESS:`
         },
         { text: safeContent }
       ],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.STRING },
-              text: { type: Type.STRING, description: "Original question text" },
-              textWithBlanks: { type: Type.STRING, description: "Question with [___] placeholders" },
-              blanks: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    id: { type: Type.STRING },
-                    correctAnswers: { 
-                      type: Type.ARRAY, 
-                      items: { type: Type.STRING },
-                      description: "Multiple acceptable answers including variations"
-                    }
+      schema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.STRING },
+            text: { type: Type.STRING, description: "Original question text" },
+            textWithBlanks: { type: Type.STRING, description: "Question with [___] placeholders" },
+            blanks: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.STRING },
+                  correctAnswers: { 
+                    type: Type.ARRAY, 
+                    items: { type: Type.STRING },
+                    description: "Multiple acceptable answers including variations"
                   }
                 }
-              },
-              explanation: { type: Type.STRING },
-              difficulty: { type: Type.STRING, enum: ['easy', 'medium', 'hard'] }
-            }
+              }
+            },
+            explanation: { type: Type.STRING },
+            difficulty: { type: Type.STRING, enum: ['easy', 'medium', 'hard'] },
+            videoTimestamp: { type: Type.STRING }
           }
         }
-      }
-    });
+      },
+      context: { difficulty }
+    }, FillInTheBlanksQuestionSchema, { feature: 'fill-in-the-blank questions' });
 
-    if (!response || !response.text) return [];
-    
-    const data = safeJSONParse<any[]>(response.text, []);
-    return data.map((q, i) => ({
+    return attachVideoTimestamps(items, safeContent).map((q, i) => ({
       ...q,
       id: q.id || `fb_${Date.now()}_${i}`,
-      mode: 'fillBlanks',
+      text: q.text || q.textWithBlanks,
+      blanks: q.blanks.map((b, j) => ({ ...b, id: b.id || `blank-${j}` })),
+      mode: 'fillBlanks' as const,
       explanation: q.explanation || "No explanation provided",
       difficulty: q.difficulty || difficulty
     }));
   } catch (error) {
     console.error("Fill Blanks Quiz Gen Error:", error);
-    return [];
+    throw error;
   }
 };
 
 // Generate Explain Your Answer Quiz
 export const generateExplainQuiz = async (
   notesContent: string,
-  difficulty: 'easy' | 'medium' | 'hard' = 'medium'
-): Promise<Question[]> => {
-  const ai = getAI();
+  difficulty: 'easy' | 'medium' | 'hard' = 'medium',
+  signal?: AbortSignal
+): Promise<ExplainQuestion[]> => {
   const safeContent = notesContent.substring(0, 15000);
 
   let conceptPrompt = "";
@@ -929,8 +1390,9 @@ export const generateExplainQuiz = async (
   }
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_TEXT,
+    const { items } = await generateValidatedList({
+      task: 'explainQuiz',
+      signal,
       contents: [
         { 
           text: `Create 5 multiple choice questions that require reasoning and explanation.
@@ -942,48 +1404,43 @@ These questions should:
 - Require the student to explain their reasoning
 - Test understanding, not just memorization
 
-Return JSON array with standard MCQ format.
+Return JSON array with standard MCQ format.${videoTimestampPrompt(safeContent)}
 
 CONTENT TO PROCESS:` 
         },
         { text: safeContent }
       ],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.STRING },
-              text: { type: Type.STRING, description: "Question that requires reasoning" },
-              options: { 
-                type: Type.ARRAY, 
-                items: { type: Type.STRING },
-                description: "4 plausible options"
-              },
-              correctIndex: { type: Type.INTEGER, description: "Index of correct answer (0-3)" },
-              explanation: { type: Type.STRING, description: "Detailed explanation of why the answer is correct" },
-              difficulty: { type: Type.STRING, enum: ['easy', 'medium', 'hard'] }
-            }
+      schema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.STRING },
+            text: { type: Type.STRING, description: "Question that requires reasoning" },
+            options: { 
+              type: Type.ARRAY, 
+              items: { type: Type.STRING },
+              description: "4 plausible options"
+            },
+            correctIndex: { type: Type.INTEGER, description: "Index of correct answer (0-3)" },
+            explanation: { type: Type.STRING, description: "Detailed explanation of why the answer is correct" },
+            difficulty: { type: Type.STRING, enum: ['easy', 'medium', 'hard'] },
+            videoTimestamp: { type: Type.STRING }
           }
         }
-      }
-    });
+      },
+      context: { difficulty }
+    }, ExplainQuestionSchema, { feature: 'reasoning questions' });
 
-    if (!response || !response.text) return [];
-    
-    const data = safeJSONParse<any[]>(response.text, []);
-    return data.map((q, i) => ({
+    return attachVideoTimestamps(items, safeContent).map((q, i) => ({
       ...q,
       id: q.id || `ex_${Date.now()}_${i}`,
-      mode: 'explain',
-      explanation: q.explanation || "No explanation provided",
+      mode: 'explain' as const,
       difficulty: q.difficulty || difficulty
     }));
   } catch (error) {
     console.error("Explain Quiz Gen Error:", error);
-    return [];
+    throw error;
   }
 };
 
@@ -992,20 +1449,15 @@ export const evaluateReasoning = async (
   question: string,
   correctAnswer: string,
   userAnswer: string,
-  userExplanation: string
-): Promise<{
-  score: number;
-  feedback: string;
-  strengths: string[];
-  improvements: string[];
-}> => {
-  const ai = getAI();
-
+  userExplanation: string,
+  signal?: AbortSignal
+): Promise<ReasoningEvaluation> => {
   const answerCorrect = userAnswer === correctAnswer;
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_TEXT,
+    return await generateValidatedObject({
+      task: 'reasoning',
+      signal,
       contents: [
         {
           text: `Evaluate this student's reasoning for a quiz question.
@@ -1036,45 +1488,27 @@ Also provide:
 Be encouraging but honest. Even if their answer is wrong, good reasoning should be acknowledged.`
         }
       ],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.INTEGER, description: "1-5 rating of reasoning quality" },
-            feedback: { type: Type.STRING, description: "Overall assessment" },
-            strengths: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING },
-              description: "What the student did well"
-            },
-            improvements: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING },
-              description: "Areas for improvement"
-            }
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          score: { type: Type.INTEGER, description: "1-5 rating of reasoning quality" },
+          feedback: { type: Type.STRING, description: "Overall assessment" },
+          strengths: { 
+            type: Type.ARRAY, 
+            items: { type: Type.STRING },
+            description: "What the student did well"
+          },
+          improvements: { 
+            type: Type.ARRAY, 
+            items: { type: Type.STRING },
+            description: "Areas for improvement"
           }
         }
-      }
-    });
-
-    if (!response || !response.text) {
-      throw new Error("No evaluation generated");
-    }
-
-    const evaluation = safeJSONParse<any>(response.text, {
-      score: 3,
-      feedback: "Could not evaluate reasoning automatically.",
-      strengths: [],
-      improvements: []
-    });
-
-    // Ensure score is within valid range
-    evaluation.score = Math.max(1, Math.min(5, evaluation.score));
-
-    return evaluation;
-
+      },
+      context: { answerCorrect, explanation: userExplanation }
+    }, ReasoningEvaluationSchema, { feature: 'reasoning evaluation' });
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Reasoning Evaluation Error:", error);
     
     // Fallback evaluation
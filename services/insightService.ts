@@ -1,12 +1,6 @@
 import { Note, UserStats, UserPreferences, Quiz } from '../types';
-import { GoogleGenAI, Type } from "@google/genai";
-
-const getAI = () => {
-  const apiKey = (import.meta.env as any).VITE_GEMINI_API_KEY || (process.env as any).VITE_GEMINI_API_KEY;
-  return new GoogleGenAI({ apiKey: apiKey || '' });
-};
-
-const MODEL_TEXT = 'gemini-3-flash-preview';
+import { Type } from "@google/genai";
+import { getAIProvider } from './aiProvider';
 
 export type InsightType = 'analysis' | 'motivation' | 'revision' | 'insight' | 'humor' | 'action';
 export type UserProfile = 'new' | 'consistent' | 'inconsistent' | 'returning';
@@ -166,7 +160,7 @@ const generateAIInsight = async (
   profile: UserProfile,
   topNote: NoteWithPriority | undefined
 ): Promise<{ welcomeMessage: string; mainMessage: string; insightType: InsightType }> => {
-  const ai = getAI();
+  const ai = getAIProvider();
   
   const context = {
     userName: user.name || 'there',
@@ -210,31 +204,31 @@ Guidelines:
 - Reference the specific recommended note if available`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_TEXT,
+    const parsed = await ai.generateJSON<any>({
+      task: 'insight',
       contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            welcomeMessage: { type: Type.STRING },
-            mainMessage: { type: Type.STRING },
-            insightType: { type: Type.STRING, enum: ['analysis', 'motivation', 'revision', 'insight', 'humor', 'action'] },
-          },
-          required: ['welcomeMessage', 'mainMessage', 'insightType'],
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          welcomeMessage: { type: Type.STRING },
+          mainMessage: { type: Type.STRING },
+          insightType: { type: Type.STRING, enum: ['analysis', 'motivation', 'revision', 'insight', 'humor', 'action'] },
         },
+        required: ['welcomeMessage', 'mainMessage', 'insightType'],
+      },
+      context: {
+        userName: context.userName,
+        profile,
+        streak: context.streak,
+        recommendedNoteTitle: context.recommendedNote?.title,
       },
     });
 
-    if (response?.text) {
-      const parsed = JSON.parse(response.text);
-      return {
-        welcomeMessage: parsed.welcomeMessage || 'Welcome!',
-        mainMessage: parsed.mainMessage || 'Ready to learn something new?',
-        insightType: parsed.insightType || 'motivation',
-      };
-    }
+    return {
+      welcomeMessage: parsed.welcomeMessage || 'Welcome!',
+      mainMessage: parsed.mainMessage || 'Ready to learn something new?',
+      insightType: parsed.insightType || 'motivation',
+    };
   } catch (error) {
     console.error('AI insight generation failed:', error);
   }
@@ -314,7 +308,7 @@ export const generateDashboardInsightAsync = async (
   const topNote = prioritizedNotes[0];
   const { label, action } = determineCTA(profile, topNote);
 
-  // Call Gemini AI
+  // Call the configured AI provider
   const aiResult = await generateAIInsight(user, notes, stats, profile, topNote);
 
   const insight: DashboardInsight = {
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { Type } from '@google/genai';
+import { createLocalAIProvider } from './localAIProvider';
+import {
+  arrayOf,
+  MultipleChoiceQuestionSchema,
+  TrueFalseQuestionSchema,
+  FillInTheBlanksQuestionSchema,
+  FlashcardSchema,
+  ClozeTextSchema,
+  ReasoningEvaluationSchema,
+  QuizReportSchema
+} from '../utils/aiSchemas';
+
+const MATERIAL = `# Photosynthesis
+Photosynthesis converts light energy into chemical energy stored in glucose.
+Chlorophyll absorbs mostly red and blue light and reflects green light.
+The light reactions take place in the thylakoid membranes of the chloroplast.
+The Calvin cycle fixes carbon dioxide into sugar in the stroma.
+Oxygen is released as a by-product when water molecules are split.
+Plants use glucose for energy and to build cellulose for their cell walls.`;
+
+const ARRAY = { type: Type.ARRAY };
+const OBJECT = { type: Type.OBJECT };
+
+describe('local AI provider', () => {
+  const provider = createLocalAIProvider();
+
+  it('answers quiz tasks with questions that pass the runtime schemas', async () => {
+    const quiz = await provider.generateJSON({ task: 'quiz', contents: MATERIAL, schema: ARRAY, context: { difficulty: 'hard' } });
+    const questions = arrayOf(MultipleChoiceQuestionSchema, { min: 1 }).validate(quiz);
+    expect(questions.errors).toBeUndefined();
+    expect(questions.value!.every(q => q.difficulty === 'hard')).toBe(true);
+
+    const trueFalse = await provider.generateJSON({ task: 'trueFalse', contents: MATERIAL, schema: ARRAY });
+    expect(arrayOf(TrueFalseQuestionSchema, { min: 1 }).validate(trueFalse).errors).toBeUndefined();
+
+    const blanks = await provider.generateJSON({ task: 'fillBlanks', contents: MATERIAL, schema: ARRAY });
+    expect(arrayOf(FillInTheBlanksQuestionSchema, { min: 1 }).validate(blanks).errors).toBeUndefined();
+  });
+
+  it('answers study tasks with output that passes the runtime schemas', async () => {
+    const cards = await provider.generateJSON({ task: 'flashcards', contents: MATERIAL, schema: ARRAY });
+    expect(arrayOf(FlashcardSchema, { min: 1 }).validate(cards).errors).toBeUndefined();
+
+    const cloze = await provider.generateJSON({ task: 'cloze', contents: MATERIAL, schema: ARRAY });
+    expect(arrayOf(ClozeTextSchema, { min: 1 }).validate(cloze).errors).toBeUndefined();
+
+    const report = await provider.generateJSON({
+      task: 'quizReport',
+      contents: '',
+      schema: OBJECT,
+      context: { attempts: [{ question: 'Where does the Calvin cycle happen?', isCorrect: true }, { question: 'What does chlorophyll reflect?', isCorrect: false }] }
+    });
+    const validReport = QuizReportSchema.validate(report);
+    expect(validReport.errors).toBeUndefined();
+    expect(validReport.value!.overallAccuracy).toBe(50);
+  });
+
+  it('scores fuller explanations higher', async () => {
+    const evaluate = async (explanation: string) => {
+      const evaluation = ReasoningEvaluationSchema.validate(await provider.generateJSON({
+        task: 'reasoning', contents: '', schema: OBJECT, context: { explanation, answerCorrect: true }
+      }));
+      expect(evaluation.errors).toBeUndefined();
+      return evaluation.value!.score;
+    };
+    const brief = await evaluate('Because of light.');
+    const full = await evaluate(MATERIAL.split('\n').slice(1).join(' '));
+    expect(full).toBeGreaterThan(brief);
+  });
+
+  it('gives the same answer to the same request', async () => {
+    const request = { task: 'quiz' as const, contents: MATERIAL, schema: ARRAY };
+    expect(await createLocalAIProvider().generateJSON(request)).toEqual(await provider.generateJSON(request));
+  });
+
+  it('prefers a registered fixture over its rules', async () => {
+    const withFixtures = createLocalAIProvider({ fixtures: { summary: () => 'Fixed summary' } });
+    expect(withFixtures.model).toBe('local-fixtures');
+    expect(await withFixtures.generateText({ task: 'summary', contents: MATERIAL })).toBe('Fixed summary');
+    expect(await provider.generateText({ task: 'summary', contents: MATERIAL })).not.toBe('Fixed summary');
+  });
+
+  it('streams the same text it generates and stops when aborted', async () => {
+    const request = { task: 'summary' as const, contents: MATERIAL };
+    let streamed = '';
+    for await (const chunk of provider.streamText(request)) streamed += chunk;
+    expect(streamed).toBe(await provider.generateText(request));
+
+    const controller = new AbortController();
+    controller.abort();
+    const stream = provider.streamText({ ...request, signal: controller.signal })[Symbol.asyncIterator]();
+    await expect(stream.next()).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('speaks as a short silent WAV', async () => {
+    const audio = await provider.generateSpeech({ text: 'Hello there, welcome to the show.' });
+    expect(Buffer.from(audio!, 'base64').subarray(0, 4).toString('ascii')).toBe('RIFF');
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * Local AI Provider
+ * Deterministic, offline stand-in for the AI. Each task is answered by a fixture
+ * (when one is registered) or by simple rules over the material in the request,
+ * so every AI-powered screen can be developed, demoed and tested without a key or network.
+ */
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
+import type { AIProvider, AIRequest, AIJSONRequest, AISpeechRequest, AITask, AIPart } from './aiProvider';
+import { splitSentences, topSentences, extractKeywords, countWords, hashString, tokenize } from '../utils/textAnalysis';
+import { summarizeExtractive } from '../utils/extractiveSummarizer';
+
+export type LocalFixture = (request: AIRequest) => unknown;
+
+export interface LocalAIProviderOptions {
+  /** Per-task overrides. Return a string for text tasks, or a JSON-compatible value for JSON tasks. */
+  fixtures?: Partial<Record<AITask, LocalFixture>>;
+}
+
+type Difficulty = 'easy' | 'medium' | 'hard';
+
+const STREAM_CHUNK_DELAY_MS = 40;
+
+const joinText = (contents: string | AIPart[]): string => {
+  if (typeof contents === 'string') return contents;
+  return contents
+    .map(part => ('text' in part ? part.text : ''))
+    .filter(Boolean)
+    .join('\n\n');
+};
+
+// By convention the material to work on is the last text part of a request
+const getMaterial = (contents: string | AIPart[]): string => {
+  if (typeof contents === 'string') return contents;
+  const textParts = contents.filter((part): part is { text: string } => 'text' in part);
+  return textParts.length > 0 ? textParts[textParts.length - 1].text : '';
+};
+
+const truncateWords = (text: string, maxWords: number): string => {
+  const words = text.split(/\s+/);
+  return words.length > maxWords ? words.slice(0, maxWords).join(' ') + '...' : text;
+};
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+/**
+ * Finds a keyword that appears in the sentence, so it can be blanked out or swapped
+ */
+const keywordIn = (sentence: string, keywords: string[]): string | null => {
+  const lower = sentence.toLowerCase();
+  return keywords.find(k => new RegExp(`\\b${k}\\b`).test(lower)) || null;
+};
+
+const replaceWord = (sentence: string, word: string, replacement: string): string => {
+  return sentence.replace(new RegExp(`\\b${word}\\b`, 'i'), replacement);
+};
+
+interface ClozeItem {
+  sentence: string;
+  answer: string;
+  distractors: string[];
+}
+
+/**
+ * Builds cloze items from the most important sentences: each hides one keyword
+ * and offers other keywords from the same material as distractors.
+ */
+const buildClozeItems = (material: string, count: number): ClozeItem[] => {
+  const keywords = extractKeywords(material, 24);
+  const items: ClozeItem[] = [];
+
+  for (const sentence of topSentences(material, count * 3)) {
+    if (items.length >= count) break;
+    const answer = keywordIn(sentence, keywords);
+    if (!answer) continue;
+    const distractors = keywords.filter(k => k !== answer).slice(items.length, items.length + 3);
+    while (distractors.length < 3) distractors.push(`option ${distractors.length + 1}`);
+    items.push({ sentence, answer, distractors });
+  }
+  return items;
+};
+
+const toMultipleChoice = (item: ClozeItem, index: number, difficulty: Difficulty, idPrefix: string) => {
+  const correctIndex = index % 4;
+  const options = [...item.distractors];
+  options.splice(correctIndex, 0, item.answer);
+  return {
+    id: `${idPrefix}_${index}`,
+    text: `Which term completes the statement: "${replaceWord(item.sentence, item.answer, '_____')}"`,
+    options,
+    correctIndex,
+    explanation: item.sentence,
+    difficulty
+  };
+};
+
+const silentWav = (durationSeconds: number): string => {
+  const sampleRate = 8000;
+  const samples = Math.floor(sampleRate * durationSeconds);
+  const buffer = new ArrayBuffer(44 + samples * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, s: string) => {
+    for (let i = 0; i < s.length; i++) view.setUint8(offset + i, s.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples * 2, true);
+
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+/**
+ * Produces a placeholder value matching a response schema, for tasks without a dedicated rule
+ */
+const synthesizeFromSchema = (schema: Schema, seed: string): any => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const result: Record<string, any> = {};
+      for (const [key, prop] of Object.entries(schema.properties || {})) {
+        result[key] = synthesizeFromSchema(prop, `${seed}.${key}`);
+      }
+      return result;
+    }
+    case Type.ARRAY:
+      return schema.items ? [0, 1, 2].map(i => synthesizeFromSchema(schema.items!, `${seed}[${i}]`)) : [];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return parseInt(hashString(seed), 36) % 10;
+    case Type.BOOLEAN:
+      return false;
+    case Type.STRING:
+    default:
+      return schema.enum?.length ? schema.enum[0] : `Sample ${seed}`;
+  }
+};
+
+const rules: Partial<Record<AITask, (request: AIRequest) => unknown>> = {
+  summary: ({ contents, context }) => summarizeExtractive(getMaterial(contents), context?.mode || 'short'),
+
+  noteAnalysis: ({ contents }) => {
+    const words = countWords(getMaterial(contents));
+    const difficulty: Difficulty = words > 1500 ? 'hard' : words > 400 ? 'medium' : 'easy';
+    return {
+      difficulty,
+      estimatedMinutes: Math.max(10, Math.round(words / 40 / 5) * 5),
+      cognitiveLoad: difficulty === 'hard' ? 'heavy' : difficulty === 'medium' ? 'medium' : 'light',
+      summary: topSentences(getMaterial(contents), 1)[0] || 'Short study material.'
+    };
+  },
+
+  routine: ({ context }) => {
+    const queue: { title: string; priority: string; estimatedMinutes: number; difficulty: string }[] = context?.queue || [];
+    const budget = (context?.freeTimeHours || 2) * 60;
+    const order = { high: 0, medium: 1, low: 2 } as Record<string, number>;
+    const tasks: any[] = [];
+    let used = 0;
+
+    [...queue].sort((a, b) => (order[a.priority] ?? 1) - (order[b.priority] ?? 1)).forEach((item, i) => {
+      const breakMinutes = item.difficulty === 'hard' ? 15 : 5;
+      if (used + item.estimatedMinutes + breakMinutes > budget) return;
+      tasks.push({ id: `focus_${i}`, title: item.title, durationMinutes: item.estimatedMinutes, type: 'focus', completed: false, confidence: 'medium' });
+      tasks.push({
+        id: `break_${i}`,
+        title: item.difficulty === 'hard' ? 'Procastify Break' : 'Chill Break',
+        durationMinutes: breakMinutes,
+        type: item.difficulty === 'hard' ? 'procastify' : 'break',
+        completed: false,
+        confidence: 'high'
+      });
+      used += item.estimatedMinutes + breakMinutes;
+    });
+    tasks.push({ id: 'buffer', title: 'Buffer', durationMinutes: 15, type: 'buffer', completed: false, confidence: 'high' });
+
+    const scheduled = tasks.filter(t => t.type === 'focus').length;
+    return {
+      tasks,
+      projection: `You'll likely finish ${scheduled} of ${queue.length} queued items today.`,
+      confidence: scheduled === queue.length ? 'high' : 'medium'
+    };
+  },
+
+  panic: ({ context }) => {
+    const titles: string[] = context?.titles || [];
+    const steps = ['Open the material for', 'Read the first paragraph of', 'Write one sentence about'];
+    return titles.flatMap((title, i) => steps.map((step, j) => ({
+      id: `panic_${i}_${j}`,
+      title: `${step} "${title}"`,
+      durationMinutes: 2 + j,
+      type: 'focus',
+      completed: false,
+      confidence: 'high'
+    })));
+  },
+
+  flashcards: ({ contents }) => {
+    const material = getMaterial(contents);
+    const keywords = extractKeywords(material, 24);
+    return topSentences(material, 8).map((sentence, i) => ({
+      id: `card_${i}`,
+      front: capitalize(keywordIn(sentence, keywords) || truncateWords(sentence, 4)),
+      back: sentence,
+      status: 'new'
+    }));
+  },
+
+  cloze: ({ contents }) =>
+    buildClozeItems(getMaterial(contents), 8).map(item => ({
+      // Keeps the word's own capitalisation inside the deletion
+      text: item.sentence.replace(new RegExp(`\\b${item.answer}\\b`, 'i'), word => `{{c1::${word}}}`)
+    })),
+
+  question: ({ contents, context }) => {
+    const items = buildClozeItems(getMaterial(contents), (context?.questionIndex || 0) + 1);
+    const item = items[items.length - 1];
+    if (!item) return {};
+    return toMultipleChoice(item, context?.questionIndex || 0, context?.difficulty || 'medium', 'local_q');
+  },
+
+  quiz: ({ contents, context }) =>
+    buildClozeItems(getMaterial(contents), 5).map((item, i) => toMultipleChoice(item, i, context?.difficulty || 'medium', 'local_q')),
+
+  explainQuiz: ({ contents, context }) =>
+    buildClozeItems(getMaterial(contents), 5).map((item, i) => ({
+      ...toMultipleChoice(item, i, context?.difficulty || 'medium', 'local_ex'),
+      text: `Why is "${item.answer}" important in this statement: "${replaceWord(item.sentence, item.answer, '_____')}"`
+    })),
+
+  trueFalse: ({ contents }) =>
+    buildClozeItems(getMaterial(contents), 5).map((item, i) => {
+      const isTrue = i % 2 === 0;
+      return {
+        id: `local_tf_${i}`,
+        text: isTrue ? item.sentence : replaceWord(item.sentence, item.answer, item.distractors[0]),
+        options: ['True', 'False'],
+        correctIndex: isTrue ? 0 : 1,
+        explanation: item.sentence
+      };
+    }),
+
+  fillBlanks: ({ contents, context }) =>
+    buildClozeItems(getMaterial(contents), 5).map((item, i) => ({
+      id: `local_fb_${i}`,
+      text: item.sentence,
+      textWithBlanks: replaceWord(item.sentence, item.answer, '[___]'),
+      blanks: [{ id: 'blank-0', correctAnswers: [item.answer, capitalize(item.answer)] }],
+      explanation: item.sentence,
+      difficulty: context?.difficulty || 'medium'
+    })),
+
+  quizReport: ({ context }) => {
+    const attempts: { question: string; isCorrect: boolean; difficulty?: Difficulty }[] = context?.attempts || [];
+    const correct = attempts.filter(a => a.isCorrect);
+    const wrong = attempts.filter(a => !a.isCorrect);
+    return {
+      overallAccuracy: attempts.length ? Math.round((correct.length / attempts.length) * 100) : 0,
+      difficultyProgression: attempts.map(a => a.difficulty || 'medium'),
+      strengths: correct.slice(0, 3).map(a => truncateWords(a.question, 8)),
+      weaknesses: wrong.slice(0, 3).map(a => truncateWords(a.question, 8)),
+      suggestions: wrong.length > 0
+        ? ['Review the questions you missed, then retry them tomorrow.']
+        : ['Great work! Try a harder difficulty next time.']
+    };
+  },
+
+  reasoning: ({ context }) => {
+    const words = countWords(context?.explanation || '');
+    const depth = words >= 40 ? 2 : words >= 15 ? 1 : 0;
+    const score = Math.max(1, Math.min(5, 2 + depth + (context?.answerCorrect ? 1 : 0)));
+    return {
+      score,
+      feedback: depth > 0
+        ? 'Your explanation shows your thinking. Keep linking your answer back to the key concept.'
+        : 'Try to explain why your answer is right, not just what it is.',
+      strengths: depth > 0 ? ['Explained the reasoning in your own words'] : [],
+      improvements: depth < 2 ? ['Add an example or piece of evidence to support your answer'] : []
+    };
+  },
+
+  reels: ({ contents }) => topSentences(getMaterial(contents), 5).map(s => truncateWords(s, 50)),
+
+  diagram: ({ contents }) => {
+    const steps = splitSentences(getMaterial(contents), 2).slice(0, 6);
+    return {
+      nodes: steps.map((step, i) => ({
+        id: `${i + 1}`,
+        text: truncateWords(step, 5),
+        type: i === 0 || i === steps.length - 1 ? 'ellipse' : 'rectangle',
+        x: 0,
+        y: i * 150,
+        width: 160,
+        height: 60
+      })),
+      connections: steps.slice(1).map((_, i) => ({ id: `c${i + 1}`, fromNode: `${i + 1}`, toNode: `${i + 2}` }))
+    };
+  },
+
+  insight: ({ context }) => {
+    const name = context?.userName || 'there';
+    const note = context?.recommendedNoteTitle;
+    return {
+      welcomeMessage: context?.streak > 1 ? `${context.streak} days strong, ${name}!` : `Welcome, ${name}!`,
+      mainMessage: note
+        ? `"${note}" is a good next step. A short review now will make it stick.`
+        : 'Create your first note and let Procastify turn it into a study plan.',
+      insightType: note ? 'revision' : 'motivation'
+    };
+  },
+
+  notesChat: ({ context }) => {
+    // Extractive answer: the passage sentences sharing the most words with the question, cited
+    const questionTerms = new Set(tokenize(context?.question || ''));
+    const passages: { index: number; text: string }[] = context?.passages || [];
+    const ranked = passages
+      .flatMap(p => splitSentences(p.text, 3).map(sentence => ({
+        sentence,
+        index: p.index,
+        overlap: tokenize(sentence).filter(t => questionTerms.has(t)).length
+      })))
+      .filter(s => s.overlap > 0)
+      .sort((a, b) => b.overlap - a.overlap || a.index - b.index)
+      .slice(0, 3);
+
+    if (ranked.length === 0) return "Your notes mention related topics, but I couldn't find a direct answer to that question.";
+    return `From your notes:\n\n${ranked.map(r => `- ${r.sentence} [${r.index}]`).join('\n')}`;
+  },
+
+  podcast: ({ contents, context }) => {
+    // One chapter per heading: the host introduces the topic, the expert reads its key sentences
+    const [host, expert] = context?.hosts || ['Host', 'Expert'];
+    const sections = getMaterial(contents).split(/^#{1,6}\s+/m).map(s => s.trim()).filter(Boolean).slice(0, 6);
+    const chapters = sections.map((section, i) => {
+      const [heading, ...rest] = section.split('\n');
+      const body = rest.join('\n').trim() || heading;
+      const title = rest.length > 0 ? truncateWords(heading, 6) : capitalize(extractKeywords(body, 2).join(' and ') || `Part ${i + 1}`);
+      return {
+        title,
+        lines: [
+          { speaker: host, text: i === 0 && context?.part === 1 ? `Welcome! Today we're covering ${title}. Where do we start?` : `Next up: ${title}. What should we know?` },
+          ...topSentences(body, 3).flatMap((sentence, j) => [
+            ...(j > 0 ? [{ speaker: host, text: 'Got it. What else?' }] : []),
+            { speaker: expert, text: truncateWords(sentence, 55) }
+          ])
+        ]
+      };
+    });
+    return { chapters };
+  }
+};
+
+export const createLocalAIProvider = (options: LocalAIProviderOptions = {}): AIProvider => {
+  const resolve = (request: AIRequest): unknown => {
+    const fixture = options.fixtures?.[request.task];
+    if (fixture) return fixture(request);
+    // Rules cannot repair invalid output: hand it back unchanged and let validation drop it
+    if (request.context?.repairOf !== undefined) return request.context.repairOf;
+    return rules[request.task]?.(request);
+  };
+
+  const generateText = async (request: AIRequest): Promise<string> => {
+    const result = resolve(request);
+    if (typeof result === 'string') return result;
+    if (result !== undefined) return JSON.stringify(result);
+    return topSentences(getMaterial(request.contents), 5).join(' ') || truncateWords(joinText(request.contents), 60);
+  };
+
+  return {
+    name: 'local',
+    model: options.fixtures ? 'local-fixtures' : 'local-rules',
+
+    generateText,
+
+    streamText: async function* (request: AIRequest) {
+      const text = await generateText(request);
+      // Line by line with a short pause, so streaming UIs behave as they would against a remote model
+      for (const line of text.split(/(?<=\n)/)) {
+        if (request.signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+        await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+        yield line;
+      }
+    },
+
+    generateJSON: async <T>(request: AIJSONRequest): Promise<T> => {
+      const result = resolve(request);
+      if (result !== undefined) {
+        return (typeof result === 'string' ? JSON.parse(result) : result) as T;
+      }
+      return synthesizeFromSchema(request.schema, request.task) as T;
+    },
+
+    generateSpeech: async ({ text, signal }: AISpeechRequest): Promise<string | null> => {
+      if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+      // Silence roughly as long as the text would take to read, capped to keep payloads small
+      return silentWav(Math.min(5, Math.max(0.5, countWords(text) / 3)));
+    }
+  };
+};
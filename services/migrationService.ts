@@ -3,7 +3,9 @@ import JSZip from 'jszip';
 import * as pdfjsLib from 'pdfjs-dist';
 import { v4 as uuidv4 } from 'uuid';
 import { Block, BlockType } from '../types';
-import { fetchURLContent } from './urlContentService';
+import { fetchURLContent, extractFromHTML } from './urlContentService';
+import { formatTranscript } from '../utils/transcriptChapters';
+import { markdownToBlocks } from '../utils/markdownBlocks';
 
 // Configure PDF.js worker
 try {
@@ -60,26 +62,21 @@ export const MigrationService = {
         const url = content.trim();
         const result = await fetchURLContent(url);
         if (result.success && result.text) {
-            // Process the fetched text
-            return this.processContent(result.text, 'text');
+            // Transcript timestamps become links back to the video in the note
+            const text = result.chapters ? formatTranscript(result.chapters, url) : result.text;
+            return this.processContent(text, 'text');
         } else {
             throw new Error(result.error || "Failed to fetch content from URL.");
         }
     }
 
     if (format === 'html') {
-      return this.parseHtmlToBlocks(content); // Basic parser
+      // Whole pages go through readable extraction first; fragments use the basic parser
+      const article = extractFromHTML(content);
+      if (article.success) return this.processContent(article.text, 'markdown');
+      return this.parseHtmlToBlocks(content);
     }
-    // Assume markdown/text for now
-    return content.split('\n').map(line => {
-      const trimmed = line.trim();
-      if (!trimmed) return null;
-      if (trimmed.startsWith('# ')) return createBlock('h1', trimmed.substring(2));
-      if (trimmed.startsWith('## ')) return createBlock('h2', trimmed.substring(3));
-      if (trimmed.startsWith('### ')) return createBlock('h3', trimmed.substring(4));
-      if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) return createBlock('bullet', trimmed.substring(2));
-      return createBlock('text', trimmed);
-    }).filter(b => b !== null) as Block[];
+    return markdownToBlocks(content);
   },
 
   // --- DOCX Extraction ---
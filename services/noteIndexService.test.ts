@@ -0,0 +1,75 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { NoteIndexService } from './noteIndexService';
+import { Note, Summary } from '../types';
+
+const note = (id: string, title: string, paragraphs: string[]): Note => ({
+  id,
+  userId: 'u1',
+  title,
+  document: {
+    blocks: [
+      { id: `${id}_h`, type: 'h1', content: title },
+      ...paragraphs.map((content, i) => ({ id: `${id}_${i}`, type: 'text' as const, content }))
+    ]
+  },
+  tags: [],
+  folder: 'General',
+  lastModified: 0
+});
+
+const cells = note('cells', 'Cell biology', [
+  'Mitochondria produce ATP through cellular respiration.',
+  'Ribosomes build proteins from amino acids.'
+]);
+const rome = note('rome', 'Roman history', [
+  'Augustus became the first Roman emperor in 27 BC.',
+  'The Senate kept some of its influence under the empire.'
+]);
+const summary: Summary = {
+  id: 's1',
+  userId: 'u1',
+  originalSource: 'Lecture on energy',
+  summaryText: 'Cells store energy as ATP and release it when the phosphate bonds break.',
+  type: 'text',
+  mode: 'short',
+  createdAt: 0
+};
+
+describe('note index', () => {
+  it('ranks the note that matches the query first and points at its section', async () => {
+    await NoteIndexService.indexNoteNow('u1', cells);
+    await NoteIndexService.indexNoteNow('u1', rome);
+
+    const results = await NoteIndexService.search('u1', 'Who was the first Roman emperor?');
+    expect(results[0].sourceId).toBe('rome');
+    expect(results[0]).toMatchObject({ blockId: 'rome_h', label: 'Roman history' });
+    expect(results.every(r => r.sourceId === 'rome')).toBe(true);
+  });
+
+  it('keeps each user to their own notes', async () => {
+    expect(await NoteIndexService.search('u2', 'emperor')).toEqual([]);
+  });
+
+  it('searches summaries alongside notes', async () => {
+    await NoteIndexService.indexSummary('u1', summary);
+    const results = await NoteIndexService.search('u1', 'ATP energy');
+    expect(results.map(r => r.sourceId)).toEqual(expect.arrayContaining(['cells', 's1']));
+    expect(results[0].sourceId).toBe('s1');
+  });
+
+  it('only re-indexes sources that changed, and drops ones that are gone', async () => {
+    const edited = note('cells', 'Cell biology', ['Chloroplasts carry out photosynthesis.']);
+    expect(await NoteIndexService.sync('u1', [edited, rome], [summary])).toBe(1);
+    expect(await NoteIndexService.search('u1', 'ribosomes')).toEqual([]);
+
+    expect(await NoteIndexService.sync('u1', [edited], [])).toBe(2);
+    expect(await NoteIndexService.getStats('u1')).toMatchObject({ sourceCount: 1 });
+  });
+
+  it('forgets a removed note', async () => {
+    await NoteIndexService.removeSource('u1', 'note', 'cells');
+    expect(await NoteIndexService.search('u1', 'photosynthesis')).toEqual([]);
+    expect(await NoteIndexService.getStats('u1')).toEqual({ sourceCount: 0, chunkCount: 0 });
+  });
+});
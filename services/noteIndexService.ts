@@ -0,0 +1,389 @@
+/**
+ * Notes Retrieval Index
+ * Splits the user's notes (block by block) and summary history (section by section) into
+ * chunks, stores them in IndexedDB with their term counts and ranks them against a question
+ * with BM25, so "Ask my notes" can ground answers without sending every note to the AI.
+ * StorageService keeps it current: saving or deleting a note or summary re-indexes it.
+ */
+import { Note, Summary, Block } from '../types';
+import { tokenize, hashString } from '../utils/textAnalysis';
+import { splitTextIntoSections, groupSectionsIntoChunks } from '../utils/textChunker';
+import { stripSourceMarkers } from '../utils/summaryCitations';
+
+const DB_NAME = 'procastify_note_index';
+const DB_VERSION = 1;
+const CHUNK_STORE = 'chunks';
+const SOURCE_STORE = 'sources';
+
+/** Consecutive small blocks are merged until a chunk reaches about this size */
+const TARGET_CHUNK_CHARS = 800;
+/** saveNote runs on every edit; wait for a pause in typing before re-indexing */
+const INDEX_DEBOUNCE_MS = 1500;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export type IndexedSourceType = 'note' | 'summary';
+
+export interface IndexedChunk {
+  id: string;
+  userId: string;
+  sourceKey: string;
+  sourceType: IndexedSourceType;
+  sourceId: string;
+  title: string;
+  /** First block of the chunk, for notes with block documents */
+  blockId?: string;
+  /** Heading the chunk sits under, if any */
+  label?: string;
+  text: string;
+  terms: Record<string, number>;
+  length: number;
+}
+
+interface IndexedSource {
+  key: string;
+  userId: string;
+  sourceType: IndexedSourceType;
+  sourceId: string;
+  signature: string;
+  chunkCount: number;
+  indexedAt: number;
+}
+
+export interface RetrievedChunk extends IndexedChunk {
+  score: number;
+}
+
+export interface NoteIndexStats {
+  sourceCount: number;
+  chunkCount: number;
+}
+
+interface ChunkDraft {
+  text: string;
+  blockId?: string;
+  label?: string;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDB = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+        const chunks = db.createObjectStore(CHUNK_STORE, { keyPath: 'id' });
+        chunks.createIndex('userId', 'userId');
+        chunks.createIndex('sourceKey', 'sourceKey');
+      }
+      if (!db.objectStoreNames.contains(SOURCE_STORE)) {
+        const sources = db.createObjectStore(SOURCE_STORE, { keyPath: 'key' });
+        sources.createIndex('userId', 'userId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('Note index unavailable:', request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const sourceKeyOf = (userId: string, sourceType: IndexedSourceType, sourceId: string) =>
+  `${userId}:${sourceType}:${sourceId}`;
+
+/** Light plural folding so "cells" finds "cell" */
+const normalizeTerm = (term: string) =>
+  term.length > 4 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term;
+
+const termsOf = (text: string): string[] => tokenize(text).map(normalizeTerm);
+
+const stripMarkup = (text: string) =>
+  text
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const isHeading = (block: Block) => block.type === 'h1' || block.type === 'h2' || block.type === 'h3';
+
+/**
+ * Groups a note's blocks into chunks. A heading starts a new chunk and labels the ones under it.
+ */
+const chunkNote = (note: Note): ChunkDraft[] => {
+  const blocks = note.document?.blocks || [];
+  const drafts: ChunkDraft[] = [];
+
+  if (blocks.length === 0) {
+    const legacy = (note.elements || [])
+      .filter(el => el.type === 'text' && el.content)
+      .map(el => stripMarkup(el.content))
+      .join('\n\n');
+    return legacy ? [{ text: legacy }] : [];
+  }
+
+  let label: string | undefined;
+  let current: ChunkDraft | null = null;
+
+  const flush = () => {
+    if (current?.text) drafts.push(current);
+    current = null;
+  };
+
+  for (const block of blocks) {
+    const text = stripMarkup(block.content || '');
+    if (!text) continue;
+
+    if (isHeading(block)) {
+      flush();
+      label = text.substring(0, 80);
+    }
+
+    if (current && current.text.length + text.length > TARGET_CHUNK_CHARS) flush();
+    if (!current) current = { text: '', blockId: block.id, label };
+    current.text = current.text ? `${current.text}\n${text}` : text;
+  }
+  flush();
+
+  return drafts;
+};
+
+const chunkSummary = (summary: Summary): ChunkDraft[] =>
+  groupSectionsIntoChunks(splitTextIntoSections(stripSourceMarkers(summary.summaryText || ''), 'Summary'), TARGET_CHUNK_CHARS)
+    .map(chunk => ({ text: chunk.text, label: chunk.sections[0]?.label }));
+
+const summaryTitle = (summary: Summary) => {
+  const source = summary.originalSource?.trim() || 'Summary';
+  return `Summary: ${source.length > 60 ? source.substring(0, 60) + '…' : source}`;
+};
+
+const buildChunks = (
+  userId: string,
+  sourceType: IndexedSourceType,
+  sourceId: string,
+  title: string,
+  drafts: ChunkDraft[]
+): IndexedChunk[] => {
+  const sourceKey = sourceKeyOf(userId, sourceType, sourceId);
+  const titleTerms = termsOf(title);
+
+  return drafts.map((draft, n) => {
+    const terms: Record<string, number> = {};
+    const tokens = [...titleTerms, ...termsOf(draft.label || ''), ...termsOf(draft.text)];
+    tokens.forEach(t => { terms[t] = (terms[t] || 0) + 1; });
+    return {
+      id: `${sourceKey}:${n}`,
+      userId,
+      sourceKey,
+      sourceType,
+      sourceId,
+      title,
+      ...(draft.blockId ? { blockId: draft.blockId } : {}),
+      ...(draft.label ? { label: draft.label } : {}),
+      text: draft.text,
+      terms,
+      length: tokens.length
+    };
+  });
+};
+
+// Chunks of the last searched user, dropped whenever that user's index changes
+let chunkCache: { userId: string; chunks: IndexedChunk[] } | null = null;
+const pendingNotes = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Replaces the stored chunks of one source. Skips the write when the content is unchanged.
+ */
+const writeSource = async (
+  userId: string,
+  sourceType: IndexedSourceType,
+  sourceId: string,
+  title: string,
+  drafts: ChunkDraft[]
+): Promise<boolean> => {
+  const db = await openDB();
+  if (!db) return false;
+
+  const key = sourceKeyOf(userId, sourceType, sourceId);
+  const signature = hashString(title + '\u0000' + drafts.map(d => `${d.blockId || ''}:${d.text}`).join('\u0000'));
+
+  const tx = db.transaction([CHUNK_STORE, SOURCE_STORE], 'readwrite');
+  const sources = tx.objectStore(SOURCE_STORE);
+  const existing: IndexedSource | undefined = await promisify(sources.get(key));
+  if (existing?.signature === signature) return false;
+
+  const chunks = tx.objectStore(CHUNK_STORE);
+  const oldKeys = await promisify(chunks.index('sourceKey').getAllKeys(key));
+  oldKeys.forEach(k => chunks.delete(k));
+
+  const fresh = buildChunks(userId, sourceType, sourceId, title, drafts);
+  fresh.forEach(chunk => chunks.put(chunk));
+  await promisify(sources.put({ key, userId, sourceType, sourceId, signature, chunkCount: fresh.length, indexedAt: Date.now() } as IndexedSource));
+
+  if (chunkCache?.userId === userId) chunkCache = null;
+  return true;
+};
+
+const loadChunks = async (userId: string): Promise<IndexedChunk[]> => {
+  if (chunkCache?.userId === userId) return chunkCache.chunks;
+  const db = await openDB();
+  if (!db) return [];
+  const chunks: IndexedChunk[] = await promisify(
+    db.transaction(CHUNK_STORE, 'readonly').objectStore(CHUNK_STORE).index('userId').getAll(userId)
+  );
+  chunkCache = { userId, chunks };
+  return chunks;
+};
+
+export const NoteIndexService = {
+
+  indexNoteNow: async (userId: string, note: Note): Promise<void> => {
+    try {
+      await writeSource(userId, 'note', note.id, note.title || 'Untitled note', chunkNote(note));
+    } catch (error) {
+      console.warn('Failed to index note:', error);
+    }
+  },
+
+  /**
+   * Re-indexes a note once edits to it pause. Called from StorageService.saveNote.
+   */
+  indexNote: (userId: string, note: Note): void => {
+    const key = sourceKeyOf(userId, 'note', note.id);
+    const pending = pendingNotes.get(key);
+    if (pending) clearTimeout(pending);
+    pendingNotes.set(key, setTimeout(() => {
+      pendingNotes.delete(key);
+      NoteIndexService.indexNoteNow(userId, note);
+    }, INDEX_DEBOUNCE_MS));
+  },
+
+  indexSummary: async (userId: string, summary: Summary): Promise<void> => {
+    try {
+      await writeSource(userId, 'summary', summary.id, summaryTitle(summary), chunkSummary(summary));
+    } catch (error) {
+      console.warn('Failed to index summary:', error);
+    }
+  },
+
+  removeSource: async (userId: string, sourceType: IndexedSourceType, sourceId: string): Promise<void> => {
+    const key = sourceKeyOf(userId, sourceType, sourceId);
+    const pending = pendingNotes.get(key);
+    if (pending) {
+      clearTimeout(pending);
+      pendingNotes.delete(key);
+    }
+
+    const db = await openDB();
+    if (!db) return;
+    try {
+      const tx = db.transaction([CHUNK_STORE, SOURCE_STORE], 'readwrite');
+      const chunks = tx.objectStore(CHUNK_STORE);
+      const keys = await promisify(chunks.index('sourceKey').getAllKeys(key));
+      keys.forEach(k => chunks.delete(k));
+      tx.objectStore(SOURCE_STORE).delete(key);
+      if (chunkCache?.userId === userId) chunkCache = null;
+    } catch (error) {
+      console.warn('Failed to remove from note index:', error);
+    }
+  },
+
+  /**
+   * Brings the index in line with the given notes and summaries: new or changed ones are
+   * (re-)indexed, ones that no longer exist are removed. Returns how many sources changed.
+   */
+  sync: async (userId: string, notes: Note[], summaries: Summary[]): Promise<number> => {
+    const db = await openDB();
+    if (!db) return 0;
+
+    let changed = 0;
+    const live = new Set<string>();
+
+    for (const note of notes) {
+      live.add(sourceKeyOf(userId, 'note', note.id));
+      if (await writeSource(userId, 'note', note.id, note.title || 'Untitled note', chunkNote(note))) changed++;
+    }
+    for (const summary of summaries) {
+      live.add(sourceKeyOf(userId, 'summary', summary.id));
+      if (await writeSource(userId, 'summary', summary.id, summaryTitle(summary), chunkSummary(summary))) changed++;
+    }
+
+    const indexed: IndexedSource[] = await promisify(
+      db.transaction(SOURCE_STORE, 'readonly').objectStore(SOURCE_STORE).index('userId').getAll(userId)
+    );
+    for (const source of indexed.filter(s => !live.has(s.key))) {
+      await NoteIndexService.removeSource(userId, source.sourceType, source.sourceId);
+      changed++;
+    }
+
+    return changed;
+  },
+
+  /**
+   * Best matching chunks for the query, highest BM25 score first
+   */
+  search: async (userId: string, query: string, limit: number = 6): Promise<RetrievedChunk[]> => {
+    const queryTerms = [...new Set(termsOf(query))];
+    if (queryTerms.length === 0) return [];
+
+    const chunks = await loadChunks(userId);
+    if (chunks.length === 0) return [];
+
+    const avgLength = chunks.reduce((sum, c) => sum + c.length, 0) / chunks.length || 1;
+    const idf = new Map(queryTerms.map(term => {
+      const df = chunks.filter(c => c.terms[term]).length;
+      return [term, Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5))];
+    }));
+
+    return chunks
+      .map(chunk => {
+        const score = queryTerms.reduce((sum, term) => {
+          const tf = chunk.terms[term] || 0;
+          if (!tf) return sum;
+          const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (chunk.length / avgLength));
+          return sum + (idf.get(term) || 0) * (tf * (BM25_K1 + 1)) / norm;
+        }, 0);
+        return { ...chunk, score };
+      })
+      .filter(c => c.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  },
+
+  getStats: async (userId: string): Promise<NoteIndexStats> => {
+    const db = await openDB();
+    if (!db) return { sourceCount: 0, chunkCount: 0 };
+    try {
+      const tx = db.transaction([CHUNK_STORE, SOURCE_STORE], 'readonly');
+      const [sourceCount, chunkCount] = await Promise.all([
+        promisify(tx.objectStore(SOURCE_STORE).index('userId').count(userId)),
+        promisify(tx.objectStore(CHUNK_STORE).index('userId').count(userId))
+      ]);
+      return { sourceCount, chunkCount };
+    } catch (error) {
+      console.warn('Failed to read note index stats:', error);
+      return { sourceCount: 0, chunkCount: 0 };
+    }
+  }
+};
@@ -0,0 +1,294 @@
+/**
+ * Study podcasts
+ * Turns a summary or note into a dialogue between two hosts and reads it with two voices.
+ * Long content is scripted in parts, the script is spoken in short chunks (each chapter
+ * starting a new one, so chapter times are exact) and the clips are joined into one WAV
+ * file. Episode details travel with the Summary; the audio is too large for the synced
+ * records, so it is kept in IndexedDB on this device.
+ */
+import { Type } from "@google/genai";
+import { v4 as uuidv4 } from 'uuid';
+import { PodcastChapter, PodcastEpisode, PodcastLine } from '../types';
+import { getAIProvider } from './aiProvider';
+import { AICacheService, AICacheOptions } from './aiCacheService';
+import { generateValidatedObject } from './aiValidationService';
+import { throwIfAborted } from './aiResilience';
+import { AIUsageService } from './aiUsageService';
+import { sanitizeContent } from './validation';
+import { StorageService } from './storageService';
+import logger, { APIError } from './securityLogger';
+import { object, arrayOf, str, oneOf, RuntimeSchema } from '../utils/aiSchemas';
+import { splitTextIntoSections, groupSectionsIntoChunks } from '../utils/textChunker';
+import { decodeSpeechAudio, concatenatePcm, encodeWav, pcmDuration, PcmAudio } from '../utils/wavAudio';
+
+export const PODCAST_HOSTS = [
+  { name: 'Alex', voice: 'Puck', role: 'the curious host, who asks questions, sums up and keeps things moving' },
+  { name: 'Sam', voice: 'Kore', role: 'the expert, who explains the material with examples' }
+] as const;
+
+const HOST_NAMES = PODCAST_HOSTS.map(h => h.name);
+
+const PROMPT_VERSION = 1;
+const MAX_CONTENT_CHARS = 60000;
+// Content is scripted in parts of this size, so long notes do not get squeezed into a few lines
+const SCRIPT_PART_CHARS = 10000;
+const TTS_CHUNK_CHARS = 1500;
+const PAUSE_SECONDS = 0.35;
+
+interface PodcastScript {
+  chapters: { title: string; lines: PodcastLine[] }[];
+}
+
+const PodcastScriptSchema: RuntimeSchema<PodcastScript> = object<PodcastScript>({
+  chapters: arrayOf(object<PodcastScript['chapters'][number]>({
+    title: str(),
+    lines: arrayOf(object<PodcastLine>({
+      speaker: oneOf(HOST_NAMES),
+      text: str()
+    }), { min: 1 })
+  }), { min: 1 })
+});
+
+export interface PodcastProgress {
+  stage: 'script' | 'audio';
+  completed: number;
+  total: number;
+}
+
+interface PodcastOptions extends AICacheOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: PodcastProgress) => void;
+}
+
+const scriptPrompt = (part: number, parts: number) => `Write a study podcast episode as a natural conversation between two hosts:
+${PODCAST_HOSTS.map(h => `- ${h.name}: ${h.role}`).join('\n')}
+
+Cover every important idea in the content below, accurately and in plain language. Group the conversation into chapters of 4-12 turns, one per topic, each with a short title.
+${parts > 1 ? `The content is part ${part} of ${parts} of the material. ${part === 1 ? 'Open the episode with a short welcome.' : 'Continue the conversation without greeting again.'} ${part === parts ? 'End with a quick recap.' : 'Do not wrap up yet.'}` : 'Open with a short welcome and end with a quick recap.'}
+Keep each turn under 60 words. Do not use markdown, stage directions or sound effects.
+
+CONTENT:`;
+
+const scriptResponseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    chapters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          lines: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                speaker: { type: Type.STRING, enum: [...HOST_NAMES] },
+                text: { type: Type.STRING }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * The dialogue for the content, scripted part by part for long content.
+ * Its requests are metered as part of the episode, see createPodcast.
+ */
+export const generatePodcastScript = async (content: string, options: PodcastOptions = {}): Promise<PodcastScript> => {
+  const { signal, onProgress, ...cacheOptions } = options;
+  const safeContent = sanitizeContent(content, MAX_CONTENT_CHARS);
+  if (!safeContent.trim()) throw new APIError('There is no content to turn into a podcast', 400);
+
+  return AICacheService.getOrGenerate<PodcastScript>(
+    { fn: 'generatePodcastScript', promptVersion: PROMPT_VERSION, input: safeContent },
+    cacheOptions,
+    async () => {
+      const parts = groupSectionsIntoChunks(splitTextIntoSections(safeContent, 'Podcast'), SCRIPT_PART_CHARS);
+      const chapters: PodcastScript['chapters'] = [];
+
+      for (let i = 0; i < parts.length; i++) {
+        throwIfAborted(signal);
+        onProgress?.({ stage: 'script', completed: i, total: parts.length });
+        const script = await generateValidatedObject({
+          task: 'podcast',
+          signal,
+          quotaChecked: true,
+          contents: [{ text: scriptPrompt(i + 1, parts.length) }, { text: parts[i].text }],
+          schema: scriptResponseSchema,
+          context: { part: i + 1, parts: parts.length, hosts: HOST_NAMES }
+        }, PodcastScriptSchema, { feature: 'podcast script' });
+        chapters.push(...script.chapters);
+      }
+      return { chapters };
+    }
+  );
+};
+
+/**
+ * Splits a chapter's turns into pieces short enough for one speech request
+ */
+const chunkLines = (lines: PodcastLine[]): PodcastLine[][] => {
+  const chunks: PodcastLine[][] = [];
+  let current: PodcastLine[] = [];
+  let size = 0;
+  for (const line of lines) {
+    if (current.length > 0 && size + line.text.length > TTS_CHUNK_CHARS) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(line);
+    size += line.text.length + line.speaker.length + 2;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+};
+
+const speechText = (lines: PodcastLine[]) =>
+  `Read this study podcast conversation between ${HOST_NAMES.join(' and ')} in a warm, lively tone:\n` +
+  lines.map(line => `${line.speaker}: ${line.text}`).join('\n');
+
+/**
+ * Speaks the script and joins the pieces into one WAV file.
+ * Its requests are metered as part of the episode, see createPodcast.
+ */
+export const renderPodcast = async (
+  script: PodcastScript,
+  title: string,
+  options: PodcastOptions = {}
+): Promise<{ episode: PodcastEpisode; audio: Blob }> => {
+  const { signal, onProgress } = options;
+  const pieces = script.chapters.flatMap((chapter, chapterIndex) =>
+    chunkLines(chapter.lines).map(lines => ({ chapterIndex, lines }))
+  );
+
+  const clips: PcmAudio[] = [];
+  for (let i = 0; i < pieces.length; i++) {
+    throwIfAborted(signal);
+    onProgress?.({ stage: 'audio', completed: i, total: pieces.length });
+    const audio = await getAIProvider().generateSpeech({
+      task: 'podcast',
+      quotaChecked: true,
+      signal,
+      text: speechText(pieces[i].lines),
+      speakers: PODCAST_HOSTS.map(h => ({ name: h.name, voice: h.voice }))
+    });
+    if (!audio) throw new APIError('The AI returned no audio for the podcast', 502);
+    clips.push(decodeSpeechAudio(audio));
+  }
+  throwIfAborted(signal);
+  onProgress?.({ stage: 'audio', completed: pieces.length, total: pieces.length });
+
+  const { audio, starts } = concatenatePcm(clips, PAUSE_SECONDS);
+  const chapters: PodcastChapter[] = script.chapters.map((chapter, chapterIndex) => ({
+    title: chapter.title,
+    start: starts[pieces.findIndex(piece => piece.chapterIndex === chapterIndex)] ?? 0,
+    lines: chapter.lines
+  }));
+
+  const episode: PodcastEpisode = {
+    id: uuidv4(),
+    title,
+    duration: pcmDuration(audio),
+    hosts: [...HOST_NAMES],
+    chapters,
+    createdAt: Date.now()
+  };
+  logger.log(`Podcast rendered`, 'API', 'INFO' as any, { chapters: chapters.length, pieces: pieces.length, seconds: Math.round(episode.duration) });
+  return { episode, audio: new Blob([encodeWav(audio)], { type: 'audio/wav' }) };
+};
+
+/**
+ * Scripts and speaks a podcast episode for the content.
+ * The episode counts as one podcast call: the quota is checked before anything is generated,
+ * so a render is never stopped halfway by the limit, and the call is recorded once it is done.
+ */
+export const createPodcast = async (
+  content: string,
+  title: string,
+  options: PodcastOptions = {}
+): Promise<{ episode: PodcastEpisode; audio: Blob }> => {
+  // Like every other call to it, an episode from the local provider is not metered
+  const metered = getAIProvider().name !== 'local';
+  if (metered) await AIUsageService.checkQuota('podcast');
+  const script = await generatePodcastScript(content, options);
+  const result = await renderPodcast(script, title, options);
+  if (metered) await AIUsageService.record('podcast', 0, 0);
+  return result;
+};
+
+// --- Audio store ---
+
+const DB_NAME = 'procastify_podcasts';
+const DB_VERSION = 1;
+const AUDIO_STORE = 'audio';
+
+interface StoredPodcastAudio {
+  id: string;
+  userId: string;
+  audio: Blob;
+  savedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDB = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+        db.createObjectStore(AUDIO_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('Podcast store unavailable:', request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const PodcastAudioStore = {
+  save: async (episodeId: string, audio: Blob): Promise<boolean> => {
+    const db = await openDB();
+    if (!db) return false;
+    const record: StoredPodcastAudio = { id: episodeId, userId: StorageService.currentUserId || '', audio, savedAt: Date.now() };
+    await runRequest(db.transaction(AUDIO_STORE, 'readwrite').objectStore(AUDIO_STORE).put(record));
+    return true;
+  },
+
+  /** Null when the audio was made on another device or the store was cleared */
+  load: async (episodeId: string): Promise<Blob | null> => {
+    const db = await openDB();
+    if (!db) return null;
+    const record = await runRequest<StoredPodcastAudio | undefined>(
+      db.transaction(AUDIO_STORE, 'readonly').objectStore(AUDIO_STORE).get(episodeId)
+    );
+    return record && record.userId === (StorageService.currentUserId || '') ? record.audio : null;
+  },
+
+  remove: async (episodeId: string): Promise<void> => {
+    const db = await openDB();
+    if (!db) return;
+    await runRequest(db.transaction(AUDIO_STORE, 'readwrite').objectStore(AUDIO_STORE).delete(episodeId));
+  }
+};
@@ -0,0 +1,197 @@
+/**
+ * Question bank
+ * Keeps every generated quiz question, filed under the note it was drawn from, together with
+ * the history of attempts at it. Accuracy is followed per question and per note (the topic),
+ * and the questions last answered wrong can be asked again without generating new ones.
+ * A question is identified by its note, mode and wording, so a set served again from the AI
+ * cache lands on the same entries and keeps their history.
+ */
+import { BankedQuestion, BankQuestion, FillInTheBlanksQuestion, QuestionAttempt, QuizModeType } from '../types';
+import { StorageService } from './storageService';
+import { hashString, tokenize } from '../utils/textAnalysis';
+
+export interface BankSource {
+  noteId: string;
+  title: string;
+  text: string;
+}
+
+export interface QuestionStats {
+  attempts: number;
+  correct: number;
+  /** Share of attempts answered correctly, null before the first attempt */
+  accuracy: number | null;
+  averageTimeMs: number | null;
+  lastAnsweredAt?: number;
+  lastCorrect?: boolean;
+}
+
+export interface TopicStats extends QuestionStats {
+  noteId: string;
+  topic: string;
+  questions: number;
+  /** Questions whose latest attempt was wrong */
+  missed: number;
+}
+
+const isFillQuestion = (question: BankQuestion): question is FillInTheBlanksQuestion =>
+  question.mode === 'fillBlanks' && 'blanks' in question;
+
+/**
+ * The question's wording with its answer, as compared against the notes
+ */
+const questionText = (question: BankQuestion): string => isFillQuestion(question)
+  ? `${question.textWithBlanks} ${question.blanks.map(b => b.correctAnswers.join(' ')).join(' ')} ${question.explanation}`
+  : `${question.text} ${question.options[question.correctIndex] || ''} ${question.explanation}`;
+
+export const bankedQuestionId = (noteId: string, mode: QuizModeType, question: BankQuestion): string => {
+  const wording = isFillQuestion(question) ? question.textWithBlanks : question.text;
+  return `qb_${hashString(`${noteId}|${mode}|${wording.trim().toLowerCase()}`)}`;
+};
+
+/**
+ * The note a question was most likely drawn from, when it was generated from several at once.
+ * Shared words are weighted by how few of the notes contain them, so common vocabulary does not
+ * favour the longest note. Ties go to the first note.
+ */
+export const attributeQuestion = (question: BankQuestion, sources: BankSource[]): BankSource => {
+  if (sources.length === 1) return sources[0];
+
+  const vocabularies = sources.map(source => new Set(tokenize(`${source.title} ${source.text}`)));
+  const words = new Set(tokenize(questionText(question)));
+
+  let best = sources[0];
+  let bestScore = 0;
+  sources.forEach((source, i) => {
+    let score = 0;
+    words.forEach(word => {
+      if (!vocabularies[i].has(word)) return;
+      const containing = vocabularies.filter(vocabulary => vocabulary.has(word)).length;
+      score += Math.log(1 + sources.length / containing);
+    });
+    if (score > bestScore) {
+      best = source;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const summarize = (attempts: QuestionAttempt[]): QuestionStats => {
+  const correct = attempts.filter(a => a.correct).length;
+  const last = attempts[attempts.length - 1];
+  return {
+    attempts: attempts.length,
+    correct,
+    accuracy: attempts.length > 0 ? correct / attempts.length : null,
+    averageTimeMs: attempts.length > 0
+      ? attempts.reduce((sum, a) => sum + a.timeSpentMs, 0) / attempts.length
+      : null,
+    lastAnsweredAt: last?.answeredAt,
+    lastCorrect: last?.correct
+  };
+};
+
+export const questionStats = (entry: BankedQuestion): QuestionStats => summarize(entry.attempts);
+
+/** Whether the latest attempt at the question was wrong */
+export const isMissed = (entry: BankedQuestion): boolean =>
+  entry.attempts.length > 0 && !entry.attempts[entry.attempts.length - 1].correct;
+
+/**
+ * Accuracy per note, over every attempt at the note's questions, weakest first.
+ * Notes without any attempt come last.
+ */
+export const topicStats = (entries: BankedQuestion[]): TopicStats[] => {
+  const byNote = new Map<string, BankedQuestion[]>();
+  entries.forEach(entry => byNote.set(entry.noteId, [...(byNote.get(entry.noteId) || []), entry]));
+
+  return [...byNote.entries()]
+    .map(([noteId, questions]) => {
+      const attempts = questions
+        .flatMap(q => q.attempts)
+        .sort((a, b) => a.answeredAt - b.answeredAt);
+      const latest = questions.reduce((a, b) => (b.createdAt > a.createdAt ? b : a));
+      return {
+        ...summarize(attempts),
+        noteId,
+        topic: latest.topic,
+        questions: questions.length,
+        missed: questions.filter(isMissed).length
+      };
+    })
+    .sort((a, b) => (a.accuracy ?? 2) - (b.accuracy ?? 2));
+};
+
+/**
+ * Questions of the mode whose latest attempt was wrong, optionally only from some notes.
+ * The lowest overall accuracy comes first, then the longest unseen.
+ */
+export const missedQuestions = (entries: BankedQuestion[], mode: QuizModeType, noteIds?: string[]): BankedQuestion[] => {
+  const notes = noteIds && noteIds.length > 0 ? new Set(noteIds) : null;
+  return entries
+    .filter(entry => entry.mode === mode && isMissed(entry) && (!notes || notes.has(entry.noteId)))
+    .map(entry => ({ entry, stats: questionStats(entry) }))
+    .sort((a, b) =>
+      (a.stats.accuracy ?? 0) - (b.stats.accuracy ?? 0) ||
+      (a.stats.lastAnsweredAt ?? 0) - (b.stats.lastAnsweredAt ?? 0))
+    .map(({ entry }) => entry);
+};
+
+export const QuestionBankService = {
+  getBank: async (): Promise<BankedQuestion[]> => {
+    return StorageService.getQuestionBank();
+  },
+
+  /**
+   * Files freshly generated questions under their notes and returns their bank entries, in
+   * order and without duplicates. Questions already in the bank keep their history.
+   * The entries' questions carry the bank ids, so attempts can be recorded against them.
+   */
+  bankQuestions: async (
+    userId: string,
+    questions: BankQuestion[],
+    mode: QuizModeType,
+    sources: BankSource[],
+    now = Date.now()
+  ): Promise<BankedQuestion[]> => {
+    if (sources.length === 0) return [];
+    const bank = new Map<string, BankedQuestion>((await StorageService.getQuestionBank()).map(entry => [entry.id, entry]));
+
+    const entries: BankedQuestion[] = [];
+    const added: BankedQuestion[] = [];
+    questions.forEach(question => {
+      const source = attributeQuestion(question, sources);
+      const id = bankedQuestionId(source.noteId, mode, question);
+      if (entries.some(entry => entry.id === id)) return;
+
+      const existing = bank.get(id);
+      if (existing) {
+        entries.push(existing);
+        return;
+      }
+      const entry: BankedQuestion = {
+        id,
+        userId,
+        noteId: source.noteId,
+        topic: source.title,
+        mode,
+        question: { ...question, id, mode } as BankQuestion,
+        createdAt: now,
+        attempts: []
+      };
+      entries.push(entry);
+      added.push(entry);
+    });
+
+    if (added.length > 0) await StorageService.saveBankedQuestions(added);
+    return entries;
+  },
+
+  /** Appends the attempt to the question's history, saves it and returns the updated entry */
+  recordAttempt: async (entry: BankedQuestion, attempt: QuestionAttempt): Promise<BankedQuestion> => {
+    const next = { ...entry, attempts: [...entry.attempts, attempt] };
+    await StorageService.saveBankedQuestion(next);
+    return next;
+  }
+};
@@ -0,0 +1,195 @@
+/**
+ * Flashcard reviews
+ * Gathers the cards from every deck, every summary's flashcards and every flashcard deck on a
+ * note's canvas, builds the day's review queue from their schedules and keeps the review history
+ * for retention statistics. Schedules are stored per card through StorageService, apart
+ * from the cards themselves, so a card that is both in a summary and on a canvas is
+ * reviewed once; a deck's copy of the card, which may have been edited, takes precedence.
+ */
+import { CardSchedule, CardSource, Note, OcclusionSource, ReviewGrade, Summary } from '../types';
+import { StorageService } from './storageService';
+import { generateSummaryTitle } from '../utils/summaryUtils';
+import { createSchedule, gradeCard, startOfDay, endOfDay, DAY, MATURE_INTERVAL } from '../utils/spacedRepetition';
+
+export interface ReviewCard {
+  id: string;
+  front: string;
+  back: string;
+  source: CardSource;
+  sourceTitle: string;
+  occlusion?: OcclusionSource;
+}
+
+export interface ReviewQueue {
+  cards: ReviewCard[];
+  counts: { new: number; learning: number; review: number };
+}
+
+export interface ReviewStats {
+  total: number;
+  new: number;
+  learning: number;
+  young: number;
+  mature: number;
+  dueToday: number;
+  reviewedToday: number;
+  /** Share of reviews of graduated cards in the last 30 days not graded Again, null without reviews */
+  retention: number | null;
+  retentionReviews: number;
+  /** Review cards due on each of the next days, starting tomorrow */
+  forecast: { date: number; due: number }[];
+}
+
+export const NEW_CARDS_PER_DAY = 20;
+// Learning cards due this soon are shown early once nothing else is left
+const LEARN_AHEAD_MS = 20 * 60 * 1000;
+const RETENTION_WINDOW_DAYS = 30;
+const FORECAST_DAYS = 7;
+
+const isLearning = (schedule?: CardSchedule) =>
+  schedule?.state === 'learning' || schedule?.state === 'relearning';
+
+/**
+ * Every flashcard in the decks, the summaries and on the notes' canvases, once per card id
+ */
+export const collectReviewCards = async (summaries: Summary[], notes: Note[]): Promise<ReviewCard[]> => {
+  const cards: ReviewCard[] = [];
+  const seen = new Set<string>();
+  const add = (card: ReviewCard) => {
+    if (seen.has(card.id) || !card.front?.trim()) return;
+    seen.add(card.id);
+    cards.push(card);
+  };
+
+  const decks = await StorageService.getDecks();
+  decks.forEach(deck => deck.cards.forEach(card => add({
+    id: card.id,
+    front: card.front,
+    back: card.back,
+    source: { kind: 'deck', deckId: deck.id },
+    sourceTitle: deck.name,
+    occlusion: card.occlusion
+  })));
+
+  summaries.forEach(summary => {
+    const title = generateSummaryTitle(summary);
+    summary.flashcards?.forEach(card => add({
+      id: card.id,
+      front: card.front,
+      back: card.back,
+      source: { kind: 'summary', summaryId: summary.id },
+      sourceTitle: title
+    }));
+  });
+
+  const canvases = await Promise.all(notes.map(note => StorageService.getCanvasElements(note.id).catch(() => [])));
+  notes.forEach((note, i) => {
+    canvases[i]
+      .filter((shape: any) => shape?.type === 'flashcard_deck' && Array.isArray(shape.cards))
+      .forEach((deck: any) => deck.cards.forEach((card: any) => add({
+        id: card.id,
+        front: card.front,
+        back: card.back,
+        source: { kind: 'canvas', noteId: note.id, deckId: deck.id },
+        sourceTitle: `${note.title} · ${deck.title}`
+      })));
+  });
+
+  return cards;
+};
+
+/**
+ * The cards to review now: learning cards that are due, then reviews due today, then new cards
+ * up to the daily limit, then learning cards coming up shortly
+ */
+export const buildReviewQueue = (
+  cards: ReviewCard[],
+  schedules: Map<string, CardSchedule>,
+  now = Date.now()
+): ReviewQueue => {
+  const today = startOfDay(now);
+  const newToday = Array.from(schedules.values()).filter(s => s.log.length > 0 && s.log[0].reviewedAt >= today).length;
+  const byDue = (a: ReviewCard, b: ReviewCard) => schedules.get(a.id)!.due - schedules.get(b.id)!.due;
+
+  const learningNow: ReviewCard[] = [];
+  const learningSoon: ReviewCard[] = [];
+  const review: ReviewCard[] = [];
+  const fresh: ReviewCard[] = [];
+
+  cards.forEach(card => {
+    const schedule = schedules.get(card.id);
+    if (!schedule || schedule.state === 'new') fresh.push(card);
+    else if (isLearning(schedule)) {
+      if (schedule.due <= now) learningNow.push(card);
+      else if (schedule.due <= now + LEARN_AHEAD_MS) learningSoon.push(card);
+    } else if (schedule.due <= endOfDay(now)) review.push(card);
+  });
+
+  const newCards = fresh.slice(0, Math.max(0, NEW_CARDS_PER_DAY - newToday));
+  return {
+    cards: [...learningNow.sort(byDue), ...review.sort(byDue), ...newCards, ...learningSoon.sort(byDue)],
+    counts: { new: newCards.length, learning: learningNow.length + learningSoon.length, review: review.length }
+  };
+};
+
+export const computeReviewStats = (
+  cards: ReviewCard[],
+  schedules: Map<string, CardSchedule>,
+  now = Date.now()
+): ReviewStats => {
+  const today = startOfDay(now);
+  const retentionSince = now - RETENTION_WINDOW_DAYS * DAY;
+  const stats: ReviewStats = {
+    total: cards.length, new: 0, learning: 0, young: 0, mature: 0,
+    dueToday: 0, reviewedToday: 0, retention: null, retentionReviews: 0,
+    forecast: Array.from({ length: FORECAST_DAYS }, (_, i) => {
+      const date = new Date(today);
+      date.setDate(date.getDate() + i + 1);
+      return { date: date.getTime(), due: 0 };
+    })
+  };
+  let passed = 0;
+
+  cards.forEach(card => {
+    const schedule = schedules.get(card.id);
+    if (!schedule || schedule.state === 'new') {
+      stats.new++;
+      return;
+    }
+    if (isLearning(schedule)) stats.learning++;
+    else if (schedule.interval >= MATURE_INTERVAL) stats.mature++;
+    else stats.young++;
+
+    if (schedule.due <= endOfDay(now)) stats.dueToday++;
+    else {
+      const day = stats.forecast.findIndex(f => schedule.due <= endOfDay(f.date));
+      if (day >= 0) stats.forecast[day].due++;
+    }
+
+    schedule.log.forEach(entry => {
+      if (entry.reviewedAt >= today) stats.reviewedToday++;
+      if (entry.state === 'review' && entry.reviewedAt >= retentionSince) {
+        stats.retentionReviews++;
+        if (entry.grade !== 'again') passed++;
+      }
+    });
+  });
+
+  if (stats.retentionReviews > 0) stats.retention = passed / stats.retentionReviews;
+  return stats;
+};
+
+export const ReviewService = {
+  getSchedules: async (): Promise<Map<string, CardSchedule>> => {
+    const schedules = await StorageService.getCardSchedules();
+    return new Map(schedules.map(schedule => [schedule.id, schedule]));
+  },
+
+  /** Grades the card, saves its new schedule and returns it */
+  grade: async (card: ReviewCard, schedule: CardSchedule | undefined, grade: ReviewGrade, now = Date.now()): Promise<CardSchedule> => {
+    const current = schedule || createSchedule(card.id, StorageService.currentUserId || '', card.source, now);
+    const next = { ...gradeCard(current, grade, now), source: card.source };
+    await StorageService.saveCardSchedule(next);
+    return next;
+  }
+};
@@ -14,6 +14,10 @@ import {
   ClassroomResource,
   TeacherStats,
   UserRole,
+  AIUsageDay,
+  CardSchedule,
+  Deck,
+  BankedQuestion,
 } from "../types";
 import { db } from "../firebaseConfig";
 import {
@@ -28,6 +32,8 @@ import {
   serverTimestamp,
 } from "firebase/firestore";
 import { FirebaseService } from "./firebaseService";
+import { NoteIndexService } from "./noteIndexService";
+import { AIUsageService } from "./aiUsageService";
 import { auth } from "../firebaseConfig";
 
 const LOCAL_KEYS = {
@@ -41,6 +47,10 @@ const LOCAL_KEYS = {
   QUIZZES: "procastify_quizzes",
   CUSTOM_MODES: "procastify_custom_modes",
   FOLDERS: "procastify_folders",
+  AI_USAGE: "procastify_ai_usage",
+  CARD_SCHEDULES: "procastify_card_schedules",
+  DECKS: "procastify_decks",
+  QUESTION_BANK: "procastify_question_bank",
 };
 
 const getLocalDB = <T>(key: string): T[] => {
@@ -135,6 +145,8 @@ export const StorageService = {
   },
 
   setSession: (user: UserPreferences) => {
+    // Before switching, so pending usage is still saved for the previous user
+    AIUsageService.setUser(user);
     currentUserId = user.id;
     isGuestMode = user.isGuest;
     if (user.isGuest) {
@@ -349,6 +361,9 @@ export const StorageService = {
       const filtered = notes.filter((n) => n.id !== noteId);
       saveLocalUserItems(LOCAL_KEYS.NOTES, currentUserId, filtered);
     }
+
+    // 4. Drop it from the "Ask my notes" index
+    await NoteIndexService.removeSource(currentUserId, "note", noteId);
   },
 
   saveNote: async (note: Note) => {
@@ -367,6 +382,7 @@ export const StorageService = {
       // But we pass the whole note object.
       await FirebaseService.saveNote(currentUserId, note);
     }
+    NoteIndexService.indexNote(currentUserId, note);
   },
 
   getNotes: async (): Promise<Note[]> => {
@@ -420,6 +436,7 @@ export const StorageService = {
     } else {
       await FirebaseService.saveNotesBatch(currentUserId, notes);
     }
+    notes.forEach((note) => NoteIndexService.indexNote(currentUserId!, note));
   },
 
   // --- Canvas Elements (for CanvasBoard) ---
@@ -486,18 +503,39 @@ export const StorageService = {
     return StorageService.loadCollection<Summary>("summaries");
   },
 
+  // Writes the history as given, without indexing; adding or editing one summary goes through saveSummary
   saveSummaries: async (summaries: Summary[]) => {
     if (!currentUserId) return;
     if (isGuestMode) {
       saveLocalUserItems(LOCAL_KEYS.SUMMARIES, currentUserId, summaries);
     } else {
-      const batch = writeBatch(db);
-      summaries.forEach((summary) => {
-        const ref = doc(db, "users", currentUserId, "summaries", summary.id);
-        batch.set(ref, summary);
-      });
-      await batch.commit();
+      // Firestore batches hold at most 500 writes
+      for (let i = 0; i < summaries.length; i += 500) {
+        const batch = writeBatch(db);
+        summaries.slice(i, i + 500).forEach((summary) => {
+          batch.set(doc(db, "users", currentUserId!, "summaries", summary.id), summary);
+        });
+        await batch.commit();
+      }
+    }
+  },
+
+  // Writes and indexes one summary, leaving the rest of the history alone
+  saveSummary: async (summary: Summary) => {
+    if (!currentUserId) return;
+    if (isGuestMode) {
+      const summaries = getLocalUserItems<Summary>(LOCAL_KEYS.SUMMARIES, currentUserId);
+      const existingIndex = summaries.findIndex((s) => s.id === summary.id);
+      if (existingIndex >= 0) {
+        summaries[existingIndex] = summary;
+      } else {
+        summaries.unshift(summary);
+      }
+      saveLocalUserItems(LOCAL_KEYS.SUMMARIES, currentUserId, summaries);
+    } else {
+      await setDoc(doc(db, "users", currentUserId, "summaries", summary.id), summary);
     }
+    await NoteIndexService.indexSummary(currentUserId, summary);
   },
 
   deleteSummary: async (summaryId: string) => {
@@ -509,6 +547,7 @@ export const StorageService = {
     } else {
       await FirebaseService.deleteDocument(doc(db, "users", currentUserId, "summaries", summaryId));
     }
+    await NoteIndexService.removeSource(currentUserId, "summary", summaryId);
   },
 
   publishNote: async (note: Note) => {
@@ -647,6 +686,165 @@ export const StorageService = {
     }
   },
 
+  // --- Question Bank ---
+
+  getQuestionBank: async (): Promise<BankedQuestion[]> => {
+    return StorageService.loadCollection<BankedQuestion>("question_bank");
+  },
+
+  saveBankedQuestions: async (entries: BankedQuestion[]) => {
+    if (!currentUserId) return;
+    const own = entries.filter((e) => e.userId === currentUserId);
+    if (isGuestMode) {
+      const ids = new Set(own.map((e) => e.id));
+      const existing = getLocalUserItems<BankedQuestion>(
+        LOCAL_KEYS.QUESTION_BANK,
+        currentUserId,
+      ).filter((e) => !ids.has(e.id));
+      saveLocalUserItems(LOCAL_KEYS.QUESTION_BANK, currentUserId, [...existing, ...own]);
+    } else {
+      // Firestore batches hold at most 500 writes
+      for (let i = 0; i < own.length; i += 500) {
+        const batch = writeBatch(db);
+        own.slice(i, i + 500).forEach((entry) => {
+          batch.set(doc(db, "users", currentUserId!, "question_bank", entry.id), entry);
+        });
+        await batch.commit();
+      }
+    }
+  },
+
+  saveBankedQuestion: async (entry: BankedQuestion) => {
+    if (!currentUserId || entry.userId !== currentUserId) return;
+    if (isGuestMode) {
+      const entries = getLocalUserItems<BankedQuestion>(
+        LOCAL_KEYS.QUESTION_BANK,
+        currentUserId,
+      );
+      const existingIndex = entries.findIndex((e) => e.id === entry.id);
+      if (existingIndex >= 0) {
+        entries[existingIndex] = entry;
+      } else {
+        entries.push(entry);
+      }
+      saveLocalUserItems(LOCAL_KEYS.QUESTION_BANK, currentUserId, entries);
+    } else {
+      await setDoc(doc(db, "users", currentUserId, "question_bank", entry.id), entry);
+    }
+  },
+
+  // --- Flashcard Decks ---
+
+  getDecks: async (): Promise<Deck[]> => {
+    const decks = await StorageService.loadCollection<Deck>("decks");
+    return decks.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+
+  saveDeck: async (deck: Deck) => {
+    if (!currentUserId) return;
+    if (isGuestMode) {
+      const decks = getLocalUserItems<Deck>(LOCAL_KEYS.DECKS, currentUserId);
+      const existingIndex = decks.findIndex((d) => d.id === deck.id);
+      if (existingIndex >= 0) {
+        decks[existingIndex] = deck;
+      } else {
+        decks.unshift(deck);
+      }
+      saveLocalUserItems(LOCAL_KEYS.DECKS, currentUserId, decks);
+    } else {
+      await setDoc(doc(db, "users", currentUserId, "decks", deck.id), deck);
+    }
+  },
+
+  deleteDeck: async (deckId: string) => {
+    if (!currentUserId) return;
+    if (isGuestMode) {
+      const decks = getLocalUserItems<Deck>(LOCAL_KEYS.DECKS, currentUserId);
+      saveLocalUserItems(
+        LOCAL_KEYS.DECKS,
+        currentUserId,
+        decks.filter((d) => d.id !== deckId),
+      );
+    } else {
+      await FirebaseService.deleteDocument(doc(db, "users", currentUserId, "decks", deckId));
+    }
+  },
+
+  // --- Flashcard Reviews ---
+
+  getCardSchedules: async (): Promise<CardSchedule[]> => {
+    return StorageService.loadCollection<CardSchedule>("card_schedules");
+  },
+
+  saveCardSchedules: async (schedules: CardSchedule[]) => {
+    if (!currentUserId) return;
+    const own = schedules.filter((s) => s.userId === currentUserId);
+    if (isGuestMode) {
+      const ids = new Set(own.map((s) => s.id));
+      const existing = getLocalUserItems<CardSchedule>(
+        LOCAL_KEYS.CARD_SCHEDULES,
+        currentUserId,
+      ).filter((s) => !ids.has(s.id));
+      saveLocalUserItems(LOCAL_KEYS.CARD_SCHEDULES, currentUserId, [...existing, ...own]);
+    } else {
+      // Firestore batches hold at most 500 writes
+      for (let i = 0; i < own.length; i += 500) {
+        const batch = writeBatch(db);
+        own.slice(i, i + 500).forEach((schedule) => {
+          batch.set(doc(db, "users", currentUserId!, "card_schedules", schedule.id), schedule);
+        });
+        await batch.commit();
+      }
+    }
+  },
+
+  saveCardSchedule: async (schedule: CardSchedule) => {
+    if (!currentUserId || schedule.userId !== currentUserId) return;
+    if (isGuestMode) {
+      const schedules = getLocalUserItems<CardSchedule>(
+        LOCAL_KEYS.CARD_SCHEDULES,
+        currentUserId,
+      );
+      const existingIndex = schedules.findIndex((s) => s.id === schedule.id);
+      if (existingIndex >= 0) {
+        schedules[existingIndex] = schedule;
+      } else {
+        schedules.push(schedule);
+      }
+      saveLocalUserItems(LOCAL_KEYS.CARD_SCHEDULES, currentUserId, schedules);
+    } else {
+      await setDoc(doc(db, "users", currentUserId, "card_schedules", schedule.id), schedule);
+    }
+  },
+
+  // --- AI Usage ---
+
+  getAIUsage: async (sinceDate: string): Promise<AIUsageDay[]> => {
+    const days = await StorageService.loadCollection<AIUsageDay>("ai_usage");
+    return days
+      .filter((d) => d.date >= sinceDate)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  },
+
+  saveAIUsageDay: async (day: AIUsageDay) => {
+    if (!currentUserId || day.userId !== currentUserId) return;
+    if (isGuestMode) {
+      const days = getLocalUserItems<AIUsageDay>(
+        LOCAL_KEYS.AI_USAGE,
+        currentUserId,
+      );
+      const existingIndex = days.findIndex((d) => d.id === day.id);
+      if (existingIndex >= 0) {
+        days[existingIndex] = day;
+      } else {
+        days.push(day);
+      }
+      saveLocalUserItems(LOCAL_KEYS.AI_USAGE, currentUserId, days);
+    } else {
+      await setDoc(doc(db, "users", currentUserId, "ai_usage", day.id), day);
+    }
+  },
+
   // --- Custom Modes ---
 
   saveCustomMode: async (customMode: CustomMode): Promise<void> => {
@@ -972,6 +1170,10 @@ export const StorageService = {
         tasks: LOCAL_KEYS.TASKS,
         quizzes: LOCAL_KEYS.QUIZZES,
         custom_modes: LOCAL_KEYS.CUSTOM_MODES,
+        ai_usage: LOCAL_KEYS.AI_USAGE,
+        card_schedules: LOCAL_KEYS.CARD_SCHEDULES,
+        decks: LOCAL_KEYS.DECKS,
+        question_bank: LOCAL_KEYS.QUESTION_BANK,
       };
       const key = map[collectionName];
       if (!key) return [];
@@ -1,13 +1,39 @@
 import { YoutubeTranscript } from 'youtube-transcript';
+import { extractReadableArticle } from '../utils/readability';
+import { segmentTranscript, formatTranscript, TranscriptChapter } from '../utils/transcriptChapters';
+import { readEnv } from '../utils/env';
 
 export interface URLExtractionResult {
   success: boolean;
   text: string;
   error?: string;
   title?: string;
+  chapters?: TranscriptChapter[]; // Video transcripts only
 }
 
 const JINA_READER_API = 'https://r.jina.ai/';
+const READER_FALLBACK_KEY = 'procastify_reader_fallback';
+const FETCH_TIMEOUT_MS = 15000;
+/** Fewer words than this usually means a consent wall, login page or script-rendered shell */
+const MIN_ARTICLE_WORDS = 80;
+
+/**
+ * Whether pages that cannot be read locally may be sent to Jina Reader, a third-party service.
+ * Off unless the user opts in on this device or VITE_READER_FALLBACK=jina is set.
+ */
+export const isReaderFallbackEnabled = (): boolean => {
+  try {
+    const stored = localStorage.getItem(READER_FALLBACK_KEY);
+    if (stored !== null) return stored === 'jina';
+  } catch { /* ignore */ }
+  return readEnv('VITE_READER_FALLBACK') === 'jina';
+};
+
+export const setReaderFallbackEnabled = (enabled: boolean): void => {
+  try {
+    localStorage.setItem(READER_FALLBACK_KEY, enabled ? 'jina' : 'off');
+  } catch { /* ignore */ }
+};
 
 function isValidURL(url: string): boolean {
   try {
@@ -25,18 +51,17 @@ function isYouTubeURL(url: string): boolean {
 async function extractYouTubeTranscript(url: string): Promise<URLExtractionResult> {
   try {
     const transcript = await YoutubeTranscript.fetchTranscript(url);
-    const text = transcript.map(item => item.text).join(' ');
-    
-    // Initial cleanup
-    const cleanText = text
-      .replace(/&#39;/g, "'")
-      .replace(/&quot;/g, '"')
-      .replace(/&amp;/g, '&');
+    const chapters = segmentTranscript(transcript);
+    if (chapters.length === 0) {
+      return { success: false, text: '', error: 'The video transcript is empty.' };
+    }
 
+    // Timestamps stay in the text as "[m:ss]" so citations of a passage know where it starts
     return {
       success: true,
-      text: cleanText,
-      title: 'YouTube Transcript'
+      text: formatTranscript(chapters),
+      title: 'YouTube Transcript',
+      chapters
     };
   } catch (error: any) {
     console.error('YouTube transcript error:', error);
@@ -87,6 +112,52 @@ async function extractWithJina(url: string): Promise<URLExtractionResult> {
     }
 }
 
+/**
+ * Readable markdown from HTML the caller already has, e.g. pasted from a web page
+ */
+export function extractFromHTML(html: string, baseUrl?: string): URLExtractionResult {
+  const article = extractReadableArticle(html, baseUrl);
+  if (article.wordCount < MIN_ARTICLE_WORDS) {
+    return {
+      success: false,
+      text: article.markdown,
+      title: article.title,
+      error: 'Could not find the main text of this page.'
+    };
+  }
+  return { success: true, text: article.markdown, title: article.title || 'Imported Web Content' };
+}
+
+/**
+ * Fetches the page directly and extracts it locally. Fails for sites that block
+ * cross-origin requests, which is when the optional Jina fallback helps.
+ */
+async function extractLocally(url: string): Promise<URLExtractionResult> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { signal: controller.signal, headers: { Accept: 'text/html,application/xhtml+xml' } });
+    if (!response.ok) {
+      return { success: false, text: '', error: `The page returned ${response.status}.` };
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    const body = await response.text();
+    if (contentType.includes('text/plain') || contentType.includes('text/markdown')) {
+      return { success: !!body.trim(), text: body, title: 'Imported Web Content' };
+    }
+    return extractFromHTML(body, response.url || url);
+  } catch (e: any) {
+    return {
+      success: false,
+      text: '',
+      error: e?.name === 'AbortError' ? 'The page took too long to respond.' : 'The site does not allow reading it from the browser.'
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
 export async function fetchURLContent(url: string): Promise<URLExtractionResult> {
   if (!isValidURL(url)) {
     return {
@@ -100,5 +171,12 @@ export async function fetchURLContent(url: string): Promise<URLExtractionResult>
     return extractYouTubeTranscript(url);
   }
 
+  const local = await extractLocally(url);
+  if (local.success || !isReaderFallbackEnabled()) {
+    return local.success
+      ? local
+      : { ...local, error: `${local.error} You can allow the Jina Reader fallback to read pages like this one.` };
+  }
+
   return extractWithJina(url);
 }
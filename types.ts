@@ -1,4 +1,4 @@
-export type ViewState = 'landing' | 'onboarding' | 'dashboard' | 'summarizer' | 'notes' | 'routine' | 'focus' | 'quiz' | 'feed' | 'store' | 'classrooms';
+export type ViewState = 'landing' | 'onboarding' | 'dashboard' | 'summarizer' | 'notes' | 'routine' | 'focus' | 'quiz' | 'feed' | 'store' | 'classrooms' | 'askNotes' | 'usage' | 'review' | 'decks';
 
 export type UserRole = 'student' | 'teacher';
 export type ViewState =
@@ -17,7 +17,11 @@ export type ViewState =
   | "classrooms"
   | "classroomDetail"
   | "studentClassrooms"
-  | "studentClassroomView";
+  | "studentClassroomView"
+  | "askNotes"
+  | "usage"
+  | "review"
+  | "decks";
 
 
 export interface UserPreferences {
@@ -55,6 +59,30 @@ export interface UserStats {
   highScore: number;
 }
 
+// AI usage metering
+export type AIUsageFeature = 'summary' | 'quiz' | 'flashcards' | 'reels' | 'tts' | 'podcast' | 'diagram' | 'chat' | 'planning';
+
+export interface AIUsageCounter {
+  calls: number;
+  inputChars: number;
+  outputChars: number;
+}
+
+// One user's AI usage on one local day
+export interface AIUsageDay {
+  id: string;         // YYYY-MM-DD
+  userId: string;
+  date: string;
+  features: Partial<Record<AIUsageFeature, AIUsageCounter>>;
+  updatedAt: number;
+}
+
+export interface AIQuota {
+  dailyCalls: number;
+  dailyInputChars: number;
+  featureCalls?: Partial<Record<AIUsageFeature, number>>; // Tighter daily caps for costly features
+}
+
 export type NoteElementType =
   | "text"
   | "sticky"
@@ -172,22 +200,108 @@ export interface Flashcard {
   front: string;
   back: string;
   status: "new" | "learning" | "mastered";
+  tags?: string[];
+  cloze?: ClozeSource;        // Set when front and back were made by hiding part of a text
+  occlusion?: OcclusionSource; // Set when the card asks for a label hidden on a canvas diagram
+}
+
+// The text a cloze card was made from, with {{c1::hidden}} markers, and which marker it hides
+export interface ClozeSource {
+  text: string;
+  index: number;
+  extra?: string;             // Shown after the answer
+}
+
+// A label on a note's canvas that is masked until the answer is shown
+export interface OcclusionSource {
+  noteId: string;
+  labelId: string;            // The text shape that is hidden
+  shapeId?: string;           // The shape the label sits in, outlined as a hint
+  label: string;
+}
+
+// Where a deck's cards came from
+export type DeckSource =
+  | { kind: "note"; noteId: string }
+  | { kind: "summary"; summaryId: string };
+
+export interface Deck {
+  id: string;
+  userId: string;
+  name: string;
+  description?: string;
+  source?: DeckSource;
+  folderId?: string | null;   // References Folder.id
+  tags: string[];
+  cards: Flashcard[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// --- Spaced repetition ---
+
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+export type CardScheduleState = "new" | "learning" | "review" | "relearning";
+
+// Where a reviewed card lives: a deck, a summary's flashcards or a flashcard deck on a note's canvas
+export type CardSource =
+  | { kind: "deck"; deckId: string }
+  | { kind: "summary"; summaryId: string }
+  | { kind: "canvas"; noteId: string; deckId: string };
+
+export interface ReviewLogEntry {
+  reviewedAt: number;
+  grade: ReviewGrade;
+  state: CardScheduleState;   // State before the review
+  interval: number;           // Days until the next review, after grading
+  ease: number;               // Ease after grading
+}
+
+// Review state of one card, keyed by the card's id
+export interface CardSchedule {
+  id: string;
+  userId: string;
+  source: CardSource;
+  state: CardScheduleState;
+  step: number;               // Position in the (re)learning steps
+  ease: number;               // Interval multiplier, 2.5 to start
+  interval: number;           // Days
+  repetitions: number;        // Successful reviews in a row
+  lapses: number;             // Times forgotten after graduating
+  due: number;
+  lastReviewedAt?: number;
+  log: ReviewLogEntry[];
 }
 
 export interface Attachment {
   id: string;
-  type: "image" | "audio" | "pdf" | "url";
+  type: "image" | "audio" | "pdf" | "url" | "document"; // document: Word or PowerPoint
   content: string;
   mimeType?: string;
   name?: string;
 }
 
+// Variables a summarizer prompt template can use as {{subject}}, {{level}} and {{language}}
+export type PromptVariable = 'subject' | 'level' | 'language';
+export type PromptVariables = Partial<Record<PromptVariable, string>>;
+
+export interface PromptTemplateVersion {
+  version: number;
+  systemPrompt: string;
+  createdAt: number;
+}
+
 export interface CustomMode {
   id: string;
   userId: string;
   name: string;
-  systemPrompt: string;
+  systemPrompt: string;          // Template of the current version
   createdAt: number;
+  version?: number;              // Missing on modes saved before templates were versioned
+  versions?: PromptTemplateVersion[];
+  variables?: PromptVariables;   // Default values for the template's variables
+  sharedBy?: string;             // Teacher name, when added from a classroom
+  sharedFrom?: { teacherId: string; modeId: string }; // Teacher's mode it was added from, updated when added again
 }
 
 export interface Summary {
@@ -195,13 +309,76 @@ export interface Summary {
   userId: string;
   originalSource: string;
   summaryText: string;
-  type: "text" | "video" | "article" | "pdf" | "audio" | "mixed";
+  type: "text" | "video" | "article" | "pdf" | "audio" | "image" | "document" | "mixed";
   mode: string; // Now supports any string (preset modes or custom mode names)
   createdAt: number;
+  offline?: boolean;             // Produced by the extractive summarizer because the AI was unavailable
   flashcards?: Flashcard[];
   // Extended fields for history feature
   originalText?: string;        // Full original text input
   attachments?: Attachment[];   // All attachments from session
+  sources?: SummarySource[];    // Passages the summary's [S1] markers refer to
+  podcast?: PodcastEpisode;     // Study podcast made from the summary; its audio is kept on the device
+}
+
+// One turn of a two-host study podcast
+export interface PodcastLine {
+  speaker: string;
+  text: string;
+}
+
+export interface PodcastChapter {
+  title: string;
+  start: number;    // Seconds into the episode audio
+  lines: PodcastLine[];
+}
+
+export interface PodcastEpisode {
+  id: string;       // Key of the audio in the device's podcast store
+  title: string;
+  duration: number; // Seconds
+  hosts: string[];
+  chapters: PodcastChapter[];
+  createdAt: number;
+}
+
+// A labelled slice of summarization input, e.g. one PDF page or one heading section
+export interface SourceSection {
+  source: string;   // Attachment name, or 'Text input'
+  label: string;
+  text: string;
+  page?: number;    // 1-based PDF page
+  offset?: number;  // Seconds into an audio / video transcript
+  attachmentId?: string;
+}
+
+// A cited passage of summarization input, referenced from the summary as [S<id>]
+export interface SummarySource {
+  id: number;
+  source: string;   // Attachment name, or 'Text input'
+  label: string;
+  excerpt: string;  // Start of the passage text
+  page?: number;
+  offset?: number;
+  attachmentId?: string;
+}
+
+// "Ask my notes": a passage of the user's own material an answer is grounded in
+export interface NoteCitation {
+  index: number;                  // The [n] marker used in the answer
+  sourceType: 'note' | 'summary';
+  sourceId: string;
+  title: string;
+  blockId?: string;               // Block to jump to, for notes
+  snippet: string;
+}
+
+export interface NoteChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  citations?: NoteCitation[];
+  createdAt: number;
 }
 
 // Type alias for summaries with complete session data
@@ -236,6 +413,8 @@ export interface Question {
   explanation: string;
   difficulty?: "easy" | "medium" | "hard";
   mode?: QuizModeType; // Optional for backward compatibility
+  videoTimestamp?: string; // "m:ss" where a source video explains the answer
+  videoUrl?: string; // Link that opens the video at videoTimestamp
 }
 
 // Fill in the Blanks specific types
@@ -257,6 +436,13 @@ export interface ExplainQuestion extends Question {
   reasoningFeedback?: string;
 }
 
+export interface ReasoningEvaluation {
+  score: number; // 1-5, the quality of the reasoning rather than of the answer
+  feedback: string;
+  strengths: string[];
+  improvements: string[];
+}
+
 // Attempted question types for results
 export interface AttemptedFillQuestion {
   question: string;
@@ -294,6 +480,7 @@ export interface QuizReport {
   strengths: string[];
   weaknesses: string[];
   suggestions: string[];
+  abilities?: NoteAbility[];  // Estimated from the question bank, for the notes in the quiz
 }
 
 export interface Quiz {
@@ -305,6 +492,39 @@ export interface Quiz {
   lastPlayed?: number;
 }
 
+// --- Question bank ---
+
+export type BankQuestion = Question | FillInTheBlanksQuestion | ExplainQuestion;
+
+export interface QuestionAttempt {
+  answeredAt: number;
+  correct: boolean;
+  timeSpentMs: number;
+  mode: QuizModeType;
+}
+
+// A generated question kept for reuse, filed under the note it was drawn from
+export interface BankedQuestion {
+  id: string;
+  userId: string;
+  noteId: string;
+  topic: string;              // Title of the source note when the question was banked
+  mode: QuizModeType;         // Mode the question was generated for, which decides its shape
+  question: BankQuestion;
+  createdAt: number;
+  attempts: QuestionAttempt[];
+}
+
+// Estimated ability on one note's questions, from every attempt in the question bank
+export interface NoteAbility {
+  noteId: string;
+  topic: string;
+  ability: number;            // Logit scale, where easy, medium and hard questions sit at -1, 0 and 1
+  mastery: number;            // Chance of answering a medium question correctly, 0 to 1
+  attempts: number;
+  level: "easy" | "medium" | "hard";  // Difficulty to ask next
+}
+
 // Classroom Types
 export interface VirtualClassLink {
   id: string;
@@ -447,13 +667,14 @@ export interface Announcement {
 export interface ClassroomResource {
   id: string;
   classroomId: string;
-  resourceType: "note" | "quiz";
+  resourceType: "note" | "quiz" | "mode";
   resourceId: string;
   resourceTitle: string;
   resourceDescription?: string;
   sharedBy: string;
   sharedByName: string;
   sharedAt: number;
+  mode?: CustomMode;              // Snapshot of a shared summarizer mode
 }
 
 export interface TeacherStats {
@@ -0,0 +1,36 @@
+/**
+ * Strips markdown code fences that models sometimes wrap around JSON output
+ */
+export const cleanJSON = (text: string | undefined): string => {
+  if (!text) return "";
+
+  let cleaned = text.replace(/^```json\s*/, '').replace(/^```\s*/, '').replace(/```$/, '').trim();
+  return cleaned;
+};
+
+/**
+ * Parses a JSON model response. Truncated arrays are recovered up to the last complete item.
+ * Throws a SyntaxError when nothing usable can be recovered.
+ */
+export const parseJSONResponse = <T>(text: string): T => {
+  const cleaned = cleanJSON(text);
+  if (!cleaned) throw new SyntaxError('Empty JSON response');
+
+  try {
+    return JSON.parse(cleaned);
+  } catch (e) {
+    console.warn("JSON Parse failed", e);
+
+    if (e instanceof SyntaxError && text.includes('[{')) {
+      const lastRightBracket = text.lastIndexOf(']');
+      const lastRightBrace = text.lastIndexOf('}');
+      const cutOff = Math.max(lastRightBracket, lastRightBrace);
+      if (cutOff > 0) {
+        let sub = cleanJSON(text.substring(0, cutOff + 1));
+        if (sub.startsWith('[') && !sub.endsWith(']')) sub += ']';
+        return JSON.parse(sub);
+      }
+    }
+    throw e;
+  }
+};
@@ -0,0 +1,250 @@
+import { Question, FillInTheBlanksQuestion, ExplainQuestion, ReasoningEvaluation, Flashcard, RoutineTask, QuizReport } from '../types';
+
+/**
+ * Minimal runtime schemas for AI output.
+ * A schema validates an unknown value and returns it normalised (trimmed strings, defaults
+ * filled in) or the list of problems, with paths, so the model can be asked to fix them.
+ */
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; errors?: undefined }
+  | { ok: false; value?: undefined; errors: string[] };
+
+export interface RuntimeSchema<T> {
+  validate(value: unknown, path?: string): ValidationResult<T>;
+}
+
+const ok = <T>(value: T): ValidationResult<T> => ({ ok: true, value });
+const fail = <T>(...errors: string[]): ValidationResult<T> => ({ ok: false, errors });
+const at = (path: string) => path || 'value';
+
+export const str = (options: { minLength?: number } = {}): RuntimeSchema<string> => ({
+  validate(value, path = '') {
+    if (typeof value !== 'string') return fail(`${at(path)} must be a string`);
+    const trimmed = value.trim();
+    if (trimmed.length < (options.minLength ?? 1)) return fail(`${at(path)} must not be empty`);
+    return ok(trimmed);
+  }
+});
+
+export const num = (options: { min?: number; max?: number; integer?: boolean } = {}): RuntimeSchema<number> => ({
+  validate(value, path = '') {
+    const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof n !== 'number' || !Number.isFinite(n)) return fail(`${at(path)} must be a number`);
+    if (options.integer && !Number.isInteger(n)) return fail(`${at(path)} must be an integer`);
+    if (options.min !== undefined && n < options.min) return fail(`${at(path)} must be >= ${options.min}`);
+    if (options.max !== undefined && n > options.max) return fail(`${at(path)} must be <= ${options.max}`);
+    return ok(n);
+  }
+});
+
+export const bool = (): RuntimeSchema<boolean> => ({
+  validate(value, path = '') {
+    return typeof value === 'boolean' ? ok(value) : fail(`${at(path)} must be true or false`);
+  }
+});
+
+export const oneOf = <T extends string>(values: readonly T[]): RuntimeSchema<T> => ({
+  validate(value, path = '') {
+    const normalised = typeof value === 'string' ? value.trim().toLowerCase() : value;
+    const match = values.find(v => v.toLowerCase() === normalised);
+    return match !== undefined ? ok(match) : fail(`${at(path)} must be one of ${values.join(', ')}`);
+  }
+});
+
+export const arrayOf = <T>(item: RuntimeSchema<T>, options: { min?: number; max?: number } = {}): RuntimeSchema<T[]> => ({
+  validate(value, path = '') {
+    if (!Array.isArray(value)) return fail(`${at(path)} must be an array`);
+    if (options.min !== undefined && value.length < options.min) return fail(`${at(path)} needs at least ${options.min} items`);
+    if (options.max !== undefined && value.length > options.max) return fail(`${at(path)} allows at most ${options.max} items`);
+
+    const items: T[] = [];
+    const errors: string[] = [];
+    value.forEach((v, i) => {
+      const result = item.validate(v, `${path}[${i}]`);
+      if (result.ok) items.push(result.value);
+      else errors.push(...result.errors);
+    });
+    return errors.length ? fail(...errors) : ok(items);
+  }
+});
+
+/**
+ * Wraps a schema so a missing value (undefined, null or '') passes
+ */
+export const optional = <T>(schema: RuntimeSchema<T>): RuntimeSchema<T | undefined> => ({
+  validate(value, path = '') {
+    if (value === undefined || value === null || value === '') return ok(undefined);
+    return schema.validate(value, path);
+  }
+});
+
+/**
+ * Like optional, but a missing value is replaced by fallback
+ */
+export const withDefault = <T>(schema: RuntimeSchema<T>, fallback: T): RuntimeSchema<T> => ({
+  validate(value, path = '') {
+    if (value === undefined || value === null || value === '') return ok(fallback);
+    return schema.validate(value, path);
+  }
+});
+
+type Shape<T> = { [K in keyof T]-?: RuntimeSchema<T[K]> };
+
+/**
+ * Validates the listed keys; unknown keys are dropped
+ */
+export const object = <T>(shape: Shape<T>): RuntimeSchema<T> => ({
+  validate(value, path = '') {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(`${at(path)} must be an object`);
+    }
+    const result: Record<string, unknown> = {};
+    const errors: string[] = [];
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const field = shape[key].validate((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+      if (field.ok) {
+        if (field.value !== undefined) result[key] = field.value;
+      } else {
+        errors.push(...field.errors);
+      }
+    }
+    return errors.length ? fail(...errors) : ok(result as T);
+  }
+});
+
+/**
+ * Adds a cross-field rule on top of a schema. check returns an error message, or null when valid.
+ */
+export const refine = <T>(schema: RuntimeSchema<T>, check: (value: T) => string | null): RuntimeSchema<T> => ({
+  validate(value, path = '') {
+    const result = schema.validate(value, path);
+    if (!result.ok) return result;
+    const problem = check(result.value);
+    return problem ? fail(`${at(path)}: ${problem}`) : result;
+  }
+});
+
+const difficulty = oneOf(['easy', 'medium', 'hard'] as const);
+
+// Ids and other fields the generators assign themselves are not required from the model
+
+export const QuestionSchema: RuntimeSchema<Question> = refine(
+  object<Question>({
+    id: withDefault(str(), ''),
+    text: str({ minLength: 5 }),
+    options: arrayOf(str(), { min: 2, max: 6 }),
+    correctIndex: num({ integer: true, min: 0 }),
+    explanation: withDefault(str(), ''),
+    difficulty: optional(difficulty),
+    mode: optional(oneOf(['standard', 'swipe', 'fillBlanks', 'explain'] as const)),
+    videoTimestamp: optional(str()),
+    videoUrl: optional(str())
+  }),
+  q => {
+    if (q.correctIndex >= q.options.length) return `correctIndex ${q.correctIndex} is outside the ${q.options.length} options`;
+    if (new Set(q.options.map(o => o.toLowerCase())).size !== q.options.length) return 'options must be distinct';
+    return null;
+  }
+);
+
+export const MultipleChoiceQuestionSchema: RuntimeSchema<Question> = refine(
+  QuestionSchema,
+  q => q.options.length === 4 ? null : `expected exactly 4 options, got ${q.options.length}`
+);
+
+export const TrueFalseQuestionSchema: RuntimeSchema<Question> = object<Question>({
+  id: withDefault(str(), ''),
+  text: str({ minLength: 5 }),
+  options: withDefault(arrayOf(str()), ['True', 'False']),
+  correctIndex: num({ integer: true, min: 0, max: 1 }),
+  explanation: withDefault(str(), ''),
+  difficulty: optional(difficulty),
+  mode: optional(oneOf(['swipe'] as const)),
+  videoTimestamp: optional(str()),
+  videoUrl: optional(str())
+});
+
+export const FillInTheBlanksQuestionSchema: RuntimeSchema<FillInTheBlanksQuestion> = refine(
+  object<FillInTheBlanksQuestion>({
+    id: withDefault(str(), ''),
+    text: withDefault(str(), ''),
+    textWithBlanks: str({ minLength: 5 }),
+    blanks: arrayOf(object<FillInTheBlanksQuestion['blanks'][number]>({
+      id: withDefault(str(), ''),
+      correctAnswers: arrayOf(str(), { min: 1 }),
+      userAnswer: optional(str())
+    }), { min: 1 }),
+    explanation: withDefault(str(), ''),
+    difficulty: optional(difficulty),
+    mode: withDefault(oneOf(['fillBlanks'] as const), 'fillBlanks'),
+    videoTimestamp: optional(str()),
+    videoUrl: optional(str())
+  }),
+  q => {
+    const placeholders = (q.textWithBlanks.match(/\[___\]/g) || []).length;
+    return placeholders === q.blanks.length
+      ? null
+      : `textWithBlanks has ${placeholders} [___] placeholders but ${q.blanks.length} blanks`;
+  }
+);
+
+export const ExplainQuestionSchema: RuntimeSchema<ExplainQuestion> = refine(
+  object<ExplainQuestion>({
+    id: withDefault(str(), ''),
+    text: str({ minLength: 5 }),
+    options: arrayOf(str(), { min: 4, max: 4 }),
+    correctIndex: num({ integer: true, min: 0, max: 3 }),
+    explanation: str(),
+    difficulty: optional(difficulty),
+    mode: withDefault(oneOf(['explain'] as const), 'explain'),
+    userExplanation: optional(str()),
+    reasoningScore: optional(num()),
+    reasoningFeedback: optional(str()),
+    videoTimestamp: optional(str()),
+    videoUrl: optional(str())
+  }),
+  q => new Set(q.options.map(o => o.toLowerCase())).size === q.options.length ? null : 'options must be distinct'
+);
+
+// Generated cards are plain question/answer cards, without tags or a cloze or occlusion source
+export const FlashcardSchema: RuntimeSchema<Flashcard> = object<Omit<Flashcard, 'tags' | 'cloze' | 'occlusion'>>({
+  id: withDefault(str(), ''),
+  front: str(),
+  back: str(),
+  status: withDefault(oneOf(['new', 'learning', 'mastered'] as const), 'new')
+});
+
+// A sentence with {{c1::hidden}} parts, numbered from 1
+export const ClozeTextSchema: RuntimeSchema<{ text: string }> = refine(
+  object<{ text: string }>({ text: str({ minLength: 10 }) }),
+  ({ text }) => /\{\{c\d+::[^}]+\}\}/.test(text) ? null : 'text must contain at least one {{c1::...}} deletion'
+);
+
+export const RoutineTaskSchema: RuntimeSchema<RoutineTask> = object<RoutineTask>({
+  id: withDefault(str(), ''),
+  userId: withDefault(str(), ''),
+  title: str(),
+  durationMinutes: num({ min: 1, max: 600 }),
+  type: oneOf(['focus', 'break', 'buffer', 'procastify'] as const),
+  completed: withDefault(bool(), false),
+  timeSlot: optional(str()),
+  noteId: optional(str()),
+  confidence: optional(oneOf(['high', 'medium', 'low'] as const))
+});
+
+export const ReasoningEvaluationSchema: RuntimeSchema<ReasoningEvaluation> = object<ReasoningEvaluation>({
+  score: num({ min: 1, max: 5, integer: true }),
+  feedback: str(),
+  strengths: withDefault(arrayOf(str()), []),
+  improvements: withDefault(arrayOf(str()), [])
+});
+
+// Ability estimates come from the question bank, not from the model
+export const QuizReportSchema: RuntimeSchema<QuizReport> = object<Omit<QuizReport, 'abilities'>>({
+  overallAccuracy: num({ min: 0, max: 100 }),
+  difficultyProgression: withDefault(arrayOf(difficulty), []),
+  strengths: arrayOf(str()),
+  weaknesses: arrayOf(str()),
+  suggestions: arrayOf(str(), { min: 1 })
+});
@@ -0,0 +1,12 @@
+/**
+ * Build-time configuration.
+ * Vite exposes VITE_* variables on import.meta.env; outside a Vite build (scripts, tests) they
+ * are read from process.env instead.
+ */
+
+export type EnvName = 'VITE_AI_PROVIDER' | 'VITE_GEMINI_API_KEY' | 'VITE_AI_QUOTAS' | 'VITE_READER_FALLBACK';
+
+export const readEnv = (name: EnvName): string | undefined =>
+  import.meta.env?.[name]
+  || (typeof process !== 'undefined' ? process.env[name] : undefined)
+  || undefined;
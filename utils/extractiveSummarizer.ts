@@ -0,0 +1,174 @@
+/**
+ * Offline extractive summarizer.
+ * Ranks the sentences of the material with TextRank (sentences are nodes, shared content
+ * words are edges) and arranges the best ones in the shape of the requested mode, so a
+ * usable summary can be produced without any AI call. Material numbered for citation keeps
+ * its [S#] markers, one per picked sentence.
+ */
+import { splitSentences, tokenize, extractKeywords, rankSentences } from './textAnalysis';
+import { PASSAGE_HEADER_PATTERN } from './summaryCitations';
+
+interface Passage {
+  marker: string;
+  label: string;
+  text: string;
+}
+
+interface Candidate {
+  text: string;
+  passage: number;
+  /** Position in reading order across the whole material */
+  order: number;
+  score: number;
+}
+
+const DAMPING = 0.85;
+const ITERATIONS = 30;
+/** TextRank is quadratic in the number of sentences, so long material is pre-filtered */
+const MAX_CANDIDATES = 300;
+
+const DEFINITION_PATTERN = /\b(is|are|was|were|refers to|means|is called|are called|is defined as|consists of)\b/i;
+
+/**
+ * Splits material numbered for citation ("[S3] (label)" header lines) into its passages.
+ * Unnumbered material comes back as a single passage without a marker.
+ */
+export const splitPassages = (material: string): Passage[] => {
+  const passages: Passage[] = [];
+  for (const line of material.split('\n')) {
+    const header = line.match(PASSAGE_HEADER_PATTERN);
+    if (header) passages.push({ marker: `[S${header[1]}]`, label: header[2], text: '' });
+    else if (passages.length > 0) passages[passages.length - 1].text += `${line}\n`;
+  }
+  return passages.length > 0 ? passages : [{ marker: '', label: '', text: material }];
+};
+
+const similarity = (a: Set<string>, b: Set<string>): number => {
+  // log(1) is 0, so single-word sentences cannot be normalised and carry no signal
+  if (a.size < 2 || b.size < 2) return 0;
+  let overlap = 0;
+  a.forEach(term => {
+    if (b.has(term)) overlap++;
+  });
+  return overlap / (Math.log(a.size) + Math.log(b.size));
+};
+
+/**
+ * TextRank score for every sentence, in input order
+ */
+export const textRank = (sentences: string[]): number[] => {
+  const terms = sentences.map(s => new Set(tokenize(s)));
+  const n = sentences.length;
+  const weights = terms.map((a, i) => terms.map((b, j) => (i === j ? 0 : similarity(a, b))));
+  const outgoing = weights.map(row => row.reduce((sum, w) => sum + w, 0));
+
+  let scores = new Array(n).fill(1);
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const next = scores.map((_, i) => {
+      let incoming = 0;
+      for (let j = 0; j < n; j++) {
+        if (weights[j][i] > 0) incoming += (weights[j][i] / outgoing[j]) * scores[j];
+      }
+      return (1 - DAMPING) + DAMPING * incoming;
+    });
+    const delta = next.reduce((sum, score, i) => sum + Math.abs(score - scores[i]), 0);
+    scores = next;
+    if (delta < 1e-4) break;
+  }
+  return scores;
+};
+
+const rankCandidates = (passages: Passage[], mode: string): Candidate[] => {
+  let candidates: Candidate[] = [];
+  passages.forEach((passage, p) => {
+    splitSentences(passage.text).forEach(text => candidates.push({ text, passage: p, order: candidates.length, score: 0 }));
+  });
+
+  if (candidates.length > MAX_CANDIDATES) {
+    const keep = new Set(rankSentences(candidates.map(c => c.text).join('\n\n')).slice(0, MAX_CANDIDATES).map(s => s.text));
+    candidates = candidates.filter(c => keep.has(c.text));
+  }
+
+  const scores = textRank(candidates.map(c => c.text));
+  return candidates.map((candidate, i) => {
+    let score = scores[i] * (1 + 0.2 / (candidate.order + 1));
+    // Exam prep favours definitions, dates and figures; ELI5 favours short sentences
+    if (mode === 'exam' && (/\d/.test(candidate.text) || DEFINITION_PATTERN.test(candidate.text))) score *= 1.25;
+    if (mode === 'eli5') score /= Math.max(1, candidate.text.split(' ').length / 15);
+    return { ...candidate, score };
+  });
+};
+
+const pick = (candidates: Candidate[], count: number): Candidate[] =>
+  [...candidates]
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .slice(0, count)
+    .sort((a, b) => a.order - b.order);
+
+const sentenceCount = (mode: string, available: number): number => {
+  switch (mode) {
+    case 'detailed':
+    case 'synthesis': return Math.min(25, Math.max(8, Math.round(available * 0.25)));
+    case 'exam': return Math.min(12, Math.max(6, Math.round(available * 0.15)));
+    case 'eli5': return 4;
+    case 'short':
+    default: return Math.min(7, Math.max(3, Math.round(available * 0.1)));
+  }
+};
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+/**
+ * Summarizes material without AI. Built-in modes are approximated: short is a few bullets,
+ * exam adds key terms with their defining sentence, detailed groups more points by source,
+ * eli5 picks short sentences, synthesis lists the key points of each named source without
+ * comparing them. Any other mode is treated as short.
+ */
+export const summarizeExtractive = (material: string, mode: string = 'short', sourceNames: string[] = []): string => {
+  const passages = splitPassages(material);
+  const candidates = rankCandidates(passages, mode);
+  if (candidates.length === 0) return passages.map(p => p.text).join('\n\n').trim();
+
+  const withMarker = (c: Candidate) => {
+    const marker = passages[c.passage].marker;
+    return marker ? `${c.text} ${marker}` : c.text;
+  };
+  const picked = pick(candidates, sentenceCount(mode, candidates.length));
+
+  if (mode === 'eli5') {
+    return `Here's the simple version:\n\n${picked.map(withMarker).join(' ')}`;
+  }
+
+  if (mode === 'exam') {
+    const body = passages.map(p => p.text).join('\n\n');
+    // A sentence defines a term when the term is its subject, and each sentence defines one term only
+    const used = new Set<Candidate>();
+    const terms = extractKeywords(body, 8).map(term => {
+      const definesTerm = new RegExp(`^(?:\\S+\\s+){0,3}${term}\\b[^,;]{0,40}?${DEFINITION_PATTERN.source}`, 'i');
+      const definition = candidates.find(c => !used.has(c) && definesTerm.test(c.text));
+      if (!definition) return `- **${capitalize(term)}**`;
+      used.add(definition);
+      return `- **${capitalize(term)}**: ${withMarker(definition)}`;
+    });
+    return ['## Key Terms', ...terms, '', '## Key Points', ...picked.map(c => `- ${withMarker(c)}`)].join('\n');
+  }
+
+  if (mode === 'detailed' || mode === 'synthesis') {
+    const lines = [mode === 'synthesis' ? '## Key Points by Source' : '## Summary'];
+    let currentLabel: string | null = null;
+    // Synthesis groups by source rather than by page or heading
+    const groupOf = (label: string) => (mode === 'synthesis' && sourceNames.find(name => label.startsWith(name))) || label;
+    picked.forEach(c => {
+      const label = groupOf(passages[c.passage].label);
+      // Sub-headings only help when the material has more than one source section
+      if (passages.length > 1 && label && label !== currentLabel) {
+        lines.push('', `### ${label}`);
+        currentLabel = label;
+      }
+      lines.push(`- ${withMarker(c)}`);
+    });
+    return lines.join('\n');
+  }
+
+  return picked.map(c => `- ${withMarker(c)}`).join('\n');
+};
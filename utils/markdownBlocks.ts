@@ -0,0 +1,119 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Block, BlockType } from '../types';
+
+/**
+ * Markdown to note blocks.
+ * Blocks hold HTML, so inline markdown (bold, italics, code, links) becomes tags and text is
+ * escaped. Blocks have no nesting: nested list items become bullets of their own, marked by
+ * depth, and every other paragraph line becomes one text block.
+ */
+
+const createBlock = (type: BlockType, content: string, extra: Partial<Block> = {}): Block => ({
+  id: uuidv4(),
+  type,
+  content,
+  ...extra
+});
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Quotes in a link target are percent-encoded, so the href can never end early
+const safeHref = (url: string) => url.replace(/&quot;/g, '%22').replace(/&#39;/g, '%27');
+
+/** Marks a flattened list item by its depth, so the outline still reads as one */
+const DEPTH_MARKERS = ['', '◦ ', '▪ '];
+
+/**
+ * Inline markdown as HTML. Code spans are cut out first so their content is not formatted.
+ */
+export const inlineMarkdownToHtml = (text: string): string => {
+  const codeSpans: string[] = [];
+  const withoutCode = text.replace(/`([^`]+)`/g, (_, code: string) => {
+    codeSpans.push(`<code>${escapeHtml(code)}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  return escapeHtml(withoutCode)
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, (_, label: string, url: string) => `<a href="${safeHref(url)}">${label}</a>`)
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `<b>${a ?? b}</b>`)
+    .replace(/(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)|(^|\W)_(?!\s)(.+?)_(?!\w)/g,
+      (_, p1, a, p2, b) => `${p1 ?? p2}<i>${a ?? b}</i>`)
+    .replace(/\u0000(\d+)\u0000/g, (_, i: string) => codeSpans[Number(i)]);
+};
+
+const listDepth = (indent: string) => Math.floor(indent.replace(/\t/g, '  ').length / 2);
+
+/**
+ * Converts markdown (e.g. an AI summary) into blocks: headings, bullets, to-dos, quotes,
+ * fenced code and text. Horizontal rules are dropped; table rows become text lines.
+ */
+export const markdownToBlocks = (markdown: string): Block[] => {
+  const blocks: Block[] = [];
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  let quote: string[] = [];
+
+  const flushQuote = () => {
+    if (quote.length > 0) blocks.push(createBlock('quote', quote.join('<br />')));
+    quote = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(/^\s*```\s*([\w+-]*)/);
+    if (fence) {
+      flushQuote();
+      const code: string[] = [];
+      while (++i < lines.length && !/^\s*```/.test(lines[i])) code.push(lines[i]);
+      blocks.push(createBlock('code', escapeHtml(code.join('\n')), fence[1] ? { language: fence[1] } : {}));
+      continue;
+    }
+
+    const quoted = line.match(/^\s*>\s?(.*)$/);
+    if (quoted) {
+      if (quoted[1].trim()) quote.push(inlineMarkdownToHtml(quoted[1].trim()));
+      continue;
+    }
+    flushQuote();
+
+    const trimmed = line.trim();
+    if (!trimmed || /^([-*_])(\s*\1){2,}$/.test(trimmed) || /^\|?\s*:?-{3,}/.test(trimmed)) continue;
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+    if (heading) {
+      const level = Math.min(3, heading[1].length);
+      blocks.push(createBlock(`h${level}` as BlockType, inlineMarkdownToHtml(heading[2])));
+      continue;
+    }
+
+    const todo = line.match(/^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/);
+    if (todo) {
+      blocks.push(createBlock('todo', inlineMarkdownToHtml(todo[3]), { isChecked: todo[2].toLowerCase() === 'x' }));
+      continue;
+    }
+
+    const item = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (item) {
+      const marker = DEPTH_MARKERS[Math.min(listDepth(item[1]), DEPTH_MARKERS.length - 1)];
+      blocks.push(createBlock('bullet', `${marker}${inlineMarkdownToHtml(item[2])}`));
+      continue;
+    }
+
+    if (trimmed.startsWith('|')) {
+      const cells = trimmed.replace(/^\||\|$/g, '').split('|').map(cell => inlineMarkdownToHtml(cell.trim()));
+      blocks.push(createBlock('text', cells.join(' · ')));
+      continue;
+    }
+
+    blocks.push(createBlock('text', inlineMarkdownToHtml(trimmed)));
+  }
+  flushQuote();
+
+  return blocks;
+};
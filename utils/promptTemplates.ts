@@ -0,0 +1,133 @@
+import { CustomMode, PromptVariable, PromptVariables } from '../types';
+
+/**
+ * Summarizer prompt templates.
+ * A mode's system prompt may reference {{subject}}, {{level}} and {{language}}; values come
+ * from the summarizer, then the mode's own defaults, then the global defaults below.
+ * Built-in modes are templates too, so every mode goes through the same rendering path.
+ */
+
+export interface PromptVariableInfo {
+  name: PromptVariable;
+  label: string;
+  placeholder: string;
+  /** Used when neither the summarizer nor the mode sets a value */
+  fallback: string;
+}
+
+export const PROMPT_VARIABLES: PromptVariableInfo[] = [
+  { name: 'subject', label: 'Subject', placeholder: 'e.g. Biology', fallback: 'the material' },
+  { name: 'level', label: 'Level', placeholder: 'e.g. high school, first-year university', fallback: 'a student' },
+  { name: 'language', label: 'Language', placeholder: 'e.g. Spanish', fallback: 'the same language as the content' },
+];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const BUILT_IN_MODES: CustomMode[] = [
+  {
+    id: 'builtin_short',
+    name: 'short',
+    systemPrompt: 'Concise key points only. Bullet points. Write for {{level}} studying {{subject}}, in {{language}}.',
+    createdAt: 0,
+    userId: '',
+    version: 1
+  },
+  {
+    id: 'builtin_detailed',
+    name: 'detailed',
+    systemPrompt: 'Provide a comprehensive, detailed summary of {{subject}} with examples, pitched at {{level}}. Write in {{language}}.',
+    createdAt: 0,
+    userId: '',
+    version: 1
+  },
+  {
+    id: 'builtin_eli5',
+    name: 'eli5',
+    systemPrompt: "Explain this content like I'm 5 years old. Use simple analogies. Write in {{language}}.",
+    createdAt: 0,
+    userId: '',
+    version: 1
+  },
+  {
+    id: 'builtin_exam',
+    name: 'exam',
+    systemPrompt: 'Summarize {{subject}} for exam prep at {{level}}. Focus on definitions, dates, formulas, and key concepts. Use structured bullet points. Write in {{language}}.',
+    createdAt: 0,
+    userId: '',
+    version: 1
+  },
+  {
+    id: 'builtin_synthesis',
+    name: 'synthesis',
+    systemPrompt: `Compare the sources on {{subject}} for {{level}} and reconcile them. Write in {{language}}. Use exactly these sections:
+## Sources: one line per source with its name and main position.
+## Agreement: points two or more sources share, naming the sources that agree on each.
+## Contradictions: points where the sources differ, stating what each source claims.
+## Merged Outline: one structured outline combining all sources, attributing every point to the source or sources it comes from.`,
+    createdAt: 0,
+    userId: '',
+    version: 1
+  },
+];
+
+/** The built-in mode that compares several sources instead of summarizing them as one text */
+export const SYNTHESIS_MODE = 'synthesis';
+export const MIN_SYNTHESIS_SOURCES = 2;
+
+export const SAMPLE_TEXT = `Photosynthesis is the process by which green plants, algae and some bacteria convert light energy into chemical energy. It takes place mainly in the chloroplasts, where the pigment chlorophyll absorbs red and blue light.
+
+The light-dependent reactions happen in the thylakoid membranes. They split water molecules, release oxygen as a by-product and produce ATP and NADPH. The Calvin cycle, which runs in the stroma, then uses that ATP and NADPH to fix carbon dioxide into glucose.
+
+The overall equation is 6CO2 + 6H2O + light → C6H12O6 + 6O2. Factors that limit the rate of photosynthesis include light intensity, carbon dioxide concentration and temperature.`;
+
+export const getBuiltInMode = (name: string): CustomMode | undefined =>
+  BUILT_IN_MODES.find(m => m.name === name);
+
+/**
+ * Variable names used in a template, in order of first use
+ */
+export const findTemplateVariables = (template: string): string[] => {
+  const names: string[] = [];
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+};
+
+export const isKnownVariable = (name: string): name is PromptVariable =>
+  PROMPT_VARIABLES.some(v => v.name === name);
+
+/**
+ * Fills in a template. Unknown variables are left as written so a typo stays visible.
+ */
+export const renderTemplate = (template: string, values: PromptVariables = {}, defaults: PromptVariables = {}): string =>
+  template.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    if (!isKnownVariable(name)) return placeholder;
+    const value = values[name]?.trim() || defaults[name]?.trim();
+    return value || PROMPT_VARIABLES.find(v => v.name === name)!.fallback;
+  });
+
+/**
+ * Version history of a mode, oldest first. Modes saved before versioning count as version 1.
+ */
+export const getVersions = (mode: CustomMode) =>
+  mode.versions?.length
+    ? mode.versions
+    : [{ version: mode.version || 1, systemPrompt: mode.systemPrompt, createdAt: mode.createdAt }];
+
+/**
+ * Returns the mode with systemPrompt as its current template, adding a version when it changed
+ */
+export const withNewVersion = (mode: CustomMode, systemPrompt: string): CustomMode => {
+  const versions = getVersions(mode);
+  const current = versions[versions.length - 1];
+  if (current.systemPrompt === systemPrompt) return { ...mode, version: current.version, versions };
+
+  const version = current.version + 1;
+  return {
+    ...mode,
+    systemPrompt,
+    version,
+    versions: [...versions, { version, systemPrompt, createdAt: Date.now() }]
+  };
+};
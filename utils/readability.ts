@@ -0,0 +1,236 @@
+import { load } from 'cheerio';
+import type { CheerioAPI, Cheerio } from 'cheerio';
+import type { AnyNode, Element, Text } from 'domhandler';
+
+/**
+ * Readable article extraction.
+ * Strips page chrome (navigation, ads, comments...), finds the element holding the main
+ * text the way Readability does, by scoring paragraphs and their ancestors, and converts it
+ * to markdown that keeps headings, lists, tables, quotes and code. Runs entirely locally.
+ */
+
+export interface ReadableArticle {
+  title: string;
+  markdown: string;
+  wordCount: number;
+}
+
+const JUNK_SELECTORS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button', 'input', 'select',
+  'nav', 'footer', 'aside', 'dialog',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]', '[role="dialog"]',
+  '[aria-hidden="true"]', '[hidden]'
+].join(', ');
+
+const UNLIKELY_PATTERN = /comment|sidebar|footer|header|masthead|nav|menu|breadcrumb|share|social|advert|\bads?\b|sponsor|promo|cookie|consent|banner|related|recommend|subscribe|newsletter|popup|modal/i;
+const LIKELY_PATTERN = /article|content|main|body|post|entry|story|text/i;
+
+/** A main element with less text than this is not trusted on its own */
+const MIN_MAIN_TEXT = 250;
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ');
+
+const classAndId = (el: Element) => `${el.attribs?.class || ''} ${el.attribs?.id || ''}`;
+
+const removeClutter = ($: CheerioAPI) => {
+  $(JUNK_SELECTORS).remove();
+  $('body *').each((_, el) => {
+    const signature = classAndId(el as Element);
+    if (UNLIKELY_PATTERN.test(signature) && !LIKELY_PATTERN.test(signature) && (el as Element).name !== 'body') {
+      $(el).remove();
+    }
+  });
+};
+
+const linkDensity = ($: CheerioAPI, node: Cheerio<AnyNode>): number => {
+  const textLength = collapse(node.text()).length || 1;
+  const linkLength = node.find('a').toArray().reduce((sum, a) => sum + collapse($(a).text()).length, 0);
+  return linkLength / textLength;
+};
+
+/**
+ * The element most likely to hold the article: an explicit <article>/<main> when it has enough
+ * text, otherwise the ancestor that collects the highest paragraph score
+ */
+const findMainContent = ($: CheerioAPI): Cheerio<AnyNode> => {
+  for (const selector of ['article', 'main', '[role="main"]', '[itemprop="articleBody"]']) {
+    const candidate = $(selector).first();
+    if (candidate.length && collapse(candidate.text()).length >= MIN_MAIN_TEXT) return candidate;
+  }
+
+  const scores = new Map<Element, number>();
+  $('p, pre, td, blockquote').each((_, el) => {
+    const text = collapse($(el).text()).trim();
+    if (text.length < 25) return;
+    const score = 1 + text.split(',').length + Math.min(3, Math.floor(text.length / 100));
+    const parent = (el as Element).parent as Element | null;
+    const grandparent = parent?.parent as Element | null;
+    if (parent?.type === 'tag') scores.set(parent, (scores.get(parent) || 0) + score);
+    if (grandparent?.type === 'tag') scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  scores.forEach((score, el) => {
+    const adjusted = score * (1 - linkDensity($, $(el)));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  });
+
+  return best ? $(best) : $('body');
+};
+
+const absoluteUrl = (href: string, baseUrl?: string): string => {
+  if (!baseUrl) return href;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+};
+
+const escapeCell = (text: string) => collapse(text).trim().replace(/\|/g, '\\|');
+
+/**
+ * Markdown for a node and its children. Block elements return text surrounded by blank lines,
+ * inline elements return text only; the caller tidies the spacing at the end.
+ */
+const toMarkdown = ($: CheerioAPI, node: AnyNode, baseUrl: string | undefined, listDepth = 0): string => {
+  if (node.type === 'text') return collapse((node as Text).data || '');
+  if (node.type !== 'tag' && node.type !== 'root') return '';
+
+  const el = node as Element;
+  const children = () => (el.children || []).map(child => toMarkdown($, child, baseUrl, listDepth)).join('');
+  const inline = () => children().replace(/\s+/g, ' ').trim();
+
+  switch (el.name) {
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+      const text = inline();
+      return text ? `\n\n${'#'.repeat(Number(el.name[1]))} ${text}\n\n` : '';
+    }
+    case 'p':
+    case 'div':
+    case 'section':
+    case 'article':
+    case 'main':
+    case 'header':
+    case 'figure':
+      return `\n\n${children()}\n\n`;
+    case 'figcaption': {
+      const text = inline();
+      return text ? `\n\n_${text}_\n\n` : '';
+    }
+    case 'br':
+      return '\n';
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'strong':
+    case 'b': {
+      const text = inline();
+      return text ? `**${text}**` : '';
+    }
+    case 'em':
+    case 'i': {
+      const text = inline();
+      return text ? `_${text}_` : '';
+    }
+    case 'code':
+      return `\`${$(el).text()}\``;
+    case 'pre':
+      return `\n\n\`\`\`\n${$(el).text().replace(/\n+$/, '')}\n\`\`\`\n\n`;
+    case 'a': {
+      const text = inline();
+      const href = el.attribs?.href;
+      if (!text) return '';
+      if (!href || href.startsWith('#') || href.startsWith('javascript:')) return text;
+      return `[${text}](${absoluteUrl(href, baseUrl)})`;
+    }
+    case 'img': {
+      const alt = collapse(el.attribs?.alt || '').trim();
+      return alt ? `[Image: ${alt}]` : '';
+    }
+    case 'blockquote': {
+      const text = children().trim().split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+      return `\n\n${text}\n\n`;
+    }
+    case 'ul':
+    case 'ol': {
+      const indent = '  '.repeat(listDepth);
+      const items = $(el).children('li').toArray().map((li, i) => {
+        const body = ((li as Element).children || [])
+          .map(child => toMarkdown($, child, baseUrl, listDepth + 1))
+          .join('')
+          .replace(/\n{2,}/g, '\n')
+          .trim();
+        const marker = el.name === 'ol' ? `${i + 1}.` : '-';
+        return `${indent}${marker} ${body}`;
+      });
+      return `\n\n${items.join('\n')}\n\n`;
+    }
+    case 'table': {
+      const rows = $(el).find('tr').toArray().map(tr =>
+        $(tr).children('th, td').toArray().map(cell => escapeCell($(cell).text()))
+      ).filter(row => row.length > 0);
+      if (rows.length === 0) return '';
+      const width = Math.max(...rows.map(row => row.length));
+      const pad = (row: string[]) => [...row, ...new Array(width - row.length).fill('')];
+      const [head, ...body] = rows.map(pad);
+      return `\n\n| ${head.join(' | ')} |\n|${' --- |'.repeat(width)}\n${body.map(row => `| ${row.join(' | ')} |`).join('\n')}\n\n`;
+    }
+    default:
+      return children();
+  }
+};
+
+/**
+ * Removes stray indentation left by inline whitespace, except in code blocks and nested lists
+ */
+const tidy = (markdown: string): string => {
+  let inCode = false;
+  return markdown
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('```')) inCode = !inCode;
+      if (inCode) return line;
+      return line.replace(/[ \t]+$/, '').replace(/^[ \t]+(?![ \t\-\d])/, '');
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+/**
+ * Extracts the readable part of an HTML page as markdown. baseUrl resolves relative links.
+ */
+export const extractReadableArticle = (html: string, baseUrl?: string): ReadableArticle => {
+  const $ = load(html);
+
+  const title = collapse(
+    $('meta[property="og:title"]').attr('content') ||
+    $('title').first().text() ||
+    $('h1').first().text() ||
+    ''
+  ).trim();
+
+  removeClutter($);
+  const main = findMainContent($);
+
+  let markdown = tidy(main.toArray().map(el => toMarkdown($, el, baseUrl)).join('\n\n'));
+  if (title && !markdown.startsWith('# ')) {
+    markdown = `# ${title}\n\n${markdown}`;
+  }
+
+  return {
+    title,
+    markdown,
+    wordCount: (markdown.match(/\S+/g) || []).length
+  };
+};
+
+/**
+ * True when the text looks like an HTML document or fragment rather than plain text
+ */
+export const looksLikeHTML = (text: string): boolean =>
+  /<(html|body|article|main|div|p|h[1-6]|ul|ol|table)[\s>]/i.test(text);
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { createSchedule, gradeCard, previewIntervals, formatInterval, DAY, STARTING_EASE } from './spacedRepetition';
+
+const NOW = new Date(2026, 0, 15, 9, 0).getTime();
+const MINUTE = 60 * 1000;
+
+const newCard = () => createSchedule('card', 'user', { kind: 'deck', deckId: 'deck' }, NOW);
+
+/** Grades the card good each time it falls due, until it graduates */
+const graduate = () => {
+  let schedule = newCard();
+  while (schedule.state !== 'review') schedule = gradeCard(schedule, 'good', schedule.due);
+  return schedule;
+};
+
+describe('gradeCard', () => {
+  it('steps a new card through the learning steps before graduating it to one day', () => {
+    const first = gradeCard(newCard(), 'good', NOW);
+    expect(first.state).toBe('learning');
+    expect(first.due).toBe(NOW + 10 * MINUTE);
+
+    const graduated = gradeCard(first, 'good', first.due);
+    expect(graduated.state).toBe('review');
+    expect(graduated.interval).toBe(1);
+    expect(graduated.due).toBe(first.due + DAY);
+    expect(graduated.ease).toBe(STARTING_EASE);
+  });
+
+  it('graduates a new card straight to four days on easy', () => {
+    const schedule = gradeCard(newCard(), 'easy', NOW);
+    expect(schedule.state).toBe('review');
+    expect(schedule.interval).toBe(4);
+  });
+
+  it('waits halfway to the next step on hard from the first step', () => {
+    expect(gradeCard(newCard(), 'hard', NOW).due).toBe(NOW + 5.5 * MINUTE);
+  });
+
+  it('grows review intervals by the ease and orders them hard < good < easy', () => {
+    const review = { ...graduate(), interval: 10 };
+    const hard = gradeCard(review, 'hard', NOW);
+    const good = gradeCard(review, 'good', NOW);
+    const easy = gradeCard(review, 'easy', NOW);
+
+    expect(good.interval).toBe(25);
+    expect(hard.interval).toBeLessThan(good.interval);
+    expect(easy.interval).toBeGreaterThan(good.interval);
+    expect(hard.ease).toBeCloseTo(STARTING_EASE - 0.15);
+    expect(easy.ease).toBeCloseTo(STARTING_EASE + 0.15);
+  });
+
+  it('sends a forgotten card to relearning with a lower ease and half its interval', () => {
+    const review = { ...graduate(), interval: 20 };
+    const lapsed = gradeCard(review, 'again', NOW);
+
+    expect(lapsed.state).toBe('relearning');
+    expect(lapsed.lapses).toBe(1);
+    expect(lapsed.repetitions).toBe(0);
+    expect(lapsed.ease).toBeCloseTo(STARTING_EASE - 0.2);
+    expect(lapsed.due).toBe(NOW + 10 * MINUTE);
+
+    const relearned = gradeCard(lapsed, 'good', lapsed.due);
+    expect(relearned.state).toBe('review');
+    expect(relearned.interval).toBe(10);
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    let schedule = graduate();
+    for (let i = 0; i < 20; i++) {
+      schedule = gradeCard(gradeCard(schedule, 'again', NOW), 'good', NOW);
+    }
+    expect(schedule.ease).toBeCloseTo(1.3);
+  });
+
+  it('logs every review with the state it was graded in', () => {
+    const schedule = gradeCard(gradeCard(newCard(), 'good', NOW), 'again', NOW + MINUTE);
+    expect(schedule.log.map(entry => [entry.grade, entry.state])).toEqual([['good', 'new'], ['again', 'learning']]);
+  });
+});
+
+describe('previewIntervals', () => {
+  it('gives the delay each grade would set', () => {
+    const preview = previewIntervals(newCard(), NOW);
+    expect(preview).toEqual({ again: MINUTE, hard: 5.5 * MINUTE, good: 10 * MINUTE, easy: 4 * DAY });
+  });
+});
+
+describe('formatInterval', () => {
+  it('uses the largest fitting unit', () => {
+    expect(formatInterval(10 * MINUTE)).toBe('10m');
+    expect(formatInterval(3 * 60 * MINUTE)).toBe('3h');
+    expect(formatInterval(4 * DAY)).toBe('4d');
+    expect(formatInterval(75 * DAY)).toBe('2.5mo');
+    expect(formatInterval(365 * DAY)).toBe('1y');
+  });
+});
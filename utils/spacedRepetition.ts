@@ -0,0 +1,169 @@
+import { CardSchedule, CardSource, ReviewGrade } from '../types';
+
+/**
+ * Spaced-repetition scheduling.
+ * SM-2 as adapted by Anki: new and forgotten cards go through short learning steps in minutes,
+ * then graduate to intervals in days that grow by the card's ease. Again lowers the ease and
+ * sends the card back to relearning, Hard and Easy nudge the ease down and up.
+ */
+
+const MINUTE = 60 * 1000;
+export const DAY = 24 * 60 * MINUTE;
+
+/** Learning steps for new cards, in minutes */
+export const LEARNING_STEPS = [1, 10];
+/** Relearning steps for forgotten cards, in minutes */
+export const RELEARNING_STEPS = [10];
+
+export const STARTING_EASE = 2.5;
+const MIN_EASE = 1.3;
+const GRADUATING_INTERVAL = 1;
+const EASY_INTERVAL = 4;
+const EASY_BONUS = 1.3;
+const HARD_MULTIPLIER = 1.2;
+// A forgotten card restarts at this share of its interval once relearned
+const LAPSE_MULTIPLIER = 0.5;
+const MAX_INTERVAL = 36500;
+
+/** Cards with an interval of at least this many days count as mature */
+export const MATURE_INTERVAL = 21;
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export const createSchedule = (id: string, userId: string, source: CardSource, now = Date.now()): CardSchedule => ({
+  id,
+  userId,
+  source,
+  state: 'new',
+  step: 0,
+  ease: STARTING_EASE,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: now,
+  log: []
+});
+
+const clampInterval = (days: number) => Math.min(MAX_INTERVAL, Math.max(1, Math.round(days)));
+
+/**
+ * The schedule after grading a review. The card's id, owner and source are kept.
+ */
+export const gradeCard = (schedule: CardSchedule, grade: ReviewGrade, now = Date.now()): CardSchedule => {
+  const next: CardSchedule = { ...schedule, lastReviewedAt: now };
+
+  if (schedule.state === 'review') {
+    const hardInterval = clampInterval(Math.max(schedule.interval + 1, schedule.interval * HARD_MULTIPLIER));
+    const goodInterval = clampInterval(Math.max(hardInterval + 1, schedule.interval * schedule.ease));
+
+    switch (grade) {
+      case 'again':
+        next.state = 'relearning';
+        next.step = 0;
+        next.lapses = schedule.lapses + 1;
+        next.repetitions = 0;
+        next.ease = Math.max(MIN_EASE, schedule.ease - 0.2);
+        next.interval = clampInterval(schedule.interval * LAPSE_MULTIPLIER);
+        next.due = now + RELEARNING_STEPS[0] * MINUTE;
+        break;
+      case 'hard':
+        next.ease = Math.max(MIN_EASE, schedule.ease - 0.15);
+        next.interval = hardInterval;
+        break;
+      case 'good':
+        next.interval = goodInterval;
+        break;
+      case 'easy':
+        next.ease = schedule.ease + 0.15;
+        next.interval = clampInterval(Math.max(goodInterval + 1, schedule.interval * schedule.ease * EASY_BONUS));
+        break;
+    }
+    if (grade !== 'again') {
+      next.repetitions = schedule.repetitions + 1;
+      next.due = now + next.interval * DAY;
+    }
+  } else {
+    // New, learning and relearning cards step through minutes until they graduate
+    const relearning = schedule.state === 'relearning';
+    const steps = relearning ? RELEARNING_STEPS : LEARNING_STEPS;
+    const step = Math.min(schedule.step, steps.length - 1);
+    const graduate = (interval: number) => {
+      next.state = 'review';
+      next.step = 0;
+      next.repetitions = schedule.repetitions + 1;
+      next.interval = interval;
+      next.due = now + interval * DAY;
+    };
+
+    switch (grade) {
+      case 'again':
+        next.state = relearning ? 'relearning' : 'learning';
+        next.step = 0;
+        next.due = now + steps[0] * MINUTE;
+        break;
+      case 'hard': {
+        // Halfway to the next step on the first step, otherwise repeat the step
+        const delay = step === 0 && steps.length > 1 ? (steps[0] + steps[1]) / 2 : steps[step];
+        next.state = relearning ? 'relearning' : 'learning';
+        next.step = step;
+        next.due = now + delay * MINUTE;
+        break;
+      }
+      case 'good':
+        if (step + 1 < steps.length) {
+          next.state = relearning ? 'relearning' : 'learning';
+          next.step = step + 1;
+          next.due = now + steps[step + 1] * MINUTE;
+        } else {
+          graduate(relearning ? clampInterval(schedule.interval) : GRADUATING_INTERVAL);
+        }
+        break;
+      case 'easy':
+        graduate(relearning ? clampInterval(schedule.interval + 1) : EASY_INTERVAL);
+        break;
+    }
+  }
+
+  next.log = [
+    ...schedule.log,
+    { reviewedAt: now, grade, state: schedule.state, interval: next.state === 'review' ? next.interval : 0, ease: next.ease }
+  ];
+  return next;
+};
+
+/**
+ * How long until the card comes back for each grade, in milliseconds, for labelling the buttons
+ */
+export const previewIntervals = (schedule: CardSchedule, now = Date.now()): Record<ReviewGrade, number> =>
+  REVIEW_GRADES.reduce((acc, grade) => {
+    acc[grade] = gradeCard(schedule, grade, now).due - now;
+    return acc;
+  }, {} as Record<ReviewGrade, number>);
+
+/**
+ * A short label for a delay: 10m, 3h, 4d, 2.5mo, 1.2y
+ */
+export const formatInterval = (ms: number): string => {
+  const minutes = ms / MINUTE;
+  if (minutes < 60) return `${Math.max(1, Math.round(minutes))}m`;
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)}h`;
+  const days = ms / DAY;
+  if (days < 30) return `${Math.round(days)}d`;
+  if (days < 365) return `${(days / 30).toFixed(1).replace(/\.0$/, '')}mo`;
+  return `${(days / 365).toFixed(1).replace(/\.0$/, '')}y`;
+};
+
+/**
+ * The end of the local day the timestamp falls on
+ */
+export const endOfDay = (now = Date.now()): number => {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+export const startOfDay = (now = Date.now()): number => {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
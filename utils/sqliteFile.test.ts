@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { readSqliteTables, writeSqliteDatabase, SqliteTable } from './sqliteFile';
+
+const notesTable = (rows: SqliteTable['rows']): SqliteTable => ({
+  name: 'notes',
+  sql: 'CREATE TABLE notes (id integer primary key, title text not null, score real, data blob)',
+  columns: ['id', 'title', 'score', 'data'],
+  rows
+});
+
+describe('sqlite file round trip', () => {
+  it('reads back the tables it wrote', () => {
+    const file = writeSqliteDatabase([
+      notesTable([
+        [1, 'Cells', 2.5, new Uint8Array([1, 2, 3])],
+        [2, 'Ünïcödé ✓', -7, null],
+        [3, '', 1099511627776, new Uint8Array()]
+      ]),
+      { name: 'col', sql: 'CREATE TABLE col (id integer primary key, models text)', columns: ['id', 'models'], rows: [[1, '{}']] }
+    ]);
+
+    const tables = readSqliteTables(file);
+    expect(Object.keys(tables).sort()).toEqual(['col', 'notes']);
+    expect(tables.notes).toEqual([
+      { id: 1, title: 'Cells', score: 2.5, data: new Uint8Array([1, 2, 3]) },
+      { id: 2, title: 'Ünïcödé ✓', score: -7, data: null },
+      { id: 3, title: '', score: 1099511627776, data: new Uint8Array() }
+    ]);
+    expect(tables.col).toEqual([{ id: 1, models: '{}' }]);
+  });
+
+  it('follows overflow pages for values larger than a page', () => {
+    const long = 'mitochondria '.repeat(2000);
+    const blob = new Uint8Array(20000).map((_, i) => i % 251);
+    const [row] = readSqliteTables(writeSqliteDatabase([notesTable([[1, long, 0, blob]])])).notes;
+    expect(row.title).toBe(long);
+    expect(row.data).toEqual(blob);
+  });
+
+  it('keeps every row of tables spanning several levels of pages', () => {
+    const rows = Array.from({ length: 5000 }, (_, i) => [i + 1, `Note ${i + 1}`, i / 2, null]);
+    const read = readSqliteTables(writeSqliteDatabase([notesTable(rows)])).notes;
+    expect(read).toHaveLength(5000);
+    expect(read[0]).toEqual({ id: 1, title: 'Note 1', score: 0, data: null });
+    expect(read[4999]).toEqual({ id: 5000, title: 'Note 5000', score: 2499.5, data: null });
+  });
+
+  it('reads only the requested tables', () => {
+    const file = writeSqliteDatabase([
+      notesTable([[1, 'a', 0, null]]),
+      { name: 'revlog', sql: 'CREATE TABLE revlog (id integer primary key)', columns: ['id'], rows: [[1]] }
+    ]);
+    expect(Object.keys(readSqliteTables(file, ['revlog']))).toEqual(['revlog']);
+  });
+
+  it('rejects files that are not SQLite databases', () => {
+    expect(() => readSqliteTables(new TextEncoder().encode('PK\u0003\u0004 not a database'))).toThrow('Not a SQLite database');
+  });
+});
@@ -0,0 +1,454 @@
+/**
+ * A minimal reader and writer for SQLite database files, enough to exchange Anki collections
+ * without a native or WebAssembly SQLite build.
+ * The reader walks the table b-trees listed in sqlite_master (indexes are ignored) and
+ * follows overflow pages. The writer builds a fresh file with one b-tree per table and no
+ * indexes; rows must be given in ascending rowid order.
+ * File format reference: https://www.sqlite.org/fileformat2.html
+ */
+
+export type SqliteValue = number | string | Uint8Array | null;
+export type SqliteRow = Record<string, SqliteValue>;
+
+export interface SqliteTable {
+  name: string;
+  /** The CREATE TABLE statement, stored in sqlite_master */
+  sql: string;
+  columns: string[];
+  rows: SqliteValue[][];
+}
+
+const HEADER_MAGIC = 'SQLite format 3\u0000';
+const PAGE_SIZE = 4096;
+
+const LEAF_TABLE = 0x0d;
+const INTERIOR_TABLE = 0x05;
+
+// --- Varints and records ---
+
+const readVarint = (bytes: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) return [value, i + 1];
+  }
+  return [value * 256 + bytes[offset + 8], 9];
+};
+
+const writeVarint = (value: number): number[] => {
+  if (value < 0) throw new Error('Negative varints are not supported');
+  if (value > 0x00ffffffffffffff) {
+    // Nine-byte form: eight 7-bit groups, then a full final byte
+    const big = BigInt(value);
+    const out = [Number(big & 0xffn)];
+    let rest = big >> 8n;
+    for (let i = 0; i < 8; i++) {
+      out.unshift(Number(rest & 0x7fn) | 0x80);
+      rest >>= 7n;
+    }
+    return out;
+  }
+  const groups: number[] = [];
+  let rest = value;
+  do {
+    groups.unshift(rest % 128);
+    rest = Math.floor(rest / 128);
+  } while (rest > 0);
+  return groups.map((group, i) => (i < groups.length - 1 ? group | 0x80 : group));
+};
+
+const textDecoders: Record<number, TextDecoder> = {};
+const decoderFor = (encoding: number) =>
+  (textDecoders[encoding] ??= new TextDecoder(encoding === 2 ? 'utf-16le' : encoding === 3 ? 'utf-16be' : 'utf-8'));
+
+const readInt = (bytes: Uint8Array, offset: number, length: number): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + offset, length);
+  switch (length) {
+    case 1: return view.getInt8(0);
+    case 2: return view.getInt16(0);
+    case 3: return (view.getInt8(0) << 16) | view.getUint16(1);
+    case 4: return view.getInt32(0);
+    case 6: return view.getInt16(0) * 0x100000000 + view.getUint32(2);
+    default: return Number(view.getBigInt64(0));
+  }
+};
+
+const INT_SIZES: Record<number, number> = { 1: 1, 2: 2, 3: 3, 4: 4, 5: 6, 6: 8 };
+
+const decodeRecord = (payload: Uint8Array, encoding: number): SqliteValue[] => {
+  const [headerSize, first] = readVarint(payload, 0);
+  const types: number[] = [];
+  for (let offset = first; offset < headerSize;) {
+    const [type, length] = readVarint(payload, offset);
+    types.push(type);
+    offset += length;
+  }
+
+  let offset = headerSize;
+  return types.map(type => {
+    if (type === 0) return null;
+    if (type === 8) return 0;
+    if (type === 9) return 1;
+    if (type === 7) {
+      const value = new DataView(payload.buffer, payload.byteOffset + offset, 8).getFloat64(0);
+      offset += 8;
+      return value;
+    }
+    if (INT_SIZES[type]) {
+      const value = readInt(payload, offset, INT_SIZES[type]);
+      offset += INT_SIZES[type];
+      return value;
+    }
+    const length = Math.floor((type - 12) / 2);
+    const data = payload.subarray(offset, offset + length);
+    offset += length;
+    return type % 2 === 1 ? decoderFor(encoding).decode(data) : data.slice();
+  });
+};
+
+const textEncoder = new TextEncoder();
+
+const encodeRecord = (values: SqliteValue[]): Uint8Array => {
+  const types: number[] = [];
+  const bodies: Uint8Array[] = [];
+
+  values.forEach(value => {
+    if (value === null || value === undefined) {
+      types.push(0);
+      bodies.push(new Uint8Array(0));
+    } else if (typeof value === 'number' && Number.isInteger(value)) {
+      if (value === 0 || value === 1) {
+        types.push(value === 0 ? 8 : 9);
+        bodies.push(new Uint8Array(0));
+        return;
+      }
+      const body = new Uint8Array(8);
+      new DataView(body.buffer).setBigInt64(0, BigInt(value));
+      // Smallest of the 1, 2, 3, 4, 6 and 8 byte integer forms that holds the value
+      const [type, size] = Math.abs(value) < 0x80 ? [1, 1]
+        : Math.abs(value) < 0x8000 ? [2, 2]
+        : Math.abs(value) < 0x800000 ? [3, 3]
+        : Math.abs(value) < 0x80000000 ? [4, 4]
+        : Math.abs(value) < 0x800000000000 ? [5, 6]
+        : [6, 8];
+      types.push(type);
+      bodies.push(body.subarray(8 - size));
+    } else if (typeof value === 'number') {
+      const body = new Uint8Array(8);
+      new DataView(body.buffer).setFloat64(0, value);
+      types.push(7);
+      bodies.push(body);
+    } else if (typeof value === 'string') {
+      const body = textEncoder.encode(value);
+      types.push(body.length * 2 + 13);
+      bodies.push(body);
+    } else {
+      types.push(value.length * 2 + 12);
+      bodies.push(value);
+    }
+  });
+
+  const typeBytes = types.flatMap(writeVarint);
+  // The header size counts itself, so grow it until it is stable
+  let headerSize = typeBytes.length + 1;
+  while (writeVarint(headerSize).length + typeBytes.length !== headerSize) headerSize++;
+
+  const header = [...writeVarint(headerSize), ...typeBytes];
+  const record = new Uint8Array(header.length + bodies.reduce((sum, body) => sum + body.length, 0));
+  record.set(header, 0);
+  let offset = header.length;
+  bodies.forEach(body => {
+    record.set(body, offset);
+    offset += body.length;
+  });
+  return record;
+};
+
+// How much of a payload a table leaf cell keeps on its own page
+const localPayloadSize = (payloadSize: number, usable: number): number => {
+  const maxLocal = usable - 35;
+  if (payloadSize <= maxLocal) return payloadSize;
+  const minLocal = Math.floor(((usable - 12) * 32) / 255) - 23;
+  const local = minLocal + ((payloadSize - minLocal) % (usable - 4));
+  return local <= maxLocal ? local : minLocal;
+};
+
+// --- Reader ---
+
+/**
+ * The rows of the file's tables, by table name. A column declared INTEGER PRIMARY KEY is
+ * filled in from the rowid, as SQLite does.
+ */
+export const readSqliteTables = (data: ArrayBuffer | Uint8Array, only?: string[]): Record<string, SqliteRow[]> => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (bytes.length < 100 || new TextDecoder().decode(bytes.subarray(0, 16)) !== HEADER_MAGIC) {
+    throw new Error('Not a SQLite database');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const rawPageSize = view.getUint16(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const usable = pageSize - bytes[20];
+  const encoding = view.getUint32(56) || 1;
+
+  const pageAt = (pageNumber: number) => bytes.subarray((pageNumber - 1) * pageSize, pageNumber * pageSize);
+
+  const readPayload = (page: Uint8Array, offset: number, payloadSize: number): Uint8Array => {
+    const local = localPayloadSize(payloadSize, usable);
+    if (local === payloadSize) return page.subarray(offset, offset + payloadSize);
+
+    const payload = new Uint8Array(payloadSize);
+    payload.set(page.subarray(offset, offset + local), 0);
+    let written = local;
+    let next = new DataView(page.buffer, page.byteOffset + offset + local, 4).getUint32(0);
+    while (next && written < payloadSize) {
+      const overflow = pageAt(next);
+      const chunk = Math.min(usable - 4, payloadSize - written);
+      payload.set(overflow.subarray(4, 4 + chunk), written);
+      written += chunk;
+      next = new DataView(overflow.buffer, overflow.byteOffset, 4).getUint32(0);
+    }
+    return payload;
+  };
+
+  const walk = (pageNumber: number, visit: (rowid: number, values: SqliteValue[]) => void, depth = 0) => {
+    if (depth > 64) throw new Error('Corrupt SQLite file: b-tree too deep');
+    const page = pageAt(pageNumber);
+    const headerOffset = pageNumber === 1 ? 100 : 0;
+    const pageView = new DataView(page.buffer, page.byteOffset, page.byteLength);
+    const type = page[headerOffset];
+    const cellCount = pageView.getUint16(headerOffset + 3);
+
+    if (type === INTERIOR_TABLE) {
+      for (let i = 0; i < cellCount; i++) {
+        const cell = pageView.getUint16(headerOffset + 12 + i * 2);
+        walk(pageView.getUint32(cell), visit, depth + 1);
+      }
+      walk(pageView.getUint32(headerOffset + 8), visit, depth + 1);
+    } else if (type === LEAF_TABLE) {
+      for (let i = 0; i < cellCount; i++) {
+        let cell = pageView.getUint16(headerOffset + 8 + i * 2);
+        const [payloadSize, a] = readVarint(page, cell);
+        cell += a;
+        const [rowid, b] = readVarint(page, cell);
+        cell += b;
+        visit(rowid, decodeRecord(readPayload(page, cell, payloadSize), encoding));
+      }
+    }
+    // Index pages are not needed to read the rows
+  };
+
+  const master: { type: string; name: string; rootpage: number; sql: string }[] = [];
+  walk(1, (_, [type, name, , rootpage, sql]) => {
+    master.push({ type: String(type), name: String(name), rootpage: Number(rootpage), sql: String(sql || '') });
+  });
+
+  const tables: Record<string, SqliteRow[]> = {};
+  master
+    .filter(entry => entry.type === 'table' && entry.rootpage > 0 && (!only || only.includes(entry.name)))
+    .forEach(entry => {
+      const { columns, rowidColumn } = parseColumns(entry.sql);
+      const rows: SqliteRow[] = [];
+      walk(entry.rootpage, (rowid, values) => {
+        const row: SqliteRow = {};
+        columns.forEach((column, i) => {
+          // Columns added after a row was written read as NULL
+          row[column] = column === rowidColumn ? rowid : values[i] ?? null;
+        });
+        rows.push(row);
+      });
+      tables[entry.name] = rows;
+    });
+  return tables;
+};
+
+/**
+ * Column names of a CREATE TABLE statement, and which one aliases the rowid
+ */
+const parseColumns = (sql: string): { columns: string[]; rowidColumn: string | null } => {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else current += char;
+  }
+  parts.push(current);
+
+  const columns: string[] = [];
+  let rowidColumn: string | null = null;
+  parts.map(part => part.trim()).filter(Boolean).forEach(part => {
+    if (/^(primary|unique|check|foreign|constraint)\b/i.test(part)) return;
+    const name = part.match(/^["`[]?([^"`\]\s]+)/)?.[1] || part;
+    columns.push(name);
+    if (/^\S+\s+integer\s+primary\s+key/i.test(part)) rowidColumn = name;
+  });
+  return { columns, rowidColumn };
+};
+
+// --- Writer ---
+
+interface PageWriter {
+  pages: Uint8Array[];
+  allocate: () => number;
+}
+
+interface Cell {
+  bytes: Uint8Array;
+  rowid: number;
+}
+
+const leafCell = (rowid: number, record: Uint8Array, writer: PageWriter): Cell => {
+  const usable = PAGE_SIZE;
+  const local = localPayloadSize(record.length, usable);
+  const head = [...writeVarint(record.length), ...writeVarint(rowid)];
+  const bytes = new Uint8Array(head.length + local + (local < record.length ? 4 : 0));
+  bytes.set(head, 0);
+  bytes.set(record.subarray(0, local), head.length);
+
+  if (local < record.length) {
+    // The rest of the payload goes to a chain of overflow pages
+    const overflowPages: number[] = [];
+    for (let offset = local; offset < record.length; offset += usable - 4) overflowPages.push(writer.allocate());
+    overflowPages.forEach((pageNumber, i) => {
+      const page = writer.pages[pageNumber - 1];
+      new DataView(page.buffer).setUint32(0, overflowPages[i + 1] || 0);
+      const start = local + i * (usable - 4);
+      page.set(record.subarray(start, Math.min(record.length, start + usable - 4)), 4);
+    });
+    new DataView(bytes.buffer).setUint32(head.length + local, overflowPages[0]);
+  }
+  return { bytes, rowid };
+};
+
+/**
+ * Lays cells out on one b-tree page. The right child is only set for interior pages.
+ */
+const fillPage = (page: Uint8Array, headerOffset: number, type: number, cells: Uint8Array[], rightChild?: number) => {
+  const view = new DataView(page.buffer, page.byteOffset, page.byteLength);
+  const headerSize = type === INTERIOR_TABLE ? 12 : 8;
+  let contentStart = page.length;
+  cells.forEach((cell, i) => {
+    contentStart -= cell.length;
+    page.set(cell, contentStart);
+    view.setUint16(headerOffset + headerSize + i * 2, contentStart);
+  });
+  page[headerOffset] = type;
+  view.setUint16(headerOffset + 1, 0);
+  view.setUint16(headerOffset + 3, cells.length);
+  view.setUint16(headerOffset + 5, contentStart === 65536 ? 0 : contentStart);
+  page[headerOffset + 7] = 0;
+  if (type === INTERIOR_TABLE) view.setUint32(headerOffset + 8, rightChild!);
+};
+
+const fits = (cells: Uint8Array[], headerOffset: number, headerSize: number) =>
+  headerOffset + headerSize + cells.reduce((sum, cell) => sum + cell.length + 2, 0) <= PAGE_SIZE;
+
+/**
+ * Writes the rows as a table b-tree and returns its root page
+ */
+const writeTable = (rows: Cell[], writer: PageWriter): number => {
+  // Leaves, filled in rowid order
+  let level: { page: number; maxRowid: number }[] = [];
+  let pending: Cell[] = [];
+  const flushLeaf = () => {
+    const pageNumber = writer.allocate();
+    fillPage(writer.pages[pageNumber - 1], 0, LEAF_TABLE, pending.map(cell => cell.bytes));
+    level.push({ page: pageNumber, maxRowid: pending[pending.length - 1]?.rowid ?? 0 });
+    pending = [];
+  };
+  rows.forEach(cell => {
+    if (pending.length > 0 && !fits([...pending.map(c => c.bytes), cell.bytes], 0, 8)) flushLeaf();
+    pending.push(cell);
+  });
+  flushLeaf();
+
+  // Interior levels until a single root remains
+  while (level.length > 1) {
+    const next: typeof level = [];
+    let group: typeof level = [];
+    const flushInterior = () => {
+      const right = group[group.length - 1];
+      const cells = group.slice(0, -1).map(child => {
+        const key = writeVarint(child.maxRowid);
+        const cell = new Uint8Array(4 + key.length);
+        new DataView(cell.buffer).setUint32(0, child.page);
+        cell.set(key, 4);
+        return cell;
+      });
+      const pageNumber = writer.allocate();
+      fillPage(writer.pages[pageNumber - 1], 0, INTERIOR_TABLE, cells, right.page);
+      next.push({ page: pageNumber, maxRowid: right.maxRowid });
+      group = [];
+    };
+    level.forEach(child => {
+      // Each interior cell is a 4-byte page number and a varint key, plus its 2-byte pointer
+      if (group.length > 0 && 12 + group.length * 15 > PAGE_SIZE) flushInterior();
+      group.push(child);
+    });
+    flushInterior();
+    level = next;
+  }
+  return level[0].page;
+};
+
+/**
+ * A SQLite file holding the tables
+ */
+export const writeSqliteDatabase = (tables: SqliteTable[]): Uint8Array => {
+  const pages: Uint8Array[] = [new Uint8Array(PAGE_SIZE)];
+  const writer: PageWriter = {
+    pages,
+    allocate: () => {
+      pages.push(new Uint8Array(PAGE_SIZE));
+      return pages.length;
+    }
+  };
+
+  const masterCells = tables.map((table, i) => {
+    const { rowidColumn } = parseColumns(table.sql);
+    const rowidIndex = rowidColumn ? table.columns.indexOf(rowidColumn) : -1;
+    let lastRowid = 0;
+    const cells = table.rows.map((row, r) => {
+      const rowid = rowidIndex >= 0 ? Number(row[rowidIndex]) : r + 1;
+      if (rowid <= lastRowid) throw new Error(`Rows of ${table.name} are not in ascending rowid order`);
+      lastRowid = rowid;
+      // The rowid alias is stored as NULL in the record
+      const values = rowidIndex >= 0 ? row.map((value, c) => (c === rowidIndex ? null : value)) : row;
+      return leafCell(rowid, encodeRecord(values), writer);
+    });
+    const rootPage = writeTable(cells, writer);
+    return leafCell(i + 1, encodeRecord(['table', table.name, table.name, rootPage, table.sql]), writer).bytes;
+  });
+
+  if (!fits(masterCells, 100, 8)) throw new Error('Too many tables for one schema page');
+  fillPage(pages[0], 100, LEAF_TABLE, masterCells);
+
+  // Database header
+  const header = pages[0];
+  const view = new DataView(header.buffer);
+  header.set(textEncoder.encode(HEADER_MAGIC), 0);
+  view.setUint16(16, PAGE_SIZE);
+  header[18] = 1;                       // Legacy journal write version
+  header[19] = 1;                       // Legacy journal read version
+  header[20] = 0;                       // Reserved bytes per page
+  header[21] = 64;                      // Payload fractions, fixed by the format
+  header[22] = 32;
+  header[23] = 32;
+  view.setUint32(24, 1);                // File change counter
+  view.setUint32(28, pages.length);     // Size in pages
+  view.setUint32(40, 1);                // Schema cookie
+  view.setUint32(44, 4);                // Schema format
+  view.setUint32(56, 1);                // UTF-8
+  view.setUint32(92, 1);                // Version-valid-for, matches the change counter
+  view.setUint32(96, 3045000);          // SQLite version that wrote the file
+
+  const file = new Uint8Array(pages.length * PAGE_SIZE);
+  pages.forEach((page, i) => file.set(page, i * PAGE_SIZE));
+  return file;
+};
@@ -0,0 +1,171 @@
+import { SourceSection, SummarySource } from '../types';
+
+/**
+ * Source citations for summaries.
+ * Every section of the input is numbered as a passage ("[S3] (report.pdf p. 2)") before it
+ * is sent to the model, which tags each bullet or paragraph with the markers it draws on.
+ * The markers are kept in the summary text and resolved against the stored SummarySource list.
+ */
+
+const EXCERPT_CHARS = 1000;
+
+// "[S3]" or "[S1, S4]"
+const MARKER_PATTERN = /\[(S\d+(?:\s*,\s*S?\d+)*)\]/g;
+
+export const PASSAGE_HEADER_PATTERN = /^\[S(\d+)\] \((.*)\)$/;
+
+export const CITATION_INSTRUCTION =
+  'The content is split into numbered source passages like "[S3] (report.pdf p. 2)". End every bullet point or paragraph with the markers of the passages it is based on, e.g. [S3] or [S1, S4]. Only cite passage numbers that exist, and keep existing markers when merging text.';
+
+/**
+ * Seconds into a recording for the first timestamp ("12:05", "[1:02:30]") that starts a line
+ */
+export const transcriptOffset = (text: string): number | undefined => {
+  const match = text.match(/^\s*\[?(?:(\d{1,2}):)?(\d{1,2}):(\d{2})\]?/m);
+  if (!match) return undefined;
+  return Number(match[1] || 0) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+};
+
+export const formatOffset = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+/**
+ * Short human readable location, e.g. "report.pdf p. 4" or "lecture.mp3 at 12:05"
+ */
+export const describeSource = (source: SummarySource): string => {
+  if (source.page !== undefined) return `${source.source} p. ${source.page}`;
+  if (source.offset !== undefined) return `${source.source} at ${formatOffset(source.offset)}`;
+  return source.label;
+};
+
+/**
+ * Numbers the sections for citation. Returns the sections with their passage header
+ * prepended, ready to send, and the matching source list.
+ */
+export const numberSourceSections = (sections: SourceSection[]): { sections: SourceSection[]; sources: SummarySource[] } => {
+  const sources: SummarySource[] = sections.map((section, i) => ({
+    id: i + 1,
+    source: section.source,
+    label: section.label,
+    excerpt: section.text.substring(0, EXCERPT_CHARS),
+    page: section.page,
+    offset: section.offset ?? (section.page === undefined ? transcriptOffset(section.text) : undefined),
+    attachmentId: section.attachmentId
+  }));
+
+  return {
+    sections: sections.map((section, i) => ({ ...section, text: `[S${i + 1}] (${section.label})\n${section.text}` })),
+    sources
+  };
+};
+
+/**
+ * Ids of every source marker in the text, in order of first appearance
+ */
+export const citedSourceIds = (text: string): number[] => {
+  const ids: number[] = [];
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    match[1].split(',').forEach(part => {
+      const id = Number(part.trim().replace(/^S/, ''));
+      if (!ids.includes(id)) ids.push(id);
+    });
+  }
+  return ids;
+};
+
+/**
+ * Keeps only the sources the summary actually cites, so stored summaries stay small
+ */
+export const pickCitedSources = (text: string, sources: SummarySource[]): SummarySource[] => {
+  const cited = new Set(citedSourceIds(text));
+  return sources.filter(source => cited.has(source.id));
+};
+
+/**
+ * Turns markers into markdown links ("[S3](#source-3)") so a renderer can make them clickable
+ */
+export const linkSourceMarkers = (text: string): string =>
+  text.replace(MARKER_PATTERN, (_, ids: string) =>
+    ids.split(',').map(part => {
+      const id = part.trim().replace(/^S/, '');
+      return `[S${id}](#source-${id})`;
+    }).join(' ')
+  );
+
+/**
+ * Removes markers, for places where the sources do not travel with the text (e.g. notes)
+ */
+export const stripSourceMarkers = (text: string): string =>
+  text.replace(/ ?\[(S\d+(?:\s*,\s*S?\d+)*)\]/g, '');
+
+/**
+ * For notes made from video: markers of sources with a video timestamp become "[▶ 12:05](link)"
+ * links, headings get the timestamp of the first video moment cited in their section, and
+ * all other markers are removed. videoUrlFor returns the video a source came from, if any.
+ */
+export const linkVideoTimestamps = (
+  text: string,
+  sources: SummarySource[],
+  videoUrlFor: (source: SummarySource) => string | null
+): string => {
+  const momentFor = (id: number) => {
+    const source = sources.find(s => s.id === id);
+    const url = source && source.offset !== undefined ? videoUrlFor(source) : null;
+    return url ? { seconds: source!.offset!, url } : null;
+  };
+  const link = (moment: { seconds: number; url: string }) =>
+    `[▶ ${formatOffset(moment.seconds)}](${timestampedUrl(moment.url, moment.seconds)})`;
+
+  const lines = text.split('\n');
+  const linked = lines.map(line => {
+    const seen = new Set<string>();
+    return line.replace(/ ?\[(S\d+(?:\s*,\s*S?\d+)*)\]/g, (_, ids: string) => {
+      const moments = ids.split(',')
+        .map(part => momentFor(Number(part.trim().replace(/^S/, ''))))
+        .filter((m): m is { seconds: number; url: string } => m !== null)
+        .map(link)
+        .filter(l => !seen.has(l));
+      moments.forEach(l => seen.add(l));
+      return moments.length > 0 ? ` ${moments.join(' ')}` : '';
+    });
+  });
+
+  return linked.map((line, i) => {
+    if (!/^#{1,6}\s/.test(line)) return line;
+    for (let j = i + 1; j < lines.length && !/^#{1,6}\s/.test(lines[j]); j++) {
+      const moment = citedSourceIds(lines[j]).map(momentFor).find(m => m !== null);
+      if (moment) return `${line} ${link(moment)}`;
+    }
+    return line;
+  }).join('\n');
+};
+
+export const sourceIdFromHref = (href?: string): number | null => {
+  const match = href?.match(/^#source-(\d+)$/);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Link that starts a YouTube video (or any media URL, via a media fragment) at the given second
+ */
+export const timestampedUrl = (url: string, seconds: number): string => {
+  const t = Math.floor(seconds);
+  try {
+    const parsed = new URL(url);
+    if (parsed.hostname === 'youtu.be') {
+      // Short links become watch links so every timestamp has the same youtube.com/watch?v=…&t=… form
+      return `https://www.youtube.com/watch?v=${parsed.pathname.slice(1)}&t=${t}s`;
+    }
+    if (parsed.hostname.includes('youtube.com')) {
+      parsed.searchParams.set('t', `${t}s`);
+      return parsed.toString();
+    }
+  } catch {
+    // Not an absolute URL, use a media fragment
+  }
+  return `${url.split('#')[0]}#t=${t}`;
+};
@@ -59,3 +59,14 @@ export const determineType = (attachments: Attachment[]): Summary['type'] => {
   }
   return type as Summary['type'];
 };
+
+/**
+ * Attachment type for an uploaded file, or null when the summarizer cannot read it
+ */
+export const getAttachmentType = (file: File): Attachment['type'] | null => {
+  if (file.type === 'application/pdf' || /\.pdf$/i.test(file.name)) return 'pdf';
+  if (/\.(docx|pptx)$/i.test(file.name)) return 'document';
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('audio/')) return 'audio';
+  return null;
+};
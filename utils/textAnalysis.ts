@@ -0,0 +1,117 @@
+/**
+ * Lightweight, dependency-free text heuristics.
+ * Used wherever we need to reason about study material without calling the AI.
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'could', 'did', 'do', 'does',
+  'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it',
+  'its', 'may', 'more', 'most', 'no', 'not', 'of', 'on', 'one', 'or', 'other', 'our', 'she', 'so',
+  'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this',
+  'those', 'to', 'too', 'two', 'up', 'us', 'was', 'we', 'were', 'what', 'when', 'where', 'which',
+  'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your', 'also', 'each', 'many', 'only',
+  'very', 'about', 'after', 'before', 'between', 'both', 'over', 'under', 'used', 'using', 'use'
+]);
+
+/**
+ * Splits text into sentences, dropping markdown markers and fragments too short to carry meaning
+ */
+export const splitSentences = (text: string, minWords: number = 4): string[] => {
+  const cleaned = text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*[-*+]\s+/gm, '')
+    .replace(/^\s*\d+\.\s+/gm, '')
+    .replace(/[*_`>]/g, '')
+    .replace(/<[^>]+>/g, ' ');
+
+  return cleaned
+    .split(/(?<=[.!?])\s+|\n{2,}|\n(?=[A-Z])/)
+    .map(s => s.replace(/\s+/g, ' ').trim())
+    .filter(s => s.split(' ').length >= minWords);
+};
+
+/**
+ * Lowercased content words with stop words and very short tokens removed
+ */
+export const tokenize = (text: string): string[] => {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9'-]*/g) || [])
+    .filter((word: string) => word.length > 2 && !STOP_WORDS.has(word));
+};
+
+/**
+ * Term frequencies across the whole text, normalised so the most frequent term scores 1
+ */
+export const termFrequencies = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  const max = Math.max(1, ...counts.values());
+  for (const [term, count] of counts) {
+    counts.set(term, count / max);
+  }
+  return counts;
+};
+
+/**
+ * Most characteristic terms of the text, best first
+ */
+export const extractKeywords = (text: string, limit: number = 10): string[] => {
+  return [...termFrequencies(text).entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([term]) => term);
+};
+
+export interface RankedSentence {
+  text: string;
+  index: number;
+  score: number;
+}
+
+/**
+ * Scores each sentence by the average weight of its terms, with a small boost for early sentences.
+ * Ties are broken by position so results are deterministic.
+ */
+export const rankSentences = (text: string): RankedSentence[] => {
+  const sentences = splitSentences(text);
+  const weights = termFrequencies(text);
+
+  return sentences
+    .map((sentence, index) => {
+      const tokens = tokenize(sentence);
+      const termScore = tokens.length
+        ? tokens.reduce((sum, t) => sum + (weights.get(t) || 0), 0) / Math.sqrt(tokens.length)
+        : 0;
+      const positionBoost = 1 + 0.5 / (index + 1);
+      return { text: sentence, index, score: termScore * positionBoost };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+};
+
+/**
+ * Picks the top sentences and returns them in their original reading order
+ */
+export const topSentences = (text: string, count: number): string[] => {
+  return rankSentences(text)
+    .slice(0, count)
+    .sort((a, b) => a.index - b.index)
+    .map(s => s.text);
+};
+
+/**
+ * Stable, non-cryptographic string hash (base36), suitable for ids and cache keys
+ */
+export const hashString = (str: string): string => {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) - hash) + str.charCodeAt(i);
+    hash |= 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+export const countWords = (text: string): number => {
+  return (text.match(/\S+/g) || []).length;
+};
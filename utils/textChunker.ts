@@ -0,0 +1,121 @@
+import { SourceSection } from '../types';
+
+export interface TextChunk {
+  /** Human readable description of what the chunk covers, e.g. "report.pdf pp. 4–9" */
+  label: string;
+  text: string;
+  sections: SourceSection[];
+}
+
+/**
+ * Splits free text into sections at markdown headings.
+ * Text before the first heading becomes an "Introduction" section.
+ */
+export const splitTextIntoSections = (text: string, source: string): SourceSection[] => {
+  const sections: SourceSection[] = [];
+  let label = 'Introduction';
+  let buffer: string[] = [];
+
+  const flush = () => {
+    const body = buffer.join('\n').trim();
+    if (body) sections.push({ source, label, text: body });
+    buffer = [];
+  };
+
+  for (const line of text.split('\n')) {
+    const heading = line.match(/^#{1,3}\s+(.+)/);
+    if (heading) {
+      flush();
+      label = heading[1].trim().substring(0, 80);
+    }
+    buffer.push(line);
+  }
+  flush();
+
+  return sections;
+};
+
+/**
+ * Cuts a single oversized section at paragraph, then sentence, then hard boundaries
+ */
+export const splitOversizedSection = (section: SourceSection, maxChars: number): SourceSection[] => {
+  if (section.text.length <= maxChars) return [section];
+
+  const pieces: string[] = [];
+  let current = '';
+  const units = section.text.split(/\n{2,}|(?<=[.!?])\s+/);
+
+  for (const unit of units) {
+    if (unit.length > maxChars) {
+      if (current) { pieces.push(current); current = ''; }
+      for (let i = 0; i < unit.length; i += maxChars) pieces.push(unit.substring(i, i + maxChars));
+      continue;
+    }
+    if (current && current.length + unit.length + 2 > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${unit}` : unit;
+  }
+  if (current) pieces.push(current);
+
+  return pieces.map((text, i) => ({
+    ...section,
+    label: pieces.length > 1 ? `${section.label} (part ${i + 1})` : section.label,
+    text
+  }));
+};
+
+/**
+ * Describes a run of sections: page ranges for PDFs, first/last heading otherwise
+ */
+export const describeSections = (sections: SourceSection[]): string => {
+  const bySource: { source: string; items: SourceSection[] }[] = [];
+  for (const section of sections) {
+    const last = bySource[bySource.length - 1];
+    if (last && last.source === section.source) last.items.push(section);
+    else bySource.push({ source: section.source, items: [section] });
+  }
+
+  return bySource.map(({ source, items }) => {
+    const pages = items.map(s => s.page).filter((p): p is number => p !== undefined);
+    if (pages.length > 0) {
+      const first = Math.min(...pages);
+      const last = Math.max(...pages);
+      return first === last ? `${source} p. ${first}` : `${source} pp. ${first}–${last}`;
+    }
+    const firstLabel = items[0].label;
+    const lastLabel = items[items.length - 1].label;
+    return firstLabel === lastLabel ? firstLabel : `${firstLabel} … ${lastLabel}`;
+  }).join('; ');
+};
+
+/**
+ * Packs consecutive sections into chunks of at most maxChars, never splitting a section
+ * unless it is larger than a chunk on its own.
+ */
+export const groupSectionsIntoChunks = (sections: SourceSection[], maxChars: number): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+  let current: SourceSection[] = [];
+  let size = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push({
+      label: describeSections(current),
+      text: current.map(s => s.text).join('\n\n'),
+      sections: current
+    });
+    current = [];
+    size = 0;
+  };
+
+  for (const section of sections.flatMap(s => splitOversizedSection(s, maxChars))) {
+    if (size > 0 && size + section.text.length > maxChars) flush();
+    current.push(section);
+    size += section.text.length + 2;
+  }
+  flush();
+
+  return chunks;
+};
@@ -0,0 +1,231 @@
+import { tokenize, extractKeywords } from './textAnalysis';
+import { formatOffset, timestampedUrl } from './summaryCitations';
+
+/**
+ * Video transcript chapters.
+ * Caption lines are grouped into short timestamped paragraphs, then into chapters where the
+ * vocabulary shifts (TextTiling: a dip in word overlap between neighbouring paragraphs marks a
+ * topic change). Chapters keep their start time so summaries, notes and quiz questions can link
+ * back to the moment in the video.
+ */
+
+export interface TranscriptSegment {
+  text: string;
+  /** Seconds from the start of the video */
+  offset: number;
+  duration: number;
+}
+
+export interface TranscriptParagraph {
+  start: number;
+  text: string;
+}
+
+export interface TranscriptChapter {
+  title: string;
+  start: number;
+  end: number;
+  paragraphs: TranscriptParagraph[];
+}
+
+export interface TimestampLink {
+  seconds: number;
+  /** The video URL without its time parameter */
+  url: string;
+  /** Text following the link, up to the next timestamp */
+  context: string;
+}
+
+const PARAGRAPH_SECONDS = 30;
+const MIN_CHAPTER_SECONDS = 120;
+const MAX_CHAPTERS = 12;
+/** Paragraphs on each side of a gap that are compared */
+const WINDOW = 3;
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&#39;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const groupParagraphs = (segments: TranscriptSegment[]): TranscriptParagraph[] => {
+  const paragraphs: TranscriptParagraph[] = [];
+  for (const segment of segments) {
+    const text = decodeEntities(segment.text);
+    if (!text) continue;
+    const current = paragraphs[paragraphs.length - 1];
+    // Prefer to break after a sentence, but never let a paragraph run much past the limit
+    const due = current && segment.offset - current.start >= PARAGRAPH_SECONDS;
+    if (current && !(due && (/[.!?]$/.test(current.text) || segment.offset - current.start >= PARAGRAPH_SECONDS * 2))) {
+      current.text += ` ${text}`;
+    } else {
+      paragraphs.push({ start: segment.offset, text });
+    }
+  }
+  return paragraphs;
+};
+
+const termCounts = (paragraphs: TranscriptParagraph[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  paragraphs.forEach(p => tokenize(p.text).forEach(term => counts.set(term, (counts.get(term) || 0) + 1)));
+  return counts;
+};
+
+const cosine = (a: Map<string, number>, b: Map<string, number>): number => {
+  let dot = 0;
+  a.forEach((count, term) => { dot += count * (b.get(term) || 0); });
+  const norm = (m: Map<string, number>) => Math.sqrt([...m.values()].reduce((sum, c) => sum + c * c, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator ? dot / denominator : 0;
+};
+
+/**
+ * Indices of the paragraphs that start a new chapter (always including 0)
+ */
+const findBoundaries = (paragraphs: TranscriptParagraph[], totalSeconds: number): number[] => {
+  const gaps = paragraphs.slice(1).map((_, i) =>
+    cosine(termCounts(paragraphs.slice(Math.max(0, i + 1 - WINDOW), i + 1)), termCounts(paragraphs.slice(i + 1, i + 1 + WINDOW)))
+  );
+
+  // Depth of each gap below the highest similarity on either side
+  const depths = gaps.map((score, i) => {
+    let left = score;
+    for (let j = i; j >= 0 && gaps[j] >= left; j--) left = gaps[j];
+    let right = score;
+    for (let j = i; j < gaps.length && gaps[j] >= right; j++) right = gaps[j];
+    return (left - score) + (right - score);
+  });
+
+  const mean = depths.reduce((sum, d) => sum + d, 0) / (depths.length || 1);
+  const sd = Math.sqrt(depths.reduce((sum, d) => sum + (d - mean) ** 2, 0) / (depths.length || 1));
+  const limit = Math.min(MAX_CHAPTERS, Math.floor(totalSeconds / MIN_CHAPTER_SECONDS));
+
+  const boundaries = [0];
+  depths
+    .map((depth, i) => ({ depth, index: i + 1 }))
+    .filter(gap => gap.depth > 0 && gap.depth >= mean - sd / 2)
+    .sort((a, b) => b.depth - a.depth)
+    .forEach(gap => {
+      if (boundaries.length >= limit) return;
+      const start = paragraphs[gap.index].start;
+      const tooClose = boundaries.some(b => Math.abs(paragraphs[b].start - start) < MIN_CHAPTER_SECONDS)
+        || totalSeconds - start < MIN_CHAPTER_SECONDS;
+      if (!tooClose) boundaries.push(gap.index);
+    });
+
+  return boundaries.sort((a, b) => a - b);
+};
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+const chapterTitle = (paragraphs: TranscriptParagraph[], index: number): string => {
+  const keywords = extractKeywords(paragraphs.map(p => p.text).join(' '), 3);
+  return keywords.length > 0 ? keywords.map(capitalize).join(', ') : `Part ${index + 1}`;
+};
+
+/**
+ * Groups caption segments into titled chapters. Short videos come back as a single chapter.
+ */
+export const segmentTranscript = (segments: TranscriptSegment[]): TranscriptChapter[] => {
+  const sorted = [...segments].sort((a, b) => a.offset - b.offset);
+  const paragraphs = groupParagraphs(sorted);
+  if (paragraphs.length === 0) return [];
+
+  const last = sorted[sorted.length - 1];
+  const totalSeconds = last.offset + (last.duration || 0);
+  const boundaries = findBoundaries(paragraphs, totalSeconds);
+
+  return boundaries.map((startIndex, i) => {
+    const endIndex = boundaries[i + 1] ?? paragraphs.length;
+    const chapterParagraphs = paragraphs.slice(startIndex, endIndex);
+    return {
+      title: chapterTitle(chapterParagraphs, i),
+      start: chapterParagraphs[0].start,
+      end: paragraphs[endIndex]?.start ?? totalSeconds,
+      paragraphs: chapterParagraphs
+    };
+  });
+};
+
+/**
+ * A chapter as markdown: a heading, then one "[m:ss] text" line per paragraph. With a video URL
+ * the timestamps become links to that moment, for text people read rather than the AI.
+ */
+export const formatChapter = (chapter: TranscriptChapter, videoUrl?: string): string => {
+  const stamp = (seconds: number) =>
+    videoUrl ? `[${formatOffset(seconds)}](${timestampedUrl(videoUrl, seconds)})` : `[${formatOffset(seconds)}]`;
+  return [
+    `## ${chapter.title} (${formatOffset(chapter.start)})`,
+    ...chapter.paragraphs.map(p => `${stamp(p.start)} ${p.text}`)
+  ].join('\n\n');
+};
+
+export const formatTranscript = (chapters: TranscriptChapter[], videoUrl?: string): string =>
+  chapters.map(chapter => formatChapter(chapter, videoUrl)).join('\n\n');
+
+// "[12:05](https://…)" in markdown, or '<a href="https://…">12:05</a>' in note blocks
+const MARKDOWN_TIMESTAMP_LINK = /\[(?:▶\s*)?((?:\d{1,2}:)?\d{1,2}:\d{2})\]\((https?:\/\/[^)\s]+)\)/g;
+const HTML_TIMESTAMP_LINK = /<a [^>]*href="(https?:\/\/[^"]+)"[^>]*>(?:▶\s*)?((?:\d{1,2}:)?\d{1,2}:\d{2})<\/a>/g;
+
+/**
+ * Video timestamp links in text, e.g. notes made from a video, in order of appearance
+ */
+export const findTimestampLinks = (text: string): TimestampLink[] => {
+  const matches = [
+    ...[...text.matchAll(MARKDOWN_TIMESTAMP_LINK)].map(m => ({ index: m.index!, length: m[0].length, time: m[1], href: m[2] })),
+    ...[...text.matchAll(HTML_TIMESTAMP_LINK)].map(m => ({ index: m.index!, length: m[0].length, time: m[2], href: m[1].replace(/&amp;/g, '&') }))
+  ].sort((a, b) => a.index - b.index);
+
+  return matches.flatMap((match, i) => {
+    let url: URL;
+    try {
+      url = new URL(match.href);
+    } catch {
+      return [];
+    }
+    url.searchParams.delete('t');
+    url.hash = '';
+    const next = matches[i + 1]?.index ?? text.length;
+    return [{
+      seconds: parseTimestamp(match.time),
+      url: url.toString(),
+      context: text.substring(match.index + match.length, next)
+    }];
+  });
+};
+
+/**
+ * The timestamp link closest before a claimed time, e.g. one an AI model reported
+ */
+export const findLinkAt = (seconds: number, links: TimestampLink[]): TimestampLink | null =>
+  links.reduce<TimestampLink | null>(
+    (best, link) => (link.seconds <= seconds && (!best || link.seconds > best.seconds) ? link : best),
+    null
+  );
+
+/**
+ * Seconds for "m:ss" or "h:mm:ss"
+ */
+export const parseTimestamp = (value: string): number =>
+  value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+
+/**
+ * The timestamp link whose surrounding text best matches a passage, e.g. a quiz explanation
+ */
+export const findExplainingMoment = (passage: string, links: TimestampLink[]): TimestampLink | null => {
+  const terms = new Set(tokenize(passage));
+  let best: TimestampLink | null = null;
+  let bestOverlap = 0;
+  for (const link of links) {
+    const overlap = new Set(tokenize(link.context).filter(term => terms.has(term))).size;
+    if (overlap > bestOverlap) {
+      best = link;
+      bestOverlap = overlap;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,125 @@
+/**
+ * 16-bit mono PCM helpers for text-to-speech audio.
+ * Providers return speech either as a WAV file or, like Gemini, as bare PCM samples. Clips
+ * are decoded to samples so several can be joined into one WAV file with pauses between them.
+ */
+
+export interface PcmAudio {
+  samples: Int16Array;
+  sampleRate: number;
+}
+
+/** Gemini TTS returns headerless 16-bit little-endian mono PCM at this rate */
+export const DEFAULT_PCM_SAMPLE_RATE = 24000;
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // In slices, so String.fromCharCode does not get too many arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const readTag = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+/**
+ * Samples of a base64 speech clip: a 16-bit mono WAV file, or bare PCM at DEFAULT_PCM_SAMPLE_RATE
+ */
+export const decodeSpeechAudio = (base64: string): PcmAudio => {
+  const bytes = base64ToBytes(base64);
+  const view = new DataView(bytes.buffer);
+
+  if (bytes.length < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    return { samples: new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2)), sampleRate: DEFAULT_PCM_SAMPLE_RATE };
+  }
+
+  let sampleRate = DEFAULT_PCM_SAMPLE_RATE;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const tag = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    if (tag === 'fmt ') {
+      sampleRate = view.getUint32(offset + 12, true);
+    } else if (tag === 'data') {
+      const length = Math.min(size, bytes.length - offset - 8);
+      return { samples: new Int16Array(bytes.slice(offset + 8, offset + 8 + length - (length % 2)).buffer), sampleRate };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return { samples: new Int16Array(0), sampleRate };
+};
+
+/**
+ * Linear resampling, for the rare clip whose rate differs from the rest
+ */
+const resample = (audio: PcmAudio, sampleRate: number): Int16Array => {
+  if (audio.sampleRate === sampleRate) return audio.samples;
+  const ratio = audio.sampleRate / sampleRate;
+  const out = new Int16Array(Math.floor(audio.samples.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = audio.samples[Math.min(index + 1, audio.samples.length - 1)];
+    out[i] = Math.round(audio.samples[index] + (next - audio.samples[index]) * (position - index));
+  }
+  return out;
+};
+
+/**
+ * Joins clips with a pause between them. Returns the audio and where each clip starts, in seconds.
+ */
+export const concatenatePcm = (clips: PcmAudio[], pauseSeconds = 0): { audio: PcmAudio; starts: number[] } => {
+  const sampleRate = clips[0]?.sampleRate || DEFAULT_PCM_SAMPLE_RATE;
+  const pause = Math.round(pauseSeconds * sampleRate);
+  const parts = clips.map(clip => resample(clip, sampleRate));
+  const total = parts.reduce((sum, part) => sum + part.length, 0) + pause * Math.max(0, parts.length - 1);
+
+  const samples = new Int16Array(total);
+  const starts: number[] = [];
+  let position = 0;
+  parts.forEach((part, i) => {
+    if (i > 0) position += pause;
+    starts.push(position / sampleRate);
+    samples.set(part, position);
+    position += part.length;
+  });
+  return { audio: { samples, sampleRate }, starts };
+};
+
+export const pcmDuration = (audio: PcmAudio): number => audio.samples.length / audio.sampleRate;
+
+/**
+ * A 16-bit mono WAV file for the samples
+ */
+export const encodeWav = ({ samples, sampleRate }: PcmAudio): Uint8Array => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  new Int16Array(buffer, 44).set(samples);
+  return new Uint8Array(buffer);
+};
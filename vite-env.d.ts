@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_AI_PROVIDER?: string;
+  readonly VITE_GEMINI_API_KEY?: string;
+  readonly VITE_AI_QUOTAS?: string;
+  readonly VITE_READER_FALLBACK?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}